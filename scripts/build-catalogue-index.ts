@@ -0,0 +1,51 @@
+/**
+ * Catalogue Index Build Script
+ *
+ * Rebuilds public/data/models.json from public/data/models/*.json
+ * Usage: npm run build-index [-- --check] [-- --prune]
+ *
+ *   --check  Verify models.json is up to date without writing it
+ *   --prune  Drop index entries that have no model file instead of failing
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildCatalogueIndex, serializeCatalogueIndex } from './lib/catalogue-index';
+
+const args = process.argv.slice(2);
+const checkOnly = args.includes('--check');
+const prune = args.includes('--prune');
+
+const dataDir = path.resolve('public/data');
+const imagesDir = path.resolve('public/images');
+const indexPath = path.join(dataDir, 'models.json');
+
+console.log('\n📚 Building catalogue index...\n');
+
+const { index, errors, warnings } = buildCatalogueIndex({ dataDir, imagesDir, prune });
+
+warnings.forEach((warning) => console.warn(`⚠️  ${warning}`));
+
+if (errors.length > 0) {
+  console.error(`\n❌ Error: ${errors.length} problem(s) found:\n`);
+  errors.forEach((error) => console.error(`  - ${error}`));
+  process.exit(1);
+}
+
+const output = serializeCatalogueIndex(index);
+const current = fs.existsSync(indexPath) ? fs.readFileSync(indexPath, 'utf8') : '';
+
+if (checkOnly) {
+  if (output !== current) {
+    console.error('❌ Error: models.json is out of date. Run `npm run build-index` to rebuild it.');
+    process.exit(1);
+  }
+  console.log('✅ models.json is up to date');
+  process.exit(0);
+}
+
+fs.writeFileSync(indexPath, output);
+
+console.log(`✅ Wrote ${path.relative(process.cwd(), indexPath)}`);
+console.log(`   ${index.totalModels} model(s), ${index.categories.length} categor${index.categories.length === 1 ? 'y' : 'ies'}`);
+console.log(`   Last updated: ${index.lastUpdated}\n`);
@@ -0,0 +1,196 @@
+/**
+ * Catalogue Index Builder
+ *
+ * Derives public/data/models.json from the individual model files in
+ * public/data/models/ and the category registry in public/data/categories.json.
+ * Shared by the build-catalogue-index CLI and the local data server.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CatalogueIndex, Category, ModelSummary } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import {
+  formatValidationErrors,
+  validateCatalogueIndex,
+  validateProductModel,
+} from '@/services/validationService';
+import { createModelSummary } from '@/utils/catalogueIndex';
+import { countModelMarkers, getPrimaryImage } from '@/utils/modelViews';
+
+export interface BuildIndexOptions {
+  dataDir: string; // Directory holding models.json, categories.json and models/
+  imagesDir: string; // Directory holding models/<id>-thumb.* thumbnails
+  prune?: boolean; // Drop index entries that have no model file instead of failing
+}
+
+export interface BuildIndexResult {
+  index: CatalogueIndex;
+  errors: string[];
+  warnings: string[];
+}
+
+const THUMBNAIL_EXTENSIONS = ['webp', 'jpg', 'jpeg', 'png'];
+
+function readJson(filePath: string): unknown {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * Read the existing index, if any, so hand-tuned fields (thumbnails, version) survive a rebuild
+ */
+function readExistingIndex(indexPath: string): Partial<CatalogueIndex> | null {
+  if (!fs.existsSync(indexPath)) return null;
+
+  try {
+    return readJson(indexPath) as Partial<CatalogueIndex>;
+  } catch {
+    return null;
+  }
+}
+
+function findThumbnail(imagesDir: string, modelId: string): string | null {
+  for (const ext of THUMBNAIL_EXTENSIONS) {
+    const fileName = `${modelId}-thumb.${ext}`;
+    if (fs.existsSync(path.join(imagesDir, 'models', fileName))) {
+      return `/images/models/${fileName}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the catalogue index from model files
+ * @param options - Data locations and pruning behaviour
+ * @returns The rebuilt index plus any errors and warnings found on the way
+ */
+export function buildCatalogueIndex(options: BuildIndexOptions): BuildIndexResult {
+  const { dataDir, imagesDir, prune = false } = options;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const modelsDir = path.join(dataDir, 'models');
+  const indexPath = path.join(dataDir, 'models.json');
+  const categoriesPath = path.join(dataDir, 'categories.json');
+
+  // Category registry
+  let registry: Category[] = [];
+  if (fs.existsSync(categoriesPath)) {
+    registry = readJson(categoriesPath) as Category[];
+  } else {
+    errors.push(`Category registry not found: ${categoriesPath}`);
+  }
+  const registryIds = new Set(registry.map((category) => category.id));
+
+  const existing = readExistingIndex(indexPath);
+  const existingById = new Map((existing?.models ?? []).map((model) => [model.id, model]));
+
+  const files = fs.existsSync(modelsDir)
+    ? fs.readdirSync(modelsDir).filter((file) => file.endsWith('.json')).sort()
+    : [];
+
+  const summaries: ModelSummary[] = [];
+  const usedCategoryIds = new Set<string>();
+  const updatedTimestamps: string[] = [];
+
+  for (const file of files) {
+    const fileId = path.basename(file, '.json');
+    let raw: unknown;
+
+    try {
+      raw = readJson(path.join(modelsDir, file));
+    } catch (error) {
+      errors.push(`${file}: invalid JSON (${(error as Error).message})`);
+      continue;
+    }
+
+    let model;
+    try {
+      ({ model } = migrateModel(raw));
+    } catch (error) {
+      errors.push(`${file}: migration failed (${(error as Error).message})`);
+      continue;
+    }
+
+    const validation = validateProductModel(model, registryIds);
+    if (!validation.valid) {
+      formatValidationErrors(validation.errors ?? []).forEach((line) => errors.push(`${file}: ${line}`));
+      continue;
+    }
+
+    if (model.id !== fileId) {
+      errors.push(`${file}: model id "${model.id}" does not match file name`);
+      continue;
+    }
+
+    // Only trust timestamps that are actually stored in the file
+    const rawUpdatedAt = (raw as { metadata?: { updatedAt?: unknown } }).metadata?.updatedAt;
+    if (typeof rawUpdatedAt === 'string') {
+      updatedTimestamps.push(rawUpdatedAt);
+    }
+
+    model.categoryIds.forEach((categoryId) => usedCategoryIds.add(categoryId));
+
+    const previous = existingById.get(model.id);
+    const thumbnailUrl =
+      previous?.thumbnailUrl || findThumbnail(imagesDir, model.id) || getPrimaryImage(model).url;
+
+    // Files without metadata are stamped with the migration time, which changes on every build
+    const { updatedAt, ...summary } = createModelSummary(model, `/data/models/${file}`, thumbnailUrl);
+    summaries.push(typeof rawUpdatedAt === 'string' ? { ...summary, updatedAt } : summary);
+
+    const posmCount = countModelMarkers(model);
+    if (previous && previous.posmCount !== posmCount) {
+      warnings.push(`${model.id}: posmCount ${previous.posmCount} -> ${posmCount}`);
+    }
+    if (previous && previous.name !== model.name) {
+      warnings.push(`${model.id}: name "${previous.name}" -> "${model.name}"`);
+    }
+  }
+
+  // Index entries without a model file
+  const fileIds = new Set(summaries.map((summary) => summary.id));
+  existingById.forEach((_, modelId) => {
+    if (fileIds.has(modelId) || files.includes(`${modelId}.json`)) return;
+
+    const message = `${modelId}: listed in models.json but has no model file`;
+    if (prune) {
+      warnings.push(`${message} (pruned)`);
+    } else {
+      errors.push(`${message} (run with --prune to drop it)`);
+    }
+  });
+
+  registry
+    .filter((category) => !usedCategoryIds.has(category.id))
+    .forEach((category) => warnings.push(`Category "${category.id}" is not used by any model`));
+
+  const lastUpdated =
+    updatedTimestamps.sort().at(-1) ?? existing?.lastUpdated ?? new Date().toISOString();
+
+  const index: CatalogueIndex = {
+    version: existing?.version ?? '1.0.0',
+    lastUpdated,
+    totalModels: summaries.length,
+    categories: registry.filter((category) => usedCategoryIds.has(category.id)),
+    models: summaries,
+  };
+
+  const indexValidation = validateCatalogueIndex(JSON.parse(JSON.stringify(index)));
+  if (!indexValidation.valid) {
+    formatValidationErrors(indexValidation.errors ?? []).forEach((line) =>
+      errors.push(`models.json: ${line}`)
+    );
+  }
+
+  return { index, errors, warnings };
+}
+
+/**
+ * Serialize an index the way it is stored on disk
+ * @param index - Catalogue index
+ * @returns Pretty-printed JSON with trailing newline
+ */
+export function serializeCatalogueIndex(index: CatalogueIndex): string {
+  return `${JSON.stringify(index, null, 2)}\n`;
+}
@@ -0,0 +1,502 @@
+/**
+ * Catalogue File Store
+ *
+ * Reads and writes the JSON files under public/data for the local data server.
+ * Every write goes to a temporary file first and is renamed into place, so a
+ * crash never leaves a half-written model behind. The catalogue index is
+ * regenerated after each change.
+ *
+ * Each published change to a model also stores an immutable revision under
+ * the revisions directory (one file per revision, never overwritten).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  Campaign,
+  CatalogueIndex,
+  Category,
+  ModelRevision,
+  ModelRevisionSummary,
+  POSMMarker,
+  PriceTable,
+  ProductModel,
+  Store,
+} from '@/types';
+import { migrateCampaigns, migrateModel } from '@/services/migrationService';
+import { getModelMarkers, getPrimaryView, setViewMarkers } from '@/utils/modelViews';
+import {
+  campaignSchema,
+  categorySchema,
+  formatValidationErrors,
+  priceTableSchema,
+  storeSchema,
+  validateProductModel,
+} from '@/services/validationService';
+import { bumpVersion, determineVersionBump } from '@/utils/modelDiff';
+import { removeModelFromStores } from '@/utils/stores';
+import { validateSchema } from '@/utils/schema';
+import { buildCatalogueIndex, serializeCatalogueIndex } from '../scripts/lib/catalogue-index';
+
+const ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/;
+const ASSET_PATH_PATTERN = /^images\/(?:[a-zA-Z0-9][a-zA-Z0-9._-]*\/)*[a-zA-Z0-9][a-zA-Z0-9._-]*\.(?:webp|jpe?g|png|gif)$/i;
+const UNKNOWN_AUTHOR = 'unknown';
+
+/**
+ * Error carrying an HTTP status for the request handler
+ */
+export class HttpError extends Error {
+  status: number;
+  details?: string[];
+
+  constructor(status: number, message: string, details?: string[]) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Write JSON to disk atomically (temp file + rename)
+ * @param filePath - Destination path
+ * @param data - Data to serialize
+ */
+export function writeJsonAtomic(filePath: string, data: unknown): void {
+  writeFileAtomic(filePath, typeof data === 'string' ? data : `${JSON.stringify(data, null, 2)}\n`);
+}
+
+/**
+ * Write a file atomically (temp file + rename)
+ * @param filePath - Destination path
+ * @param contents - File contents
+ */
+export function writeFileAtomic(filePath: string, contents: string | Uint8Array): void {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+
+  fs.writeFileSync(tempPath, contents);
+  try {
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Write JSON to a new file atomically, failing if the file already exists
+ * @param filePath - Destination path
+ * @param data - Data to serialize
+ * @throws HttpError 409 if the file exists
+ */
+export function writeJsonExclusive(filePath: string, data: unknown): void {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+
+  fs.writeFileSync(tempPath, `${JSON.stringify(data, null, 2)}\n`);
+  try {
+    // link() refuses to replace an existing file, unlike rename()
+    fs.linkSync(tempPath, filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new HttpError(409, `File already exists: ${path.basename(filePath)}`);
+    }
+    throw error;
+  } finally {
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+/**
+ * Reject IDs that could escape the data directory
+ */
+export function assertValidId(id: string, label: string): void {
+  if (!ID_PATTERN.test(id)) {
+    throw new HttpError(400, `Invalid ${label} id: ${id}`);
+  }
+}
+
+export interface WriteOptions {
+  author?: string;
+  message?: string;
+}
+
+export class CatalogueStore {
+  private dataDir: string;
+  private imagesDir: string;
+  private revisionsDir: string;
+
+  constructor(dataDir: string, imagesDir: string, revisionsDir: string) {
+    this.dataDir = dataDir;
+    this.imagesDir = imagesDir;
+    this.revisionsDir = revisionsDir;
+  }
+
+  private modelPath(modelId: string): string {
+    assertValidId(modelId, 'model');
+    return path.join(this.dataDir, 'models', `${modelId}.json`);
+  }
+
+  private modelRevisionsDir(modelId: string): string {
+    assertValidId(modelId, 'model');
+    return path.join(this.revisionsDir, modelId);
+  }
+
+  private get categoriesPath(): string {
+    return path.join(this.dataDir, 'categories.json');
+  }
+
+  private get campaignsPath(): string {
+    return path.join(this.dataDir, 'campaigns.json');
+  }
+
+  private get storesPath(): string {
+    return path.join(this.dataDir, 'stores.json');
+  }
+
+  private get pricesPath(): string {
+    return path.join(this.dataDir, 'prices.json');
+  }
+
+  /**
+   * Rebuild models.json from the model files
+   * @throws HttpError if any model file is invalid
+   */
+  reindex(): CatalogueIndex {
+    const { index, errors } = buildCatalogueIndex({
+      dataDir: this.dataDir,
+      imagesDir: this.imagesDir,
+      prune: true,
+    });
+
+    if (errors.length > 0) {
+      throw new HttpError(500, 'Failed to rebuild catalogue index', errors);
+    }
+
+    writeJsonAtomic(path.join(this.dataDir, 'models.json'), serializeCatalogueIndex(index));
+    return index;
+  }
+
+  readIndex(): CatalogueIndex {
+    const indexPath = path.join(this.dataDir, 'models.json');
+    if (!fs.existsSync(indexPath)) {
+      return this.reindex();
+    }
+    return JSON.parse(fs.readFileSync(indexPath, 'utf8')) as CatalogueIndex;
+  }
+
+  hasModel(modelId: string): boolean {
+    return fs.existsSync(this.modelPath(modelId));
+  }
+
+  readModel(modelId: string): ProductModel {
+    const filePath = this.modelPath(modelId);
+    if (!fs.existsSync(filePath)) {
+      throw new HttpError(404, `Model not found: ${modelId}`);
+    }
+    return migrateModel(JSON.parse(fs.readFileSync(filePath, 'utf8'))).model;
+  }
+
+  /**
+   * Validate and publish a model
+   * The version is bumped from the stored model (minor when markers are added
+   * or removed, patch for other edits) and an immutable revision is recorded.
+   * Publishing an unchanged model is a no-op.
+   * @param model - Model to store
+   * @param options - Revision author and message
+   * @returns The stored model
+   */
+  writeModel(model: ProductModel, options: WriteOptions = {}): ProductModel {
+    const previous = this.hasModel(model.id) ? this.readModel(model.id) : null;
+    const bump = previous ? determineVersionBump(previous, model) : null;
+    if (previous && !bump) {
+      return previous;
+    }
+
+    const now = new Date().toISOString();
+    const author = options.author || model.metadata?.author || UNKNOWN_AUTHOR;
+    const stored: ProductModel = {
+      ...model,
+      metadata: {
+        ...model.metadata,
+        createdAt: previous?.metadata.createdAt || model.metadata?.createdAt || now,
+        updatedAt: now,
+        version: previous && bump ? bumpVersion(previous.metadata.version, bump) : model.metadata?.version || '1.0.0',
+        author,
+      },
+    };
+
+    const categoryIds = new Set(this.readCategories().map((category) => category.id));
+    const validation = validateProductModel(stored, categoryIds);
+    if (!validation.valid) {
+      throw new HttpError(422, 'Invalid model data', formatValidationErrors(validation.errors ?? []));
+    }
+
+    // Models published before history existed get their current state as revision 1
+    if (previous && this.listRevisions(model.id).length === 0) {
+      this.appendRevision(previous, null, previous.metadata.author || UNKNOWN_AUTHOR, 'Initial revision');
+    }
+
+    writeJsonAtomic(this.modelPath(stored.id), stored);
+    this.appendRevision(stored, bump, author, options.message);
+    this.reindex();
+    return stored;
+  }
+
+  deleteModel(modelId: string): void {
+    const filePath = this.modelPath(modelId);
+    if (!fs.existsSync(filePath)) {
+      throw new HttpError(404, `Model not found: ${modelId}`);
+    }
+    fs.rmSync(filePath);
+    this.reindex();
+
+    // Stores no longer run a model that is gone
+    if (fs.existsSync(this.storesPath)) {
+      writeJsonAtomic(this.storesPath, removeModelFromStores(this.readStores(), modelId));
+    }
+  }
+
+  /**
+   * Apply a change to the markers of one model view and store the result
+   * @param modelId - Model to change
+   * @param viewId - View to change; null for the primary view
+   * @param update - Returns the new marker list
+   * @returns The stored model
+   */
+  updateMarkers(
+    modelId: string,
+    viewId: string | null,
+    update: (markers: POSMMarker[]) => POSMMarker[],
+    options: WriteOptions = {}
+  ): ProductModel {
+    const model = this.readModel(modelId);
+    const view = viewId === null ? getPrimaryView(model) : model.views.find((candidate) => candidate.id === viewId);
+    if (!view) {
+      throw new HttpError(404, `View not found: ${modelId}/${viewId}`);
+    }
+    return this.writeModel(setViewMarkers(model, view.id, update(view.posmMarkers)), options);
+  }
+
+  private appendRevision(
+    model: ProductModel,
+    bump: ModelRevision['bump'],
+    author: string,
+    message?: string
+  ): ModelRevision {
+    const dir = this.modelRevisionsDir(model.id);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const revision: ModelRevision = {
+      modelId: model.id,
+      revision: this.listRevisions(model.id).length + 1,
+      version: model.metadata.version,
+      author,
+      createdAt: model.metadata.updatedAt,
+      bump,
+      ...(message ? { message } : {}),
+      model,
+    };
+
+    writeJsonExclusive(path.join(dir, `${String(revision.revision).padStart(6, '0')}.json`), revision);
+    return revision;
+  }
+
+  /**
+   * List a model's revisions, oldest first, without their snapshots
+   */
+  listRevisions(modelId: string): ModelRevisionSummary[] {
+    const dir = this.modelRevisionsDir(modelId);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs
+      .readdirSync(dir)
+      .filter((file) => /^\d+\.json$/.test(file))
+      .sort()
+      .map((file) => {
+        const { modelId: id, revision, version, author, createdAt, bump, message } = JSON.parse(
+          fs.readFileSync(path.join(dir, file), 'utf8')
+        ) as ModelRevision;
+        return { modelId: id, revision, version, author, createdAt, bump, message };
+      });
+  }
+
+  readRevision(modelId: string, revision: number): ModelRevision {
+    const filePath = path.join(this.modelRevisionsDir(modelId), `${String(revision).padStart(6, '0')}.json`);
+    if (!Number.isInteger(revision) || revision < 1 || !fs.existsSync(filePath)) {
+      throw new HttpError(404, `Revision not found: ${modelId}@${revision}`);
+    }
+    // Snapshots keep the schema they were written with
+    const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ModelRevision;
+    return { ...stored, model: migrateModel(stored.model).model };
+  }
+
+  /**
+   * Restore a model to an earlier revision
+   * The rollback is published as a new revision; history is never rewritten.
+   * @param modelId - Model to roll back
+   * @param revision - Revision number to restore
+   * @param author - Who requested the rollback
+   * @returns The stored model
+   */
+  rollback(modelId: string, revision: number, author?: string): ProductModel {
+    const target = this.readRevision(modelId, revision);
+    return this.writeModel(target.model, {
+      author,
+      message: `Rolled back to revision ${revision} (v${target.version})`,
+    });
+  }
+
+  readCategories(): Category[] {
+    if (!fs.existsSync(this.categoriesPath)) return [];
+    return JSON.parse(fs.readFileSync(this.categoriesPath, 'utf8')) as Category[];
+  }
+
+  /**
+   * Replace the category registry
+   * Categories still referenced by a model cannot be removed
+   * @param categories - Complete category list
+   */
+  writeCategories(categories: Category[]): Category[] {
+    const errors = validateSchema(
+      { type: 'array', items: categorySchema, uniqueBy: 'id' },
+      categories,
+      'categories'
+    );
+    if (errors.length > 0) {
+      throw new HttpError(422, 'Invalid categories', formatValidationErrors(errors));
+    }
+    categories.forEach((category) => assertValidId(category.id, 'category'));
+
+    const keptIds = new Set(categories.map((category) => category.id));
+    const inUse = this.readIndex().models.flatMap((model) =>
+      model.categoryIds.filter((id) => !keptIds.has(id)).map((id) => `${model.id} uses ${id}`)
+    );
+    if (inUse.length > 0) {
+      throw new HttpError(409, 'Categories are still in use', inUse);
+    }
+
+    writeJsonAtomic(this.categoriesPath, categories);
+    this.reindex();
+    return categories;
+  }
+
+  readCampaigns(): Campaign[] {
+    if (!fs.existsSync(this.campaignsPath)) return [];
+    return migrateCampaigns(JSON.parse(fs.readFileSync(this.campaignsPath, 'utf8'))) as Campaign[];
+  }
+
+  /**
+   * Replace the campaign list
+   * Every model entry must reference an existing model, artwork overrides must
+   * target one of its markers, and campaign markers must not reuse its marker IDs
+   * @param campaigns - Complete campaign list
+   */
+  writeCampaigns(campaigns: Campaign[]): Campaign[] {
+    const errors = validateSchema(
+      { type: 'array', items: campaignSchema, uniqueBy: 'id' },
+      campaigns,
+      'campaigns'
+    );
+    if (errors.length > 0) {
+      throw new HttpError(422, 'Invalid campaigns', formatValidationErrors(errors));
+    }
+    campaigns.forEach((campaign) => assertValidId(campaign.id, 'campaign'));
+
+    const problems: string[] = [];
+    campaigns.forEach((campaign) => {
+      campaign.models.forEach((entry) => {
+        if (!this.hasModel(entry.modelId)) {
+          problems.push(`${campaign.id}: unknown model ${entry.modelId}`);
+          return;
+        }
+
+        const markerIds = new Set(getModelMarkers(this.readModel(entry.modelId)).map((marker) => marker.id));
+        entry.artworkOverrides
+          .filter((override) => !markerIds.has(override.markerId))
+          .forEach((override) => problems.push(`${campaign.id}: unknown marker ${entry.modelId}/${override.markerId}`));
+        entry.markers
+          .filter((marker) => markerIds.has(marker.id))
+          .forEach((marker) => problems.push(`${campaign.id}: marker ID already used by ${entry.modelId}: ${marker.id}`));
+      });
+    });
+    if (problems.length > 0) {
+      throw new HttpError(422, 'Invalid campaigns', problems);
+    }
+
+    writeJsonAtomic(this.campaignsPath, campaigns);
+    return campaigns;
+  }
+
+  readStores(): Store[] {
+    if (!fs.existsSync(this.storesPath)) return [];
+    return JSON.parse(fs.readFileSync(this.storesPath, 'utf8')) as Store[];
+  }
+
+  /**
+   * Replace the store list
+   * Every model assignment must reference an existing model
+   * @param stores - Complete store list
+   */
+  writeStores(stores: Store[]): Store[] {
+    const errors = validateSchema({ type: 'array', items: storeSchema, uniqueBy: 'code' }, stores, 'stores');
+    if (errors.length > 0) {
+      throw new HttpError(422, 'Invalid stores', formatValidationErrors(errors));
+    }
+
+    const modelIds = new Set(this.readIndex().models.map((model) => model.id));
+    const unknown = stores.flatMap((store) =>
+      store.models
+        .filter((assignment) => !modelIds.has(assignment.modelId))
+        .map((assignment) => `${store.code}: unknown model ${assignment.modelId}`)
+    );
+    if (unknown.length > 0) {
+      throw new HttpError(422, 'Invalid stores', unknown);
+    }
+
+    writeJsonAtomic(this.storesPath, stores);
+    return stores;
+  }
+
+  readPriceTable(): PriceTable | null {
+    if (!fs.existsSync(this.pricesPath)) return null;
+    return JSON.parse(fs.readFileSync(this.pricesPath, 'utf8')) as PriceTable;
+  }
+
+  /**
+   * Replace the material price table
+   * @param table - Complete price table
+   */
+  writePriceTable(table: PriceTable): PriceTable {
+    const errors = validateSchema(priceTableSchema, table, 'prices');
+    if (errors.length > 0) {
+      throw new HttpError(422, 'Invalid price table', formatValidationErrors(errors));
+    }
+
+    writeJsonAtomic(this.pricesPath, table);
+    return table;
+  }
+
+  /**
+   * Store an image asset under the images directory
+   * @param assetPath - Path relative to public/, e.g. images/models/model-001.jpg
+   * @param data - File contents
+   * @returns URL the asset is served from
+   * @throws HttpError 400 for paths outside images/ or unsupported file types
+   */
+  writeAsset(assetPath: string, data: Uint8Array): string {
+    if (!ASSET_PATH_PATTERN.test(assetPath)) {
+      throw new HttpError(400, `Invalid asset path: ${assetPath}`);
+    }
+
+    const filePath = path.join(this.imagesDir, assetPath.slice('images/'.length));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileAtomic(filePath, data);
+    return `/${assetPath}`;
+  }
+}
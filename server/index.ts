@@ -0,0 +1,380 @@
+/**
+ * Local Catalogue Data Server
+ *
+ * Small HTTP API that persists admin edits to public/data so they ship with
+ * the next build. Intended for local use: it binds to 127.0.0.1 by default
+ * and has no authentication of its own. It sends no CORS headers and
+ * refuses requests from non-local origins, so other websites open in the
+ * browser cannot call it; the app goes through the Vite /api proxy.
+ * Model revisions are kept in data/revisions, outside the published site.
+ *
+ * Usage: npm run server
+ *
+ *   POSM_SERVER_PORT - Port to listen on (default: 4000)
+ *   POSM_SERVER_HOST - Host to bind (default: 127.0.0.1)
+ *
+ * Endpoints (all JSON, prefixed with /api):
+ *   GET    /catalogue
+ *   GET    /models                       POST /models
+ *   GET    /models/:id                   PUT  /models/:id      DELETE /models/:id
+ *   GET    /models/:id/markers           POST /models/:id/markers (primary view)
+ *   POST   /models/:id/views/:viewId/markers
+ *   PUT    /models/:id/markers/:markerId DELETE /models/:id/markers/:markerId
+ *   GET    /categories                   PUT  /categories      POST /categories
+ *   PUT    /categories/:id               DELETE /categories/:id
+ *   GET    /campaigns                    PUT  /campaigns
+ *   GET    /stores                       PUT  /stores
+ *   GET    /prices                       PUT  /prices
+ *   GET    /models/:id/revisions         GET  /models/:id/revisions/:revision
+ *   POST   /models/:id/revisions/:revision/rollback
+ *   PUT    /assets/images/...            (raw image body, returns { url })
+ *
+ * Writes record the author from the X-POSM-Author header, falling back to
+ * the model's metadata.author.
+ */
+
+import * as http from 'http';
+import * as path from 'path';
+import type { Campaign, Category, POSMMarker, PriceTable, ProductModel, Store } from '@/types';
+import { findMarkerView, getModelMarkers } from '@/utils/modelViews';
+import { CatalogueStore, HttpError, assertValidId } from './catalogue-store';
+
+const PORT = Number(process.env.POSM_SERVER_PORT) || 4000;
+const HOST = process.env.POSM_SERVER_HOST || '127.0.0.1';
+const MAX_BODY_BYTES = 5 * 1024 * 1024; // 5MB
+
+const store = new CatalogueStore(
+  path.resolve('public/data'),
+  path.resolve('public/images'),
+  path.resolve('data/revisions')
+);
+
+type RouteParams = Record<string, string>;
+type RouteHandler = (
+  params: RouteParams,
+  body: unknown,
+  request: http.IncomingMessage
+) => { status?: number; body: unknown };
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+  raw: boolean; // Pass the body as a Buffer instead of parsed JSON
+}
+
+const routes: Route[] = [];
+
+/**
+ * Register a route; `:name` segments become params and a trailing `*name`
+ * captures the rest of the path
+ */
+function route(method: string, pathPattern: string, handler: RouteHandler, options: { raw?: boolean } = {}): void {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    `^${pathPattern.replace(/([:*])(\w+)/g, (_, kind: string, key: string) => {
+      keys.push(key);
+      return kind === '*' ? '(.+)' : '([^/]+)';
+    })}/?$`
+  );
+  routes.push({ method, pattern, keys, handler, raw: options.raw ?? false });
+}
+
+function getAuthor(request: http.IncomingMessage): string | undefined {
+  const header = request.headers['x-posm-author'];
+  const author = (Array.isArray(header) ? header[0] : header)?.trim();
+  return author || undefined;
+}
+
+function requireObject<T>(body: unknown, label: string): T {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, `Request body must be a ${label} object`);
+  }
+  return body as T;
+}
+
+// Catalogue
+route('GET', '/api/catalogue', () => ({ body: store.readIndex() }));
+
+// Models
+route('GET', '/api/models', () => ({ body: store.readIndex().models }));
+
+route('POST', '/api/models', (_, body, request) => {
+  const model = requireObject<ProductModel>(body, 'model');
+  assertValidId(String(model.id), 'model');
+  if (store.hasModel(model.id)) {
+    throw new HttpError(409, `Model already exists: ${model.id}`);
+  }
+  return { status: 201, body: store.writeModel(model, { author: getAuthor(request) }) };
+});
+
+route('GET', '/api/models/:id', ({ id }) => ({ body: store.readModel(id) }));
+
+route('PUT', '/api/models/:id', ({ id }, body, request) => {
+  const model = requireObject<ProductModel>(body, 'model');
+  if (model.id !== id) {
+    throw new HttpError(400, `Model id "${model.id}" does not match URL`);
+  }
+  return { body: store.writeModel(model, { author: getAuthor(request) }) };
+});
+
+route('DELETE', '/api/models/:id', ({ id }) => {
+  store.deleteModel(id);
+  return { status: 204, body: null };
+});
+
+// Markers
+route('GET', '/api/models/:id/markers', ({ id }) => ({ body: getModelMarkers(store.readModel(id)) }));
+
+/**
+ * Add a marker to a view; marker IDs must be unique across all views
+ */
+function addMarker(id: string, viewId: string | null, body: unknown, request: http.IncomingMessage) {
+  const marker = requireObject<POSMMarker>(body, 'marker');
+  if (getModelMarkers(store.readModel(id)).some((existing) => existing.id === marker.id)) {
+    throw new HttpError(409, `Marker already exists: ${marker.id}`);
+  }
+  const model = store.updateMarkers(id, viewId, (markers) => [...markers, marker], { author: getAuthor(request) });
+  return { status: 201, body: model };
+}
+
+/**
+ * Find the view holding a marker
+ */
+function requireMarkerView(id: string, markerId: string): string {
+  const view = findMarkerView(store.readModel(id), markerId);
+  if (!view) {
+    throw new HttpError(404, `Marker not found: ${markerId}`);
+  }
+  return view.id;
+}
+
+route('POST', '/api/models/:id/markers', ({ id }, body, request) => addMarker(id, null, body, request));
+
+route('POST', '/api/models/:id/views/:viewId/markers', ({ id, viewId }, body, request) =>
+  addMarker(id, viewId, body, request)
+);
+
+route('PUT', '/api/models/:id/markers/:markerId', ({ id, markerId }, body, request) => {
+  const marker = requireObject<POSMMarker>(body, 'marker');
+  const model = store.updateMarkers(id, requireMarkerView(id, markerId), (markers) =>
+    markers.map((existing) => (existing.id === markerId ? { ...marker, id: markerId } : existing)),
+    { author: getAuthor(request) }
+  );
+  return { body: model };
+});
+
+route('DELETE', '/api/models/:id/markers/:markerId', ({ id, markerId }, _, request) => {
+  const model = store.updateMarkers(id, requireMarkerView(id, markerId), (markers) =>
+    markers.filter((existing) => existing.id !== markerId),
+    { author: getAuthor(request) }
+  );
+  return { body: model };
+});
+
+// Revisions
+route('GET', '/api/models/:id/revisions', ({ id }) => ({ body: store.listRevisions(id) }));
+
+route('GET', '/api/models/:id/revisions/:revision', ({ id, revision }) => ({
+  body: store.readRevision(id, Number(revision)),
+}));
+
+route('POST', '/api/models/:id/revisions/:revision/rollback', ({ id, revision }, _, request) => ({
+  body: store.rollback(id, Number(revision), getAuthor(request)),
+}));
+
+// Categories
+route('GET', '/api/categories', () => ({ body: store.readCategories() }));
+
+route('PUT', '/api/categories', (_, body) => {
+  if (!Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be an array of categories');
+  }
+  return { body: store.writeCategories(body as Category[]) };
+});
+
+route('POST', '/api/categories', (_, body) => {
+  const category = requireObject<Category>(body, 'category');
+  const categories = store.readCategories();
+  if (categories.some((existing) => existing.id === category.id)) {
+    throw new HttpError(409, `Category already exists: ${category.id}`);
+  }
+  store.writeCategories([...categories, category]);
+  return { status: 201, body: category };
+});
+
+route('PUT', '/api/categories/:id', ({ id }, body) => {
+  const category = { ...requireObject<Category>(body, 'category'), id };
+  const categories = store.readCategories();
+  if (!categories.some((existing) => existing.id === id)) {
+    throw new HttpError(404, `Category not found: ${id}`);
+  }
+  store.writeCategories(categories.map((existing) => (existing.id === id ? category : existing)));
+  return { body: category };
+});
+
+route('DELETE', '/api/categories/:id', ({ id }) => {
+  const categories = store.readCategories();
+  if (!categories.some((existing) => existing.id === id)) {
+    throw new HttpError(404, `Category not found: ${id}`);
+  }
+  store.writeCategories(categories.filter((existing) => existing.id !== id));
+  return { status: 204, body: null };
+});
+
+// Campaigns
+route('GET', '/api/campaigns', () => ({ body: store.readCampaigns() }));
+
+route('PUT', '/api/campaigns', (_, body) => {
+  if (!Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be an array of campaigns');
+  }
+  return { body: store.writeCampaigns(body as Campaign[]) };
+});
+
+// Stores
+route('GET', '/api/stores', () => ({ body: store.readStores() }));
+
+route('PUT', '/api/stores', (_, body) => {
+  if (!Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be an array of stores');
+  }
+  return { body: store.writeStores(body as Store[]) };
+});
+
+// Material prices
+route('GET', '/api/prices', () => ({ body: store.readPriceTable() }));
+
+route('PUT', '/api/prices', (_, body) => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a price table object');
+  }
+  return { body: store.writePriceTable(body as PriceTable) };
+});
+
+// Assets
+route('PUT', '/api/assets/*assetPath', ({ assetPath }, body) => {
+  const data = body as Buffer;
+  if (data.length === 0) {
+    throw new HttpError(400, 'Asset body is empty');
+  }
+  return { body: { url: store.writeAsset(assetPath, data) } };
+}, { raw: true });
+
+function readBody(request: http.IncomingMessage, raw: boolean): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading but keep the socket open so the 413 reaches the client
+        request.off('data', onData);
+        request.pause();
+        reject(new HttpError(413, 'Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    request.on('data', onData);
+    request.on('end', () => {
+      if (raw) {
+        resolve(Buffer.concat(chunks));
+        return;
+      }
+      if (chunks.length === 0) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Whether a browser sent the request from a site other than the local app
+ * Without CORS headers the browser hides the response, but a simple form
+ * POST would still reach the handler, so such requests are refused outright.
+ * Any local origin is allowed: the Vite proxy rewrites Host to this server,
+ * so the app's own origin differs from it by port.
+ */
+function isCrossOrigin(request: http.IncomingMessage): boolean {
+  const origin = request.headers.origin;
+  if (!origin) return false;
+  try {
+    const { host, hostname } = new URL(origin);
+    return host !== request.headers.host && !LOCAL_HOSTNAMES.has(hostname);
+  } catch {
+    return true;
+  }
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+  });
+  response.end(status === 204 ? undefined : JSON.stringify(body));
+}
+
+const server = http.createServer(async (request, response) => {
+  const method = request.method || 'GET';
+  const url = new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`);
+
+  try {
+    if (isCrossOrigin(request)) {
+      throw new HttpError(403, `Cross-origin requests are not allowed: ${request.headers.origin}`);
+    }
+
+    for (const candidate of routes) {
+      if (candidate.method !== method) continue;
+
+      const match = url.pathname.match(candidate.pattern);
+      if (!match) continue;
+
+      const params: RouteParams = {};
+      candidate.keys.forEach((key, index) => {
+        try {
+          params[key] = decodeURIComponent(match[index + 1]);
+        } catch {
+          throw new HttpError(400, `Invalid URL encoding in ${key}: ${match[index + 1]}`);
+        }
+      });
+
+      const body = method === 'GET' || method === 'DELETE' ? undefined : await readBody(request, candidate.raw);
+      const result = candidate.handler(params, body, request);
+      send(response, result.status ?? 200, result.body);
+      console.log(`${method} ${url.pathname} -> ${result.status ?? 200}`);
+      return;
+    }
+
+    throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const details = error instanceof HttpError ? error.details : undefined;
+
+    if (status >= 500) {
+      console.error(`❌ ${method} ${url.pathname}:`, error);
+    } else {
+      console.warn(`⚠️  ${method} ${url.pathname} -> ${status}: ${message}`);
+    }
+    if (!request.complete) {
+      // The rest of the body is never read, so the connection cannot be reused
+      response.setHeader('Connection', 'close');
+    }
+    send(response, status, { error: message, details });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`\n🗄️  POSM catalogue data server listening on http://${HOST}:${PORT}/api\n`);
+});
@@ -12,16 +12,45 @@ import { ProtectedRoute } from '@/components/layout/ProtectedRoute';
 import { ModelList } from '@/components/shared/ModelList';
 import { SearchBar } from '@/components/shared/SearchBar';
 import { CategoryFilter } from '@/components/shared/CategoryFilter';
+import { FacetPanel } from '@/components/shared/FacetPanel';
+import { InstallGuideButton } from '@/components/shared/InstallGuideButton';
+import { AnnotatedImageExport } from '@/components/shared/AnnotatedImageExport';
+import { BookletButton } from '@/components/shared/BookletButton';
+import { ModelStores } from '@/components/shared/ModelStores';
+import { StoreList } from '@/components/shared/StoreList';
 import { ModelViewer } from '@/components/viewer/ModelViewer';
 import { POSMPopup } from '@/components/viewer/POSMPopup';
 import { useCatalogueIndex, useModelData } from '@/hooks/useModelData';
-import { searchModels, filterModelsByCategory } from '@/services/modelService';
-import type { POSMMarker } from '@/types';
+import { useCampaigns } from '@/hooks/useCampaigns';
+import { useStores } from '@/hooks/useStores';
+import { useAuth } from '@/hooks/useAuth';
+import { usePriceTable } from '@/hooks/usePriceTable';
+import { searchCatalogue, loadModel, loadModels } from '@/services/modelService';
+import { applyCampaign } from '@/utils/campaigns';
+import { countUnits } from '@/utils/stores';
+import { getQueryValueSuggestions, parseSearchQuery, queryUsesModelData } from '@/utils/searchQuery';
+import {
+  countActiveFacets,
+  EMPTY_FACET_FILTERS,
+  filterModelsByFacets,
+  getFacetCounts,
+  getMaterialValues,
+  parseFacetParams,
+  setFacetParams,
+} from '@/utils/facets';
+import type { Campaign, CatalogueIndex, FacetFilters, POSMMarker, ProductModel, SearchMatch } from '@/types';
 import './App.css';
 
 // Lazy load admin components for better code splitting
 const MarkerEditor = lazy(() => import('@/components/admin/MarkerEditor'));
 const ExportPanel = lazy(() => import('@/components/admin/ExportPanel'));
+const ImportPanel = lazy(() => import('@/components/admin/ImportPanel'));
+const RevisionHistory = lazy(() => import('@/components/admin/RevisionHistory'));
+const CampaignManager = lazy(() => import('@/components/admin/CampaignManager'));
+const StoreManager = lazy(() => import('@/components/admin/StoreManager'));
+const CostManager = lazy(() => import('@/components/admin/CostManager'));
+
+const AUTHOR_STORAGE_KEY = 'posm-admin-author';
 
 /**
  * HomePage - Displays the model catalogue list with search and filters
@@ -32,39 +61,76 @@ function HomePage() {
 
   // State for search and filters
   const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
-  const [selectedCategories, setSelectedCategories] = useState<string[]>(() => {
-    const cats = searchParams.get('categories');
-    return cats ? cats.split(',').filter(Boolean) : [];
-  });
+  const [facets, setFacets] = useState<FacetFilters>(() => parseFacetParams(searchParams));
+  const { campaigns } = useCampaigns();
+  const { isAuthenticated } = useAuth();
+  // Booklets carry cost estimates for admins only
+  const { priceTable } = usePriceTable(isAuthenticated);
 
   // Update URL params when search/filters change
   useEffect(() => {
     const params = new URLSearchParams();
     if (searchQuery) params.set('search', searchQuery);
-    if (selectedCategories.length > 0) params.set('categories', selectedCategories.join(','));
+    setFacetParams(params, facets);
     setSearchParams(params, { replace: true });
-  }, [searchQuery, selectedCategories, setSearchParams]);
+  }, [searchQuery, facets, setSearchParams]);
 
-  // Apply search and filters
-  const filteredModels = useMemo(() => {
-    if (!catalogue) return [];
+  // view:, author: and updated: filters need the full models, loaded once they are used
+  const needsModelData = useMemo(() => {
+    const { query } = parseSearchQuery(searchQuery);
+    return query ? queryUsesModelData(query) : false;
+  }, [searchQuery]);
+  const [loadedModels, setLoadedModels] = useState<{
+    catalogue: CatalogueIndex;
+    models: Map<string, ProductModel>;
+  } | null>(null);
+  const fullModels = loadedModels && loadedModels.catalogue === catalogue ? loadedModels.models : undefined;
 
-    let models = catalogue.models;
+  useEffect(() => {
+    if (!needsModelData || !catalogue || fullModels) return;
 
-    // Apply search filter
-    if (searchQuery) {
-      models = searchModels(searchQuery, { ...catalogue, models });
-    }
+    let cancelled = false;
+    loadModels(catalogue.models.map((model) => model.id))
+      .then((models) => {
+        if (!cancelled) setLoadedModels({ catalogue, models: new Map(models.map((model) => [model.id, model])) });
+      })
+      .catch((err) => console.error('Failed to load models for search:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [needsModelData, catalogue, fullModels]);
 
-    // Apply category filter
-    if (selectedCategories.length > 0) {
-      models = filterModelsByCategory(selectedCategories, { ...catalogue, models });
-    }
+  const fieldValues = useMemo(() => (catalogue ? getQueryValueSuggestions(catalogue) : undefined), [catalogue]);
 
-    return models;
-  }, [catalogue, searchQuery, selectedCategories]);
+  // Apply search, then facets; search results stay in rank order
+  const { searchResults, searchMatches } = useMemo(() => {
+    if (!catalogue) return { searchResults: [], searchMatches: new Map<string, SearchMatch[]>() };
 
-  const hasActiveFilters = searchQuery || selectedCategories.length > 0;
+    const results = searchCatalogue(searchQuery, catalogue, fullModels);
+    return {
+      searchResults: results.map((result) => result.model),
+      searchMatches: new Map(results.map((result) => [result.model.id, result.matches])),
+    };
+  }, [catalogue, searchQuery, fullModels]);
+
+  const filteredModels = useMemo(
+    () => filterModelsByFacets(searchResults, facets, campaigns),
+    [searchResults, facets, campaigns]
+  );
+
+  // Facet counts follow the search, so they always match what choosing a value shows
+  const materialValues = useMemo(() => getMaterialValues(catalogue?.models ?? []), [catalogue]);
+  const facetCounts = useMemo(
+    () => getFacetCounts(searchResults, facets, catalogue?.categories ?? [], campaigns, materialValues),
+    [searchResults, facets, catalogue, campaigns, materialValues]
+  );
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setFacets(EMPTY_FACET_FILTERS);
+  };
+
+  const hasActiveFilters = searchQuery || countActiveFacets(facets) > 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-secondary-50 via-primary-50/20 to-accent-50/20">
@@ -116,6 +182,7 @@ function HomePage() {
                     onChange={setSearchQuery}
                     disabled={loading}
                     suggestions={catalogue.models.map(m => m.name)}
+                    fieldValues={fieldValues}
                   />
                 </div>
 
@@ -123,14 +190,36 @@ function HomePage() {
                 <div className="lg:col-span-1">
                   <CategoryFilter
                     categories={catalogue.categories}
-                    selectedCategoryIds={selectedCategories}
-                    onSelectionChange={setSelectedCategories}
-                    models={catalogue.models}
+                    selectedCategoryIds={facets.categoryIds}
+                    onSelectionChange={(categoryIds) => setFacets({ ...facets, categoryIds })}
+                    counts={facetCounts.categories}
+                    matchMode={facets.categoryMode}
+                    onMatchModeChange={(categoryMode) => setFacets({ ...facets, categoryMode })}
                     disabled={loading}
                   />
                 </div>
               </div>
 
+              {/* Other facets */}
+              <FacetPanel
+                className="mt-4"
+                filters={facets}
+                onChange={setFacets}
+                counts={facetCounts}
+                campaigns={campaigns}
+                disabled={loading}
+              />
+
+              {/* Booklet of the current results */}
+              <div className="mt-4 flex justify-end">
+                <BookletButton
+                  models={filteredModels}
+                  categories={catalogue.categories}
+                  filters={{ query: searchQuery, categoryIds: facets.categoryIds }}
+                  priceTable={isAuthenticated ? priceTable : null}
+                />
+              </div>
+
               {/* Results Info */}
               {hasActiveFilters && (
                 <div className="alert-info mt-6">
@@ -161,10 +250,7 @@ function HomePage() {
                       </div>
                     </div>
                     <button
-                      onClick={() => {
-                        setSearchQuery('');
-                        setSelectedCategories([]);
-                      }}
+                      onClick={clearFilters}
                       className="btn btn-outline text-sm px-4 py-2"
                     >
                       Clear all filters
@@ -179,6 +265,7 @@ function HomePage() {
         {/* Model List */}
         <ModelList
           models={filteredModels}
+          searchMatches={searchMatches}
           loading={loading}
           error={error}
         />
@@ -207,10 +294,7 @@ function HomePage() {
                 No models match your current search criteria.
               </p>
               <button
-                onClick={() => {
-                  setSearchQuery('');
-                  setSelectedCategories([]);
-                }}
+                onClick={clearFilters}
                 className="btn-primary px-6 py-3"
               >
                 Clear all filters
@@ -231,6 +315,16 @@ function ModelDetailPage() {
   const { model, loading, error } = useModelData(id || null);
   const [selectedMarker, setSelectedMarker] = useState<POSMMarker | null>(null);
   const [isPopupOpen, setIsPopupOpen] = useState(false);
+  const [viewId, setViewId] = useState<string | undefined>(undefined);
+  const { campaigns } = useCampaigns();
+  const { stores } = useStores();
+  const { isAuthenticated } = useAuth();
+  // Cost estimates are for admins; viewers never load the price table
+  const { priceTable } = usePriceTable(isAuthenticated);
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+
+  // Exports show the same campaign POSM as the viewer
+  const shownModel = useMemo(() => (model ? applyCampaign(model, campaign) : null), [model, campaign]);
 
   const handleMarkerClick = (marker: POSMMarker) => {
     setSelectedMarker(marker);
@@ -248,7 +342,7 @@ function ModelDetailPage() {
       <Header />
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Back to catalogue link */}
-        <div className="mb-6">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
           <a
             href="/"
             className="inline-flex items-center text-blue-600 hover:text-blue-800 transition-colors"
@@ -268,6 +362,12 @@ function ModelDetailPage() {
             </svg>
             Back to Catalogue
           </a>
+          {shownModel && !loading && !error && (
+            <div className="flex flex-wrap items-center gap-3">
+              <AnnotatedImageExport model={shownModel} viewId={viewId} />
+              <InstallGuideButton models={[shownModel]} />
+            </div>
+          )}
         </div>
 
         {/* Loading state */}
@@ -315,12 +415,18 @@ function ModelDetailPage() {
             <ModelViewer
               model={model}
               onMarkerClick={handleMarkerClick}
+              onViewChange={(view) => setViewId(view.id)}
+              campaigns={campaigns}
+              onCampaignChange={setCampaign}
             />
 
+            {stores.length > 0 && <ModelStores modelId={model.id} stores={stores} className="mt-8" />}
+
             <POSMPopup
               marker={selectedMarker}
               isOpen={isPopupOpen}
               onClose={handleClosePopup}
+              priceTable={isAuthenticated ? priceTable : null}
             />
           </>
         )}
@@ -329,12 +435,144 @@ function ModelDetailPage() {
   );
 }
 
+/**
+ * StoresPage - Lists the outlets models are installed at
+ */
+function StoresPage() {
+  const { stores, loading, error } = useStores();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Stores</h1>
+          <p className="text-gray-600 mt-2">Outlets and the display models installed at each</p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center min-h-[400px]">
+            <div className="text-center">
+              <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading stores...</p>
+            </div>
+          </div>
+        ) : error ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Failed to Load Stores</h3>
+            <p className="text-gray-600">{error.message}</p>
+          </div>
+        ) : stores.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+            No stores yet. Admins can import the store list from a CSV file.
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <StoreList stores={stores} />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+/**
+ * StoreDetailPage - Displays one outlet and the models installed there
+ */
+function StoreDetailPage() {
+  const { code } = useParams<{ code: string }>();
+  const { stores, loading, error } = useStores();
+  const { catalogue } = useCatalogueIndex();
+
+  const store = stores.find((candidate) => candidate.code === code);
+  const summaries = new Map((catalogue?.models ?? []).map((summary) => [summary.id, summary]));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <a href="/stores" className="inline-flex items-center text-blue-600 hover:text-blue-800 transition-colors">
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+            Back to Stores
+          </a>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center min-h-[400px]">
+            <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : error || !store ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Store Not Found</h3>
+            <p className="text-gray-600">{error?.message ?? `No store with code ${code}`}</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-gray-900">{store.name}</h1>
+              <p className="text-gray-600 mt-2">
+                <span className="font-mono">{store.code}</span> · {store.region} · {store.channel}
+              </p>
+              {store.address && <p className="text-gray-500 mt-1">{store.address}</p>}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+                <h2 className="text-xl font-semibold text-gray-900">Installed models</h2>
+                <p className="text-sm text-gray-600">
+                  {store.models.length} model(s) · {countUnits(store.models)} unit(s)
+                </p>
+              </div>
+
+              {store.models.length === 0 ? (
+                <p className="text-gray-500">No models are assigned to this store yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {store.models.map((assignment) => {
+                    const summary = summaries.get(assignment.modelId);
+                    return (
+                      <li key={assignment.modelId} className="flex items-center gap-4 py-3">
+                        {summary && (
+                          <img
+                            src={summary.thumbnailUrl}
+                            alt={summary.name}
+                            className="w-16 h-16 object-cover rounded-lg bg-gray-100"
+                            loading="lazy"
+                          />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          {summary ? (
+                            <a href={`/model/${summary.id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                              {summary.name}
+                            </a>
+                          ) : (
+                            <span className="font-medium text-gray-700">{assignment.modelId} (not in catalogue)</span>
+                          )}
+                          {summary?.code && <div className="text-sm text-gray-500 font-mono">{summary.code}</div>}
+                        </div>
+                        <span className="text-lg font-semibold text-gray-900">× {assignment.quantity}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
 /**
  * AdminPage - Admin interface for editing POSM markers and exporting data
  */
 function AdminPage() {
   const { id } = useParams<{ id: string }>();
-  const [activeTab, setActiveTab] = useState<'models' | 'export'>('models');
+  const [activeTab, setActiveTab] = useState<'models' | 'campaigns' | 'stores' | 'costs' | 'export' | 'import'>('models');
   const { catalogue, loading: catalogueLoading } = useCatalogueIndex();
 
   // If we have a model ID, show the marker editor
@@ -350,7 +588,7 @@ function AdminPage() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900">Admin Panel</h1>
           <p className="text-gray-600 mt-2">
-            Manage POSM markers and export catalogue data
+            Manage POSM markers, campaigns and stores, and import or export catalogue data
           </p>
         </div>
 
@@ -383,6 +621,81 @@ function AdminPage() {
                   <span>Models</span>
                 </div>
               </button>
+              <button
+                onClick={() => setActiveTab('campaigns')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'campaigns'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    />
+                  </svg>
+                  <span>Campaigns</span>
+                </div>
+              </button>
+              <button
+                onClick={() => setActiveTab('stores')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'stores'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 9l1-5h16l1 5M3 9h18M3 9a3 3 0 006 0 3 3 0 006 0 3 3 0 006 0M5 12v8h14v-8"
+                    />
+                  </svg>
+                  <span>Stores</span>
+                </div>
+              </button>
+              <button
+                onClick={() => setActiveTab('costs')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'costs'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                    />
+                  </svg>
+                  <span>Costs</span>
+                </div>
+              </button>
               <button
                 onClick={() => setActiveTab('export')}
                 className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -408,6 +721,31 @@ function AdminPage() {
                   <span>Export</span>
                 </div>
               </button>
+              <button
+                onClick={() => setActiveTab('import')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'import'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+                    />
+                  </svg>
+                  <span>Import</span>
+                </div>
+              </button>
             </nav>
           </div>
         </div>
@@ -505,6 +843,60 @@ function AdminPage() {
           </div>
         )}
           </>
+        ) : activeTab === 'campaigns' ? (
+          <Suspense fallback={
+            <div className="flex items-center justify-center min-h-[400px]">
+              <div className="text-center">
+                <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading campaigns...</p>
+              </div>
+            </div>
+          }>
+            <CampaignManager models={catalogue?.models ?? []} />
+          </Suspense>
+        ) : activeTab === 'stores' ? (
+          <Suspense fallback={
+            <div className="flex items-center justify-center min-h-[400px]">
+              <div className="text-center">
+                <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading stores...</p>
+              </div>
+            </div>
+          }>
+            <StoreManager models={catalogue?.models ?? []} />
+          </Suspense>
+        ) : activeTab === 'costs' ? (
+          <Suspense fallback={
+            <div className="flex items-center justify-center min-h-[400px]">
+              <div className="text-center">
+                <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading costs...</p>
+              </div>
+            </div>
+          }>
+            <CostManager models={catalogue?.models ?? []} categories={catalogue?.categories ?? []} />
+          </Suspense>
+        ) : activeTab === 'import' ? (
+          <>
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold text-gray-900">Import Data</h2>
+              <p className="text-gray-600">
+                Restore or merge catalogue data from a JSON export
+              </p>
+            </div>
+
+            {/* Import Panel */}
+            <Suspense fallback={
+              <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center">
+                  <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                  <p className="text-gray-600">Loading import panel...</p>
+                </div>
+              </div>
+            }>
+              <ImportPanel />
+            </Suspense>
+          </>
         ) : (
           <>
             <div className="mb-6">
@@ -536,7 +928,26 @@ function AdminPage() {
  * AdminModelEditor - Component for editing a specific model's markers
  */
 function AdminModelEditor({ modelId }: { modelId: string }) {
-  const { model, loading, error } = useModelData(modelId);
+  const { model: loadedModel, loading, error } = useModelData(modelId);
+  // Reloaded after each publish, so new drafts start from the model just published
+  const [publishedModel, setPublishedModel] = useState<ProductModel | null>(null);
+  const model = publishedModel?.id === modelId ? publishedModel : loadedModel;
+  const [author, setAuthor] = useState(() => localStorage.getItem(AUTHOR_STORAGE_KEY) || '');
+  const [historyKey, setHistoryKey] = useState(0);
+
+  const handleAuthorChange = (value: string) => {
+    setAuthor(value);
+    localStorage.setItem(AUTHOR_STORAGE_KEY, value);
+  };
+
+  const handlePublished = async () => {
+    setHistoryKey((key) => key + 1);
+    try {
+      setPublishedModel(await loadModel(modelId));
+    } catch (err) {
+      console.error('Failed to reload published model:', err);
+    }
+  };
 
   if (loading) {
     return (
@@ -639,7 +1050,20 @@ function AdminModelEditor({ modelId }: { modelId: string }) {
             </div>
           </div>
         }>
-          <MarkerEditor model={model} />
+          <MarkerEditor
+            model={model}
+            author={author}
+            onAuthorChange={handleAuthorChange}
+            onPublished={handlePublished}
+          />
+          <div className="mt-6">
+            <RevisionHistory
+              modelId={model.id}
+              author={author}
+              refreshKey={historyKey}
+              onRollback={() => window.location.reload()}
+            />
+          </div>
         </Suspense>
       </main>
     </div>
@@ -694,6 +1118,8 @@ function App() {
 
         {/* Model detail route - shows specific model with POSM markers */}
         <Route path="/model/:id" element={<ModelDetailPage />} />
+        <Route path="/stores" element={<StoresPage />} />
+        <Route path="/stores/:code" element={<StoreDetailPage />} />
 
         {/* Admin routes - for positioning and editing (Phase 5-7) */}
         <Route
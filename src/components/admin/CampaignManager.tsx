@@ -0,0 +1,384 @@
+/**
+ * CampaignManager Component
+ *
+ * Admin component for time-bound POSM campaigns. Lists campaigns with their
+ * status, creates and edits them, sets per-model artwork overrides, and
+ * clones a campaign as the starting point for the next one
+ */
+
+import { useState } from 'react';
+import type { Campaign, CampaignModelEntry, CampaignStatus, ModelSummary } from '@/types';
+import { useCampaigns } from '@/hooks/useCampaigns';
+import { useModelData } from '@/hooks/useModelData';
+import { saveCampaigns } from '@/services/campaignService';
+import { addDays, cloneCampaign, createCampaignId, formatLocalDate, getCampaignStatus } from '@/utils/campaigns';
+import { getModelMarkers } from '@/utils/modelViews';
+
+interface CampaignManagerProps {
+  models: ModelSummary[]; // Catalogue models that can be added to a campaign
+}
+
+const STATUS_BADGES: Record<CampaignStatus, string> = {
+  upcoming: 'badge-warning',
+  active: 'badge-success',
+  ended: 'badge-secondary',
+};
+
+const DEFAULT_DURATION_DAYS = 30;
+
+/**
+ * Artwork overrides for one model in the campaign being edited
+ */
+function CampaignModelEditor({
+  entry,
+  name,
+  onChange,
+  onRemove,
+}: {
+  entry: CampaignModelEntry;
+  name: string;
+  onChange: (entry: CampaignModelEntry) => void;
+  onRemove: () => void;
+}) {
+  const { model, loading, error } = useModelData(entry.modelId);
+  const overrides = new Map(entry.artworkOverrides.map((override) => [override.markerId, override.artworkUrl]));
+
+  const handleArtworkChange = (markerId: string, artworkUrl: string) => {
+    const others = entry.artworkOverrides.filter((override) => override.markerId !== markerId);
+    onChange({
+      ...entry,
+      artworkOverrides: artworkUrl.trim() ? [...others, { markerId, artworkUrl: artworkUrl.trim() }] : others,
+    });
+  };
+
+  return (
+    <div className="border border-secondary-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div>
+          <div className="font-medium text-secondary-900">{name}</div>
+          <div className="text-xs text-secondary-500 font-mono">{entry.modelId}</div>
+        </div>
+        <button type="button" className="btn-outline text-sm" onClick={onRemove}>
+          Remove
+        </button>
+      </div>
+
+      {loading && <p className="text-sm text-secondary-500">Loading markers...</p>}
+      {error && <p className="text-sm text-error-600">{error.message}</p>}
+      {model && (
+        <div className="space-y-2">
+          {getModelMarkers(model).map((marker) => (
+            <label key={marker.id} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center text-sm">
+              <span className="text-secondary-700 truncate" title={marker.id}>
+                {marker.info.name}
+              </span>
+              <input
+                type="url"
+                className="input md:col-span-2"
+                placeholder={marker.info.artworkUrl ?? 'Campaign artwork URL'}
+                value={overrides.get(marker.id) ?? ''}
+                onChange={(e) => handleArtworkChange(marker.id, e.target.value)}
+              />
+            </label>
+          ))}
+          {entry.markers.length > 0 && (
+            <p className="text-xs text-secondary-500">
+              {entry.markers.length} campaign-only marker(s), edited in campaigns.json or through the API
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CampaignManager({ models }: CampaignManagerProps) {
+  const { campaigns, loading, error: loadError, refetch } = useCampaigns();
+  const [draft, setDraft] = useState<Campaign | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [modelToAdd, setModelToAdd] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const modelNames = new Map(models.map((model) => [model.id, model.name]));
+
+  const persist = async (next: Campaign[], successMessage: string) => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await saveCampaigns(next);
+      await refetch();
+      setMessage(successMessage);
+      return true;
+    } catch (err) {
+      console.error('Failed to save campaigns:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save campaigns');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const startDate = formatLocalDate();
+    setDraft({
+      id: '',
+      name: '',
+      startDate,
+      endDate: addDays(startDate, DEFAULT_DURATION_DAYS - 1),
+      models: [],
+    });
+    setIsNew(true);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleEdit = (campaign: Campaign) => {
+    setDraft(structuredClone(campaign));
+    setIsNew(false);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleClone = async (campaign: Campaign) => {
+    const copy = cloneCampaign(campaign, campaigns.map((existing) => existing.id));
+    if (await persist([...campaigns, copy], `Cloned "${campaign.name}" as "${copy.name}"`)) {
+      handleEdit(copy);
+    }
+  };
+
+  const handleDelete = async (campaign: Campaign) => {
+    if (!window.confirm(`Delete campaign "${campaign.name}"?`)) return;
+    if (await persist(campaigns.filter((existing) => existing.id !== campaign.id), `Deleted "${campaign.name}"`)) {
+      if (draft?.id === campaign.id) setDraft(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError('Campaign name is required');
+      return;
+    }
+
+    const campaign: Campaign = {
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description?.trim() || undefined,
+      id: isNew ? createCampaignId(draft.name, campaigns.map((existing) => existing.id)) : draft.id,
+    };
+    const next = isNew
+      ? [...campaigns, campaign]
+      : campaigns.map((existing) => (existing.id === campaign.id ? campaign : existing));
+
+    if (await persist(next, `Saved "${campaign.name}"`)) {
+      setDraft(campaign);
+      setIsNew(false);
+    }
+  };
+
+  const handleAddModel = () => {
+    if (!draft || !modelToAdd) return;
+    setDraft({ ...draft, models: [...draft.models, { modelId: modelToAdd, markers: [], artworkOverrides: [] }] });
+    setModelToAdd('');
+  };
+
+  const updateEntry = (modelId: string, entry: CampaignModelEntry | null) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      models: entry
+        ? draft.models.map((existing) => (existing.modelId === modelId ? entry : existing))
+        : draft.models.filter((existing) => existing.modelId !== modelId),
+    });
+  };
+
+  const availableModels = draft
+    ? models.filter((model) => !draft.models.some((entry) => entry.modelId === model.id))
+    : [];
+
+  return (
+    <div className="card-glass">
+      <div className="p-8">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-secondary-900 mb-2">Campaigns</h2>
+            <p className="text-secondary-600">
+              Time-bound POSM sets: artwork overrides and extra markers shown between the start and end dates
+            </p>
+          </div>
+          <button type="button" className="btn-primary" onClick={handleCreate} disabled={isSaving}>
+            New Campaign
+          </button>
+        </div>
+
+        {loadError && <div className="alert-error mb-6 text-sm">{loadError.message}</div>}
+        {error && <div className="alert-error mb-6 text-sm">{error}</div>}
+        {message && <div className="alert-success mb-6 text-sm">{message}</div>}
+
+        {/* Campaign List */}
+        {loading ? (
+          <p className="text-secondary-500">Loading campaigns...</p>
+        ) : campaigns.length === 0 ? (
+          <p className="text-secondary-500 mb-6">No campaigns yet</p>
+        ) : (
+          <div className="overflow-x-auto mb-8">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-secondary-500 border-b border-secondary-200">
+                  <th className="py-2 pr-3">Campaign</th>
+                  <th className="py-2 pr-3">Dates</th>
+                  <th className="py-2 pr-3">Status</th>
+                  <th className="py-2 pr-3">Models</th>
+                  <th className="py-2 pr-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...campaigns]
+                  .sort((a, b) => b.startDate.localeCompare(a.startDate))
+                  .map((campaign) => {
+                    const status = getCampaignStatus(campaign);
+                    return (
+                      <tr
+                        key={campaign.id}
+                        className={`border-b border-secondary-100 ${draft?.id === campaign.id ? 'bg-primary-50' : ''}`}
+                      >
+                        <td className="py-2 pr-3">
+                          <div className="font-medium text-secondary-900">{campaign.name}</div>
+                          <div className="text-xs text-secondary-500 font-mono">{campaign.id}</div>
+                        </td>
+                        <td className="py-2 pr-3 text-secondary-600 whitespace-nowrap">
+                          {campaign.startDate} – {campaign.endDate}
+                        </td>
+                        <td className="py-2 pr-3">
+                          <span className={`${STATUS_BADGES[status]} text-xs`}>{status}</span>
+                        </td>
+                        <td className="py-2 pr-3 text-secondary-600">{campaign.models.length}</td>
+                        <td className="py-2 pr-3">
+                          <div className="flex justify-end gap-2">
+                            <button type="button" className="btn-outline text-sm" onClick={() => handleEdit(campaign)}>
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              className="btn-outline text-sm"
+                              onClick={() => handleClone(campaign)}
+                              disabled={isSaving}
+                              title="Copy into a new campaign starting the day after this one ends"
+                            >
+                              Clone
+                            </button>
+                            <button
+                              type="button"
+                              className="btn-outline text-sm text-error-600"
+                              onClick={() => handleDelete(campaign)}
+                              disabled={isSaving}
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Campaign Editor */}
+        {draft && (
+          <div className="border-t border-secondary-200 pt-6 space-y-6">
+            <h3 className="text-lg font-semibold text-secondary-900">
+              {isNew ? 'New campaign' : `Edit ${draft.name}`}
+            </h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <label className="block md:col-span-3">
+                <span className="block text-sm font-semibold text-secondary-900 mb-1">Name</span>
+                <input
+                  type="text"
+                  className="input w-full"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Tet 2027"
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-semibold text-secondary-900 mb-1">Start date</span>
+                <input
+                  type="date"
+                  className="input w-full"
+                  value={draft.startDate}
+                  onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-semibold text-secondary-900 mb-1">End date</span>
+                <input
+                  type="date"
+                  className="input w-full"
+                  value={draft.endDate}
+                  min={draft.startDate}
+                  onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-semibold text-secondary-900 mb-1">Description</span>
+                <input
+                  type="text"
+                  className="input w-full"
+                  value={draft.description ?? ''}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </label>
+            </div>
+
+            <div className="space-y-3">
+              <span className="block text-sm font-semibold text-secondary-900">
+                Models ({draft.models.length}) · leave an artwork URL empty to keep the marker's own artwork
+              </span>
+              {draft.models.map((entry) => (
+                <CampaignModelEditor
+                  key={entry.modelId}
+                  entry={entry}
+                  name={modelNames.get(entry.modelId) ?? entry.modelId}
+                  onChange={(next) => updateEntry(entry.modelId, next)}
+                  onRemove={() => updateEntry(entry.modelId, null)}
+                />
+              ))}
+              {availableModels.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <select className="input max-w-sm" value={modelToAdd} onChange={(e) => setModelToAdd(e.target.value)}>
+                    <option value="">Add a model...</option>
+                    {availableModels.map((model) => (
+                      <option key={model.id} value={model.id}>
+                        {model.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button type="button" className="btn-outline" onClick={handleAddModel} disabled={!modelToAdd}>
+                    Add
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-3">
+              <button type="button" className="btn-accent px-8" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Campaign'}
+              </button>
+              <button type="button" className="btn-outline" onClick={() => setDraft(null)} disabled={isSaving}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CampaignManager;
@@ -0,0 +1,334 @@
+/**
+ * CostManager Component
+ *
+ * Admin component for the material price table. Prices are set per material
+ * type (per m², per item or fixed per design) in one currency, and the
+ * estimated cost of the catalogue is rolled up per model, per category and
+ * per campaign as the table is edited
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type { Category, MaterialPrice, ModelSummary, PriceTable, PricingMethod, ProductModel } from '@/types';
+import { usePriceTable } from '@/hooks/usePriceTable';
+import { useCampaigns } from '@/hooks/useCampaigns';
+import { loadModels } from '@/services/modelService';
+import { savePriceTable } from '@/services/priceService';
+import { getModelMarkers } from '@/utils/modelViews';
+import {
+  EMPTY_PRICE_TABLE,
+  estimateCampaignCost,
+  estimateCategoryCosts,
+  estimateModelCost,
+  findMaterialPrice,
+  formatCost,
+  PRICING_METHOD_LABELS,
+  PRICING_METHODS,
+} from '@/utils/costs';
+
+interface CostManagerProps {
+  models: ModelSummary[];
+  categories: Category[];
+}
+
+export function CostManager({ models, categories }: CostManagerProps) {
+  const { priceTable, loading, error: loadError, refetch } = usePriceTable();
+  const { campaigns } = useCampaigns();
+  const [draft, setDraft] = useState<PriceTable | null>(null);
+  const [fullModels, setFullModels] = useState<ProductModel[]>([]);
+  const [modelsError, setModelsError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Rollups need every marker, so the full models are loaded once per model list
+  const modelIdsKey = models.map((model) => model.id).join(',');
+  useEffect(() => {
+    const modelIds = modelIdsKey.split(',').filter(Boolean);
+    let cancelled = false;
+    loadModels(modelIds)
+      .then((loaded) => {
+        if (!cancelled) setFullModels(loaded);
+      })
+      .catch((err) => {
+        console.error('Failed to load models for cost estimates:', err);
+        if (!cancelled) setModelsError(err instanceof Error ? err.message : 'Failed to load models');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [modelIdsKey]);
+
+  // Rollups follow the table being edited, so the effect of a price is visible before saving
+  const table = draft ?? priceTable ?? EMPTY_PRICE_TABLE;
+  const isDirty = draft !== null;
+
+  const materialTypesInUse = useMemo(() => {
+    const types = new Map<string, string>();
+    fullModels.forEach((model) =>
+      getModelMarkers(model).forEach((marker) => {
+        const materialType = marker.info.materialType?.trim();
+        if (materialType && !types.has(materialType.toLowerCase())) types.set(materialType.toLowerCase(), materialType);
+      })
+    );
+    return [...types.values()].sort((a, b) => a.localeCompare(b));
+  }, [fullModels]);
+  const unpricedTypes = materialTypesInUse.filter((materialType) => !findMaterialPrice(table, materialType));
+
+  const modelCosts = useMemo(
+    () =>
+      fullModels
+        .map((model) => ({ model, cost: estimateModelCost(model, table) }))
+        .sort((a, b) => b.cost.total - a.cost.total || a.model.name.localeCompare(b.model.name)),
+    [fullModels, table]
+  );
+  const categoryCosts = useMemo(
+    () => estimateCategoryCosts(fullModels, categories, table).filter((cost) => cost.modelCount > 0),
+    [fullModels, categories, table]
+  );
+  const campaignCosts = useMemo(
+    () => campaigns.map((campaign) => ({ campaign, cost: estimateCampaignCost(campaign, fullModels, table) })),
+    [campaigns, fullModels, table]
+  );
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+
+  const updateTable = (next: Partial<PriceTable>) => {
+    setDraft({ ...table, ...next });
+    setMessage(null);
+  };
+
+  const updateMaterial = (index: number, changes: Partial<MaterialPrice>) =>
+    updateTable({
+      materials: table.materials.map((material, i) => (i === index ? { ...material, ...changes } : material)),
+    });
+
+  const addMaterial = (materialType: string = '') =>
+    updateTable({ materials: [...table.materials, { materialType, method: 'per-m2', price: 0 }] });
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await savePriceTable({
+        ...draft,
+        materials: draft.materials.map(({ notes, ...material }) => ({
+          ...material,
+          materialType: material.materialType.trim(),
+          ...(notes?.trim() ? { notes: notes.trim() } : {}),
+        })),
+      });
+      await refetch();
+      setDraft(null);
+      setMessage('Price table saved');
+    } catch (err) {
+      console.error('Failed to save price table:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save price table');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCost = (total: number, pricedMarkers: number, unpricedMarkers: number) => (
+    <>
+      <td className="py-2 pr-4 text-right font-medium text-secondary-900">
+        {pricedMarkers > 0 ? formatCost(total, table.currency) : '—'}
+      </td>
+      <td className="py-2 text-right text-secondary-500">
+        {unpricedMarkers > 0 ? `${unpricedMarkers} not priced` : ''}
+      </td>
+    </>
+  );
+
+  return (
+    <div className="card-glass">
+      <div className="p-8 space-y-8">
+        <div>
+          <h2 className="text-2xl font-bold text-secondary-900 mb-2">Costs</h2>
+          <p className="text-secondary-600">
+            Material prices, and what it costs to dress each model, category and campaign
+          </p>
+        </div>
+
+        {loadError && <div className="alert-error text-sm">{loadError.message}</div>}
+        {modelsError && <div className="alert-error text-sm">{modelsError}</div>}
+        {error && <div className="alert-error text-sm">{error}</div>}
+        {message && <div className="alert-success text-sm">{message}</div>}
+
+        {/* Price Table */}
+        {loading ? (
+          <p className="text-secondary-500">Loading prices...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end justify-between gap-3">
+              <h3 className="text-lg font-semibold text-secondary-900">Material Prices</h3>
+              <label className="flex items-center gap-2 text-sm text-secondary-700">
+                Currency
+                <input
+                  className="input w-24 font-mono uppercase"
+                  value={table.currency}
+                  maxLength={3}
+                  onChange={(e) => updateTable({ currency: e.target.value.toUpperCase() })}
+                  aria-label="Currency code"
+                />
+              </label>
+            </div>
+
+            {table.materials.length === 0 && <p className="text-sm text-secondary-500">No materials priced yet</p>}
+            {table.materials.map((material, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                <input
+                  className="input flex-1 min-w-[10rem]"
+                  value={material.materialType}
+                  placeholder="Material type"
+                  list="cost-material-types"
+                  onChange={(e) => updateMaterial(index, { materialType: e.target.value })}
+                  aria-label="Material type"
+                />
+                <select
+                  className="input w-48"
+                  value={material.method}
+                  onChange={(e) => updateMaterial(index, { method: e.target.value as PricingMethod })}
+                  aria-label="Pricing method"
+                >
+                  {PRICING_METHODS.map((method) => (
+                    <option key={method} value={method}>
+                      {PRICING_METHOD_LABELS[method]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  className="input w-36"
+                  value={material.price}
+                  onChange={(e) => updateMaterial(index, { price: Math.max(0, Number(e.target.value) || 0) })}
+                  aria-label={`Price of ${material.materialType || 'material'}`}
+                />
+                <input
+                  className="input flex-1 min-w-[8rem]"
+                  value={material.notes ?? ''}
+                  placeholder="Notes (supplier, finish...)"
+                  onChange={(e) => updateMaterial(index, { notes: e.target.value })}
+                  aria-label="Notes"
+                />
+                <button
+                  type="button"
+                  className="btn-outline text-sm"
+                  onClick={() => updateTable({ materials: table.materials.filter((_, i) => i !== index) })}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <datalist id="cost-material-types">
+              {materialTypesInUse.map((materialType) => (
+                <option key={materialType} value={materialType} />
+              ))}
+            </datalist>
+
+            {unpricedTypes.length > 0 && (
+              <div className="text-sm text-secondary-600">
+                <span className="mr-2">Used but not priced:</span>
+                {unpricedTypes.map((materialType) => (
+                  <button
+                    key={materialType}
+                    type="button"
+                    className="badge-warning mr-2 mb-1"
+                    onClick={() => addMaterial(materialType)}
+                    title="Add a price for this material"
+                  >
+                    + {materialType}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+              <button type="button" className="btn-outline" onClick={() => addMaterial()}>
+                Add Material
+              </button>
+              <button type="button" className="btn-accent px-8" onClick={handleSave} disabled={!isDirty || isSaving}>
+                {isSaving ? 'Saving...' : 'Save Prices'}
+              </button>
+              {isDirty && (
+                <button type="button" className="btn-outline" onClick={() => setDraft(null)} disabled={isSaving}>
+                  Discard Changes
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Rollups */}
+        <div className="border-t border-secondary-200 pt-6 space-y-6">
+          <p className="text-sm text-secondary-600">
+            Estimates are for one display of each model. Per m² prices use each item's width × height.
+            {isDirty && ' Unsaved price changes are included.'}
+          </p>
+
+          <div>
+            <h3 className="text-lg font-semibold text-secondary-900 mb-2">By Model</h3>
+            {modelCosts.length === 0 ? (
+              <p className="text-sm text-secondary-500">No models</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {modelCosts.map(({ model, cost }) => (
+                    <tr key={model.id} className="border-b border-secondary-100">
+                      <td className="py-2 pr-4 text-secondary-800">{model.name}</td>
+                      {renderCost(cost.total, cost.pricedMarkers, cost.unpricedMarkers)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {categoryCosts.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-secondary-900 mb-2">By Category</h3>
+              <table className="w-full text-sm">
+                <tbody>
+                  {categoryCosts.map((cost) => (
+                    <tr key={cost.categoryId} className="border-b border-secondary-100">
+                      <td className="py-2 pr-4 text-secondary-800">
+                        {categoryNames.get(cost.categoryId) ?? cost.categoryId}{' '}
+                        <span className="text-secondary-500">({cost.modelCount} model(s))</span>
+                      </td>
+                      {renderCost(cost.total, cost.pricedMarkers, cost.unpricedMarkers)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {campaignCosts.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-secondary-900 mb-1">By Campaign</h3>
+              <p className="text-xs text-secondary-500 mb-2">Reprinted artwork and extra campaign POSM only</p>
+              <table className="w-full text-sm">
+                <tbody>
+                  {campaignCosts.map(({ campaign, cost }) => (
+                    <tr key={campaign.id} className="border-b border-secondary-100">
+                      <td className="py-2 pr-4 text-secondary-800">
+                        {campaign.name}{' '}
+                        <span className="text-secondary-500">({cost.modelCount} model(s))</span>
+                      </td>
+                      {renderCost(cost.total, cost.pricedMarkers, cost.unpricedMarkers)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CostManager;
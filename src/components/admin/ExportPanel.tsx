@@ -5,31 +5,186 @@
  * Supports multiple export formats and configurations
  */
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import type { CsvColumn, CsvGranularity, ExportSelection, ExportSelectionMode } from '@/types';
+import { useCatalogueIndex } from '@/hooks/useModelData';
+import { useStores } from '@/hooks/useStores';
+import { useDisplayUnit } from '@/hooks/useDisplayUnit';
+import { usePriceTable } from '@/hooks/usePriceTable';
+import {
+  loadModels,
+  downloadJSON,
+  downloadFile,
+  exportModels,
+  selectModelsForExport,
+} from '@/services/modelService';
+import { createExportBundle, BUNDLE_MIME_TYPE } from '@/services/bundleService';
+import {
+  describeUnprintableCharacters,
+  findUnprintableCharacters,
+  generateInstallGuide,
+} from '@/services/installGuideService';
+import {
+  CSV_COLUMNS,
+  calculateBillOfMaterials,
+  filterUsedCategories,
+  generateBomCSV,
+  generateCSV,
+  generateExportFilename,
+  getCsvColumns,
+} from '@/utils/jsonExport';
+import { generateBomXLSX, generateXLSX, XLSX_MIME_TYPE } from '@/utils/xlsxExport';
+import { getModelUnitTotals } from '@/utils/stores';
+import { LENGTH_UNIT_LABELS } from '@/utils/units';
+
+type ExportFormat = 'json' | 'csv' | 'xlsx' | 'zip' | 'pdf';
+type SpreadsheetReport = 'catalogue' | 'bom';
+
+const FORMATS: { value: ExportFormat; description: string; available: boolean }[] = [
+  { value: 'json', description: 'Machine-readable format', available: true },
+  { value: 'csv', description: 'Spreadsheet compatible', available: true },
+  { value: 'xlsx', description: 'Excel workbook with one sheet per entity', available: true },
+  { value: 'zip', description: 'Bundle with images, restorable offline', available: true },
+  { value: 'pdf', description: 'Printable installation guides for field teams', available: true },
+];
+
+const SELECTION_MODES: { value: ExportSelectionMode; label: string }[] = [
+  { value: 'all', label: 'All models' },
+  { value: 'models', label: 'Pick models' },
+  { value: 'categories', label: 'By category' },
+  { value: 'search', label: 'Search results' },
+];
 
 export const ExportPanel = () => {
-  const [exportFormat, setExportFormat] = useState<'json' | 'csv' | 'xlsx'>('json');
+  const { catalogue } = useCatalogueIndex();
+  const { stores } = useStores();
+  const [displayUnit] = useDisplayUnit();
+  const { priceTable } = usePriceTable();
+  const [includeCosts, setIncludeCosts] = useState(true);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [report, setReport] = useState<SpreadsheetReport>('catalogue');
+  const [multiplyByStores, setMultiplyByStores] = useState(false);
+  const [granularity, setGranularity] = useState<CsvGranularity>('marker');
+  const [columns, setColumns] = useState<CsvColumn[]>(getCsvColumns('marker'));
   const [includeImages, setIncludeImages] = useState(true);
   const [includeMetadata, setIncludeMetadata] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [selectionMode, setSelectionMode] = useState<ExportSelectionMode>('all');
+  const [pickedModelIds, setPickedModelIds] = useState<string[]>([]);
+  const [pickedCategoryIds, setPickedCategoryIds] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+
+  const selection = useMemo((): ExportSelection => {
+    switch (selectionMode) {
+      case 'models':
+        return { mode: 'models', modelIds: pickedModelIds };
+      case 'categories':
+        return { mode: 'categories', categoryIds: pickedCategoryIds };
+      case 'search':
+        return { mode: 'search', query: query.trim() };
+      default:
+        return { mode: 'all' };
+    }
+  }, [selectionMode, pickedModelIds, pickedCategoryIds, query]);
+
+  const selectedModels = useMemo(
+    () => (catalogue ? selectModelsForExport(selection, catalogue) : []),
+    [catalogue, selection]
+  );
+  const exportType = selection.mode === 'all' ? 'full' : 'selective';
+  const totalMarkers = selectedModels.reduce((sum, model) => sum + model.posmCount, 0);
+  const availableColumns = getCsvColumns(granularity);
+  const isSpreadsheet = exportFormat === 'csv' || exportFormat === 'xlsx';
+  const isBomReport = isSpreadsheet && report === 'bom';
+  // The BOM needs one unit to total in, so 'as entered' falls back to cm
+  const bomUnit = displayUnit === 'original' ? 'cm' : displayUnit;
+  const hasPrices = Boolean(priceTable && priceTable.materials.length > 0);
+  const costTable = includeCosts && hasPrices && priceTable ? priceTable : undefined;
+
+  const handleGranularityChange = (value: CsvGranularity) => {
+    setGranularity(value);
+    setColumns(getCsvColumns(value));
+  };
+
+  const toggleColumn = (column: CsvColumn) => {
+    setColumns((prev) => (prev.includes(column) ? prev.filter((c) => c !== column) : [...prev, column]));
+  };
+
+  const toggleId = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]);
 
   const handleExport = async () => {
+    if (!catalogue || selectedModels.length === 0) return;
+
     setIsExporting(true);
+    setMessage(null);
+    try {
+      const models = await loadModels(selectedModels.map((model) => model.id));
+      const exportData = exportModels(models, exportType, catalogue.categories, selection, costTable);
+
+      if (isBomReport) {
+        const bill = calculateBillOfMaterials(models, {
+          storeUnits: multiplyByStores ? getModelUnitTotals(stores) : undefined,
+          unit: bomUnit,
+          priceTable: costTable,
+        });
+        if (exportFormat === 'csv') {
+          downloadFile(generateBomCSV(bill), generateExportFilename('posm-bom', exportType, 'csv'), 'text/csv;charset=utf-8');
+        } else {
+          downloadFile(generateBomXLSX(bill), generateExportFilename('posm-bom', exportType, 'xlsx'), XLSX_MIME_TYPE);
+        }
+        setMessage({
+          type: 'success',
+          text: `Bill of materials: ${bill.lines.length} line(s), ${bill.totalQuantity} item(s) from ${bill.modelCount} model(s)`,
+        });
+        return;
+      }
 
-    // Simulate export process
-    await new Promise(resolve => setTimeout(resolve, 2000));
+      if (exportFormat === 'csv') {
+        const csv = generateCSV(models, filterUsedCategories(models, catalogue.categories), {
+          granularity,
+          columns,
+          unit: displayUnit,
+          priceTable: costTable,
+        });
+        downloadFile(csv, generateExportFilename('posm-export', exportType, 'csv'), 'text/csv;charset=utf-8');
+      } else if (exportFormat === 'xlsx') {
+        const workbook = generateXLSX(exportData, displayUnit, costTable);
+        downloadFile(workbook, generateExportFilename('posm-export', exportType, 'xlsx'), XLSX_MIME_TYPE);
+      } else if (exportFormat === 'zip') {
+        const { bytes, manifest } = await createExportBundle(exportData, catalogue, {
+          includeImages,
+          includeMetadata,
+        });
+        downloadFile(bytes, generateExportFilename('posm-export', exportType, 'zip'), BUNDLE_MIME_TYPE);
 
-    // In a real application, this would trigger the actual export
-    console.log('Exporting data:', {
-      format: exportFormat,
-      includeImages,
-      includeMetadata
-    });
+        if (manifest.missingAssets.length > 0) {
+          setMessage({
+            type: 'error',
+            text: `Exported ${models.length} model(s), but ${manifest.missingAssets.length} image(s) could not be bundled: ${manifest.missingAssets.map((asset) => asset.url).join(', ')}`,
+          });
+          return;
+        }
+      } else if (exportFormat === 'pdf') {
+        const pdf = await generateInstallGuide(models, undefined, costTable);
+        downloadFile(pdf, generateExportFilename('installation-guide', exportType, 'pdf'), 'application/pdf');
 
-    setIsExporting(false);
+        const notice = describeUnprintableCharacters(findUnprintableCharacters(models));
+        if (notice) {
+          setMessage({ type: 'success', text: `Exported ${models.length} model(s) as PDF. ${notice}` });
+          return;
+        }
+      } else {
+        downloadJSON(exportData, generateExportFilename('posm-export', exportType));
+      }
 
-    // Show success message
-    alert(`Export completed as ${exportFormat.toUpperCase()} file!`);
+      setMessage({ type: 'success', text: `Exported ${models.length} model(s) as ${exportFormat.toUpperCase()}` });
+    } catch (err) {
+      console.error('Export failed:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Export failed' });
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   return (
@@ -45,6 +200,78 @@ export const ExportPanel = () => {
           Export catalogue data for backup or sharing in various formats
         </p>
 
+        {/* Model Selection */}
+        <div className="max-w-2xl mx-auto mb-8 text-left">
+          <label className="block text-sm font-semibold text-secondary-900 mb-3">
+            Models to Export
+          </label>
+          <div className="flex flex-wrap gap-4 mb-4">
+            {SELECTION_MODES.map(({ value, label }) => (
+              <label key={value} className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="selection"
+                  checked={selectionMode === value}
+                  onChange={() => setSelectionMode(value)}
+                  className="w-4 h-4 text-primary-600 border-secondary-300 focus:ring-primary-500"
+                />
+                <span className="text-secondary-900">{label}</span>
+              </label>
+            ))}
+          </div>
+
+          {selectionMode === 'models' && catalogue && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 max-h-64 overflow-y-auto">
+              {catalogue.models.map((model) => (
+                <label key={model.id} className="flex items-center space-x-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={pickedModelIds.includes(model.id)}
+                    onChange={() => setPickedModelIds((prev) => toggleId(prev, model.id))}
+                    className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
+                  />
+                  <span className="text-secondary-700">{model.name}</span>
+                  {model.code && <span className="text-xs text-secondary-500 font-mono">{model.code}</span>}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {selectionMode === 'categories' && catalogue && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+              {catalogue.categories.map((category) => (
+                <label key={category.id} className="flex items-center space-x-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={pickedCategoryIds.includes(category.id)}
+                    onChange={() => setPickedCategoryIds((prev) => toggleId(prev, category.id))}
+                    className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
+                  />
+                  <span className="text-secondary-700">{category.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {selectionMode === 'search' && (
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by model name or code"
+              className="input w-full"
+            />
+          )}
+
+          {selectionMode !== 'all' && (
+            <p className="text-xs text-secondary-600 mt-3">
+              {selectedModels.length === 0
+                ? 'No models selected'
+                : `Selected: ${selectedModels.map((model) => model.name).join(', ')}`}
+            </p>
+          )}
+        </div>
+
         {/* Export Options */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-2xl mx-auto mb-8">
           {/* Format Selection */}
@@ -53,24 +280,28 @@ export const ExportPanel = () => {
               Export Format
             </label>
             <div className="space-y-2">
-              {(['json', 'csv', 'xlsx'] as const).map((format) => (
-                <label key={format} className="flex items-center space-x-3 p-3 border border-secondary-200 rounded-lg cursor-pointer hover:bg-secondary-50 transition-colors">
+              {FORMATS.map(({ value, description, available }) => (
+                <label
+                  key={value}
+                  className={`flex items-center space-x-3 p-3 border border-secondary-200 rounded-lg transition-colors ${
+                    available ? 'cursor-pointer hover:bg-secondary-50' : 'opacity-50 cursor-not-allowed'
+                  }`}
+                >
                   <input
                     type="radio"
                     name="format"
-                    value={format}
-                    checked={exportFormat === format}
-                    onChange={(e) => setExportFormat(e.target.value as any)}
+                    value={value}
+                    checked={exportFormat === value}
+                    onChange={() => setExportFormat(value)}
+                    disabled={!available}
                     className="w-4 h-4 text-primary-600 border-secondary-300 focus:ring-primary-500"
                   />
                   <div>
                     <div className="font-medium text-secondary-900 uppercase">
-                      {format}
+                      {value}
                     </div>
                     <div className="text-xs text-secondary-600">
-                      {format === 'json' && 'Machine-readable format'}
-                      {format === 'csv' && 'Spreadsheet compatible'}
-                      {format === 'xlsx' && 'Excel format'}
+                      {description}
                     </div>
                   </div>
                 </label>
@@ -78,63 +309,195 @@ export const ExportPanel = () => {
             </div>
           </div>
 
-          {/* Include Options */}
-          <div className="text-left">
-            <label className="block text-sm font-semibold text-secondary-900 mb-3">
-              Include Options
-            </label>
-            <div className="space-y-3">
-              <label className="flex items-center space-x-3 cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={includeImages}
-                  onChange={(e) => setIncludeImages(e.target.checked)}
-                  className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
-                />
-                <div>
-                  <div className="font-medium text-secondary-900">Images</div>
-                  <div className="text-xs text-secondary-600">Include image files</div>
-                </div>
+          {/* Spreadsheet Report */}
+          {isSpreadsheet && (
+            <div className="text-left">
+              <label className="block text-sm font-semibold text-secondary-900 mb-3">
+                Report
               </label>
+              <div className="space-y-2">
+                {([
+                  { value: 'catalogue', label: 'Catalogue data', description: 'Models and POSM markers in detail' },
+                  {
+                    value: 'bom',
+                    label: 'Bill of materials',
+                    description: 'Quantities and print area by material and size, with the artwork list',
+                  },
+                ] as const).map(({ value, label, description }) => (
+                  <label
+                    key={value}
+                    className="flex items-center space-x-3 p-3 border border-secondary-200 rounded-lg cursor-pointer hover:bg-secondary-50 transition-colors"
+                  >
+                    <input
+                      type="radio"
+                      name="report"
+                      checked={report === value}
+                      onChange={() => setReport(value)}
+                      className="w-4 h-4 text-primary-600 border-secondary-300 focus:ring-primary-500"
+                    />
+                    <div>
+                      <div className="font-medium text-secondary-900">{label}</div>
+                      <div className="text-xs text-secondary-600">{description}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
 
-              <label className="flex items-center space-x-3 cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={includeMetadata}
-                  onChange={(e) => setIncludeMetadata(e.target.checked)}
-                  className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
-                />
-                <div>
-                  <div className="font-medium text-secondary-900">Metadata</div>
-                  <div className="text-xs text-secondary-600">Include technical details</div>
-                </div>
+              {report === 'bom' && (
+                <label className="flex items-center space-x-3 mt-4 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={multiplyByStores}
+                    onChange={(e) => setMultiplyByStores(e.target.checked)}
+                    disabled={stores.length === 0}
+                    className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
+                  />
+                  <div>
+                    <div className="font-medium text-secondary-900">Multiply by store quantities</div>
+                    <div className="text-xs text-secondary-600">
+                      {stores.length === 0
+                        ? 'No stores have been set up'
+                        : 'One set per installed unit; models not assigned to a store are left out'}
+                    </div>
+                  </div>
+                </label>
+              )}
+
+              <p className="mt-4 text-xs text-secondary-600">
+                Dimensions in{' '}
+                {isBomReport
+                  ? LENGTH_UNIT_LABELS[bomUnit]
+                  : displayUnit === 'original'
+                    ? 'the units they were entered in'
+                    : LENGTH_UNIT_LABELS[displayUnit]}
+                . Change this with the Units setting in the header.
+              </p>
+            </div>
+          )}
+
+          {/* CSV Options */}
+          {exportFormat === 'csv' && !isBomReport && (
+            <div className="text-left">
+              <label className="block text-sm font-semibold text-secondary-900 mb-3">
+                One Row Per
               </label>
+              <div className="flex space-x-4 mb-4">
+                {(['marker', 'model'] as const).map((value) => (
+                  <label key={value} className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="granularity"
+                      checked={granularity === value}
+                      onChange={() => handleGranularityChange(value)}
+                      className="w-4 h-4 text-primary-600 border-secondary-300 focus:ring-primary-500"
+                    />
+                    <span className="text-secondary-900">{value === 'marker' ? 'POSM marker' : 'Model'}</span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-semibold text-secondary-900">Columns</span>
+                <span className="space-x-2 text-xs">
+                  <button type="button" className="text-primary-600 hover:text-primary-800" onClick={() => setColumns(availableColumns)}>
+                    All
+                  </button>
+                  <button type="button" className="text-primary-600 hover:text-primary-800" onClick={() => setColumns([])}>
+                    None
+                  </button>
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-1 max-h-64 overflow-y-auto">
+                {availableColumns.map((column) => (
+                  <label key={column} className="flex items-center space-x-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(column)}
+                      onChange={() => toggleColumn(column)}
+                      className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
+                    />
+                    <span className="text-secondary-700">{CSV_COLUMNS[column].header}</span>
+                  </label>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
+
+          {/* Bundle Options */}
+          {exportFormat === 'zip' && (
+            <div className="text-left">
+              <label className="block text-sm font-semibold text-secondary-900 mb-3">
+                Include Options
+              </label>
+              <div className="space-y-3">
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeImages}
+                    onChange={(e) => setIncludeImages(e.target.checked)}
+                    className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
+                  />
+                  <div>
+                    <div className="font-medium text-secondary-900">Images</div>
+                    <div className="text-xs text-secondary-600">Model images, thumbnails and POSM artwork</div>
+                  </div>
+                </label>
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeMetadata}
+                    onChange={(e) => setIncludeMetadata(e.target.checked)}
+                    className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
+                  />
+                  <div>
+                    <div className="font-medium text-secondary-900">Metadata</div>
+                    <div className="text-xs text-secondary-600">Catalogue index snapshot with thumbnails and marker counts</div>
+                  </div>
+                </label>
+              </div>
+            </div>
+          )}
+
+          {/* Cost Estimates */}
+          <label className="flex items-center space-x-3 text-left cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeCosts && hasPrices}
+              onChange={(e) => setIncludeCosts(e.target.checked)}
+              disabled={!hasPrices}
+              className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
+            />
+            <div>
+              <div className="font-medium text-secondary-900">Include cost estimates</div>
+              <div className="text-xs text-secondary-600">
+                {hasPrices
+                  ? `From the material price table, in ${priceTable!.currency}`
+                  : 'Set up material prices in the Costs tab first'}
+              </div>
+            </div>
+          </label>
         </div>
 
         {/* Export Stats */}
         <div className="bg-secondary-50 rounded-lg p-4 mb-6">
-          <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="grid grid-cols-2 gap-4 text-center">
             <div>
-              <div className="text-2xl font-bold text-primary-600">0</div>
+              <div className="text-2xl font-bold text-primary-600">{selectedModels.length}</div>
               <div className="text-sm text-secondary-600">Models</div>
             </div>
             <div>
-              <div className="text-2xl font-bold text-primary-600">0</div>
+              <div className="text-2xl font-bold text-primary-600">{totalMarkers}</div>
               <div className="text-sm text-secondary-600">Markers</div>
             </div>
-            <div>
-              <div className="text-2xl font-bold text-primary-600">~0 MB</div>
-              <div className="text-sm text-secondary-600">Est. Size</div>
-            </div>
           </div>
         </div>
 
         {/* Export Button */}
         <button
           onClick={handleExport}
-          disabled={isExporting}
+          disabled={
+            isExporting || !catalogue || selectedModels.length === 0 || (exportFormat === 'csv' && !isBomReport && columns.length === 0)
+          }
           className="btn-accent px-8 py-3 text-lg"
         >
           {isExporting ? (
@@ -154,14 +517,14 @@ export const ExportPanel = () => {
           )}
         </button>
 
-        {/* Coming Soon Notice */}
-        <div className="alert-info mt-6">
-          <p className="text-sm">
-            <strong>Note:</strong> This is a demonstration. In a production environment,
-            this would generate actual export files with the selected options.
-          </p>
-        </div>
+        {message && (
+          <div className={`${message.type === 'success' ? 'alert-success' : 'alert-error'} mt-6`}>
+            <p className="text-sm">{message.text}</p>
+          </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+export default ExportPanel;
@@ -0,0 +1,260 @@
+/**
+ * ImportPanel Component
+ *
+ * Admin component for restoring or sharing catalogue data from an export file
+ * or ZIP bundle. Validates the upload, previews changes against the current
+ * catalogue and applies it with the chosen merge strategy
+ */
+
+import { useState } from 'react';
+import type { ImportPreview, ImportResult, ImportStrategy, ImportTarget } from '@/types';
+import { loadCatalogueIndex } from '@/services/modelService';
+import { formatValidationErrors } from '@/services/validationService';
+import { parseImportFile, previewImport, planImport, applyImport } from '@/services/importService';
+import { readExportBundle } from '@/services/bundleService';
+
+const STRATEGIES: { value: ImportStrategy; label: string; description: string }[] = [
+  { value: 'merge-newer', label: 'Keep newer', description: 'Update models only when the imported copy is newer' },
+  { value: 'replace', label: 'Replace', description: 'Imported models overwrite existing ones' },
+  { value: 'skip-existing', label: 'Skip existing', description: 'Only add models that do not exist yet' },
+];
+
+const TARGETS: { value: ImportTarget; label: string; description: string }[] = [
+  { value: 'drafts', label: 'Drafts', description: 'Review markers in the editor before publishing' },
+  { value: 'data-source', label: 'Data source', description: 'Save models and categories straight away' },
+];
+
+const STATUS_BADGES = {
+  new: 'badge-success',
+  changed: 'badge-warning',
+  unchanged: 'badge-secondary',
+} as const;
+
+export const ImportPanel = () => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge-newer');
+  const [target, setTarget] = useState<ImportTarget>('drafts');
+  const [isWorking, setIsWorking] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const handleFileChange = async (file: File | undefined) => {
+    setPreview(null);
+    setResult(null);
+    setErrors([]);
+    if (!file) return;
+
+    setFileName(file.name);
+    setIsWorking(true);
+    try {
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        const bundle = await readExportBundle(new Uint8Array(await file.arrayBuffer()));
+        if (!bundle.valid || !bundle.data) {
+          setErrors(formatValidationErrors(bundle.errors ?? []));
+          return;
+        }
+
+        const { data, manifest, assets } = bundle.data;
+        const catalogue = await loadCatalogueIndex();
+        setPreview({ ...(await previewImport(data, catalogue)), assets, thumbnails: manifest.thumbnails });
+        return;
+      }
+
+      const parsed = parseImportFile(await file.text());
+      if (!parsed.valid || !parsed.data) {
+        setErrors(formatValidationErrors(parsed.errors ?? []));
+        return;
+      }
+
+      const catalogue = await loadCatalogueIndex();
+      setPreview(await previewImport(parsed.data, catalogue));
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setErrors([err instanceof Error ? err.message : 'Failed to read import file']);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+
+    setIsWorking(true);
+    setErrors([]);
+    try {
+      setResult(await applyImport(preview, strategy, target));
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to apply import']);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const actions = preview ? new Map(planImport(preview, strategy).map((action) => [action.modelId, action])) : null;
+
+  return (
+    <div className="card-glass">
+      <div className="p-8">
+        <h2 className="text-2xl font-bold text-secondary-900 mb-2">Import Data</h2>
+        <p className="text-secondary-600 mb-6">
+          Restore a backup or load data shared by another team from a JSON export file or ZIP bundle
+        </p>
+
+        {/* File Upload */}
+        <label className="block mb-6">
+          <span className="block text-sm font-semibold text-secondary-900 mb-2">Export file</span>
+          <input
+            type="file"
+            accept="application/json,.json,application/zip,.zip"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+            disabled={isWorking}
+            className="block w-full text-sm text-secondary-700"
+          />
+          {fileName && <span className="text-xs text-secondary-500 mt-1 block">{fileName}</span>}
+        </label>
+
+        {errors.length > 0 && (
+          <div className="alert-error mb-6">
+            <p className="text-sm font-semibold mb-1">The file cannot be imported:</p>
+            <ul className="text-sm list-disc list-inside">
+              {errors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {preview && actions && (
+          <>
+            {/* Preview */}
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold text-secondary-900 mb-2">Preview</h3>
+              <p className="text-sm text-secondary-600 mb-3">
+                Exported {new Date(preview.exportedAt).toLocaleString()} · {preview.models.length} model(s)
+                {preview.assets && ` · ${preview.assets.length} image(s)`}
+                {preview.newCategories.length > 0 &&
+                  ` · new categories: ${preview.newCategories.map((category) => category.name).join(', ')}`}
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-secondary-500 border-b border-secondary-200">
+                      <th className="py-2 pr-3">Model</th>
+                      <th className="py-2 pr-3">Status</th>
+                      <th className="py-2 pr-3">Marker changes</th>
+                      <th className="py-2 pr-3">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.models.map((entry) => {
+                      const counts = entry.markerChanges.reduce<Record<string, number>>((acc, change) => {
+                        acc[change.type] = (acc[change.type] ?? 0) + 1;
+                        return acc;
+                      }, {});
+                      const action = actions.get(entry.modelId);
+
+                      return (
+                        <tr key={entry.modelId} className="border-b border-secondary-100">
+                          <td className="py-2 pr-3">
+                            <div className="font-medium text-secondary-900">{entry.name}</div>
+                            <div className="text-xs text-secondary-500 font-mono">{entry.modelId}</div>
+                          </td>
+                          <td className="py-2 pr-3">
+                            <span className={`${STATUS_BADGES[entry.status]} text-xs`}>{entry.status}</span>
+                          </td>
+                          <td className="py-2 pr-3 text-secondary-600">
+                            {Object.keys(counts).length === 0
+                              ? '—'
+                              : Object.entries(counts)
+                                  .map(([type, count]) => `${count} ${type}`)
+                                  .join(', ')}
+                          </td>
+                          <td className="py-2 pr-3 text-secondary-600">
+                            {action?.action === 'skip' ? `Skip: ${action.reason}` : action?.reason}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Options */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+              <div>
+                <span className="block text-sm font-semibold text-secondary-900 mb-3">Merge strategy</span>
+                <div className="space-y-2">
+                  {STRATEGIES.map((option) => (
+                    <label key={option.value} className="flex items-center space-x-3 p-3 border border-secondary-200 rounded-lg cursor-pointer hover:bg-secondary-50 transition-colors">
+                      <input
+                        type="radio"
+                        name="import-strategy"
+                        checked={strategy === option.value}
+                        onChange={() => setStrategy(option.value)}
+                        className="w-4 h-4 text-primary-600 border-secondary-300 focus:ring-primary-500"
+                      />
+                      <div>
+                        <div className="font-medium text-secondary-900">{option.label}</div>
+                        <div className="text-xs text-secondary-600">{option.description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <span className="block text-sm font-semibold text-secondary-900 mb-3">Apply to</span>
+                <div className="space-y-2">
+                  {TARGETS.map((option) => (
+                    <label key={option.value} className="flex items-center space-x-3 p-3 border border-secondary-200 rounded-lg cursor-pointer hover:bg-secondary-50 transition-colors">
+                      <input
+                        type="radio"
+                        name="import-target"
+                        checked={target === option.value}
+                        onChange={() => setTarget(option.value)}
+                        className="w-4 h-4 text-primary-600 border-secondary-300 focus:ring-primary-500"
+                      />
+                      <div>
+                        <div className="font-medium text-secondary-900">{option.label}</div>
+                        <div className="text-xs text-secondary-600">{option.description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <button onClick={handleApply} disabled={isWorking} className="btn-accent px-8 py-3">
+              {isWorking ? 'Importing...' : 'Apply Import'}
+            </button>
+          </>
+        )}
+
+        {result && (
+          <div className="alert-success mt-6">
+            <p className="text-sm">
+              Imported {result.applied.length} model(s)
+              {target === 'drafts' ? ' as drafts' : ''}
+              {result.categoriesSaved > 0 && `, saved ${result.categoriesSaved} categories`}
+              {result.assetsSaved > 0 && `, restored ${result.assetsSaved} image(s)`}.
+              {result.skipped.length > 0 && ` Skipped ${result.skipped.length}.`}
+            </p>
+            {result.skipped.length > 0 && (
+              <ul className="text-xs list-disc list-inside mt-1">
+                {result.skipped.map((action) => (
+                  <li key={action.modelId}>
+                    {action.modelId}: {action.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportPanel;
@@ -6,7 +6,8 @@
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
-import type { POSMMarker } from '@/types';
+import type { LengthUnit, POSMMarker } from '@/types';
+import { LENGTH_UNITS, LENGTH_UNIT_LABELS, normalizeLengthUnit } from '@/utils/units';
 
 interface InfoEditorProps {
   marker: POSMMarker | null;
@@ -36,7 +37,7 @@ interface FormData {
     width: string;
     height: string;
     depth: string;
-    unit: string;
+    unit: LengthUnit;
   };
   materialType: string;
   notes: string;
@@ -263,7 +264,7 @@ export function InfoEditor({ marker, onSave, onCancel, isOpen }: InfoEditorProps
             width: parseFloat(formData.dimensions.width),
             height: parseFloat(formData.dimensions.height),
             ...(formData.dimensions.depth && { depth: parseFloat(formData.dimensions.depth) }),
-            unit: formData.dimensions.unit,
+            unit: normalizeLengthUnit(formData.dimensions.unit) ?? 'cm',
           },
         }),
         ...(formData.materialType && { materialType: formData.materialType.trim() }),
@@ -539,11 +540,11 @@ export function InfoEditor({ marker, onSave, onCancel, isOpen }: InfoEditorProps
                       onChange={(e) => handleInputChange('dimensions.unit', e.target.value)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     >
-                      <option value="cm">Centimeters (cm)</option>
-                      <option value="in">Inches (in)</option>
-                      <option value="mm">Millimeters (mm)</option>
-                      <option value="ft">Feet (ft)</option>
-                      <option value="m">Meters (m)</option>
+                      {LENGTH_UNITS.map((unit) => (
+                        <option key={unit} value={unit}>
+                          {LENGTH_UNIT_LABELS[unit]}
+                        </option>
+                      ))}
                     </select>
                   </div>
                 </div>
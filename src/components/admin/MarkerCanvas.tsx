@@ -0,0 +1,353 @@
+/**
+ * MarkerCanvas Component
+ *
+ * Admin canvas for placing markers on a view image
+ * Draws point, rectangle and polygon markers, moves them, and resizes
+ * regions by dragging rectangle corners or polygon vertices
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import type { Coordinates, MarkerShape, MarkerShapeType, ModelImage, POSMMarker, PolygonShape, RectShape } from '@/types';
+import {
+  MIN_SHAPE_SIZE,
+  clampCoordinates,
+  getCoordinatesFromEvent,
+  getRectCorners,
+  rectFromCorners,
+  shapeToSvgPoints,
+  translateShape,
+} from '@/utils/coordinates';
+import { MarkerRegions } from '@/components/viewer/MarkerRegions';
+
+type CanvasTool = 'select' | MarkerShapeType;
+
+interface MarkerCanvasProps {
+  image: ModelImage;
+  markers: POSMMarker[];
+  selectedMarkerId: string | null;
+  onSelect: (markerId: string | null) => void;
+  onAddMarker: (position: Coordinates, shape?: MarkerShape) => void;
+  onMovePoint: (markerId: string, position: Coordinates) => void;
+  onUpdateShape: (markerId: string, shape: MarkerShape) => void;
+}
+
+/**
+ * Pointer drag in progress
+ */
+type DragState =
+  | { kind: 'draw-rect'; from: Coordinates }
+  | { kind: 'move'; marker: POSMMarker; start: Coordinates }
+  | { kind: 'corner'; markerId: string; fixed: Coordinates }
+  | { kind: 'vertex'; markerId: string; shape: PolygonShape; index: number };
+
+const TOOLS: { value: CanvasTool; label: string }[] = [
+  { value: 'select', label: 'Select' },
+  { value: 'point', label: 'Point' },
+  { value: 'rect', label: 'Rectangle' },
+  { value: 'polygon', label: 'Polygon' },
+];
+
+// Clicking within this distance (percent) of the first vertex closes a polygon
+const CLOSE_DISTANCE = 2;
+
+const HANDLE_CLASS =
+  'absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 bg-white border-2 border-primary-600 rounded-sm pointer-events-auto';
+
+function isLargeEnough(rect: RectShape): boolean {
+  return rect.width >= MIN_SHAPE_SIZE && rect.height >= MIN_SHAPE_SIZE;
+}
+
+export function MarkerCanvas({
+  image,
+  markers,
+  selectedMarkerId,
+  onSelect,
+  onAddMarker,
+  onMovePoint,
+  onUpdateShape,
+}: MarkerCanvasProps) {
+  const [tool, setTool] = useState<CanvasTool>('select');
+  const [draftRect, setDraftRect] = useState<RectShape | null>(null);
+  const [polygonPoints, setPolygonPoints] = useState<Coordinates[]>([]);
+  const [pointer, setPointer] = useState<Coordinates | null>(null);
+  const [hoveredMarkerId, setHoveredMarkerId] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const selectedMarker = markers.find((marker) => marker.id === selectedMarkerId) ?? null;
+
+  const changeTool = (next: CanvasTool) => {
+    setTool(next);
+    setDraftRect(null);
+    setPolygonPoints([]);
+  };
+
+  const finishPolygon = () => {
+    if (polygonPoints.length >= 3) {
+      onAddMarker(polygonPoints[0], { type: 'polygon', points: polygonPoints });
+    }
+    changeTool('select');
+  };
+
+  // Enter closes the polygon being drawn, Escape abandons it
+  useEffect(() => {
+    if (tool !== 'polygon') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setPolygonPoints([]);
+      } else if (event.key === 'Enter') {
+        finishPolygon();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const toPercent = (event: ReactPointerEvent): Coordinates =>
+    getCoordinatesFromEvent(event.nativeEvent, surfaceRef.current!);
+
+  const startDrag = (event: ReactPointerEvent, drag: DragState) => {
+    event.stopPropagation();
+    dragRef.current = drag;
+    surfaceRef.current?.setPointerCapture(event.pointerId);
+  };
+
+  const handleSurfacePointerDown = (event: ReactPointerEvent) => {
+    const point = toPercent(event);
+
+    switch (tool) {
+      case 'point':
+        onAddMarker(point);
+        changeTool('select');
+        break;
+      case 'rect':
+        setDraftRect(rectFromCorners(point, point));
+        startDrag(event, { kind: 'draw-rect', from: point });
+        break;
+      case 'polygon': {
+        const first = polygonPoints[0];
+        if (first && polygonPoints.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) <= CLOSE_DISTANCE) {
+          finishPolygon();
+        } else {
+          setPolygonPoints((prev) => [...prev, point]);
+        }
+        break;
+      }
+      default:
+        onSelect(null);
+    }
+  };
+
+  const handleMarkerPointerDown = (event: ReactPointerEvent, marker: POSMMarker) => {
+    if (tool !== 'select') return; // Let the surface handle drawing on top of existing markers
+    onSelect(marker.id);
+    startDrag(event, { kind: 'move', marker, start: toPercent(event) });
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent) => {
+    const point = toPercent(event);
+    setPointer(point);
+
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    switch (drag.kind) {
+      case 'draw-rect':
+        setDraftRect(rectFromCorners(drag.from, point));
+        break;
+      case 'move': {
+        const dx = point.x - drag.start.x;
+        const dy = point.y - drag.start.y;
+        if (drag.marker.shape) {
+          onUpdateShape(drag.marker.id, translateShape(drag.marker.shape, dx, dy));
+        } else {
+          onMovePoint(drag.marker.id, clampCoordinates({ x: drag.marker.position.x + dx, y: drag.marker.position.y + dy }));
+        }
+        break;
+      }
+      case 'corner': {
+        const rect = rectFromCorners(drag.fixed, point);
+        if (isLargeEnough(rect)) onUpdateShape(drag.markerId, rect);
+        break;
+      }
+      case 'vertex':
+        onUpdateShape(drag.markerId, {
+          ...drag.shape,
+          points: drag.shape.points.map((vertex, index) => (index === drag.index ? point : vertex)),
+        });
+        break;
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+
+    if (drag?.kind === 'draw-rect') {
+      if (draftRect && isLargeEnough(draftRect)) {
+        onAddMarker(drag.from, draftRect);
+      }
+      changeTool('select');
+    }
+  };
+
+  const renderHandles = () => {
+    const shape = selectedMarker?.shape;
+    if (!selectedMarker || !shape || tool !== 'select') return null;
+
+    if (shape.type === 'rect') {
+      const corners = getRectCorners(shape);
+      return corners.map((corner, index) => (
+        <div
+          key={index}
+          className={`${HANDLE_CLASS} ${index % 2 === 0 ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+          style={{ left: `${corner.x}%`, top: `${corner.y}%` }}
+          onPointerDown={(event) =>
+            startDrag(event, { kind: 'corner', markerId: selectedMarker.id, fixed: corners[(index + 2) % 4] })
+          }
+        />
+      ));
+    }
+
+    return shape.points.map((vertex, index) => (
+      <div
+        key={index}
+        className={`${HANDLE_CLASS} cursor-move rounded-full`}
+        style={{ left: `${vertex.x}%`, top: `${vertex.y}%` }}
+        onPointerDown={(event) => startDrag(event, { kind: 'vertex', markerId: selectedMarker.id, shape, index })}
+      />
+    ));
+  };
+
+  const hint: Record<CanvasTool, string> = {
+    select: 'Drag a marker to move it; drag the handles of a selected region to resize it',
+    point: 'Click the image to place a point marker',
+    rect: 'Drag on the image to draw a rectangle',
+    polygon: 'Click to add vertices; click the first vertex or press Enter to finish, Escape to start over',
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            className={tool === value ? 'btn-primary' : 'btn-outline'}
+            onClick={() => changeTool(value)}
+            aria-pressed={tool === value}
+          >
+            {label}
+          </button>
+        ))}
+        {tool === 'polygon' && (
+          <button type="button" className="btn-secondary" onClick={finishPolygon} disabled={polygonPoints.length < 3}>
+            Finish Polygon
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-secondary-500">{hint[tool]}</p>
+
+      <div
+        ref={surfaceRef}
+        className={`relative select-none touch-none bg-secondary-100 rounded-xl overflow-hidden ${
+          tool === 'select' ? 'cursor-default' : 'cursor-crosshair'
+        }`}
+        style={{ aspectRatio: image.width / image.height }}
+        onPointerDown={handleSurfacePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setPointer(null)}
+      >
+        <img
+          src={image.url}
+          alt={image.alt}
+          className="w-full h-full object-contain pointer-events-none"
+          draggable={false}
+        />
+
+        <MarkerRegions
+          markers={markers}
+          highlightedMarkerId={hoveredMarkerId ?? selectedMarkerId}
+        />
+
+        {/* Region hit areas, above the drawn regions so they can be grabbed */}
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox="0 0 100 100"
+          preserveAspectRatio="none"
+        >
+          {markers.map((marker) =>
+            marker.shape ? (
+              <polygon
+                key={marker.id}
+                points={shapeToSvgPoints(marker.shape)}
+                fill="transparent"
+                className={tool === 'select' ? 'pointer-events-auto cursor-move' : ''}
+                onPointerDown={(event) => handleMarkerPointerDown(event, marker)}
+                onPointerEnter={() => setHoveredMarkerId(marker.id)}
+                onPointerLeave={() => setHoveredMarkerId(null)}
+              />
+            ) : null
+          )}
+
+          {/* Shape being drawn */}
+          {draftRect && (
+            <polygon
+              points={shapeToSvgPoints(draftRect)}
+              fill="#3B82F6"
+              fillOpacity={0.2}
+              stroke="#3B82F6"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {polygonPoints.length > 0 && (
+            <polyline
+              points={[...polygonPoints, ...(pointer ? [pointer] : [])].map((p) => `${p.x},${p.y}`).join(' ')}
+              fill="#3B82F6"
+              fillOpacity={0.15}
+              stroke="#3B82F6"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+
+        {/* Marker badges: the point itself, or the anchor of a region */}
+        {markers.map((marker, index) => (
+          <div
+            key={marker.id}
+            className={`absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold text-white shadow ${
+              tool === 'select' ? 'pointer-events-auto cursor-move' : 'pointer-events-none'
+            } ${marker.id === selectedMarkerId ? 'ring-2 ring-offset-1 ring-primary-600' : ''}`}
+            style={{
+              left: `${marker.position.x}%`,
+              top: `${marker.position.y}%`,
+              backgroundColor: marker.displayOptions?.iconColor || '#3B82F6',
+            }}
+            title={marker.info.name}
+            onPointerDown={(event) => handleMarkerPointerDown(event, marker)}
+          >
+            {index + 1}
+          </div>
+        ))}
+
+        {polygonPoints.map((vertex, index) => (
+          <div
+            key={index}
+            className={`${HANDLE_CLASS} pointer-events-none ${index === 0 && polygonPoints.length >= 3 ? 'bg-primary-600' : ''}`}
+            style={{ left: `${vertex.x}%`, top: `${vertex.y}%` }}
+          />
+        ))}
+
+        {renderHandles()}
+      </div>
+    </div>
+  );
+}
+
+export default MarkerCanvas;
@@ -0,0 +1,159 @@
+/**
+ * MergeConflictDialog Component
+ *
+ * Admin dialog shown when a saved draft and the published model both changed
+ * the same marker. Lets the editor keep their draft or the published version
+ * for each conflicting marker.
+ */
+
+import { useState } from 'react';
+import type { MarkerConflict, MergeSide, POSMMarker } from '@/types';
+
+interface MergeConflictDialogProps {
+  conflicts: MarkerConflict[];
+  draftBaseVersion: string | null;
+  publishedVersion: string;
+  onResolve: (resolutions: Record<string, MergeSide>) => void;
+  onDiscardDraft: () => void;
+}
+
+/**
+ * Format one field of a marker for side-by-side display
+ */
+function formatField(marker: POSMMarker | undefined, field: string): string {
+  if (!marker) return '—';
+  const value = field.startsWith('info.')
+    ? (marker.info as unknown as Record<string, unknown>)[field.slice('info.'.length)]
+    : (marker as unknown as Record<string, unknown>)[field];
+  if (value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function describeConflict(conflict: MarkerConflict): string {
+  if (!conflict.draft) return 'Deleted in your draft, changed in the published model';
+  if (!conflict.current) return 'Changed in your draft, deleted from the published model';
+  return 'Changed in both your draft and the published model';
+}
+
+export function MergeConflictDialog({
+  conflicts,
+  draftBaseVersion,
+  publishedVersion,
+  onResolve,
+  onDiscardDraft,
+}: MergeConflictDialogProps) {
+  const [resolutions, setResolutions] = useState<Record<string, MergeSide>>(() =>
+    Object.fromEntries(conflicts.map((conflict) => [conflict.markerId, 'draft' as MergeSide]))
+  );
+
+  if (conflicts.length === 0) return null;
+
+  const setAll = (side: MergeSide) => {
+    setResolutions(Object.fromEntries(conflicts.map((conflict) => [conflict.markerId, side])));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"></div>
+
+      {/* Modal Container */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-3xl transform overflow-hidden rounded-lg bg-white shadow-xl transition-all">
+          <div className="max-h-[90vh] overflow-y-auto">
+            {/* Header */}
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4">
+              <h3 className="text-lg font-semibold text-gray-900">Resolve Draft Conflicts</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                Your draft was started from {draftBaseVersion ? `v${draftBaseVersion}` : 'an unknown version'}, but
+                the published model is now v{publishedVersion}. Changes that did not overlap have been merged.
+              </p>
+              <div className="mt-3 space-x-3 text-sm">
+                <button type="button" className="text-blue-600 hover:text-blue-800" onClick={() => setAll('draft')}>
+                  Keep all mine
+                </button>
+                <button type="button" className="text-blue-600 hover:text-blue-800" onClick={() => setAll('current')}>
+                  Keep all published
+                </button>
+              </div>
+            </div>
+
+            {/* Conflicts */}
+            <div className="px-6 py-4 space-y-4">
+              {conflicts.map((conflict) => {
+                const name =
+                  conflict.draft?.info.name || conflict.current?.info.name || conflict.base?.info.name || conflict.markerId;
+                const fields = conflict.fields.length > 0 ? conflict.fields : ['info.name', 'position'];
+
+                return (
+                  <div key={conflict.markerId} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <h4 className="font-semibold text-gray-900">{name}</h4>
+                        <p className="text-xs text-gray-500">{describeConflict(conflict)}</p>
+                      </div>
+                      <div className="flex gap-3 text-sm whitespace-nowrap">
+                        {(['draft', 'current'] as MergeSide[]).map((side) => (
+                          <label key={side} className="flex items-center gap-1">
+                            <input
+                              type="radio"
+                              name={`resolution-${conflict.markerId}`}
+                              checked={resolutions[conflict.markerId] === side}
+                              onChange={() => setResolutions((prev) => ({ ...prev, [conflict.markerId]: side }))}
+                            />
+                            {side === 'draft' ? 'Keep mine' : 'Keep published'}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <table className="w-full text-xs mt-3">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-2">Field</th>
+                          <th className="py-1 pr-2">Mine</th>
+                          <th className="py-1 pr-2">Published</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {fields.map((field) => (
+                          <tr key={field} className="border-t border-gray-100 align-top">
+                            <td className="py-1 pr-2 font-mono text-gray-600">{field}</td>
+                            <td className="py-1 pr-2 break-all">{formatField(conflict.draft, field)}</td>
+                            <td className="py-1 pr-2 break-all">{formatField(conflict.current, field)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Footer */}
+            <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4">
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={onDiscardDraft}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors"
+                >
+                  Discard My Draft
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onResolve(resolutions)}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+                >
+                  Apply Resolutions
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MergeConflictDialog;
@@ -0,0 +1,220 @@
+/**
+ * RevisionHistory Component
+ *
+ * Admin component listing a model's published revisions
+ * Compares the markers of any two revisions and rolls back to an earlier one
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { MarkerChange, MarkerChangeType, ModelRevisionSummary } from '@/types';
+import { listRevisions, compareRevisions, rollbackToRevision } from '@/services/revisionService';
+import { isEqual } from '@/utils/modelDiff';
+
+interface RevisionHistoryProps {
+  modelId: string;
+  author?: string;
+  refreshKey?: number; // Change to reload the list (e.g. after publishing)
+  onRollback?: () => void;
+}
+
+const CHANGE_STYLES: Record<MarkerChangeType, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'badge-success' },
+  moved: { label: 'Moved', className: 'badge-primary' },
+  edited: { label: 'Edited', className: 'badge-warning' },
+  deleted: { label: 'Deleted', className: 'badge-error' },
+};
+
+/**
+ * Describe a single marker change for display
+ */
+function describeChange(change: MarkerChange): string {
+  const name = change.after?.info.name || change.before?.info.name || change.markerId;
+  if (change.type === 'moved' && change.before && change.after) {
+    const from = change.before.position;
+    const to = change.after.position;
+    const reshaped = !isEqual(change.before.shape, change.after.shape) ? ' (region reshaped)' : '';
+    return `${name}: (${from.x}, ${from.y}) → (${to.x}, ${to.y})${reshaped}`;
+  }
+  return name;
+}
+
+export function RevisionHistory({ modelId, author, refreshKey = 0, onRollback }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ModelRevisionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+  const [changes, setChanges] = useState<MarkerChange[] | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await listRevisions(modelId);
+      setRevisions(data);
+
+      // Default to comparing the two most recent revisions
+      const latest = data[data.length - 1]?.revision ?? null;
+      setToRevision(latest);
+      setFromRevision(latest !== null && latest > 1 ? latest - 1 : latest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revisions');
+    } finally {
+      setLoading(false);
+    }
+  }, [modelId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions, refreshKey]);
+
+  useEffect(() => {
+    if (fromRevision === null || toRevision === null) {
+      setChanges(null);
+      return;
+    }
+
+    let cancelled = false;
+    compareRevisions(modelId, fromRevision, toRevision)
+      .then((result) => {
+        if (!cancelled) setChanges(result);
+      })
+      .catch((err) => {
+        console.error('Failed to compare revisions:', err);
+        if (!cancelled) setChanges(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [modelId, fromRevision, toRevision]);
+
+  const handleRollback = async (revision: ModelRevisionSummary) => {
+    if (!window.confirm(`Roll back ${modelId} to revision ${revision.revision} (v${revision.version})?`)) {
+      return;
+    }
+
+    setRollingBack(true);
+    try {
+      await rollbackToRevision(modelId, revision.revision, author);
+      await fetchRevisions();
+      onRollback?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll back');
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  return (
+    <div className="card-glass">
+      <div className="p-6">
+        <h3 className="text-lg font-semibold text-secondary-900 mb-4">Revision History</h3>
+
+        {loading && <p className="text-secondary-500 text-sm">Loading revisions...</p>}
+
+        {error && (
+          <div className="alert-error mb-4">
+            <p className="text-sm">{error}</p>
+            <p className="text-xs mt-1">Revision history needs the local data server (npm run server).</p>
+          </div>
+        )}
+
+        {!loading && !error && revisions.length === 0 && (
+          <p className="text-secondary-500 text-sm">No revisions yet. Publishing the model creates the first one.</p>
+        )}
+
+        {revisions.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-secondary-500 border-b border-secondary-200">
+                  <th className="py-2 pr-3">From</th>
+                  <th className="py-2 pr-3">To</th>
+                  <th className="py-2 pr-3">Revision</th>
+                  <th className="py-2 pr-3">Version</th>
+                  <th className="py-2 pr-3">Author</th>
+                  <th className="py-2 pr-3">Date</th>
+                  <th className="py-2 pr-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...revisions].reverse().map((revision, index) => (
+                  <tr key={revision.revision} className="border-b border-secondary-100">
+                    <td className="py-2 pr-3">
+                      <input
+                        type="radio"
+                        name="revision-from"
+                        checked={fromRevision === revision.revision}
+                        onChange={() => setFromRevision(revision.revision)}
+                        aria-label={`Compare from revision ${revision.revision}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <input
+                        type="radio"
+                        name="revision-to"
+                        checked={toRevision === revision.revision}
+                        onChange={() => setToRevision(revision.revision)}
+                        aria-label={`Compare to revision ${revision.revision}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-3 font-mono">
+                      #{revision.revision}
+                      {revision.message && (
+                        <div className="text-xs text-secondary-500 font-sans">{revision.message}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 font-mono">
+                      {revision.version}
+                      {revision.bump && <span className="badge-secondary text-xs ml-2">{revision.bump}</span>}
+                    </td>
+                    <td className="py-2 pr-3">{revision.author}</td>
+                    <td className="py-2 pr-3 text-secondary-500">{new Date(revision.createdAt).toLocaleString()}</td>
+                    <td className="py-2 pr-3 text-right">
+                      {index > 0 && (
+                        <button
+                          type="button"
+                          className="text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                          onClick={() => handleRollback(revision)}
+                          disabled={rollingBack}
+                        >
+                          Roll back
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {changes && fromRevision !== null && toRevision !== null && (
+          <div className="mt-6">
+            <h4 className="font-semibold text-secondary-900 mb-2">
+              Changes from #{fromRevision} to #{toRevision}
+            </h4>
+            {changes.length === 0 ? (
+              <p className="text-secondary-500 text-sm">No marker changes</p>
+            ) : (
+              <ul className="space-y-1">
+                {changes.map((change) => (
+                  <li key={`${change.type}-${change.markerId}`} className="flex items-center gap-2 text-sm">
+                    <span className={`${CHANGE_STYLES[change.type].className} text-xs`}>
+                      {CHANGE_STYLES[change.type].label}
+                    </span>
+                    <span className="text-secondary-700">{describeChange(change)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RevisionHistory;
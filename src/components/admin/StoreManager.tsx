@@ -0,0 +1,257 @@
+/**
+ * StoreManager Component
+ *
+ * Admin component for the outlet list. Imports stores from a CSV file,
+ * assigns models to a store with the number of units installed, and
+ * removes stores
+ */
+
+import { useState } from 'react';
+import type { ModelSummary, Store, StoreCsvImport } from '@/types';
+import { useStores } from '@/hooks/useStores';
+import { importStoreCsv, saveStores } from '@/services/storeService';
+import { formatValidationErrors } from '@/services/validationService';
+import { countUnits, setStoreAssignment } from '@/utils/stores';
+import { StoreList } from '@/components/shared/StoreList';
+
+interface StoreManagerProps {
+  models: ModelSummary[]; // Catalogue models that can be assigned to a store
+}
+
+export function StoreManager({ models }: StoreManagerProps) {
+  const { stores, loading, error: loadError, refetch } = useStores();
+  const [csvImport, setCsvImport] = useState<StoreCsvImport | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Store | null>(null);
+  const [modelToAdd, setModelToAdd] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const modelNames = new Map(models.map((model) => [model.id, model.name]));
+
+  const persist = async (next: Store[], successMessage: string) => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await saveStores(next);
+      await refetch();
+      setMessage(successMessage);
+      return true;
+    } catch (err) {
+      console.error('Failed to save stores:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save stores');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    setCsvImport(null);
+    setError(null);
+    setMessage(null);
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setCsvImport(importStoreCsv(await file.text(), stores));
+    } catch (err) {
+      console.error('Failed to read store CSV:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read store CSV');
+    }
+  };
+
+  const handleApplyImport = async () => {
+    if (!csvImport) return;
+    const summary = `Imported ${csvImport.added.length} new and ${csvImport.updated.length} updated store(s)`;
+    if (await persist(csvImport.stores, summary)) {
+      setCsvImport(null);
+      setFileName(null);
+      setDraft(null);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    await persist(
+      stores.map((store) => (store.code === draft.code ? draft : store)),
+      `Saved model assignments for ${draft.name}`
+    );
+  };
+
+  const handleDelete = async (store: Store) => {
+    if (!window.confirm(`Delete store "${store.name}" (${store.code})?`)) return;
+    if (await persist(stores.filter((existing) => existing.code !== store.code), `Deleted ${store.name}`)) {
+      setDraft(null);
+    }
+  };
+
+  const handleAddModel = () => {
+    if (!draft || !modelToAdd) return;
+    setDraft(setStoreAssignment(draft, modelToAdd, 1));
+    setModelToAdd('');
+  };
+
+  const availableModels = draft
+    ? models.filter((model) => !draft.models.some((assignment) => assignment.modelId === model.id))
+    : [];
+
+  return (
+    <div className="card-glass">
+      <div className="p-8 space-y-8">
+        <div>
+          <h2 className="text-2xl font-bold text-secondary-900 mb-2">Stores</h2>
+          <p className="text-secondary-600">
+            Outlets the catalogue is rolled out to, and how many units of each model they run
+          </p>
+        </div>
+
+        {loadError && <div className="alert-error text-sm">{loadError.message}</div>}
+        {error && <div className="alert-error text-sm">{error}</div>}
+        {message && <div className="alert-success text-sm">{message}</div>}
+
+        {/* CSV Import */}
+        <div>
+          <label className="block">
+            <span className="block text-sm font-semibold text-secondary-900 mb-1">Import store list (CSV)</span>
+            <span className="block text-xs text-secondary-500 mb-2">
+              Columns: Code, Name, Region, Channel and optionally Address. Existing codes are updated and keep their
+              model assignments.
+            </span>
+            <input
+              type="file"
+              accept="text/csv,.csv"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              disabled={isSaving}
+              className="block w-full text-sm text-secondary-700"
+            />
+            {fileName && <span className="text-xs text-secondary-500 mt-1 block">{fileName}</span>}
+          </label>
+
+          {csvImport && (
+            <div className="mt-4 space-y-3">
+              <p className="text-sm text-secondary-700">
+                {csvImport.added.length} new · {csvImport.updated.length} updated ·{' '}
+                {csvImport.errors.length} problem(s)
+              </p>
+              {csvImport.errors.length > 0 && (
+                <div className="alert-warning">
+                  <p className="text-sm font-semibold mb-1">These rows will be skipped:</p>
+                  <ul className="text-sm list-disc list-inside max-h-40 overflow-y-auto">
+                    {formatValidationErrors(csvImport.errors).map((line, index) => (
+                      <li key={index}>{line}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <button
+                type="button"
+                className="btn-accent"
+                onClick={handleApplyImport}
+                disabled={isSaving || csvImport.added.length + csvImport.updated.length === 0}
+              >
+                {isSaving ? 'Saving...' : 'Save Imported Stores'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Store List */}
+        {loading ? (
+          <p className="text-secondary-500">Loading stores...</p>
+        ) : stores.length === 0 ? (
+          <p className="text-secondary-500">No stores yet</p>
+        ) : (
+          <StoreList
+            stores={stores}
+            selectedStoreCode={draft?.code}
+            onSelectStore={(store) => {
+              setDraft(structuredClone(store));
+              setMessage(null);
+              setError(null);
+            }}
+          />
+        )}
+
+        {/* Assignment Editor */}
+        {draft && (
+          <div className="border-t border-secondary-200 pt-6 space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h3 className="text-lg font-semibold text-secondary-900">{draft.name}</h3>
+                <p className="text-sm text-secondary-600">
+                  <span className="font-mono">{draft.code}</span> · {draft.region} · {draft.channel} ·{' '}
+                  {countUnits(draft.models)} unit(s)
+                </p>
+              </div>
+              <button
+                type="button"
+                className="btn-outline text-sm text-error-600"
+                onClick={() => handleDelete(draft)}
+                disabled={isSaving}
+              >
+                Delete Store
+              </button>
+            </div>
+
+            {draft.models.length === 0 && <p className="text-sm text-secondary-500">No models assigned</p>}
+            {draft.models.map((assignment) => (
+              <div key={assignment.modelId} className="flex items-center gap-3 text-sm">
+                <span className="flex-1 text-secondary-800">
+                  {modelNames.get(assignment.modelId) ?? assignment.modelId}
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  className="input w-24"
+                  value={assignment.quantity}
+                  onChange={(e) =>
+                    setDraft(setStoreAssignment(draft, assignment.modelId, Math.max(1, Number(e.target.value) || 1)))
+                  }
+                  aria-label={`Units of ${modelNames.get(assignment.modelId) ?? assignment.modelId}`}
+                />
+                <button
+                  type="button"
+                  className="btn-outline text-sm"
+                  onClick={() => setDraft(setStoreAssignment(draft, assignment.modelId, 0))}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+
+            {availableModels.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <select className="input max-w-sm" value={modelToAdd} onChange={(e) => setModelToAdd(e.target.value)}>
+                  <option value="">Assign a model...</option>
+                  {availableModels.map((model) => (
+                    <option key={model.id} value={model.id}>
+                      {model.name}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className="btn-outline" onClick={handleAddModel} disabled={!modelToAdd}>
+                  Add
+                </button>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button type="button" className="btn-accent px-8" onClick={handleSaveDraft} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Assignments'}
+              </button>
+              <button type="button" className="btn-outline" onClick={() => setDraft(null)} disabled={isSaving}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default StoreManager;
@@ -7,6 +7,7 @@
 
 import { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { UnitSelector } from '@/components/shared/UnitSelector';
 
 export const Header = () => {
   const [isScrolled, setIsScrolled] = useState(false);
@@ -30,6 +31,7 @@ export const Header = () => {
 
   const navigation = [
     { name: 'Catalogue', href: '/', icon: '🏪' },
+    { name: 'Stores', href: '/stores', icon: '📍' },
     { name: 'Admin', href: '/admin', icon: '⚙️', requireAuth: true },
   ];
 
@@ -94,6 +96,8 @@ export const Header = () => {
 
           {/* User Actions */}
           <div className="flex items-center space-x-3">
+            <UnitSelector className="hidden md:flex" />
+
             {/* Mode Indicator */}
             <div className="hidden sm:flex items-center space-x-2 px-3 py-2 rounded-lg bg-gradient-to-r from-primary-50 to-accent-50 border border-primary-200 shadow-soft">
               {isAdminMode ? (
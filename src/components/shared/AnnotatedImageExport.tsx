@@ -0,0 +1,77 @@
+/**
+ * AnnotatedImageExport Component
+ *
+ * Downloads a model view with its markers drawn on it, as PNG or SVG
+ */
+
+import { useState } from 'react';
+import type { AnnotatedImageFormat, ProductModel } from '@/types';
+import {
+  generateAnnotatedPng,
+  generateAnnotatedSvg,
+  PNG_MIME_TYPE,
+  SVG_MIME_TYPE,
+} from '@/services/annotatedImageService';
+import { downloadFile } from '@/services/modelService';
+
+interface AnnotatedImageExportProps {
+  model: ProductModel;
+  /** View to export; defaults to the primary view */
+  viewId?: string;
+  className?: string;
+}
+
+export function AnnotatedImageExport({ model, viewId, className = '' }: AnnotatedImageExportProps) {
+  const [showLabels, setShowLabels] = useState(true);
+  const [showLegend, setShowLegend] = useState(true);
+  const [exporting, setExporting] = useState<AnnotatedImageFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: AnnotatedImageFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const options = { showLabels, showLegend };
+      const suffix = viewId && model.views.length > 1 ? `-${viewId}` : '';
+      const name = `${model.code || model.id}${suffix}`.replace(/[^a-zA-Z0-9_-]+/g, '-');
+      if (format === 'png') {
+        downloadFile(await generateAnnotatedPng(model, options, viewId), `${name}-annotated.png`, PNG_MIME_TYPE);
+      } else {
+        downloadFile(await generateAnnotatedSvg(model, options, viewId), `${name}-annotated.svg`, SVG_MIME_TYPE);
+      }
+    } catch (err) {
+      console.error('Failed to export annotated image:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export annotated image');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          <input type="checkbox" checked={showLabels} onChange={(e) => setShowLabels(e.target.checked)} />
+          Labels
+        </label>
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          <input type="checkbox" checked={showLegend} onChange={(e) => setShowLegend(e.target.checked)} />
+          Legend
+        </label>
+        {(['png', 'svg'] as const).map((format) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            className="btn btn-outline text-sm px-4 py-2"
+          >
+            {exporting === format ? 'Exporting...' : `Image (${format.toUpperCase()})`}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
+
+export default AnnotatedImageExport;
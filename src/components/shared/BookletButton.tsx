@@ -0,0 +1,68 @@
+/**
+ * BookletButton Component
+ *
+ * Downloads a PDF booklet of the models currently shown in the catalogue
+ * With a price table, the booklet includes estimated costs
+ */
+
+import { useState } from 'react';
+import type { BookletFilters, Category, ModelSummary, PriceTable } from '@/types';
+import { generateCatalogueBooklet } from '@/services/bookletService';
+import { describeUnprintableCharacters, findUnprintableCharacters } from '@/services/installGuideService';
+import { downloadFile, loadModels } from '@/services/modelService';
+import { generateExportFilename } from '@/utils/jsonExport';
+
+interface BookletButtonProps {
+  models: ModelSummary[]; // Filtered models, in display order
+  categories: Category[];
+  filters: BookletFilters;
+  priceTable?: PriceTable | null;
+  className?: string;
+}
+
+export function BookletButton({ models, categories, filters, priceTable, className = '' }: BookletButtonProps) {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const isFiltered = Boolean(filters.query?.trim() || filters.categoryIds?.length);
+
+  const handleClick = async () => {
+    setIsGenerating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const fullModels = await loadModels(models.map((model) => model.id));
+      const pdf = await generateCatalogueBooklet(fullModels, categories, filters, undefined, priceTable ?? undefined);
+      downloadFile(
+        pdf,
+        generateExportFilename('posm-catalogue-booklet', isFiltered ? 'selective' : 'full', 'pdf'),
+        'application/pdf'
+      );
+      const categoryNames = categories.map((category) => category.name);
+      setNotice(describeUnprintableCharacters(findUnprintableCharacters(fullModels, categoryNames)));
+    } catch (err) {
+      console.error('Failed to generate booklet:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate booklet');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <button
+        onClick={handleClick}
+        disabled={isGenerating || models.length === 0}
+        className="btn btn-outline text-sm px-4 py-2"
+        title={`Booklet of ${models.length} model(s)`}
+      >
+        {isGenerating ? 'Generating booklet...' : 'Download booklet (PDF)'}
+      </button>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      {notice && <p className="text-sm text-amber-700 mt-2">{notice}</p>}
+    </div>
+  );
+}
+
+export default BookletButton;
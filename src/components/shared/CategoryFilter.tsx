@@ -3,16 +3,20 @@
  *
  * Modern category filter with checkboxes, search, and dropdown menu
  * Features responsive design and smooth animations
+ * Selected categories match any (OR) or, with the match toggle, all (AND)
  */
 
 import { useState, useMemo, useRef, useEffect } from 'react';
-import type { Category, ModelSummary } from '@/types';
+import type { Category, FacetMatchMode, ModelSummary } from '@/types';
 
 interface CategoryFilterProps {
   categories: Category[];
   selectedCategoryIds: string[];
   onSelectionChange: (categoryIds: string[]) => void;
   models?: ModelSummary[];
+  counts?: Record<string, number>; // Live counts by category ID; computed from models when omitted
+  matchMode?: FacetMatchMode;
+  onMatchModeChange?: (mode: FacetMatchMode) => void; // Shows the any/all toggle when set
   className?: string;
   disabled?: boolean;
 }
@@ -22,6 +26,9 @@ export const CategoryFilter = ({
   selectedCategoryIds,
   onSelectionChange,
   models = [],
+  counts,
+  matchMode = 'any',
+  onMatchModeChange,
   className = '',
   disabled = false
 }: CategoryFilterProps) => {
@@ -33,16 +40,18 @@ export const CategoryFilter = ({
 
   // Calculate model counts per category
   const categoryCounts = useMemo(() => {
-    const counts: Record<string, number> = {};
+    if (counts) return counts;
+
+    const modelCounts: Record<string, number> = {};
 
     categories.forEach((category) => {
-      counts[category.id] = models.filter((model) =>
+      modelCounts[category.id] = models.filter((model) =>
         model.categoryIds.includes(category.id)
       ).length;
     });
 
-    return counts;
-  }, [categories, models]);
+    return modelCounts;
+  }, [categories, models, counts]);
 
   // Filter categories based on search term
   const filteredCategories = useMemo(() => {
@@ -185,6 +194,29 @@ export const CategoryFilter = ({
             </div>
           )}
 
+          {/* Match mode */}
+          {onMatchModeChange && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-secondary-600">Models in</span>
+              <div className="flex rounded-lg border border-secondary-200 overflow-hidden" role="group" aria-label="Category match mode">
+                {(['any', 'all'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => onMatchModeChange(mode)}
+                    disabled={disabled}
+                    aria-pressed={matchMode === mode}
+                    className={`px-3 py-1 text-xs font-medium ${
+                      matchMode === mode ? 'bg-primary-600 text-white' : 'bg-white text-secondary-700 hover:bg-secondary-50'
+                    }`}
+                  >
+                    {mode === 'any' ? 'Any (OR)' : 'All (AND)'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Select/Clear All */}
           {categories.length > 1 && !searchTerm && (
             <div className="flex items-center justify-between py-2 border-y border-secondary-100">
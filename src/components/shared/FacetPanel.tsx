@@ -0,0 +1,258 @@
+/**
+ * FacetPanel Component
+ *
+ * Collapsible filters beyond categories: material type, POSM count, item
+ * size, campaign and last update. Every value shows how many models it would
+ * show given the other filters
+ */
+
+import { useState } from 'react';
+import type { Campaign, FacetCounts, FacetFilters, NumberRange, UpdatedWithin } from '@/types';
+import { countActiveFacets, UPDATED_WITHIN_LABELS, UPDATED_WITHIN_OPTIONS } from '@/utils/facets';
+
+interface FacetPanelProps {
+  filters: FacetFilters;
+  onChange: (filters: FacetFilters) => void;
+  counts: FacetCounts;
+  campaigns?: Campaign[];
+  className?: string;
+  disabled?: boolean;
+}
+
+export function FacetPanel({
+  filters,
+  onChange,
+  counts,
+  campaigns = [],
+  className = '',
+  disabled = false,
+}: FacetPanelProps) {
+  // Categories have their own dropdown, so only the facets here count towards the badge
+  const activeCount = countActiveFacets({ ...filters, categoryIds: [] });
+  const [isOpen, setIsOpen] = useState(activeCount > 0);
+
+  const update = (changes: Partial<FacetFilters>) => onChange({ ...filters, ...changes });
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+
+  const materials = Object.keys(counts.materials);
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="btn-ghost text-sm px-2 py-1 flex items-center space-x-2"
+        aria-expanded={isOpen}
+      >
+        <svg
+          className={`w-4 h-4 transition-transform duration-200 ${isOpen ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="font-medium text-secondary-900">More filters</span>
+        {activeCount > 0 && <span className="badge-primary text-xs">{activeCount}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          {/* Material */}
+          <fieldset disabled={disabled}>
+            <legend className="text-sm font-semibold text-secondary-900 mb-2">Material</legend>
+            {materials.length === 0 ? (
+              <p className="text-xs text-secondary-500">No materials recorded</p>
+            ) : (
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {materials.map((material) => (
+                  <FacetCheckbox
+                    key={material}
+                    label={material}
+                    count={counts.materials[material]}
+                    checked={filters.materials.includes(material)}
+                    onChange={() => update({ materials: toggle(filters.materials, material) })}
+                  />
+                ))}
+              </div>
+            )}
+          </fieldset>
+
+          {/* POSM count and item size */}
+          <fieldset disabled={disabled} className="space-y-3">
+            <legend className="text-sm font-semibold text-secondary-900 mb-2">POSM</legend>
+            <RangeInputs
+              label="Items"
+              range={filters.posmCount}
+              bounds={counts.posmCount}
+              onChange={(posmCount) => update({ posmCount })}
+            />
+            <RangeInputs
+              label="Item width (cm)"
+              range={filters.width}
+              bounds={counts.width}
+              onChange={(width) => update({ width })}
+            />
+            <RangeInputs
+              label="Item height (cm)"
+              range={filters.height}
+              bounds={counts.height}
+              onChange={(height) => update({ height })}
+            />
+          </fieldset>
+
+          {/* Campaign */}
+          <fieldset disabled={disabled}>
+            <legend className="text-sm font-semibold text-secondary-900 mb-2">Campaign</legend>
+            {campaigns.length === 0 ? (
+              <p className="text-xs text-secondary-500">No campaigns</p>
+            ) : (
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {campaigns.map((campaign) => (
+                  <FacetCheckbox
+                    key={campaign.id}
+                    label={campaign.name}
+                    count={counts.campaigns[campaign.id] ?? 0}
+                    checked={filters.campaignIds.includes(campaign.id)}
+                    onChange={() => update({ campaignIds: toggle(filters.campaignIds, campaign.id) })}
+                  />
+                ))}
+              </div>
+            )}
+          </fieldset>
+
+          {/* Last updated */}
+          <fieldset disabled={disabled}>
+            <legend className="text-sm font-semibold text-secondary-900 mb-2">Last updated</legend>
+            <div className="space-y-1">
+              <UpdatedOption
+                label="Any time"
+                checked={!filters.updatedWithin}
+                onChange={() => update({ updatedWithin: undefined })}
+              />
+              {UPDATED_WITHIN_OPTIONS.map((option: UpdatedWithin) => (
+                <UpdatedOption
+                  key={option}
+                  label={UPDATED_WITHIN_LABELS[option]}
+                  count={counts.updatedWithin[option]}
+                  checked={filters.updatedWithin === option}
+                  onChange={() => update({ updatedWithin: option })}
+                />
+              ))}
+            </div>
+          </fieldset>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * FacetCheckbox - One value of a multi-select facet
+ */
+interface FacetCheckboxProps {
+  label: string;
+  count: number;
+  checked: boolean;
+  onChange: () => void;
+}
+
+function FacetCheckbox({ label, count, checked, onChange }: FacetCheckboxProps) {
+  return (
+    <label
+      className={`flex items-center justify-between gap-2 text-sm cursor-pointer ${
+        count === 0 && !checked ? 'text-secondary-400' : 'text-secondary-700'
+      }`}
+    >
+      <span className="flex items-center gap-2 min-w-0">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={onChange}
+          className="w-4 h-4 text-primary-600 border-secondary-300 rounded focus:ring-primary-500"
+        />
+        <span className="truncate">{label}</span>
+      </span>
+      <span className={`badge text-xs ${checked ? 'badge-primary' : 'badge-secondary'}`}>{count}</span>
+    </label>
+  );
+}
+
+/**
+ * UpdatedOption - One choice of the last-updated facet
+ */
+interface UpdatedOptionProps {
+  label: string;
+  count?: number;
+  checked: boolean;
+  onChange: () => void;
+}
+
+function UpdatedOption({ label, count, checked, onChange }: UpdatedOptionProps) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-sm text-secondary-700 cursor-pointer">
+      <span className="flex items-center gap-2">
+        <input
+          type="radio"
+          name="facet-updated-within"
+          checked={checked}
+          onChange={onChange}
+          className="w-4 h-4 text-primary-600 border-secondary-300 focus:ring-primary-500"
+        />
+        {label}
+      </span>
+      {count !== undefined && (
+        <span className={`badge text-xs ${checked ? 'badge-primary' : 'badge-secondary'}`}>{count}</span>
+      )}
+    </label>
+  );
+}
+
+/**
+ * RangeInputs - Min and max inputs; the placeholders show the available range
+ */
+interface RangeInputsProps {
+  label: string;
+  range: NumberRange;
+  bounds: NumberRange;
+  onChange: (range: NumberRange) => void;
+}
+
+function RangeInputs({ label, range, bounds, onChange }: RangeInputsProps) {
+  const setBound = (bound: keyof NumberRange, value: string) => {
+    const number = Number(value);
+    onChange({ ...range, [bound]: value === '' || !Number.isFinite(number) ? undefined : Math.max(0, number) });
+  };
+
+  return (
+    <div>
+      <div className="text-xs text-secondary-600 mb-1">{label}</div>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={0}
+          step="any"
+          className="input py-1 text-sm w-full"
+          value={range.min ?? ''}
+          placeholder={bounds.min !== undefined ? `Min ${bounds.min}` : 'Min'}
+          onChange={(e) => setBound('min', e.target.value)}
+          aria-label={`${label} minimum`}
+        />
+        <span className="text-secondary-400">–</span>
+        <input
+          type="number"
+          min={0}
+          step="any"
+          className="input py-1 text-sm w-full"
+          value={range.max ?? ''}
+          placeholder={bounds.max !== undefined ? `Max ${bounds.max}` : 'Max'}
+          onChange={(e) => setBound('max', e.target.value)}
+          aria-label={`${label} maximum`}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default FacetPanel;
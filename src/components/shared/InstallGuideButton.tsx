@@ -0,0 +1,68 @@
+/**
+ * InstallGuideButton Component
+ *
+ * Downloads a printable installation guide (PDF) for one or more models
+ */
+
+import { useState } from 'react';
+import type { ProductModel } from '@/types';
+import {
+  describeUnprintableCharacters,
+  findUnprintableCharacters,
+  generateInstallGuide,
+} from '@/services/installGuideService';
+import { downloadFile } from '@/services/modelService';
+
+interface InstallGuideButtonProps {
+  models: ProductModel[];
+  className?: string;
+}
+
+/**
+ * Build the guide file name from the model codes (or IDs)
+ */
+function guideFilename(models: ProductModel[]): string {
+  const name = models.length === 1 ? models[0].code || models[0].id : `${models.length}-models`;
+  return `installation-guide-${name.replace(/[^a-zA-Z0-9_-]+/g, '-')}.pdf`;
+}
+
+export function InstallGuideButton({ models, className = '' }: InstallGuideButtonProps) {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setIsGenerating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const pdf = await generateInstallGuide(models);
+      downloadFile(pdf, guideFilename(models), 'application/pdf');
+      setNotice(describeUnprintableCharacters(findUnprintableCharacters(models)));
+    } catch (err) {
+      console.error('Failed to generate installation guide:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate installation guide');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <button
+        onClick={handleClick}
+        disabled={isGenerating || models.length === 0}
+        className="btn btn-outline text-sm px-4 py-2"
+      >
+        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+        </svg>
+        {isGenerating ? 'Generating PDF...' : 'Installation Guide (PDF)'}
+      </button>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      {notice && <p className="text-sm text-amber-700 mt-2">{notice}</p>}
+    </div>
+  );
+}
+
+export default InstallGuideButton;
@@ -2,16 +2,18 @@
  * ModelList Component
  *
  * Displays a list/grid of product models from the catalogue
- * Supports thumbnails, hover states, and model selection
+ * Supports thumbnails, hover states, model selection and search highlights
  */
 
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { ModelSummary } from '@/types';
+import type { HighlightRange, ModelSummary, SearchMatch } from '@/types';
+import { getHighlightSegments, getMatchSnippet, SEARCH_FIELD_LABELS } from '@/utils/search';
 import { LazyImage } from './LazyImage';
 
 interface ModelListProps {
   models: ModelSummary[];
+  searchMatches?: Map<string, SearchMatch[]>; // By model ID, from the current search
   loading?: boolean;
   error?: Error | null;
   selectedModelId?: string | null;
@@ -25,6 +27,7 @@ interface ModelListProps {
  */
 export function ModelList({
   models,
+  searchMatches,
   loading = false,
   error = null,
   selectedModelId = null,
@@ -154,6 +157,7 @@ export function ModelList({
             <ModelCard
               key={model.id}
               model={model}
+              matches={searchMatches?.get(model.id) ?? []}
               isSelected={model.id === selectedModelId}
               onClick={() => handleModelClick(model.id)}
             />
@@ -165,6 +169,7 @@ export function ModelList({
             <ModelListItem
               key={model.id}
               model={model}
+              matches={searchMatches?.get(model.id) ?? []}
               isSelected={model.id === selectedModelId}
               onClick={() => handleModelClick(model.id)}
             />
@@ -175,16 +180,60 @@ export function ModelList({
   );
 }
 
+/**
+ * HighlightedText - Text with the matched words marked
+ */
+interface HighlightedTextProps {
+  text: string;
+  ranges?: HighlightRange[];
+}
+
+function HighlightedText({ text, ranges = [] }: HighlightedTextProps) {
+  return (
+    <>
+      {getHighlightSegments(text, ranges).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * MatchedIn - Where a search matched, when it was not the name or code
+ */
+function MatchedIn({ matches }: { matches: SearchMatch[] }) {
+  const match = matches.find((entry) => entry.field !== 'name' && entry.field !== 'code');
+  if (!match || matches.some((entry) => entry.field === 'name')) return null;
+
+  const snippet = getMatchSnippet(match);
+  return (
+    <p className="text-xs text-gray-500 mb-2 line-clamp-2">
+      <span className="font-medium">{SEARCH_FIELD_LABELS[match.field]}:</span>{' '}
+      <HighlightedText text={snippet.text} ranges={snippet.ranges} />
+    </p>
+  );
+}
+
 /**
  * ModelCard - Grid view card component
  */
 interface ModelCardProps {
   model: ModelSummary;
+  matches: SearchMatch[];
   isSelected: boolean;
   onClick: () => void;
 }
 
-function ModelCard({ model, isSelected, onClick }: ModelCardProps) {
+function ModelCard({ model, matches, isSelected, onClick }: ModelCardProps) {
+  const nameMatch = matches.find((match) => match.field === 'name');
+  const codeMatch = matches.find((match) => match.field === 'code');
+
   return (
     <div
       onClick={onClick}
@@ -203,10 +252,22 @@ function ModelCard({ model, isSelected, onClick }: ModelCardProps) {
             {model.posmCount} POSM
           </div>
         )}
+        {(model.viewCount ?? 1) > 1 && (
+          <div className="absolute bottom-2 right-2 bg-black/60 text-white text-xs font-semibold px-2 py-1 rounded-full">
+            {model.viewCount} views
+          </div>
+        )}
       </div>
       <div className="p-4">
-        <h3 className="font-semibold text-gray-900 mb-1 truncate">{model.name}</h3>
-        {model.code && <p className="text-sm text-gray-500 mb-2">{model.code}</p>}
+        <h3 className="font-semibold text-gray-900 mb-1 truncate">
+          <HighlightedText text={model.name} ranges={nameMatch?.ranges} />
+        </h3>
+        {model.code && (
+          <p className="text-sm text-gray-500 mb-2">
+            <HighlightedText text={model.code} ranges={codeMatch?.ranges} />
+          </p>
+        )}
+        <MatchedIn matches={matches} />
         {model.categoryIds.length > 0 && (
           <div className="flex flex-wrap gap-1">
             {model.categoryIds.slice(0, 2).map((categoryId) => (
@@ -234,11 +295,15 @@ function ModelCard({ model, isSelected, onClick }: ModelCardProps) {
  */
 interface ModelListItemProps {
   model: ModelSummary;
+  matches: SearchMatch[];
   isSelected: boolean;
   onClick: () => void;
 }
 
-function ModelListItem({ model, isSelected, onClick }: ModelListItemProps) {
+function ModelListItem({ model, matches, isSelected, onClick }: ModelListItemProps) {
+  const nameMatch = matches.find((match) => match.field === 'name');
+  const codeMatch = matches.find((match) => match.field === 'code');
+
   return (
     <div
       onClick={onClick}
@@ -256,14 +321,21 @@ function ModelListItem({ model, isSelected, onClick }: ModelListItemProps) {
       <div className="p-4 flex-1 flex flex-col justify-between">
         <div>
           <div className="flex justify-between items-start mb-2">
-            <h3 className="font-semibold text-gray-900">{model.name}</h3>
+            <h3 className="font-semibold text-gray-900">
+              <HighlightedText text={model.name} ranges={nameMatch?.ranges} />
+            </h3>
             {model.posmCount > 0 && (
               <span className="bg-blue-600 text-white text-xs font-semibold px-2 py-1 rounded-full ml-2">
                 {model.posmCount} POSM
               </span>
             )}
           </div>
-          {model.code && <p className="text-sm text-gray-500 mb-2">{model.code}</p>}
+          {model.code && (
+            <p className="text-sm text-gray-500 mb-2">
+              <HighlightedText text={model.code} ranges={codeMatch?.ranges} />
+            </p>
+          )}
+          <MatchedIn matches={matches} />
         </div>
         {model.categoryIds.length > 0 && (
           <div className="flex flex-wrap gap-1">
@@ -0,0 +1,70 @@
+/**
+ * ModelStores Component
+ *
+ * Lists the stores that run a model, with the units installed at each
+ * Store names link to the store page, which lists the store's models
+ */
+
+import { Link } from 'react-router-dom';
+import type { Store } from '@/types';
+import { countUnits, getModelInstallations } from '@/utils/stores';
+
+interface ModelStoresProps {
+  modelId: string;
+  stores: Store[];
+  className?: string;
+}
+
+export function ModelStores({ modelId, stores, className = '' }: ModelStoresProps) {
+  const installations = getModelInstallations(stores, modelId);
+
+  return (
+    <section className={`card-large ${className}`}>
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold text-secondary-900">Installed at</h2>
+        {installations.length > 0 && (
+          <p className="text-sm text-secondary-600">
+            {installations.length} store(s) · {countUnits(installations)} unit(s)
+          </p>
+        )}
+      </div>
+
+      {installations.length === 0 ? (
+        <p className="text-sm text-secondary-500">This model is not assigned to any store yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-secondary-500 border-b border-secondary-200">
+                <th className="py-2 pr-3">Store</th>
+                <th className="py-2 pr-3">Region</th>
+                <th className="py-2 pr-3">Channel</th>
+                <th className="py-2 pr-3 text-right">Units</th>
+              </tr>
+            </thead>
+            <tbody>
+              {installations.map(({ store, quantity }) => (
+                <tr key={store.code} className="border-b border-secondary-100">
+                  <td className="py-2 pr-3">
+                    <Link
+                      to={`/stores/${encodeURIComponent(store.code)}`}
+                      className="font-medium text-primary-600 hover:text-primary-800"
+                    >
+                      {store.name}
+                    </Link>
+                    <div className="text-xs text-secondary-500 font-mono">{store.code}</div>
+                  </td>
+                  <td className="py-2 pr-3 text-secondary-700">{store.region}</td>
+                  <td className="py-2 pr-3 text-secondary-700">{store.channel}</td>
+                  <td className="py-2 pr-3 text-right font-medium text-secondary-900">{quantity}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default ModelStores;
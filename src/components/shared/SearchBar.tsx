@@ -3,9 +3,13 @@
  *
  * Modern search input with autocomplete suggestions and filters
  * Features keyboard navigation, loading states, and responsive design
+ * Understands the search query language: completes field names and known
+ * values, and shows syntax errors below the input
  */
 
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import type { QueryCompletion, QueryValueSuggestions } from '@/types';
+import { getQueryCompletions, parseSearchQuery } from '@/utils/searchQuery';
 
 interface SearchBarProps {
   value: string;
@@ -14,15 +18,19 @@ interface SearchBarProps {
   placeholder?: string;
   debounceMs?: number;
   suggestions?: string[];
+  fieldValues?: QueryValueSuggestions; // Known values to complete after field:
 }
 
+const NO_FIELD_VALUES: QueryValueSuggestions = {};
+
 export const SearchBar = ({
   value,
   onChange,
   disabled = false,
-  placeholder = "Search products, models, or categories...",
+  placeholder = "Search products, or filter like category:beverages posm>=3",
   debounceMs = 300,
-  suggestions = []
+  suggestions = [],
+  fieldValues = NO_FIELD_VALUES
 }: SearchBarProps) => {
   const [isFocused, setIsFocused] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -52,12 +60,19 @@ export const SearchBar = ({
     [onChange, debounceMs]
   );
 
-  // Filter suggestions based on input
-  const filteredSuggestions = suggestions
-    .filter(suggestion =>
-      suggestion.toLowerCase().includes(localValue.toLowerCase())
-    )
-    .slice(0, 8);
+  const syntaxError = useMemo(() => parseSearchQuery(localValue).error, [localValue]);
+
+  // Complete the query term being typed, otherwise suggest matching names
+  const completions = useMemo(() => getQueryCompletions(localValue, fieldValues), [localValue, fieldValues]);
+  const filteredSuggestions: QueryCompletion[] =
+    completions.length > 0
+      ? completions
+      : suggestions
+          .filter(suggestion =>
+            suggestion.toLowerCase().includes(localValue.toLowerCase())
+          )
+          .slice(0, 8)
+          .map(suggestion => ({ label: suggestion, value: suggestion }));
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
@@ -78,10 +93,7 @@ export const SearchBar = ({
     } else if (e.key === 'Enter') {
       if (activeSuggestion > -1) {
         e.preventDefault();
-        const suggestion = filteredSuggestions[activeSuggestion];
-        setLocalValue(suggestion);
-        onChange(suggestion);
-        setShowSuggestions(false);
+        handleSuggestionClick(filteredSuggestions[activeSuggestion]);
       }
     } else if (e.key === 'Escape') {
       setShowSuggestions(false);
@@ -96,11 +108,17 @@ export const SearchBar = ({
     inputRef.current?.focus();
   };
 
-  const handleSuggestionClick = (suggestion: string) => {
-    setLocalValue(suggestion);
-    onChange(suggestion);
-    setShowSuggestions(false);
+  const handleSuggestionClick = (suggestion: QueryCompletion) => {
+    const isCompletion = completions.includes(suggestion);
+    if (debounceTimerRef.current) {
+      window.clearTimeout(debounceTimerRef.current);
+    }
+    setLocalValue(suggestion.value);
+    onChange(suggestion.value);
+    // Keep the list open after a completion, so the value can be picked next
+    setShowSuggestions(isCompletion);
     setActiveSuggestion(-1);
+    if (isCompletion) inputRef.current?.focus();
   };
 
   // Keyboard shortcut: Ctrl/Cmd + K to focus search
@@ -197,11 +215,13 @@ export const SearchBar = ({
             isFocused
               ? 'ring-2 ring-primary-500 ring-offset-2 shadow-medium border-primary-500'
               : 'hover:border-secondary-400'
-          } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+          } ${syntaxError ? 'border-red-400' : ''} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
           aria-label="Search"
           role="searchbox"
           aria-expanded={showSuggestions}
           aria-autocomplete="list"
+          aria-invalid={Boolean(syntaxError)}
+          aria-describedby={syntaxError ? 'search-syntax-error' : undefined}
         />
 
         {/* Clear button */}
@@ -238,6 +258,20 @@ export const SearchBar = ({
         )}
       </div>
 
+      {/* Query syntax error */}
+      {syntaxError && (
+        <p id="search-syntax-error" className="mt-2 text-sm text-red-600" role="alert">
+          {syntaxError.message}
+          {syntaxError.end > syntaxError.start && (
+            <>
+              {' at '}
+              <code className="px-1 bg-red-50 rounded">{localValue.slice(syntaxError.start, syntaxError.end)}</code>
+            </>
+          )}
+          <span className="text-secondary-500"> — searching as plain text</span>
+        </p>
+      )}
+
       {/* Suggestions Dropdown */}
       {showSuggestions && filteredSuggestions.length > 0 && (
         <div
@@ -252,7 +286,7 @@ export const SearchBar = ({
           <ul className="py-2 max-h-80 overflow-y-auto" role="listbox">
             {filteredSuggestions.map((suggestion, index) => (
               <li
-                key={suggestion}
+                key={suggestion.value}
                 role="option"
                 aria-selected={index === activeSuggestion}
                 className={`px-4 py-3 cursor-pointer transition-colors ${
@@ -267,7 +301,8 @@ export const SearchBar = ({
                   <svg className="w-4 h-4 text-secondary-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                   </svg>
-                  <span className="font-medium">{suggestion}</span>
+                  <span className="font-medium">{suggestion.label}</span>
+                  {suggestion.hint && <span className="text-sm text-secondary-500">{suggestion.hint}</span>}
                 </div>
               </li>
             ))}
@@ -0,0 +1,116 @@
+/**
+ * StoreList Component
+ *
+ * Table of outlets with text, region and channel filters
+ * Each row links to the store page, or calls onSelectStore when given
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { Store } from '@/types';
+import { countUnits, filterStores, getStoreFieldValues } from '@/utils/stores';
+
+interface StoreListProps {
+  stores: Store[];
+  selectedStoreCode?: string | null;
+  onSelectStore?: (store: Store) => void;
+  className?: string;
+}
+
+export function StoreList({ stores, selectedStoreCode = null, onSelectStore, className = '' }: StoreListProps) {
+  const [query, setQuery] = useState('');
+  const [region, setRegion] = useState('');
+  const [channel, setChannel] = useState('');
+
+  const visible = filterStores(stores, { query, region, channel });
+
+  return (
+    <div className={className}>
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3 mb-4">
+        <input
+          type="search"
+          className="input flex-1 min-w-[200px]"
+          placeholder="Search by code, name or address..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label="Search stores"
+        />
+        <select className="input w-auto" value={region} onChange={(e) => setRegion(e.target.value)} aria-label="Region">
+          <option value="">All regions</option>
+          {getStoreFieldValues(stores, 'region').map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <select className="input w-auto" value={channel} onChange={(e) => setChannel(e.target.value)} aria-label="Channel">
+          <option value="">All channels</option>
+          {getStoreFieldValues(stores, 'channel').map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-sm text-secondary-600 mb-2">
+        Showing {visible.length} of {stores.length} stores
+      </p>
+
+      {visible.length === 0 ? (
+        <p className="text-secondary-500 py-8 text-center">No stores match the filters</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-secondary-500 border-b border-secondary-200">
+                <th className="py-2 pr-3">Store</th>
+                <th className="py-2 pr-3">Region</th>
+                <th className="py-2 pr-3">Channel</th>
+                <th className="py-2 pr-3 text-right">Models</th>
+                <th className="py-2 pr-3 text-right">Units</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((store) => (
+                <tr
+                  key={store.code}
+                  className={`border-b border-secondary-100 ${
+                    store.code === selectedStoreCode ? 'bg-primary-50' : 'hover:bg-secondary-50'
+                  }`}
+                >
+                  <td className="py-2 pr-3">
+                    {onSelectStore ? (
+                      <button
+                        type="button"
+                        className="font-medium text-primary-600 hover:text-primary-800 text-left"
+                        onClick={() => onSelectStore(store)}
+                      >
+                        {store.name}
+                      </button>
+                    ) : (
+                      <Link
+                        to={`/stores/${encodeURIComponent(store.code)}`}
+                        className="font-medium text-primary-600 hover:text-primary-800"
+                      >
+                        {store.name}
+                      </Link>
+                    )}
+                    <div className="text-xs text-secondary-500 font-mono">{store.code}</div>
+                  </td>
+                  <td className="py-2 pr-3 text-secondary-700">{store.region}</td>
+                  <td className="py-2 pr-3 text-secondary-700">{store.channel}</td>
+                  <td className="py-2 pr-3 text-right text-secondary-700">{store.models.length}</td>
+                  <td className="py-2 pr-3 text-right text-secondary-700">{countUnits(store.models)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StoreList;
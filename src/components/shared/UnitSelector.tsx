@@ -0,0 +1,40 @@
+/**
+ * UnitSelector Component
+ *
+ * Dropdown for the dimension display unit preference
+ * Marker dimensions, areas and volumes in the viewer and in exports are
+ * converted to the chosen unit
+ */
+
+import type { DisplayUnit } from '@/types';
+import { useDisplayUnit } from '@/hooks/useDisplayUnit';
+import { LENGTH_UNITS } from '@/utils/units';
+
+interface UnitSelectorProps {
+  className?: string;
+}
+
+export function UnitSelector({ className = '' }: UnitSelectorProps) {
+  const [unit, setUnit] = useDisplayUnit();
+
+  return (
+    <label className={`flex items-center space-x-2 text-sm text-secondary-600 ${className}`}>
+      <span>Units</span>
+      <select
+        value={unit}
+        onChange={(e) => setUnit(e.target.value as DisplayUnit)}
+        className="px-2 py-1 rounded-lg border border-secondary-200 bg-white text-secondary-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+        aria-label="Dimension units"
+      >
+        <option value="original">As entered</option>
+        {LENGTH_UNITS.map((value) => (
+          <option key={value} value={value}>
+            {value}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default UnitSelector;
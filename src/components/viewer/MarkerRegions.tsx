@@ -0,0 +1,69 @@
+/**
+ * MarkerRegions Component
+ *
+ * Draws the regions of rectangle and polygon markers over a model image
+ * Shapes are in the same 0-100 percentage space as marker positions, so the
+ * overlay scales with the image without any pixel conversion
+ */
+
+import type { POSMMarker } from '@/types';
+import { shapeToSvgPoints } from '@/utils/coordinates';
+
+interface MarkerRegionsProps {
+  markers: POSMMarker[];
+  highlightedMarkerId?: string | null;
+  onHover?: (markerId: string | null) => void;
+  onClick?: (marker: POSMMarker) => void;
+  className?: string;
+}
+
+const DEFAULT_REGION_COLOR = '#3B82F6'; // Same as the default hotspot color
+
+/**
+ * Region overlay for markers that have a shape; point markers are skipped
+ */
+export function MarkerRegions({
+  markers,
+  highlightedMarkerId = null,
+  onHover,
+  onClick,
+  className = '',
+}: MarkerRegionsProps) {
+  const regions = markers.filter((marker) => marker.shape);
+  if (regions.length === 0) return null;
+
+  return (
+    <svg
+      className={`absolute inset-0 w-full h-full pointer-events-none ${className}`}
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      {regions.map((marker) => {
+        const color = marker.displayOptions?.iconColor || DEFAULT_REGION_COLOR;
+        const highlighted = marker.id === highlightedMarkerId;
+
+        return (
+          <polygon
+            key={marker.id}
+            points={shapeToSvgPoints(marker.shape!)}
+            fill={color}
+            fillOpacity={highlighted ? 0.35 : 0.12}
+            stroke={color}
+            strokeWidth={highlighted ? 3 : 2}
+            strokeDasharray={highlighted ? undefined : '6 4'}
+            vectorEffect="non-scaling-stroke"
+            className={`transition-all duration-200 ${onClick ? 'cursor-pointer pointer-events-auto' : ''}`}
+            onMouseEnter={() => onHover?.(marker.id)}
+            onMouseLeave={() => onHover?.(null)}
+            onClick={() => onClick?.(marker)}
+          >
+            <title>{marker.info.name}</title>
+          </polygon>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default MarkerRegions;
@@ -3,27 +3,110 @@
  *
  * Modern model viewer with POSM markers
  * Features responsive design, loading states, and interactive elements
+ * Models with several views get a view switcher and a thumbnail strip
+ * Models covered by campaigns get a campaign selector that defaults to the
+ * campaign running today
  */
 
-import { useState, useRef, useEffect } from 'react';
-import type { ProductModel, POSMMarker } from '@/types';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { Campaign, CampaignStatus, ModelView, ProductModel, POSMMarker } from '@/types';
+import { countModelMarkers, getPrimaryView } from '@/utils/modelViews';
+import { applyCampaign, getActiveCampaign, getCampaignStatus, getModelCampaigns } from '@/utils/campaigns';
+import { POSMHotspot } from '@/components/viewer/POSMHotspot';
+import { MarkerRegions } from '@/components/viewer/MarkerRegions';
 
 interface ModelViewerProps {
   model: ProductModel;
   onMarkerClick?: (marker: POSMMarker) => void;
+  onViewChange?: (view: ModelView) => void;
+  campaigns?: Campaign[];
+  onCampaignChange?: (campaign: Campaign | null) => void;
   className?: string;
   showMarkers?: boolean;
 }
 
+const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  upcoming: 'upcoming',
+  active: 'running today',
+  ended: 'ended',
+};
+
 export const ModelViewer = (props: ModelViewerProps) => {
-  const { model, onMarkerClick, className = '', showMarkers = true } = props;
+  const {
+    model: publishedModel,
+    onMarkerClick,
+    onViewChange,
+    campaigns = [],
+    onCampaignChange,
+    className = '',
+    showMarkers = true,
+  } = props;
 
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [selectedMarker, setSelectedMarker] = useState<POSMMarker | null>(null);
+  const [selectedViewId, setSelectedViewId] = useState<string | null>(null);
+  // undefined follows today's campaign; null is the standard POSM set
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null | undefined>(undefined);
+  const [hoveredMarkerId, setHoveredMarkerId] = useState<string | null>(null);
+  const [displaySize, setDisplaySize] = useState({ width: 0, height: 0 });
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Hotspots are positioned in pixels, so track the rendered image size
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => setDisplaySize({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const modelCampaigns = useMemo(
+    () => getModelCampaigns(campaigns, publishedModel.id),
+    [campaigns, publishedModel.id]
+  );
+  const campaign =
+    selectedCampaignId === undefined
+      ? getActiveCampaign(modelCampaigns)
+      : modelCampaigns.find((candidate) => candidate.id === selectedCampaignId) ?? null;
+  const model = useMemo(() => applyCampaign(publishedModel, campaign), [publishedModel, campaign]);
+
+  useEffect(() => {
+    onCampaignChange?.(campaign);
+    // Only notify when the shown campaign changes, not on every new callback
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [campaign]);
+
+  // Fall back to the primary view when the selection is not part of this model
+  const view = model.views.find((candidate) => candidate.id === selectedViewId) ?? getPrimaryView(model);
+  const viewIndex = model.views.indexOf(view);
+  const hasMultipleViews = model.views.length > 1;
+
+  const handleSelectView = (next: ModelView) => {
+    if (next.id === view.id) return;
+    setSelectedViewId(next.id);
+    setImageLoaded(false);
+    setImageError(false);
+    setHoveredMarkerId(null);
+    onViewChange?.(next);
+  };
+
+  const handleStepView = (offset: number) => {
+    const count = model.views.length;
+    handleSelectView(model.views[(viewIndex + offset + count) % count]);
+  };
+
+  const handleSelectCampaign = (campaignId: string) => {
+    setSelectedCampaignId(campaignId || null);
+    setSelectedMarker(null);
+    setHoveredMarkerId(null);
+  };
+
   const handleImageLoad = () => {
     setImageLoaded(true);
     setImageError(false);
@@ -62,7 +145,7 @@ export const ModelViewer = (props: ModelViewerProps) => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
             </svg>
-            <span>{model.posmMarkers.length} POSM markers</span>
+            <span>{countModelMarkers(model)} POSM markers</span>
           </div>
           <div className="flex items-center space-x-2">
             <svg className="w-4 h-4 text-primary-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -70,16 +153,89 @@ export const ModelViewer = (props: ModelViewerProps) => {
             </svg>
             <span>{model.categoryIds.length} categories</span>
           </div>
+          {hasMultipleViews && (
+            <div className="flex items-center space-x-2">
+              <svg className="w-4 h-4 text-primary-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              <span>{model.views.length} views</span>
+            </div>
+          )}
         </div>
       </div>
 
       {/* Main Viewer */}
       <div className="card-large shadow-large">
+        {/* Campaign Selector */}
+        {modelCampaigns.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <label htmlFor="campaign-select" className="text-sm font-medium text-secondary-700">
+              Campaign
+            </label>
+            <select
+              id="campaign-select"
+              className="input max-w-sm text-sm"
+              value={campaign?.id ?? ''}
+              onChange={(event) => handleSelectCampaign(event.target.value)}
+            >
+              <option value="">Standard POSM</option>
+              {modelCampaigns.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name} ({candidate.startDate} – {candidate.endDate},{' '}
+                  {CAMPAIGN_STATUS_LABELS[getCampaignStatus(candidate)]})
+                </option>
+              ))}
+            </select>
+            {campaign && (
+              <span className="px-2 py-0.5 rounded-full bg-primary-100 text-primary-700 text-xs font-medium">
+                Showing {campaign.name} POSM
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* View Switcher */}
+        {hasMultipleViews && (
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <button
+              className="btn btn-outline text-sm px-3 py-1"
+              onClick={() => handleStepView(-1)}
+              aria-label="Previous view"
+            >
+              ←
+            </button>
+            <div className="flex flex-wrap items-center justify-center gap-2" role="tablist" aria-label="Model views">
+              {model.views.map((candidate) => (
+                <button
+                  key={candidate.id}
+                  role="tab"
+                  aria-selected={candidate.id === view.id}
+                  onClick={() => handleSelectView(candidate)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    candidate.id === view.id
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-secondary-100 text-secondary-700 hover:bg-secondary-200'
+                  }`}
+                >
+                  {candidate.name}
+                </button>
+              ))}
+            </div>
+            <button
+              className="btn btn-outline text-sm px-3 py-1"
+              onClick={() => handleStepView(1)}
+              aria-label="Next view"
+            >
+              →
+            </button>
+          </div>
+        )}
+
         <div
           ref={containerRef}
           className="relative bg-secondary-100 rounded-xl overflow-hidden"
           style={{
-            aspectRatio: model.image.width / model.image.height,
+            aspectRatio: view.image.width / view.image.height,
           }}
         >
           {/* Loading State */}
@@ -109,7 +265,7 @@ export const ModelViewer = (props: ModelViewerProps) => {
                 </p>
                 <div className="bg-secondary-100 rounded-lg p-3">
                   <p className="text-xs font-mono text-secondary-500 text-center">
-                    {model.image.url}
+                    {view.image.url}
                   </p>
                 </div>
               </div>
@@ -118,47 +274,41 @@ export const ModelViewer = (props: ModelViewerProps) => {
 
           {/* Model Image */}
           <img
+            key={view.id}
             ref={imageRef}
-            src={model.image.url}
-            alt={model.image.alt}
+            src={view.image.url}
+            alt={view.image.alt}
             className="w-full h-full object-contain"
             onLoad={handleImageLoad}
             onError={handleImageError}
           />
 
-          {/* Placeholder for future POSM markers */}
-          {showMarkers && imageLoaded && model.posmMarkers.length > 0 && (
-            <div className="absolute inset-0 bg-black/10 flex items-center justify-center">
-              <div className="bg-white/90 backdrop-blur-md rounded-xl p-6 shadow-large text-center">
-                <div className="w-16 h-16 bg-primary-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                  <svg className="w-8 h-8 text-primary-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                  </svg>
-                </div>
-                <h3 className="text-xl font-semibold text-secondary-900 mb-2">
-                  Interactive POSM Markers
-                </h3>
-                <p className="text-secondary-600 mb-4">
-                  This model has {model.posmMarkers.length} POSM markers that will be displayed here.
-                </p>
-                <button
-                  className="btn-primary"
-                  onClick={() => {
-                    // Simulate clicking the first marker
-                    if (model.posmMarkers.length > 0) {
-                      handleMarkerClick(model.posmMarkers[0]);
-                    }
-                  }}
-                >
-                  View Sample Marker
-                </button>
-              </div>
+          {/* POSM Markers: regions underneath, hotspot badges on top */}
+          {showMarkers && imageLoaded && view.posmMarkers.length > 0 && (
+            <div className="absolute inset-0 pointer-events-none">
+              <MarkerRegions
+                markers={view.posmMarkers}
+                highlightedMarkerId={hoveredMarkerId ?? selectedMarker?.id ?? null}
+                onHover={setHoveredMarkerId}
+                onClick={handleMarkerClick}
+              />
+              {displaySize.width > 0 &&
+                view.posmMarkers.map((marker) => (
+                  <POSMHotspot
+                    key={marker.id}
+                    marker={marker}
+                    imageWidth={displaySize.width}
+                    imageHeight={displaySize.height}
+                    onClick={() => handleMarkerClick(marker)}
+                    onHoverChange={(hovered) => setHoveredMarkerId(hovered ? marker.id : null)}
+                    isSelected={selectedMarker?.id === marker.id}
+                  />
+                ))}
             </div>
           )}
 
           {/* No markers message */}
-          {showMarkers && imageLoaded && model.posmMarkers.length === 0 && (
+          {showMarkers && imageLoaded && view.posmMarkers.length === 0 && (
             <div className="absolute top-4 right-4">
               <div className="bg-white/90 backdrop-blur-sm rounded-lg px-3 py-2 text-sm text-secondary-600">
                 <svg className="w-4 h-4 inline mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -169,6 +319,31 @@ export const ModelViewer = (props: ModelViewerProps) => {
             </div>
           )}
         </div>
+
+        {/* Thumbnail Strip */}
+        {hasMultipleViews && (
+          <div className="flex gap-3 mt-4 overflow-x-auto pb-1">
+            {model.views.map((candidate) => (
+              <button
+                key={candidate.id}
+                onClick={() => handleSelectView(candidate)}
+                className={`flex-shrink-0 w-24 rounded-lg overflow-hidden border-2 transition-colors ${
+                  candidate.id === view.id ? 'border-primary-600' : 'border-transparent hover:border-secondary-300'
+                }`}
+                aria-label={`Show ${candidate.name} view`}
+                title={`${candidate.name} (${candidate.posmMarkers.length} markers)`}
+              >
+                <img
+                  src={candidate.image.url}
+                  alt={candidate.image.alt}
+                  className="w-full h-16 object-cover bg-secondary-100"
+                  loading="lazy"
+                />
+                <span className="block text-xs text-secondary-700 truncate px-1 py-0.5">{candidate.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Model Metadata */}
@@ -177,13 +352,13 @@ export const ModelViewer = (props: ModelViewerProps) => {
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
           </svg>
-          <span>{model.image.width} × {model.image.height}px</span>
+          <span>{view.image.width} × {view.image.height}px</span>
         </div>
         <div className="flex items-center space-x-2">
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
           </svg>
-          <span>{model.image.format.toUpperCase()}</span>
+          <span>{view.image.format.toUpperCase()}</span>
         </div>
         <div className="flex items-center space-x-2">
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
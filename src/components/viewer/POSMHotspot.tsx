@@ -13,6 +13,7 @@ interface POSMHotspotProps {
   imageWidth: number;
   imageHeight: number;
   onClick?: () => void;
+  onHoverChange?: (hovered: boolean) => void;
   isSelected?: boolean;
   className?: string;
 }
@@ -25,6 +26,7 @@ export function POSMHotspot({
   imageWidth,
   imageHeight,
   onClick,
+  onHoverChange,
   isSelected = false,
   className = '',
 }: POSMHotspotProps) {
@@ -44,6 +46,10 @@ export function POSMHotspot({
   return (
     <button
       onClick={onClick}
+      onMouseEnter={() => onHoverChange?.(true)}
+      onMouseLeave={() => onHoverChange?.(false)}
+      onFocus={() => onHoverChange?.(true)}
+      onBlur={() => onHoverChange?.(false)}
       className={`absolute pointer-events-auto group cursor-pointer transition-transform duration-200 hover:scale-125 focus:outline-none focus:ring-2 focus:ring-blue-600 focus:ring-offset-2 rounded-full ${
         isSelected ? 'scale-125 ring-2 ring-blue-600' : ''
       } ${className}`}
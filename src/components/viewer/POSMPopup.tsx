@@ -6,15 +6,27 @@
  */
 
 import { useEffect } from 'react';
-import type { POSMMarker } from '@/types';
+import type { CostIssue, POSMMarker, PriceTable } from '@/types';
+import { useDisplayUnit } from '@/hooks/useDisplayUnit';
+import { convertDimensions, formatArea, formatVolume } from '@/utils/units';
+import { estimateMarkerCost, formatCost, PRICING_METHOD_LABELS } from '@/utils/costs';
+
+const COST_ISSUE_MESSAGES: Record<CostIssue, string> = {
+  'no-material': 'No material type, so this item cannot be priced.',
+  'no-price': 'This material is not in the price table.',
+  'no-dimensions': 'Priced per m², but this item has no dimensions.',
+};
 
 interface POSMPopupProps {
   marker: POSMMarker | null;
   isOpen: boolean;
   onClose: () => void;
+  priceTable?: PriceTable | null; // Shows the estimated cost (admins only)
 }
 
-export const POSMPopup = ({ marker, isOpen, onClose }: POSMPopupProps) => {
+export const POSMPopup = ({ marker, isOpen, onClose, priceTable }: POSMPopupProps) => {
+  const [displayUnit] = useDisplayUnit();
+
   // Handle escape key to close
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -38,6 +50,9 @@ export const POSMPopup = ({ marker, isOpen, onClose }: POSMPopupProps) => {
     return null;
   }
 
+  const dimensions = marker.info.dimensions && convertDimensions(marker.info.dimensions, displayUnit);
+  const estimate = priceTable && estimateMarkerCost(marker, priceTable);
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       {/* Backdrop */}
@@ -196,31 +211,35 @@ export const POSMPopup = ({ marker, isOpen, onClose }: POSMPopupProps) => {
             )}
 
             {/* Dimensions */}
-            {marker.info.dimensions && (
+            {dimensions && (
               <div>
                 <h3 className="text-lg font-semibold text-secondary-900 mb-3">Dimensions</h3>
                 <div className="grid grid-cols-3 gap-4 bg-secondary-50 rounded-lg p-4">
                   <div className="text-center">
                     <div className="text-xl font-bold text-secondary-900">
-                      {marker.info.dimensions.width}
+                      {dimensions.width}
                     </div>
-                    <div className="text-sm text-secondary-600">Width ({marker.info.dimensions.unit})</div>
+                    <div className="text-sm text-secondary-600">Width ({dimensions.unit})</div>
                   </div>
                   <div className="text-center">
                     <div className="text-xl font-bold text-secondary-900">
-                      {marker.info.dimensions.height}
+                      {dimensions.height}
                     </div>
-                    <div className="text-sm text-secondary-600">Height ({marker.info.dimensions.unit})</div>
+                    <div className="text-sm text-secondary-600">Height ({dimensions.unit})</div>
                   </div>
-                  {marker.info.dimensions.depth && (
+                  {dimensions.depth !== undefined && (
                     <div className="text-center">
                       <div className="text-xl font-bold text-secondary-900">
-                        {marker.info.dimensions.depth}
+                        {dimensions.depth}
                       </div>
-                      <div className="text-sm text-secondary-600">Depth ({marker.info.dimensions.unit})</div>
+                      <div className="text-sm text-secondary-600">Depth ({dimensions.unit})</div>
                     </div>
                   )}
                 </div>
+                <div className="mt-2 flex flex-wrap gap-x-4 text-sm text-secondary-600">
+                  <span>Area: {formatArea(dimensions)}</span>
+                  {dimensions.depth !== undefined && <span>Volume: {formatVolume(dimensions)}</span>}
+                </div>
               </div>
             )}
 
@@ -234,6 +253,28 @@ export const POSMPopup = ({ marker, isOpen, onClose }: POSMPopupProps) => {
               </div>
             )}
 
+            {/* Estimated Cost */}
+            {priceTable && estimate && (
+              <div>
+                <h3 className="text-lg font-semibold text-secondary-900 mb-3">Estimated Cost</h3>
+                <div className="bg-secondary-50 rounded-lg p-4">
+                  {estimate.cost !== null && estimate.price ? (
+                    <>
+                      <div className="text-xl font-bold text-secondary-900">
+                        {formatCost(estimate.cost, priceTable.currency)}
+                      </div>
+                      <div className="text-sm text-secondary-600">
+                        {formatCost(estimate.price.price, priceTable.currency)} ·{' '}
+                        {PRICING_METHOD_LABELS[estimate.price.method].toLowerCase()}
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-sm text-secondary-600">{COST_ISSUE_MESSAGES[estimate.issue!]}</div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Notes */}
             {marker.info.notes && (
               <div>
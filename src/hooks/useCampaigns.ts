@@ -0,0 +1,53 @@
+/**
+ * useCampaigns Hook
+ *
+ * Custom React hook for loading the campaign list
+ * Uses campaignService to load data and manages loading/error states
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { loadCampaigns } from '@/services/campaignService';
+import type { Campaign } from '@/types';
+
+interface UseCampaignsResult {
+  campaigns: Campaign[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to fetch all campaigns
+ */
+export function useCampaigns(): UseCampaignsResult {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await loadCampaigns();
+      setCampaigns(data);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load campaigns'));
+      setCampaigns([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  return {
+    campaigns,
+    loading,
+    error,
+    refetch: fetchCampaigns,
+  };
+}
+
+export default useCampaigns;
@@ -0,0 +1,21 @@
+/**
+ * useDisplayUnit Hook
+ *
+ * Custom React hook for the dimension display unit preference
+ * Every component using it re-renders when the preference changes
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { DisplayUnit } from '@/types';
+import { getDisplayUnit, setDisplayUnit, subscribeDisplayUnit } from '@/services/unitPreferenceService';
+
+/**
+ * Hook to read and change the display unit
+ * @returns Current unit and a setter that saves the preference
+ */
+export function useDisplayUnit(): [DisplayUnit, (unit: DisplayUnit) => void] {
+  const unit = useSyncExternalStore(subscribeDisplayUnit, getDisplayUnit, () => 'original' as const);
+  return [unit, setDisplayUnit];
+}
+
+export default useDisplayUnit;
@@ -3,39 +3,22 @@
  *
  * Custom React hook for managing POSM marker state
  * Provides operations to add, move, delete, and manage markers
+ *
+ * Drafts record the published version and markers they were started from.
+ * When the published model has changed since, the draft is three-way merged
+ * onto it and overlapping edits are reported as conflicts to resolve.
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { POSMMarker, Coordinates } from '@/types';
-
-const MARKER_DRAFT_PREFIX = 'posm-marker-draft-';
-
-// Helper functions for marker drafts in localStorage
-function saveMarkerDraft(modelId: string, markers: POSMMarker[]): void {
-  const key = `${MARKER_DRAFT_PREFIX}${modelId}`;
-  localStorage.setItem(key, JSON.stringify(markers));
-}
-
-function loadMarkerDraft(modelId: string): POSMMarker[] | null {
-  const key = `${MARKER_DRAFT_PREFIX}${modelId}`;
-  const data = localStorage.getItem(key);
-  if (!data) return null;
-  try {
-    return JSON.parse(data) as POSMMarker[];
-  } catch {
-    return null;
-  }
-}
-
-function hasMarkerDraft(modelId: string): boolean {
-  const key = `${MARKER_DRAFT_PREFIX}${modelId}`;
-  return localStorage.getItem(key) !== null;
-}
-
-function clearMarkerDraft(modelId: string): void {
-  const key = `${MARKER_DRAFT_PREFIX}${modelId}`;
-  localStorage.removeItem(key);
-}
+import type { POSMMarker, Coordinates, MarkerConflict, MarkerMergeResult, MarkerShape, MergeSide } from '@/types';
+import { clampCoordinates, getShapeCenter } from '@/utils/coordinates';
+import { mergeMarkers, resolveMergeConflicts } from '@/utils/markerMerge';
+import {
+  saveMarkerDraft,
+  loadMarkerDraft,
+  hasMarkerDraft,
+  clearMarkerDraft,
+} from '@/services/draftService';
 
 interface UsePOSMMarkersResult {
   markers: POSMMarker[];
@@ -43,12 +26,18 @@ interface UsePOSMMarkersResult {
   hasUnsavedChanges: boolean;
   isLoading: boolean;
 
+  // Draft merge state
+  draftBaseVersion: string | null;
+  mergeConflicts: MarkerConflict[];
+  resolveConflicts: (resolutions: Record<string, MergeSide>) => void;
+
   // Selection operations
   selectMarker: (markerId: string | null) => void;
 
   // Marker operations
-  addMarker: (position: Coordinates) => POSMMarker;
+  addMarker: (position: Coordinates, shape?: MarkerShape) => POSMMarker;
   updateMarkerPosition: (markerId: string, position: Coordinates) => void;
+  updateMarkerShape: (markerId: string, shape: MarkerShape) => void;
   updateMarkerInfo: (markerId: string, info: POSMMarker['info']) => void;
   deleteMarker: (markerId: string) => void;
 
@@ -62,36 +51,61 @@ interface UsePOSMMarkersResult {
 }
 
 /**
- * Hook to manage POSM markers for a specific model
+ * Hook to manage POSM markers for a specific model view
  * Handles local state management and draft persistence
+ * @param modelId - Model being edited
+ * @param initialMarkers - Currently published markers of the view
+ * @param publishedVersion - Currently published model version, recorded as the draft base
+ * @param viewId - View being edited; omit for the primary view
+ * @param reservedIds - Marker IDs used by the model's other views
  */
-export function usePOSMMarkers(modelId: string, initialMarkers: POSMMarker[] = []): UsePOSMMarkersResult {
+export function usePOSMMarkers(
+  modelId: string,
+  initialMarkers: POSMMarker[] = [],
+  publishedVersion: string | null = null,
+  viewId?: string,
+  reservedIds: string[] = []
+): UsePOSMMarkersResult {
   const [markers, setMarkers] = useState<POSMMarker[]>(initialMarkers);
   const [selectedMarkerId, setSelectedMarkerId] = useState<string | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [draftBaseVersion, setDraftBaseVersion] = useState<string | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<MarkerMergeResult | null>(null);
 
   const markerIdCounter = useRef(1);
   const lastSaveRef = useRef<POSMMarker[]>([]);
   const autoSaveTimerRef = useRef<number | undefined>(undefined);
 
-  // Generate unique marker ID
+  const markersRef = useRef<POSMMarker[]>(initialMarkers);
+  markersRef.current = markers;
+  const reservedIdsRef = useRef<string[]>(reservedIds);
+  reservedIdsRef.current = reservedIds;
+
+  // Generate unique marker ID, skipping IDs already used in any view
   const generateMarkerId = useCallback((): string => {
-    return `marker-${String(markerIdCounter.current++).padStart(3, '0')}`;
+    const usedIds = new Set([...markersRef.current.map(marker => marker.id), ...reservedIdsRef.current]);
+    let id: string;
+    do {
+      id = `marker-${String(markerIdCounter.current++).padStart(3, '0')}`;
+    } while (usedIds.has(id));
+    return id;
   }, []);
 
   // Initialize markers and check for drafts
   useEffect(() => {
     setMarkers(initialMarkers);
+    setPendingMerge(null);
+    setDraftBaseVersion(null);
     lastSaveRef.current = initialMarkers;
 
     // Check for existing draft
-    if (hasMarkerDraft(modelId)) {
+    if (hasMarkerDraft(modelId, viewId)) {
       // Auto-load draft if it exists (async call, but we don't need to wait)
       loadDraftMarkers().catch(err => console.error('Failed to auto-load draft:', err));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [modelId, initialMarkers]);
+  }, [modelId, viewId, initialMarkers]);
 
   // Auto-save every 30 seconds if there are unsaved changes
   useEffect(() => {
@@ -127,10 +141,13 @@ export function usePOSMMarkers(modelId: string, initialMarkers: POSMMarker[] = [
   }, []);
 
   // Marker operations
-  const addMarker = useCallback((position: Coordinates): POSMMarker => {
+  const addMarker = useCallback((position: Coordinates, shape?: MarkerShape): POSMMarker => {
+    const region = shape ? clampCoordinates(shape) : undefined;
     const newMarker: POSMMarker = {
       id: generateMarkerId(),
-      position,
+      // Region markers are anchored at the center of their region
+      position: region ? getShapeCenter(region) : clampCoordinates(position),
+      ...(region ? { shape: region } : {}),
       info: {
         name: 'New POSM Marker',
         description: 'Click to edit details',
@@ -156,6 +173,17 @@ export function usePOSMMarkers(modelId: string, initialMarkers: POSMMarker[] = [
     );
   }, []);
 
+  const updateMarkerShape = useCallback((markerId: string, shape: MarkerShape) => {
+    const region = clampCoordinates(shape);
+    setMarkers(prev =>
+      prev.map(marker =>
+        marker.id === markerId
+          ? { ...marker, shape: region, position: getShapeCenter(region) }
+          : marker
+      )
+    );
+  }, []);
+
   const updateMarkerInfo = useCallback((markerId: string, info: POSMMarker['info']) => {
     setMarkers(prev =>
       prev.map(marker =>
@@ -177,26 +205,42 @@ export function usePOSMMarkers(modelId: string, initialMarkers: POSMMarker[] = [
 
   // Draft operations
   const saveDraftMarkers = useCallback(async (): Promise<void> => {
+    // Saving now would rebase the draft and lose the unresolved conflicts
+    if (pendingMerge) {
+      console.warn('Resolve merge conflicts before saving the draft');
+      return;
+    }
+
     try {
       setIsLoading(true);
-      saveMarkerDraft(modelId, markers);
+      // The working markers already include everything published up to now
+      saveMarkerDraft(modelId, {
+        baseVersion: publishedVersion,
+        baseMarkers: initialMarkers,
+        markers,
+        savedAt: new Date().toISOString(),
+      }, viewId);
       lastSaveRef.current = [...markers];
+      setDraftBaseVersion(publishedVersion);
       setHasUnsavedChanges(false);
     } catch (error) {
       console.error('Failed to save draft markers:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [markers, modelId]);
+  }, [markers, modelId, viewId, initialMarkers, publishedVersion, pendingMerge]);
 
   const loadDraftMarkers = useCallback(async (): Promise<boolean> => {
     try {
       setIsLoading(true);
-      const draftMarkers = loadMarkerDraft(modelId);
-
-      if (draftMarkers) {
-        setMarkers(draftMarkers);
-        lastSaveRef.current = [...draftMarkers];
+      const draft = loadMarkerDraft(modelId, viewId);
+
+      if (draft) {
+        const result = mergeMarkers(draft.baseMarkers, draft.markers, initialMarkers);
+        setMarkers(result.markers);
+        setDraftBaseVersion(draft.baseVersion);
+        setPendingMerge(result.conflicts.length > 0 ? result : null);
+        lastSaveRef.current = result.conflicts.length > 0 ? initialMarkers : [...result.markers];
         return true;
       }
       return false;
@@ -206,21 +250,33 @@ export function usePOSMMarkers(modelId: string, initialMarkers: POSMMarker[] = [
     } finally {
       setIsLoading(false);
     }
-  }, [modelId]);
+  }, [modelId, viewId, initialMarkers]);
 
   const clearDraftMarkers = useCallback((): void => {
-    clearMarkerDraft(modelId);
+    clearMarkerDraft(modelId, viewId);
+    setDraftBaseVersion(null);
+    setPendingMerge(null);
     setHasUnsavedChanges(false);
-  }, [modelId]);
+  }, [modelId, viewId]);
+
+  const resolveConflicts = useCallback((resolutions: Record<string, MergeSide>): void => {
+    if (!pendingMerge) return;
+    setMarkers(resolveMergeConflicts(pendingMerge, resolutions));
+    setPendingMerge(null);
+  }, [pendingMerge]);
 
   return {
     markers,
     selectedMarkerId,
     hasUnsavedChanges,
     isLoading,
+    draftBaseVersion,
+    mergeConflicts: pendingMerge?.conflicts ?? [],
+    resolveConflicts,
     selectMarker,
     addMarker,
     updateMarkerPosition,
+    updateMarkerShape,
     updateMarkerInfo,
     deleteMarker,
     saveDraftMarkers,
@@ -0,0 +1,56 @@
+/**
+ * usePriceTable Hook
+ *
+ * Custom React hook for loading the material price table
+ * Uses priceService to load data and manages loading/error states
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { loadPriceTable } from '@/services/priceService';
+import type { PriceTable } from '@/types';
+
+interface UsePriceTableResult {
+  priceTable: PriceTable | null;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to fetch the price table
+ * @param enabled - Skip loading when false, e.g. for viewers who never see costs
+ */
+export function usePriceTable(enabled: boolean = true): UsePriceTableResult {
+  const [priceTable, setPriceTable] = useState<PriceTable | null>(null);
+  const [loading, setLoading] = useState<boolean>(enabled);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchPriceTable = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await loadPriceTable();
+      setPriceTable(data);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load price table'));
+      setPriceTable(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchPriceTable();
+    }
+  }, [enabled, fetchPriceTable]);
+
+  return {
+    priceTable,
+    loading,
+    error,
+    refetch: fetchPriceTable,
+  };
+}
+
+export default usePriceTable;
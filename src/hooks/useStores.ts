@@ -0,0 +1,53 @@
+/**
+ * useStores Hook
+ *
+ * Custom React hook for loading the store list
+ * Uses storeService to load data and manages loading/error states
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { loadStores } from '@/services/storeService';
+import type { Store } from '@/types';
+
+interface UseStoresResult {
+  stores: Store[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to fetch all stores
+ */
+export function useStores(): UseStoresResult {
+  const [stores, setStores] = useState<Store[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchStores = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await loadStores();
+      setStores(data);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load stores'));
+      setStores([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStores();
+  }, [fetchStores]);
+
+  return {
+    stores,
+    loading,
+    error,
+    refetch: fetchStores,
+  };
+}
+
+export default useStores;
@@ -0,0 +1,430 @@
+import type { AnnotatedImageOptions, ModelView, ProductModel } from '@/types';
+import { getRectCorners, percentToPixels } from '@/utils/coordinates';
+import { getPrimaryView } from '@/utils/modelViews';
+
+/**
+ * Annotated image export
+ *
+ * Composites a model image with numbered marker glyphs (and the outlines of
+ * region markers), optional name labels
+ * and an optional legend panel, as a PNG (rendered on a canvas) or a
+ * standalone SVG. Both outputs share one layout, computed at the image's
+ * natural size with the same percent-to-pixel mapping as the viewer.
+ */
+
+export const SVG_MIME_TYPE = 'image/svg+xml';
+export const PNG_MIME_TYPE = 'image/png';
+
+// Marker defaults, matching POSMHotspot
+const DEFAULT_ICON_SIZE = 32;
+const DEFAULT_ICON_COLOR = '#3B82F6';
+
+// Content width of the model viewer on a desktop screen; icon sizes are
+// screen pixels at this width
+const VIEWER_WIDTH = 1216;
+
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const LEGEND_BACKGROUND = '#ffffff';
+const LEGEND_BORDER = '#e5e7eb';
+const MAX_LABEL_LENGTH = 48;
+const REGION_FILL_OPACITY = 0.2;
+
+interface MarkerGlyph {
+  number: number;
+  x: number; // Centre, pixels
+  y: number;
+  radius: number;
+  color: string;
+  label: string;
+  labelX: number; // Label anchor; labels near the right edge sit left of the glyph
+  labelAlign: 'left' | 'right';
+  region: { x: number; y: number }[] | null; // Outline of a region marker, pixels
+}
+
+interface LegendRow {
+  number: number;
+  color: string;
+  label: string;
+  y: number; // Text baseline
+}
+
+interface LegendPanel {
+  x: number;
+  width: number;
+  padding: number;
+  title: string;
+  titleY: number;
+  rows: LegendRow[];
+  rowHeight: number;
+}
+
+interface AnnotationLayout {
+  width: number;
+  height: number;
+  imageWidth: number;
+  imageHeight: number;
+  scale: number;
+  fontSize: number;
+  glyphs: MarkerGlyph[];
+  legend: LegendPanel | null;
+}
+
+function truncate(text: string, maxLength: number = MAX_LABEL_LENGTH): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Rough Helvetica text width, used to size the legend the same way in both
+ * outputs without measuring fonts
+ */
+function estimateTextWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * 0.55;
+}
+
+/**
+ * Compute glyph positions and legend geometry at the image's natural size
+ * @param model - Model to annotate
+ * @param view - View of the model whose image and markers are drawn
+ * @param options - Export options
+ * @returns Layout shared by the PNG and SVG renderers
+ */
+function layoutAnnotations(model: ProductModel, view: ModelView, options: AnnotatedImageOptions): AnnotationLayout {
+  const { width: imageWidth, height: imageHeight } = view.image;
+  const scale = options.markerScale ?? Math.max(1, imageWidth / VIEWER_WIDTH);
+  const fontSize = Math.round(14 * scale);
+
+  const glyphs: MarkerGlyph[] = view.posmMarkers.map((marker, index) => {
+    const x = percentToPixels(marker.position.x, imageWidth);
+    const radius = ((marker.displayOptions?.iconSize || DEFAULT_ICON_SIZE) * scale) / 2;
+    const label = truncate(marker.info.name);
+    const gap = radius + 4 * scale;
+    const fitsRight = x + gap + estimateTextWidth(label, fontSize) <= imageWidth;
+
+    return {
+      number: index + 1,
+      x,
+      y: percentToPixels(marker.position.y, imageHeight),
+      radius,
+      color: marker.displayOptions?.iconColor || DEFAULT_ICON_COLOR,
+      label,
+      labelX: fitsRight ? x + gap : x - gap,
+      labelAlign: fitsRight ? 'left' : 'right',
+      region: marker.shape
+        ? (marker.shape.type === 'rect' ? getRectCorners(marker.shape) : marker.shape.points).map((point) => ({
+            x: percentToPixels(point.x, imageWidth),
+            y: percentToPixels(point.y, imageHeight),
+          }))
+        : null,
+    };
+  });
+
+  let legend: LegendPanel | null = null;
+  if (options.showLegend && glyphs.length > 0) {
+    const padding = Math.round(16 * scale);
+    const rowHeight = Math.round(fontSize * 1.8);
+    const modelTitle = model.code ? `${model.name} (${model.code})` : model.name;
+    const title = truncate(model.views.length > 1 ? `${modelTitle} – ${view.name}` : modelTitle);
+    const textWidth = Math.max(
+      estimateTextWidth(title, fontSize),
+      ...glyphs.map((glyph) => rowHeight + estimateTextWidth(glyph.label, fontSize))
+    );
+    const titleY = padding + fontSize;
+
+    legend = {
+      x: imageWidth,
+      width: Math.ceil(textWidth + padding * 2),
+      padding,
+      title,
+      titleY,
+      rowHeight,
+      rows: glyphs.map((glyph, index) => ({
+        number: glyph.number,
+        color: glyph.color,
+        label: glyph.label,
+        y: titleY + padding + rowHeight * (index + 1) - rowHeight / 2 + fontSize / 3,
+      })),
+    };
+  }
+
+  const legendHeight = legend ? legend.titleY + legend.padding * 2 + legend.rowHeight * legend.rows.length : 0;
+
+  return {
+    width: imageWidth + (legend?.width ?? 0),
+    height: Math.ceil(Math.max(imageHeight, legendHeight)),
+    imageWidth,
+    imageHeight,
+    scale,
+    fontSize,
+    glyphs,
+    legend,
+  };
+}
+
+/**
+ * Fetch the model image as a Blob
+ * Uses fetch rather than an <img> so cross-origin images fail loudly instead
+ * of tainting the canvas.
+ */
+async function fetchImage(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load image: ${url} (HTTP ${response.status})`);
+  }
+  return response.blob();
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Build an SVG document for the layout
+ * @param layout - Annotation layout
+ * @param imageHref - Image URL or data URL
+ * @param showLabels - Draw marker names next to the glyphs
+ * @returns SVG markup
+ */
+function renderSvg(layout: AnnotationLayout, imageHref: string, showLabels: boolean): string {
+  const { width, height, imageWidth, imageHeight, fontSize, glyphs, legend, scale } = layout;
+  const parts: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="${width}" height="${height}" fill="${LEGEND_BACKGROUND}"/>`,
+    `<image x="0" y="0" width="${imageWidth}" height="${imageHeight}" xlink:href="${escapeXml(imageHref)}" preserveAspectRatio="none"/>`,
+  ];
+
+  // Regions go underneath every glyph
+  for (const { region, color } of glyphs) {
+    if (!region) continue;
+    const points = region.map((point) => `${round(point.x)},${round(point.y)}`).join(' ');
+    parts.push(
+      `<polygon points="${points}" fill="${escapeXml(color)}" fill-opacity="${REGION_FILL_OPACITY}" stroke="${escapeXml(color)}" stroke-width="${round(3 * scale)}" stroke-linejoin="round"/>`
+    );
+  }
+
+  for (const glyph of glyphs) {
+    const { x, y, radius, color, number } = glyph;
+    parts.push(
+      `<g><circle cx="${round(x)}" cy="${round(y)}" r="${round(radius)}" fill="${escapeXml(color)}" stroke="#ffffff" stroke-width="${round(2 * scale)}"/>`,
+      `<text x="${round(x)}" y="${round(y)}" font-size="${round(radius)}" font-weight="bold" fill="#ffffff" text-anchor="middle" dominant-baseline="central">${number}</text></g>`
+    );
+    if (showLabels) {
+      parts.push(
+        `<text x="${round(glyph.labelX)}" y="${round(y)}" text-anchor="${glyph.labelAlign === 'left' ? 'start' : 'end'}" font-size="${fontSize}" font-weight="bold" fill="${TEXT_COLOR}" stroke="#ffffff" stroke-width="${round(3 * scale)}" stroke-linejoin="round" paint-order="stroke" dominant-baseline="central">${escapeXml(glyph.label)}</text>`
+      );
+    }
+  }
+
+  if (legend) {
+    const badgeRadius = legend.rowHeight * 0.35;
+    parts.push(
+      `<rect x="${legend.x}" y="0" width="${legend.width}" height="${height}" fill="${LEGEND_BACKGROUND}" stroke="${LEGEND_BORDER}"/>`,
+      `<text x="${legend.x + legend.padding}" y="${legend.titleY}" font-size="${fontSize}" font-weight="bold" fill="${TEXT_COLOR}">${escapeXml(legend.title)}</text>`
+    );
+    for (const row of legend.rows) {
+      const cx = legend.x + legend.padding + badgeRadius;
+      const cy = row.y - fontSize / 3;
+      parts.push(
+        `<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(badgeRadius)}" fill="${escapeXml(row.color)}"/>`,
+        `<text x="${round(cx)}" y="${round(cy)}" font-size="${round(badgeRadius)}" font-weight="bold" fill="#ffffff" text-anchor="middle" dominant-baseline="central">${row.number}</text>`,
+        `<text x="${round(legend.x + legend.padding + legend.rowHeight)}" y="${round(row.y)}" font-size="${fontSize}" fill="${MUTED_COLOR}">${escapeXml(row.label)}</text>`
+      );
+    }
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+/**
+ * Draw the layout onto a canvas context
+ * @param context - 2D context sized to the layout
+ * @param layout - Annotation layout
+ * @param image - Decoded model image
+ * @param showLabels - Draw marker names next to the glyphs
+ */
+function renderCanvas(
+  context: CanvasRenderingContext2D,
+  layout: AnnotationLayout,
+  image: ImageBitmap,
+  showLabels: boolean
+): void {
+  const { width, height, imageWidth, imageHeight, fontSize, glyphs, legend, scale } = layout;
+
+  context.fillStyle = LEGEND_BACKGROUND;
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, imageWidth, imageHeight);
+  context.textBaseline = 'middle';
+  context.lineJoin = 'round';
+
+  // Regions go underneath every glyph
+  for (const { region, color } of glyphs) {
+    if (!region) continue;
+    context.beginPath();
+    region.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+    context.closePath();
+    context.globalAlpha = REGION_FILL_OPACITY;
+    context.fillStyle = color;
+    context.fill();
+    context.globalAlpha = 1;
+    context.lineWidth = 3 * scale;
+    context.strokeStyle = color;
+    context.stroke();
+  }
+
+  for (const glyph of glyphs) {
+    const { x, y, radius, color, number } = glyph;
+    context.beginPath();
+    context.arc(x, y, radius, 0, Math.PI * 2);
+    context.fillStyle = color;
+    context.fill();
+    context.lineWidth = 2 * scale;
+    context.strokeStyle = '#ffffff';
+    context.stroke();
+
+    context.font = `bold ${radius}px ${FONT_FAMILY}`;
+    context.textAlign = 'center';
+    context.fillStyle = '#ffffff';
+    context.fillText(String(number), x, y);
+
+    if (showLabels) {
+      context.font = `bold ${fontSize}px ${FONT_FAMILY}`;
+      context.textAlign = glyph.labelAlign;
+      context.lineWidth = 3 * scale;
+      context.strokeText(glyph.label, glyph.labelX, y);
+      context.fillStyle = TEXT_COLOR;
+      context.fillText(glyph.label, glyph.labelX, y);
+    }
+  }
+
+  if (legend) {
+    const badgeRadius = legend.rowHeight * 0.35;
+    context.lineWidth = 1;
+    context.strokeStyle = LEGEND_BORDER;
+    context.strokeRect(legend.x + 0.5, 0.5, legend.width - 1, height - 1);
+
+    context.textAlign = 'left';
+    context.textBaseline = 'alphabetic';
+    context.font = `bold ${fontSize}px ${FONT_FAMILY}`;
+    context.fillStyle = TEXT_COLOR;
+    context.fillText(legend.title, legend.x + legend.padding, legend.titleY);
+
+    for (const row of legend.rows) {
+      const cx = legend.x + legend.padding + badgeRadius;
+      const cy = row.y - fontSize / 3;
+      context.beginPath();
+      context.arc(cx, cy, badgeRadius, 0, Math.PI * 2);
+      context.fillStyle = row.color;
+      context.fill();
+
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.font = `bold ${badgeRadius}px ${FONT_FAMILY}`;
+      context.fillStyle = '#ffffff';
+      context.fillText(String(row.number), cx, cy);
+
+      context.textAlign = 'left';
+      context.textBaseline = 'alphabetic';
+      context.font = `${fontSize}px ${FONT_FAMILY}`;
+      context.fillStyle = MUTED_COLOR;
+      context.fillText(row.label, legend.x + legend.padding + legend.rowHeight, row.y);
+    }
+  }
+}
+
+/**
+ * Find the view to export
+ * @param model - Model to annotate
+ * @param viewId - View ID, or undefined for the primary view
+ * @returns The view
+ * @throws Error if the view does not exist
+ */
+function resolveView(model: ProductModel, viewId?: string): ModelView {
+  if (viewId === undefined) return getPrimaryView(model);
+  const view = model.views.find((candidate) => candidate.id === viewId);
+  if (!view) {
+    throw new Error(`View ${viewId} not found in model ${model.id}`);
+  }
+  return view;
+}
+
+/**
+ * Export a model view with markers drawn on it as a standalone SVG
+ * The image is embedded as a data URL so the file works offline; if it
+ * cannot be fetched, the SVG links to the original URL instead.
+ * @param model - Model to annotate
+ * @param options - Labels, legend and marker scale
+ * @param viewId - View to export (defaults to the primary view)
+ * @returns SVG markup
+ */
+export async function generateAnnotatedSvg(
+  model: ProductModel,
+  options: AnnotatedImageOptions,
+  viewId?: string
+): Promise<string> {
+  const view = resolveView(model, viewId);
+  let imageHref = view.image.url;
+  try {
+    imageHref = await blobToDataUrl(await fetchImage(view.image.url));
+  } catch (error) {
+    console.error('Failed to embed model image in SVG, linking it instead:', error);
+  }
+
+  return renderSvg(layoutAnnotations(model, view, options), imageHref, options.showLabels);
+}
+
+/**
+ * Export a model view with markers drawn on it as a PNG
+ * Rendered at the image's natural size (plus the legend panel).
+ * @param model - Model to annotate
+ * @param options - Labels, legend and marker scale
+ * @param viewId - View to export (defaults to the primary view)
+ * @returns PNG file
+ */
+export async function generateAnnotatedPng(
+  model: ProductModel,
+  options: AnnotatedImageOptions,
+  viewId?: string
+): Promise<Blob> {
+  const view = resolveView(model, viewId);
+  const image = await createImageBitmap(await fetchImage(view.image.url));
+  try {
+    const layout = layoutAnnotations(model, view, options);
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D rendering is not supported');
+    }
+    renderCanvas(context, layout, image, options.showLabels);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, PNG_MIME_TYPE));
+    if (!blob) {
+      throw new Error('Failed to encode PNG');
+    }
+    return blob;
+  } finally {
+    image.close();
+  }
+}
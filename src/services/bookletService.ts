@@ -0,0 +1,431 @@
+import type { BookletFilters, Category, PriceTable, ProductModel } from '@/types';
+import { PdfDocument } from '@/utils/pdfDocument';
+import type { PdfFont, PdfImage } from '@/utils/pdfDocument';
+import { describeExportSelection } from '@/utils/jsonExport';
+import { countModelMarkers, getModelMarkers, getPrimaryImage, getPrimaryView } from '@/utils/modelViews';
+import { estimateModelCost, formatCost } from '@/utils/costs';
+import { drawViewImage, formatMarkerDimensions, formatTimestamp, loadPdfImage } from '@/services/installGuideService';
+import type { PdfImageLoader } from '@/services/installGuideService';
+
+/**
+ * Catalogue booklet
+ *
+ * One PDF for a whole catalogue (or the filtered part of it): a cover page,
+ * a table of contents grouped by category, one page per model with its image,
+ * description and POSM summary, and an index of every POSM item by material.
+ * With a price table, the cover and each model page show estimated costs.
+ */
+
+const MARGIN = 40;
+const FOOTER_HEIGHT = 30;
+const IMAGE_MAX_HEIGHT = 300;
+const TEXT_SIZE = 9;
+const LINE_HEIGHT = 12;
+const HEADING_HEIGHT = 24;
+const CELL_PADDING = 4;
+const ACCENT_COLOR = '#2563eb';
+const BORDER_COLOR = '#cbd5e1';
+const MUTED_COLOR = '#64748b';
+const UNCATEGORISED = 'Uncategorised';
+const UNSPECIFIED_MATERIAL = 'Unspecified';
+
+const SUMMARY_COLUMNS = [
+  { header: '#', width: 24 },
+  { header: 'POSM item', width: 190 },
+  { header: 'Material', width: 120 },
+  { header: 'Dimensions', width: 0 }, // Takes the remaining width
+] as const;
+
+interface ContentsGroup {
+  title: string;
+  models: ProductModel[];
+}
+
+type ContentsRow = { kind: 'heading'; title: string } | { kind: 'entry'; model: ProductModel };
+
+/**
+ * Top-down layout on a run of pages, adding a page when content does not fit
+ */
+class PageFlow {
+  readonly doc: PdfDocument;
+  readonly bottom: number;
+  y = MARGIN;
+  private continuation: string;
+
+  /**
+   * @param doc - Document to draw on
+   * @param continuation - Heading repeated at the top of each added page
+   */
+  constructor(doc: PdfDocument, continuation: string) {
+    this.doc = doc;
+    this.continuation = continuation;
+    this.bottom = doc.pageHeight - MARGIN - FOOTER_HEIGHT;
+  }
+
+  /**
+   * Make room for a block, starting a new page if needed
+   * @returns True if a new page was started
+   */
+  ensure(height: number): boolean {
+    if (this.y + height <= this.bottom) return false;
+
+    this.doc.addPage();
+    this.doc.text(`${this.continuation} (continued)`, MARGIN, MARGIN + 12, { font: 'bold', size: 11 });
+    this.y = MARGIN + 28;
+    return true;
+  }
+}
+
+/**
+ * Describe the filters a booklet was generated with
+ * @param filters - Search and category filters
+ * @param categories - Categories, for display names
+ * @returns Human-readable description
+ */
+export function describeBookletFilters(filters: BookletFilters, categories: Category[]): string {
+  const parts: string[] = [];
+  if (filters.categoryIds && filters.categoryIds.length > 0) {
+    parts.push(describeExportSelection({ mode: 'categories', categoryIds: filters.categoryIds }, categories));
+  }
+  if (filters.query?.trim()) {
+    parts.push(describeExportSelection({ mode: 'search', query: filters.query.trim() }, categories));
+  }
+  return parts.length > 0 ? parts.join('  ·  ') : 'All models';
+}
+
+/**
+ * Group models by category for the table of contents
+ * Models appear under every category they belong to; with a category filter
+ * only the filtered categories are listed.
+ */
+function groupByCategory(models: ProductModel[], categories: Category[], filters: BookletFilters): ContentsGroup[] {
+  const listed = filters.categoryIds?.length
+    ? categories.filter((category) => filters.categoryIds!.includes(category.id))
+    : categories;
+  const listedIds = new Set(listed.map((category) => category.id));
+
+  const groups: ContentsGroup[] = listed
+    .map((category) => ({
+      title: category.name,
+      models: models.filter((model) => model.categoryIds.includes(category.id)),
+    }))
+    .filter((group) => group.models.length > 0);
+
+  const ungrouped = models.filter((model) => !model.categoryIds.some((id) => listedIds.has(id)));
+  if (ungrouped.length > 0) {
+    groups.push({ title: UNCATEGORISED, models: ungrouped });
+  }
+  return groups;
+}
+
+function modelTitle(model: ProductModel): string {
+  return model.code ? `${model.name} (${model.code})` : model.name;
+}
+
+/**
+ * Estimated cost of one display of a model, or null if none of its markers could be priced
+ */
+function formatModelCost(model: ProductModel, priceTable: PriceTable | undefined): string | null {
+  const cost = priceTable && estimateModelCost(model, priceTable);
+  return cost && cost.pricedMarkers > 0 ? formatCost(cost.total, priceTable.currency) : null;
+}
+
+function drawCover(doc: PdfDocument, models: ProductModel[], subtitle: string, priceTable?: PriceTable): void {
+  doc.addPage();
+  const markerCount = models.reduce((sum, model) => sum + countModelMarkers(model), 0);
+
+  doc.rect(0, 0, doc.pageWidth, 12, 'fill', { fill: ACCENT_COLOR });
+  doc.text('POSM Catalogue', MARGIN, 300, { font: 'bold', size: 34 });
+  doc.line(MARGIN, 320, MARGIN + 120, 320, { stroke: ACCENT_COLOR, lineWidth: 3 });
+  doc.wrapText(subtitle, doc.pageWidth - MARGIN * 2, 'regular', 14).forEach((line, index) => {
+    doc.text(line, MARGIN, 350 + index * 18, { size: 14, color: MUTED_COLOR });
+  });
+  doc.text(`${models.length} model(s)  ·  ${markerCount} POSM item(s)`, MARGIN, doc.pageHeight - 90, { size: 11 });
+
+  if (priceTable) {
+    const costs = models.map((model) => estimateModelCost(model, priceTable));
+    const total = costs.reduce((sum, cost) => sum + cost.total, 0);
+    const unpriced = costs.reduce((sum, cost) => sum + cost.unpricedMarkers, 0);
+    const note = unpriced > 0 ? `  ·  ${unpriced} POSM item(s) not priced` : '';
+    // One display of each model
+    doc.text(`Estimated cost ${formatCost(total, priceTable.currency)}${note}`, MARGIN, doc.pageHeight - 108, { size: 11 });
+  }
+  doc.text(`Generated ${formatTimestamp(new Date().toISOString())}`, MARGIN, doc.pageHeight - 72, {
+    size: 9,
+    color: MUTED_COLOR,
+  });
+}
+
+/**
+ * Split the table of contents into pages, before page numbers are known
+ */
+function paginateContents(doc: PdfDocument, groups: ContentsGroup[]): ContentsRow[][] {
+  const bottom = doc.pageHeight - MARGIN - FOOTER_HEIGHT;
+  const pages: ContentsRow[][] = [[]];
+  let y = MARGIN + 40;
+
+  for (const group of groups) {
+    // Keep a heading with at least its first entry
+    if (y + HEADING_HEIGHT + LINE_HEIGHT > bottom) {
+      pages.push([]);
+      y = MARGIN + 28;
+    }
+    pages[pages.length - 1].push({ kind: 'heading', title: group.title });
+    y += HEADING_HEIGHT;
+
+    for (const model of group.models) {
+      if (y + LINE_HEIGHT > bottom) {
+        pages.push([]);
+        y = MARGIN + 28;
+      }
+      pages[pages.length - 1].push({ kind: 'entry', model });
+      y += LINE_HEIGHT;
+    }
+  }
+  return pages;
+}
+
+function drawContents(doc: PdfDocument, pageIndexes: number[], pages: ContentsRow[][], modelPages: Map<string, number>) {
+  pages.forEach((rows, index) => {
+    doc.setPage(pageIndexes[index]);
+    let y = MARGIN + 12;
+    if (index === 0) {
+      doc.text('Contents', MARGIN, MARGIN + 20, { font: 'bold', size: 18 });
+      y = MARGIN + 40;
+    } else {
+      doc.text('Contents (continued)', MARGIN, y, { font: 'bold', size: 11 });
+      y = MARGIN + 28;
+    }
+
+    for (const row of rows) {
+      if (row.kind === 'heading') {
+        doc.text(row.title, MARGIN, y + 16, { font: 'bold', size: 11, color: ACCENT_COLOR });
+        y += HEADING_HEIGHT;
+        continue;
+      }
+
+      const page = String((modelPages.get(row.model.id) ?? 0) + 1);
+      const maxWidth = doc.pageWidth - MARGIN * 2 - 50;
+      const [title] = doc.wrapText(modelTitle(row.model), maxWidth, 'regular', TEXT_SIZE + 1);
+      doc.text(title, MARGIN + 12, y + 9, { size: TEXT_SIZE + 1 });
+      doc.text(page, doc.pageWidth - MARGIN, y + 9, { size: TEXT_SIZE + 1, align: 'right' });
+      doc.line(MARGIN + 12, y + 11.5, doc.pageWidth - MARGIN, y + 11.5, { stroke: '#e2e8f0', lineWidth: 0.5 });
+      y += LINE_HEIGHT;
+    }
+  });
+}
+
+function drawSummaryHeader(doc: PdfDocument, widths: number[], top: number): number {
+  const height = LINE_HEIGHT + CELL_PADDING * 2;
+  doc.rect(MARGIN, top, widths.reduce((sum, width) => sum + width, 0), height, 'fill', { fill: '#e2e8f0' });
+
+  let x = MARGIN;
+  SUMMARY_COLUMNS.forEach((column, index) => {
+    doc.text(column.header, x + CELL_PADDING, top + CELL_PADDING + 9, { font: 'bold', size: TEXT_SIZE });
+    x += widths[index];
+  });
+  return top + height;
+}
+
+/**
+ * Add a model page
+ * @returns Index of the model's first page
+ */
+function drawModelPage(
+  doc: PdfDocument,
+  model: ProductModel,
+  image: PdfImage | null,
+  categories: Category[],
+  priceTable?: PriceTable
+): number {
+  const firstPage = doc.addPage();
+  const flow = new PageFlow(doc, model.name);
+  const contentWidth = doc.pageWidth - MARGIN * 2;
+  const names = new Map(categories.map((category) => [category.id, category.name]));
+
+  const categoryLine = model.categoryIds.map((id) => names.get(id) ?? id).join(', ') || UNCATEGORISED;
+  doc.text(categoryLine.toUpperCase(), MARGIN, MARGIN + 8, { font: 'bold', size: 8, color: ACCENT_COLOR });
+  doc.text(model.name, MARGIN, MARGIN + 28, { font: 'bold', size: 18 });
+  const cost = formatModelCost(model, priceTable);
+  const details = [
+    model.code && `Code: ${model.code}`,
+    `Version: ${model.metadata.version}`,
+    cost && `Estimated cost: ${cost}`,
+  ].filter(Boolean);
+  doc.text(details.join('   ·   '), MARGIN, MARGIN + 42, { size: 9, color: MUTED_COLOR });
+
+  flow.y = drawViewImage(doc, getPrimaryView(model), image, MARGIN + 52, IMAGE_MAX_HEIGHT) + 18;
+
+  if (model.description) {
+    for (const line of doc.wrapText(model.description, contentWidth, 'regular', TEXT_SIZE + 1)) {
+      flow.ensure(LINE_HEIGHT + 1);
+      doc.text(line, MARGIN, flow.y + 10, { size: TEXT_SIZE + 1 });
+      flow.y += LINE_HEIGHT + 1;
+    }
+    flow.y += 10;
+  }
+
+  const markers = getModelMarkers(model);
+  flow.ensure(HEADING_HEIGHT + LINE_HEIGHT * 2);
+  doc.text(`POSM summary (${markers.length} item(s))`, MARGIN, flow.y + 12, { font: 'bold', size: 11 });
+  flow.y += HEADING_HEIGHT - 4;
+
+  if (markers.length === 0) {
+    doc.text('This model has no POSM markers.', MARGIN, flow.y + 10, { size: TEXT_SIZE, color: MUTED_COLOR });
+    return firstPage;
+  }
+
+  const fixedWidth = SUMMARY_COLUMNS.reduce((sum, column) => sum + column.width, 0);
+  const widths = SUMMARY_COLUMNS.map((column) => column.width || contentWidth - fixedWidth);
+  flow.y = drawSummaryHeader(doc, widths, flow.y);
+
+  markers.forEach((marker, index) => {
+    const cells: [string[], PdfFont][] = [
+      [doc.wrapText(marker.info.name, widths[1] - CELL_PADDING * 2, 'bold', TEXT_SIZE), 'bold'],
+      [doc.wrapText(marker.info.materialType || '—', widths[2] - CELL_PADDING * 2, 'regular', TEXT_SIZE), 'regular'],
+      [doc.wrapText(formatMarkerDimensions(marker), widths[3] - CELL_PADDING * 2, 'regular', TEXT_SIZE), 'regular'],
+    ];
+    const height = Math.max(...cells.map(([lines]) => lines.length)) * LINE_HEIGHT + CELL_PADDING * 2;
+
+    if (flow.ensure(height)) {
+      flow.y = drawSummaryHeader(doc, widths, flow.y);
+    }
+
+    doc.text(String(index + 1), MARGIN + CELL_PADDING, flow.y + CELL_PADDING + 9, {
+      font: 'bold',
+      size: TEXT_SIZE,
+      color: marker.displayOptions?.iconColor ?? ACCENT_COLOR,
+    });
+    let x = MARGIN + widths[0];
+    cells.forEach(([lines, font], column) => {
+      lines.forEach((line, lineIndex) => {
+        doc.text(line, x + CELL_PADDING, flow.y + CELL_PADDING + 9 + lineIndex * LINE_HEIGHT, { font, size: TEXT_SIZE });
+      });
+      x += widths[column + 1];
+    });
+
+    flow.y += height;
+    doc.line(MARGIN, flow.y, MARGIN + contentWidth, flow.y, { stroke: BORDER_COLOR, lineWidth: 0.5 });
+  });
+
+  return firstPage;
+}
+
+/**
+ * Add the index of POSM items grouped by material type
+ */
+function drawMaterialIndex(doc: PdfDocument, models: ProductModel[], modelPages: Map<string, number>): void {
+  const groups = new Map<string, { label: string; items: { name: string; model: ProductModel }[] }>();
+  for (const model of models) {
+    for (const marker of getModelMarkers(model)) {
+      const label = marker.info.materialType?.trim() || UNSPECIFIED_MATERIAL;
+      const key = label.toLowerCase();
+      if (!groups.has(key)) groups.set(key, { label, items: [] });
+      groups.get(key)!.items.push({ name: marker.info.name, model });
+    }
+  }
+
+  const sorted = [...groups.values()].sort((a, b) => {
+    if (a.label === UNSPECIFIED_MATERIAL) return 1;
+    if (b.label === UNSPECIFIED_MATERIAL) return -1;
+    return a.label.localeCompare(b.label);
+  });
+  sorted.forEach((group) => group.items.sort((a, b) => a.name.localeCompare(b.name)));
+
+  doc.addPage();
+  const flow = new PageFlow(doc, 'POSM index by material');
+  doc.text('POSM index by material', MARGIN, MARGIN + 20, { font: 'bold', size: 18 });
+  flow.y = MARGIN + 32;
+
+  if (sorted.length === 0) {
+    doc.text('No POSM items in this booklet.', MARGIN, flow.y + 12, { size: TEXT_SIZE, color: MUTED_COLOR });
+    return;
+  }
+
+  const nameWidth = 230;
+  for (const group of sorted) {
+    flow.ensure(HEADING_HEIGHT + LINE_HEIGHT);
+    doc.text(`${group.label} (${group.items.length})`, MARGIN, flow.y + 16, {
+      font: 'bold',
+      size: 11,
+      color: ACCENT_COLOR,
+    });
+    flow.y += HEADING_HEIGHT;
+
+    for (const item of group.items) {
+      flow.ensure(LINE_HEIGHT);
+      const [name] = doc.wrapText(item.name, nameWidth - 12, 'regular', TEXT_SIZE);
+      const [model] = doc.wrapText(modelTitle(item.model), doc.pageWidth - MARGIN * 2 - nameWidth - 50, 'regular', TEXT_SIZE);
+      doc.text(name, MARGIN + 12, flow.y + 9, { size: TEXT_SIZE });
+      doc.text(model, MARGIN + nameWidth, flow.y + 9, { size: TEXT_SIZE, color: MUTED_COLOR });
+      doc.text(String((modelPages.get(item.model.id) ?? 0) + 1), doc.pageWidth - MARGIN, flow.y + 9, {
+        size: TEXT_SIZE,
+        align: 'right',
+      });
+      flow.y += LINE_HEIGHT;
+    }
+  }
+}
+
+/**
+ * Add a footer to every page except the cover
+ */
+function addFooters(doc: PdfDocument, subtitle: string): void {
+  const top = doc.pageHeight - MARGIN - 8;
+  for (let index = 1; index < doc.pageCount; index++) {
+    doc.setPage(index);
+    doc.line(MARGIN, top - 12, doc.pageWidth - MARGIN, top - 12, { stroke: BORDER_COLOR, lineWidth: 0.5 });
+    const [label] = doc.wrapText(`POSM Catalogue  ·  ${subtitle}`, doc.pageWidth - MARGIN * 2 - 60, 'regular', 8);
+    doc.text(label, MARGIN, top, { size: 8, color: MUTED_COLOR });
+    doc.text(`Page ${index + 1}`, doc.pageWidth - MARGIN, top, { size: 8, color: MUTED_COLOR, align: 'right' });
+  }
+}
+
+/**
+ * Generate a catalogue booklet
+ * Model pages follow the table of contents, so a model in several categories
+ * gets one page, listed under each of them.
+ * @param models - Models to include (e.g. the HomePage search/filter results)
+ * @param categories - Catalogue categories, in display order
+ * @param filters - Filters the models were chosen with, shown on the cover
+ * @param loadImage - Loads images for embedding (defaults to loadPdfImage)
+ * @param priceTable - Adds each model's estimated cost to its page and the total to the cover
+ * @returns PDF file bytes
+ * @throws Error if no models are given
+ */
+export async function generateCatalogueBooklet(
+  models: ProductModel[],
+  categories: Category[],
+  filters: BookletFilters = {},
+  loadImage: PdfImageLoader = loadPdfImage,
+  priceTable?: PriceTable
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (models.length === 0) {
+    throw new Error('Cannot create a booklet without models');
+  }
+
+  const subtitle = describeBookletFilters(filters, categories);
+  const doc = new PdfDocument(`POSM Catalogue - ${subtitle}`);
+  const groups = groupByCategory(models, categories, filters);
+  const ordered = [...new Set(groups.flatMap((group) => group.models))];
+
+  drawCover(doc, ordered, subtitle, priceTable);
+
+  // Reserve the contents pages; they are filled in once model pages are known
+  const contents = paginateContents(doc, groups);
+  const contentsPages = contents.map(() => doc.addPage());
+
+  const modelPages = new Map<string, number>();
+  for (const model of ordered) {
+    modelPages.set(
+      model.id,
+      drawModelPage(doc, model, await loadImage(getPrimaryImage(model).url), categories, priceTable)
+    );
+  }
+
+  drawContents(doc, contentsPages, contents, modelPages);
+  drawMaterialIndex(doc, ordered, modelPages);
+  addFooters(doc, subtitle);
+
+  return doc.toBytes();
+}
@@ -0,0 +1,295 @@
+import type {
+  BundleAsset,
+  BundleAssetData,
+  BundleFile,
+  BundleManifest,
+  BundleOptions,
+  CatalogueIndex,
+  ExportData,
+  ValidationResult,
+} from '@/types';
+import { getModelAssetUrls, rewriteModelAssets } from '@/utils/modelAssets';
+import { createZip, readZip } from '@/utils/zip';
+import type { ZipEntry } from '@/utils/zip';
+import { parseImportFile } from '@/services/importService';
+
+/**
+ * Export bundles
+ *
+ * A bundle is a ZIP archive holding everything needed to restore a catalogue
+ * offline:
+ *
+ *   manifest.json         - file list with SHA-256 checksums, asset origins
+ *   catalogue.json        - ExportData, asset URLs rewritten to bundle paths
+ *   catalogue-index.json  - catalogue index snapshot (optional)
+ *   assets/images/...     - model images, thumbnails and marker artwork
+ */
+
+export const BUNDLE_FORMAT = 'posm-catalogue-bundle';
+export const BUNDLE_FORMAT_VERSION = 1;
+export const BUNDLE_MIME_TYPE = 'application/zip';
+
+const MANIFEST_FILE = 'manifest.json';
+const EXPORT_FILE = 'catalogue.json';
+const INDEX_FILE = 'catalogue-index.json';
+const ASSET_PREFIX = 'assets/';
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+export type AssetFetcher = (url: string) => Promise<{ data: Uint8Array; contentType: string }>;
+
+/**
+ * Fetch an asset over HTTP (also handles data: URLs)
+ */
+const fetchAsset: AssetFetcher = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get('Content-Type')?.split(';')[0].trim() || guessContentType(url);
+  return { data: new Uint8Array(await response.arrayBuffer()), contentType };
+};
+
+function guessContentType(url: string): string {
+  const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(url)?.[1].toLowerCase() ?? '';
+  return TYPES_BY_EXTENSION[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Hex SHA-256 digest
+ */
+async function sha256(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>);
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function sanitizeSegment(segment: string): string {
+  const cleaned = segment.replace(/[^a-zA-Z0-9._-]/g, '-').replace(/^[^a-zA-Z0-9]+/, '');
+  return cleaned || 'asset';
+}
+
+/**
+ * Choose where an asset is stored, relative to the site root
+ * Site images keep their path; remote and inline images go under
+ * images/remote/ and images/inline/ with an extension matching their type.
+ */
+function storagePathFor(url: string, contentType: string, digest: string): string {
+  const extension = EXTENSIONS_BY_TYPE[contentType] ?? guessContentType(url).split('/')[1] ?? 'bin';
+
+  if (url.startsWith('data:')) {
+    return `images/inline/${digest.slice(0, 16)}.${extension}`;
+  }
+
+  const parsed = new URL(url, 'http://local.invalid');
+  const segments = parsed.pathname.split('/').filter(Boolean).map(decodeURIComponent).map(sanitizeSegment);
+  const isLocal = parsed.host === 'local.invalid' || parsed.host === globalThis.location?.host;
+
+  if (isLocal && segments[0] === 'images' && segments.length > 1) {
+    return segments.join('/');
+  }
+
+  const file = segments.pop() ?? 'asset';
+  const hasExtension = Boolean(TYPES_BY_EXTENSION[/\.([a-z0-9]+)$/i.exec(file)?.[1].toLowerCase() ?? '']);
+  const name = hasExtension ? file : `${file}.${extension}`;
+  return ['images', 'remote', sanitizeSegment(parsed.host), ...segments, name].join('/');
+}
+
+/**
+ * Build an export bundle
+ * Assets that cannot be fetched are listed in the manifest and keep their
+ * original URL in the export data.
+ * @param exportData - Export to bundle
+ * @param catalogue - Catalogue index, for thumbnails and the index snapshot
+ * @param options - What to include
+ * @param fetcher - Loads asset bytes (defaults to fetch)
+ * @returns ZIP file bytes and its manifest
+ */
+export async function createExportBundle(
+  exportData: ExportData,
+  catalogue: CatalogueIndex | null,
+  options: BundleOptions,
+  fetcher: AssetFetcher = fetchAsset
+): Promise<{ bytes: Uint8Array<ArrayBuffer>; manifest: BundleManifest }> {
+  const { models } = exportData;
+  const modelIds = new Set(models.map((model) => model.id));
+  const summaries = catalogue?.models.filter((summary) => modelIds.has(summary.id)) ?? [];
+  const thumbnails: Record<string, string> = Object.fromEntries(
+    summaries.map((summary) => [summary.id, summary.thumbnailUrl])
+  );
+
+  const assets: BundleAsset[] = [];
+  const missingAssets: BundleManifest['missingAssets'] = [];
+  const entries: ZipEntry[] = [];
+  const bundlePaths = new Map<string, string>(); // Original URL -> bundle path
+
+  if (options.includeImages) {
+    const urls = [...new Set([...models.flatMap(getModelAssetUrls), ...Object.values(thumbnails)])];
+    const usedPaths = new Set<string>();
+
+    for (const url of urls) {
+      try {
+        const { data, contentType } = await fetcher(url);
+        const basePath = `${ASSET_PREFIX}${storagePathFor(url, contentType, await sha256(data))}`;
+
+        let bundlePath = basePath;
+        for (let n = 2; usedPaths.has(bundlePath); n++) {
+          bundlePath = basePath.replace(/(\.[^./]+)?$/, `-${n}$1`);
+        }
+        usedPaths.add(bundlePath);
+
+        bundlePaths.set(url, bundlePath);
+        assets.push({ path: bundlePath, url, contentType });
+        entries.push({ name: bundlePath, data });
+      } catch (error) {
+        console.error(`Failed to bundle asset ${url}:`, error);
+        missingAssets.push({ url, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  const bundledData: ExportData = {
+    ...exportData,
+    models: models.map((model) => rewriteModelAssets(model, bundlePaths)),
+  };
+  entries.unshift({ name: EXPORT_FILE, data: JSON.stringify(bundledData, null, 2) });
+
+  if (options.includeMetadata && catalogue) {
+    const index: CatalogueIndex = {
+      ...catalogue,
+      totalModels: summaries.length,
+      models: summaries.map((summary) => ({
+        ...summary,
+        thumbnailUrl: bundlePaths.get(summary.thumbnailUrl) ?? summary.thumbnailUrl,
+      })),
+    };
+    entries.splice(1, 0, { name: INDEX_FILE, data: JSON.stringify(index, null, 2) });
+  }
+
+  const encoder = new TextEncoder();
+  const files: BundleFile[] = await Promise.all(
+    entries.map(async (entry) => {
+      const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+      return { path: entry.name, size: data.length, sha256: await sha256(data) };
+    })
+  );
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    createdAt: exportData.exportedAt,
+    exportFile: EXPORT_FILE,
+    ...(options.includeMetadata && catalogue ? { indexFile: INDEX_FILE } : {}),
+    files,
+    assets,
+    thumbnails: Object.fromEntries(
+      Object.entries(thumbnails).map(([id, url]) => [id, bundlePaths.get(url) ?? url])
+    ),
+    missingAssets,
+  };
+
+  return {
+    bytes: createZip([{ name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) }, ...entries]),
+    manifest,
+  };
+}
+
+/**
+ * Read and verify an export bundle
+ * Every file is checked against the manifest checksums, and bundle paths in
+ * the export data are mapped back to the URLs the assets were exported from.
+ * @param file - ZIP file bytes
+ * @returns Validation result with the export data, manifest and asset files
+ */
+export async function readExportBundle(
+  file: Uint8Array
+): Promise<ValidationResult<{ data: ExportData; manifest: BundleManifest; assets: BundleAssetData[] }>> {
+  const fail = (message: string): ValidationResult<never> => ({
+    valid: false,
+    errors: [{ field: 'bundle', message }],
+  });
+
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = readZip(file);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'is not a valid ZIP archive');
+  }
+
+  const decoder = new TextDecoder();
+  const manifestBytes = entries.get(MANIFEST_FILE);
+  if (!manifestBytes) {
+    return fail(`has no ${MANIFEST_FILE}`);
+  }
+
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(decoder.decode(manifestBytes)) as BundleManifest;
+  } catch {
+    return fail(`${MANIFEST_FILE} is not valid JSON`);
+  }
+  if (manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.files) || !Array.isArray(manifest.assets)) {
+    return fail('is not a POSM catalogue bundle');
+  }
+  if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+    return fail(`uses bundle format ${manifest.formatVersion}; this app reads up to ${BUNDLE_FORMAT_VERSION}`);
+  }
+
+  const errors: string[] = [];
+  for (const entry of manifest.files) {
+    const data = entries.get(entry.path);
+    if (!data) {
+      errors.push(`${entry.path} is missing`);
+    } else if (data.length !== entry.size || (await sha256(data)) !== entry.sha256) {
+      errors.push(`${entry.path} does not match its checksum`);
+    }
+  }
+  if (errors.length > 0) {
+    return { valid: false, errors: errors.map((message) => ({ field: 'bundle', message })) };
+  }
+
+  const exportBytes = entries.get(manifest.exportFile);
+  if (!exportBytes) {
+    return fail(`has no ${manifest.exportFile}`);
+  }
+
+  const parsed = parseImportFile(decoder.decode(exportBytes));
+  if (!parsed.valid || !parsed.data) {
+    return { valid: false, errors: parsed.errors };
+  }
+
+  const originalUrls = new Map(manifest.assets.map((asset) => [asset.path, asset.url]));
+  return {
+    valid: true,
+    data: {
+      data: {
+        ...parsed.data,
+        models: parsed.data.models.map((model) => rewriteModelAssets(model, originalUrls)),
+      },
+      manifest: {
+        ...manifest,
+        thumbnails: Object.fromEntries(
+          Object.entries(manifest.thumbnails ?? {}).map(([id, url]) => [id, originalUrls.get(url) ?? url])
+        ),
+      },
+      assets: manifest.assets.map((asset) => ({
+        ...asset,
+        storagePath: asset.path.slice(ASSET_PREFIX.length),
+        data: entries.get(asset.path)!,
+      })),
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import type { Campaign } from '@/types';
+import { cache } from '@/utils/cache';
+import { getDataSource, getWritableDataSource } from '@/services/dataSource';
+import { migrateCampaigns } from '@/services/migrationService';
+import { formatValidationErrors, validateCampaigns } from '@/services/validationService';
+
+const CAMPAIGNS_CACHE_KEY = 'campaigns';
+const CAMPAIGNS_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Load all campaigns from the active data source
+ * Campaigns saved by older versions of the app are migrated before validation.
+ * @returns Promise resolving to the campaign list (empty if the catalogue has none)
+ * @throws Error if the campaigns cannot be loaded or are invalid
+ */
+export async function loadCampaigns(): Promise<Campaign[]> {
+  const cached = cache.get<Campaign[]>(CAMPAIGNS_CACHE_KEY);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const raw = await getDataSource().getCampaigns();
+    const validation = validateCampaigns(migrateCampaigns(raw));
+
+    if (!validation.valid || !validation.data) {
+      console.error('Campaigns failed validation:', formatValidationErrors(validation.errors ?? []));
+      throw new Error('Invalid campaign data format');
+    }
+
+    cache.set(CAMPAIGNS_CACHE_KEY, validation.data, CAMPAIGNS_TTL);
+    return validation.data;
+  } catch (error) {
+    console.error('Error loading campaigns:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the campaign list
+ * Writes to the active data source when it is writable, otherwise to the catalogue server.
+ * @param campaigns - Complete campaign list
+ * @throws Error if the campaigns are invalid or the write fails
+ */
+export async function saveCampaigns(campaigns: Campaign[]): Promise<void> {
+  const validation = validateCampaigns(campaigns);
+  if (!validation.valid) {
+    throw new Error(`Invalid campaign data: ${formatValidationErrors(validation.errors ?? []).join('; ')}`);
+  }
+
+  await getWritableDataSource().saveCampaigns(campaigns);
+  cache.remove(CAMPAIGNS_CACHE_KEY);
+}
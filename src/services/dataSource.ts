@@ -0,0 +1,97 @@
+import type { CatalogueDataSource, DataSourceKind } from '@/types';
+import { cache } from '@/utils/cache';
+import { StaticDataSource } from '@/services/staticDataSource';
+import { RestDataSource } from '@/services/restDataSource';
+import { IndexedDbDataSource } from '@/services/indexedDbDataSource';
+
+export interface DataSourceConfig {
+  kind: DataSourceKind;
+  baseUrl: string; // Static files origin/prefix (also used to seed IndexedDB)
+  apiUrl: string; // REST API root
+}
+
+const DATA_SOURCE_KINDS: readonly DataSourceKind[] = ['static', 'rest', 'indexeddb'];
+
+let activeSource: CatalogueDataSource | null = null;
+
+/**
+ * Read data source configuration from Vite environment variables
+ *
+ *   VITE_DATA_SOURCE   - static (default) | rest | indexeddb
+ *   VITE_DATA_BASE_URL - origin or CDN prefix for static JSON files
+ *   VITE_API_URL       - REST API root (default: /api)
+ *
+ * @returns Data source configuration
+ */
+export function getDataSourceConfig(): DataSourceConfig {
+  const env = import.meta.env;
+  const requested = (env.VITE_DATA_SOURCE || 'static') as DataSourceKind;
+
+  if (!DATA_SOURCE_KINDS.includes(requested)) {
+    console.warn(`Unknown VITE_DATA_SOURCE "${requested}", falling back to static`);
+  }
+
+  return {
+    kind: DATA_SOURCE_KINDS.includes(requested) ? requested : 'static',
+    baseUrl: env.VITE_DATA_BASE_URL || '',
+    apiUrl: env.VITE_API_URL || '/api',
+  };
+}
+
+/**
+ * Create a data source from configuration
+ * @param config - Data source configuration
+ * @returns New data source instance
+ */
+export function createDataSource(config: DataSourceConfig): CatalogueDataSource {
+  switch (config.kind) {
+    case 'rest':
+      return new RestDataSource(config.apiUrl);
+    case 'indexeddb':
+      return new IndexedDbDataSource(new StaticDataSource(config.baseUrl));
+    case 'static':
+    default:
+      return new StaticDataSource(config.baseUrl);
+  }
+}
+
+/**
+ * Get the active data source, creating it from environment config on first use
+ * @returns Active data source
+ */
+export function getDataSource(): CatalogueDataSource {
+  if (!activeSource) {
+    activeSource = createDataSource(getDataSourceConfig());
+  }
+  return activeSource;
+}
+
+/**
+ * Get the data source that Publish writes to
+ * Publishing always goes to the catalogue server so edits land in public/data;
+ * the active source is reused when it already talks to that server.
+ * @returns REST data source for the configured API
+ */
+export function getPublishTarget(): RestDataSource {
+  const source = getDataSource();
+  return source instanceof RestDataSource ? source : new RestDataSource(getDataSourceConfig().apiUrl);
+}
+
+/**
+ * Get a data source that accepts writes
+ * @returns The active data source if writable, otherwise the publish target
+ */
+export function getWritableDataSource(): CatalogueDataSource {
+  const source = getDataSource();
+  return source.writable ? source : getPublishTarget();
+}
+
+/**
+ * Replace the active data source (e.g. in tests or when switching backends at runtime)
+ * Clears cached catalogue data so the next load reads from the new source
+ * @param source - Data source to use, or null to recreate from config
+ */
+export function setDataSource(source: CatalogueDataSource | null): void {
+  activeSource = source;
+  cache.clear();
+}
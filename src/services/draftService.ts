@@ -1,7 +1,8 @@
-import type { ProductModel } from '@/types';
+import type { MarkerDraft, POSMMarker, ProductModel } from '@/types';
 
 const DRAFT_KEY_PREFIX = 'posm-draft-';
 const TIMESTAMP_SUFFIX = '-timestamp';
+const MARKER_DRAFT_PREFIX = 'posm-marker-draft-';
 
 /**
  * Save model draft to localStorage
@@ -100,3 +101,63 @@ export function clearAllDrafts(): void {
   const draftIds = getAllDraftIds();
   draftIds.forEach((id) => clearDraft(id));
 }
+
+/**
+ * Storage key of a marker draft
+ * Drafts of the primary view use the model-level key, so drafts saved before
+ * models had several views still load.
+ */
+function markerDraftKey(modelId: string, viewId?: string): string {
+  return viewId ? `${MARKER_DRAFT_PREFIX}${modelId}/${viewId}` : `${MARKER_DRAFT_PREFIX}${modelId}`;
+}
+
+/**
+ * Save a marker draft to localStorage
+ * @param modelId - Model being edited
+ * @param draft - Draft markers with the published base they started from
+ * @param viewId - View being edited; omit for the primary view
+ */
+export function saveMarkerDraft(modelId: string, draft: MarkerDraft, viewId?: string): void {
+  localStorage.setItem(markerDraftKey(modelId, viewId), JSON.stringify(draft));
+}
+
+/**
+ * Load a marker draft from localStorage
+ * Drafts saved before versioning are a bare marker array with no known base,
+ * so every marker that differs from the published one is treated as a conflict.
+ * @param modelId - Model ID
+ * @param viewId - View ID; omit for the primary view
+ * @returns Draft if one exists and parses, null otherwise
+ */
+export function loadMarkerDraft(modelId: string, viewId?: string): MarkerDraft | null {
+  const data = localStorage.getItem(markerDraftKey(modelId, viewId));
+  if (!data) return null;
+  try {
+    const parsed = JSON.parse(data) as MarkerDraft | POSMMarker[];
+    if (Array.isArray(parsed)) {
+      return { baseVersion: null, baseMarkers: [], markers: parsed, savedAt: '' };
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a marker draft exists
+ * @param modelId - Model ID
+ * @param viewId - View ID; omit for the primary view
+ * @returns True if a marker draft is stored
+ */
+export function hasMarkerDraft(modelId: string, viewId?: string): boolean {
+  return localStorage.getItem(markerDraftKey(modelId, viewId)) !== null;
+}
+
+/**
+ * Remove a marker draft
+ * @param modelId - Model ID
+ * @param viewId - View ID; omit for the primary view
+ */
+export function clearMarkerDraft(modelId: string, viewId?: string): void {
+  localStorage.removeItem(markerDraftKey(modelId, viewId));
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseImportFile } from '@/services/importService';
+import catalogueIndex from '../../tests/fixtures/catalogue-index.json';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+
+const exportFile = (models: unknown[]) =>
+  JSON.stringify({
+    version: '1.0.0',
+    exportedAt: '2025-10-23T10:00:00Z',
+    exportType: 'full',
+    models,
+    categories: catalogueIndex.categories,
+    metadata: { totalModels: models.length, totalMarkers: 3 },
+  });
+
+describe('parseImportFile', () => {
+  it('migrates older models before validating', () => {
+    const result = parseImportFile(exportFile([sampleModel]));
+
+    expect(result.errors ?? []).toEqual([]);
+    expect(result.data?.models[0].views[0].posmMarkers).toHaveLength(3);
+  });
+
+  it('reports models that cannot be migrated', () => {
+    const result = parseImportFile(exportFile([sampleModel, 'model-002', { ...sampleModel, schemaVersion: 99 }]));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors?.map((error) => error.field)).toEqual(['models[1]', 'models[2]']);
+    expect(result.errors?.[0].message).toBe('Model data must be an object');
+  });
+
+  it('reports invalid JSON', () => {
+    expect(parseImportFile('{').errors?.[0].field).toBe('file');
+  });
+});
@@ -0,0 +1,290 @@
+import type {
+  BundleAssetData,
+  CatalogueDataSource,
+  CatalogueIndex,
+  Category,
+  ExportData,
+  ImportAction,
+  ImportPreview,
+  ImportResult,
+  ImportStrategy,
+  ImportTarget,
+  ModelImportPreview,
+  ProductModel,
+  ValidationError,
+  ValidationResult,
+} from '@/types';
+import { cache } from '@/utils/cache';
+import { diffMarkers, determineVersionBump, isEqual } from '@/utils/modelDiff';
+import { getModelAssetUrls, rewriteModelAssets } from '@/utils/modelAssets';
+import { getModelMarkers, getPrimaryImage } from '@/utils/modelViews';
+import { migrateModel } from '@/services/migrationService';
+import { validateExport } from '@/services/validationService';
+import { loadModel } from '@/services/modelService';
+import { getWritableDataSource } from '@/services/dataSource';
+import { saveMarkerDraft } from '@/services/draftService';
+
+/**
+ * Parse and validate an uploaded export file
+ * Models written by older versions of the app are migrated before validation.
+ * @param text - File contents
+ * @returns Validation result with the parsed export data
+ */
+export function parseImportFile(text: string): ValidationResult<ExportData> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [{ field: 'file', message: `is not valid JSON (${error instanceof Error ? error.message : 'parse error'})` }],
+    };
+  }
+
+  if (data && typeof data === 'object' && Array.isArray((data as Record<string, unknown>).models)) {
+    const record = data as Record<string, unknown>;
+    const errors: ValidationError[] = [];
+    const models = (record.models as unknown[]).map((model, index) => {
+      try {
+        return migrateModel(model).model;
+      } catch (error) {
+        errors.push({
+          field: `models[${index}]`,
+          message: error instanceof Error ? error.message : 'could not be migrated',
+        });
+        return model;
+      }
+    });
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+    data = { ...record, models };
+  }
+
+  return validateExport(data);
+}
+
+/**
+ * Compare an export against the current catalogue
+ * @param data - Validated export data
+ * @param catalogue - Current catalogue index
+ * @returns Per-model status with marker changes, plus categories new to the catalogue
+ */
+export async function previewImport(data: ExportData, catalogue: CatalogueIndex): Promise<ImportPreview> {
+  const existingIds = new Set(catalogue.models.map((model) => model.id));
+  const categoryIds = new Set(catalogue.categories.map((category) => category.id));
+
+  const models = await Promise.all(
+    data.models.map(async (model): Promise<ModelImportPreview> => {
+      if (!existingIds.has(model.id)) {
+        return {
+          modelId: model.id,
+          name: model.name,
+          status: 'new',
+          importedUpdatedAt: model.metadata.updatedAt,
+          markerChanges: diffMarkers([], getModelMarkers(model)),
+          model,
+        };
+      }
+
+      const current = await loadModel(model.id);
+      return {
+        modelId: model.id,
+        name: model.name,
+        status: determineVersionBump(current, model) ? 'changed' : 'unchanged',
+        importedUpdatedAt: model.metadata.updatedAt,
+        currentUpdatedAt: current.metadata.updatedAt,
+        markerChanges: diffMarkers(getModelMarkers(current), getModelMarkers(model)),
+        model,
+        current,
+      };
+    })
+  );
+
+  return {
+    exportedAt: data.exportedAt,
+    models,
+    categories: data.categories,
+    newCategories: data.categories.filter((category) => !categoryIds.has(category.id)),
+  };
+}
+
+/**
+ * Decide what to do with each model under a merge strategy
+ *
+ *   replace        - imported models overwrite existing ones
+ *   merge-newer    - overwrite only when the import has a newer `updatedAt`
+ *   skip-existing  - only add models that do not exist yet
+ *
+ * @param preview - Import preview
+ * @param strategy - Merge strategy
+ * @returns One action per imported model
+ */
+export function planImport(preview: ImportPreview, strategy: ImportStrategy): ImportAction[] {
+  return preview.models.map(({ modelId, status, importedUpdatedAt, currentUpdatedAt }) => {
+    if (status === 'new') {
+      return { modelId, action: 'create', reason: 'New model' };
+    }
+    if (status === 'unchanged') {
+      return { modelId, action: 'skip', reason: 'No changes' };
+    }
+
+    switch (strategy) {
+      case 'replace':
+        return { modelId, action: 'update', reason: 'Replacing existing model' };
+      case 'merge-newer':
+        return Date.parse(importedUpdatedAt) > Date.parse(currentUpdatedAt ?? '')
+          ? { modelId, action: 'update', reason: 'Imported copy is newer' }
+          : { modelId, action: 'skip', reason: 'Current copy is newer or the same age' };
+      case 'skip-existing':
+      default:
+        return { modelId, action: 'skip', reason: 'Model already exists' };
+    }
+  });
+}
+
+/**
+ * Merge imported categories into the current registry
+ * Existing categories are only overwritten by the replace strategy.
+ */
+function mergeCategories(current: Category[], imported: Category[], strategy: ImportStrategy): Category[] {
+  const merged = new Map(current.map((category) => [category.id, category]));
+  imported.forEach((category) => {
+    if (!merged.has(category.id) || strategy === 'replace') {
+      merged.set(category.id, category);
+    }
+  });
+  return [...merged.values()];
+}
+
+/**
+ * Store bundled assets used by the given models
+ * Thumbnails are stored as images/models/<id>-thumb.<ext>, where the catalogue
+ * index build picks them up.
+ * @returns Original URL -> stored URL
+ */
+async function restoreAssets(
+  models: ProductModel[],
+  assets: BundleAssetData[],
+  thumbnails: Record<string, string>,
+  source: CatalogueDataSource
+): Promise<Map<string, string>> {
+  const assetsByUrl = new Map(assets.map((asset) => [asset.url, asset]));
+  const stored = new Map<string, string>();
+
+  for (const url of new Set(models.flatMap(getModelAssetUrls))) {
+    const asset = assetsByUrl.get(url);
+    if (asset) {
+      stored.set(url, await source.saveAsset(asset.storagePath, asset.data, asset.contentType));
+    }
+  }
+
+  for (const model of models) {
+    const thumbnail = assetsByUrl.get(thumbnails[model.id]);
+    if (!thumbnail || thumbnail.url === getPrimaryImage(model).url) continue;
+
+    const extension = thumbnail.storagePath.split('.').pop();
+    await source.saveAsset(`images/models/${model.id}-thumb.${extension}`, thumbnail.data, thumbnail.contentType);
+  }
+
+  return stored;
+}
+
+/**
+ * Apply an import
+ *
+ * The data-source target writes categories and models through a writable data
+ * source. The drafts target stores the imported markers as marker drafts to be
+ * reviewed and published from the editor; new models and categories cannot be
+ * drafted and are skipped.
+ *
+ * Image files from an export bundle are stored through the writable data
+ * source first (for either target) and the models are pointed at them.
+ *
+ * @param preview - Import preview
+ * @param strategy - Merge strategy
+ * @param target - Where to apply the import
+ * @returns Applied and skipped models
+ */
+export async function applyImport(
+  preview: ImportPreview,
+  strategy: ImportStrategy,
+  target: ImportTarget
+): Promise<ImportResult> {
+  const actions = planImport(preview, strategy);
+  const modelsById = new Map(preview.models.map((entry) => [entry.modelId, entry]));
+  const applied: string[] = [];
+  const skipped: ImportAction[] = actions.filter((action) => action.action === 'skip');
+  let categoriesSaved = 0;
+  let toApply = actions.filter((action) => action.action !== 'skip');
+
+  if (target === 'drafts') {
+    toApply = toApply.filter((action) => {
+      if (modelsById.get(action.modelId)!.current) return true;
+      skipped.push({ ...action, action: 'skip', reason: 'New models cannot be imported as drafts' });
+      return false;
+    });
+  }
+
+  let assetUrls = new Map<string, string>();
+  if (preview.assets?.length && toApply.length > 0) {
+    assetUrls = await restoreAssets(
+      toApply.map((action) => modelsById.get(action.modelId)!.model),
+      preview.assets,
+      preview.thumbnails ?? {},
+      getWritableDataSource()
+    );
+  }
+  const importedModel = (modelId: string) => rewriteModelAssets(modelsById.get(modelId)!.model, assetUrls);
+
+  if (target === 'drafts') {
+    toApply.forEach((action) => {
+      const entry = modelsById.get(action.modelId)!;
+      const current = entry.current!;
+      const imported = importedModel(entry.modelId);
+
+      // Drafts hold markers of existing views; views new to the model need the data source
+      current.views.forEach((view, index) => {
+        const importedView = imported.views.find((candidate) => candidate.id === view.id);
+        if (!importedView) return;
+        saveMarkerDraft(entry.modelId, {
+          baseVersion: current.metadata.version,
+          baseMarkers: view.posmMarkers,
+          markers: importedView.posmMarkers,
+          savedAt: new Date().toISOString(),
+        }, index === 0 ? undefined : view.id);
+      });
+      applied.push(entry.modelId);
+    });
+
+    return { applied, skipped, categoriesSaved: 0, assetsSaved: assetUrls.size };
+  }
+
+  const source = getWritableDataSource();
+
+  try {
+    const registry = await source.getCategories();
+    const categories = mergeCategories(registry, preview.categories, strategy);
+    const categoriesChanged = !isEqual(categories, registry);
+
+    // Categories first so imported models can reference them
+    if (categoriesChanged) {
+      await source.saveCategories(categories);
+      cache.remove('category-ids');
+      categoriesSaved = categories.length;
+    }
+
+    for (const action of toApply) {
+      await source.saveModel(importedModel(action.modelId));
+      applied.push(action.modelId);
+      cache.remove(`model-${action.modelId}`);
+    }
+  } catch (error) {
+    console.error('Error applying import:', error);
+    throw error;
+  } finally {
+    cache.remove('catalogue-index');
+  }
+
+  return { applied, skipped, categoriesSaved, assetsSaved: assetUrls.size };
+}
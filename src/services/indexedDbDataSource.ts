@@ -0,0 +1,267 @@
+import type { Campaign, CatalogueDataSource, CatalogueIndex, Category, PriceTable, ProductModel, Store } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import { buildCatalogueIndexFromModels } from '@/utils/catalogueIndex';
+
+const DB_NAME = 'posm-catalogue';
+const DB_VERSION = 4; // 2: campaigns store, 3: stores store, 4: settings store
+const MODELS_STORE = 'models';
+const CATEGORIES_STORE = 'categories';
+const CAMPAIGNS_STORE = 'campaigns';
+const STORES_STORE = 'stores';
+const SETTINGS_STORE = 'settings'; // Single records under fixed keys
+const PRICE_TABLE_KEY = 'priceTable';
+const ALL_STORES = [MODELS_STORE, CATEGORIES_STORE, CAMPAIGNS_STORE, STORES_STORE, SETTINGS_STORE];
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Encode bytes as a data URL
+ */
+function toDataUrl(data: Uint8Array, contentType: string): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return `data:${contentType};base64,${btoa(binary)}`;
+}
+
+/**
+ * Browser-local data source backed by IndexedDB
+ * The catalogue index is derived from the stored models on every read.
+ * When the store is empty it can be seeded once from another data source;
+ * stores added by a schema upgrade are seeded the same way.
+ */
+export class IndexedDbDataSource implements CatalogueDataSource {
+  readonly kind = 'indexeddb' as const;
+  readonly writable = true;
+  private seed: CatalogueDataSource | null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private seedPromise: Promise<void> | null = null;
+  private storesToSeed = new Set<string>();
+
+  /**
+   * @param seed - Source to copy the catalogue from when the local store is empty
+   */
+  constructor(seed: CatalogueDataSource | null = null) {
+    this.seed = seed;
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available in this environment'));
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const createStore = (name: string, options?: IDBObjectStoreParameters) => {
+          if (db.objectStoreNames.contains(name)) return;
+          db.createObjectStore(name, options);
+          // A store added to an existing database starts empty; seed it from the seed source
+          if (event.oldVersion > 0) {
+            this.storesToSeed.add(name);
+          }
+        };
+        createStore(MODELS_STORE, { keyPath: 'id' });
+        createStore(CATEGORIES_STORE, { keyPath: 'id' });
+        createStore(CAMPAIGNS_STORE, { keyPath: 'id' });
+        createStore(STORES_STORE, { keyPath: 'code' });
+        createStore(SETTINGS_STORE);
+      };
+      this.dbPromise = promisifyRequest(request);
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Copy the seed catalogue into the store if it holds no models yet
+   * For a database created by an older version of the app, only the stores
+   * added since are filled in.
+   */
+  private ensureSeeded(): Promise<void> {
+    if (!this.seedPromise) {
+      this.seedPromise = (async () => {
+        const db = await this.openDb();
+        const count = await promisifyRequest(
+          db.transaction(MODELS_STORE, 'readonly').objectStore(MODELS_STORE).count()
+        );
+
+        const seed = this.seed;
+        if (!seed) return;
+
+        const storeNames = count > 0 ? [...this.storesToSeed] : ALL_STORES;
+        if (storeNames.length === 0) return;
+        const needs = (name: string) => storeNames.includes(name);
+
+        const models = needs(MODELS_STORE)
+          ? await Promise.all(
+              ((await seed.getCatalogueIndex()) as CatalogueIndex).models.map(async (summary) => {
+                const raw = await seed.getModel(summary.id, summary);
+                return migrateModel(raw).model;
+              })
+            )
+          : [];
+
+        // The full registry, as the index only lists categories some model uses
+        const categories = needs(CATEGORIES_STORE) ? await seed.getCategories() : [];
+        const campaigns = needs(CAMPAIGNS_STORE) ? ((await seed.getCampaigns()) as Campaign[]) : [];
+        const stores = needs(STORES_STORE) ? ((await seed.getStores()) as Store[]) : [];
+        const priceTable = needs(SETTINGS_STORE) ? ((await seed.getPriceTable()) as PriceTable | null) : null;
+
+        const transaction = db.transaction(storeNames, 'readwrite');
+        models.forEach((model) => transaction.objectStore(MODELS_STORE).put(model));
+        categories.forEach((category) => transaction.objectStore(CATEGORIES_STORE).put(category));
+        campaigns.forEach((campaign) => transaction.objectStore(CAMPAIGNS_STORE).put(campaign));
+        stores.forEach((store) => transaction.objectStore(STORES_STORE).put(store));
+        if (priceTable) {
+          transaction.objectStore(SETTINGS_STORE).put(priceTable, PRICE_TABLE_KEY);
+        }
+        await transactionDone(transaction);
+        this.storesToSeed.clear();
+      })().catch((error) => {
+        // Allow a later call to retry seeding
+        this.seedPromise = null;
+        throw error;
+      });
+    }
+    return this.seedPromise;
+  }
+
+  async getCatalogueIndex(): Promise<unknown> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    const transaction = db.transaction([MODELS_STORE, CATEGORIES_STORE], 'readonly');
+
+    const [models, categories] = await Promise.all([
+      promisifyRequest(transaction.objectStore(MODELS_STORE).getAll() as IDBRequest<ProductModel[]>),
+      promisifyRequest(transaction.objectStore(CATEGORIES_STORE).getAll() as IDBRequest<Category[]>),
+    ]);
+
+    return buildCatalogueIndexFromModels(models, categories);
+  }
+
+  async getModel(modelId: string): Promise<unknown> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    const model = await promisifyRequest(
+      db.transaction(MODELS_STORE, 'readonly').objectStore(MODELS_STORE).get(modelId)
+    );
+
+    if (!model) {
+      throw new Error(`Model not found: ${modelId}`);
+    }
+
+    return model;
+  }
+
+  async saveModel(model: ProductModel): Promise<void> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    const transaction = db.transaction(MODELS_STORE, 'readwrite');
+    transaction.objectStore(MODELS_STORE).put(model);
+    await transactionDone(transaction);
+  }
+
+  async deleteModel(modelId: string): Promise<void> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    const transaction = db.transaction(MODELS_STORE, 'readwrite');
+    transaction.objectStore(MODELS_STORE).delete(modelId);
+    await transactionDone(transaction);
+  }
+
+  async getCategories(): Promise<Category[]> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    return promisifyRequest(
+      db.transaction(CATEGORIES_STORE, 'readonly').objectStore(CATEGORIES_STORE).getAll() as IDBRequest<Category[]>
+    );
+  }
+
+  async saveCategories(categories: Category[]): Promise<void> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    const transaction = db.transaction(CATEGORIES_STORE, 'readwrite');
+    const store = transaction.objectStore(CATEGORIES_STORE);
+    store.clear();
+    categories.forEach((category) => store.put(category));
+    await transactionDone(transaction);
+  }
+
+  async getCampaigns(): Promise<unknown> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    return promisifyRequest(db.transaction(CAMPAIGNS_STORE, 'readonly').objectStore(CAMPAIGNS_STORE).getAll());
+  }
+
+  async saveCampaigns(campaigns: Campaign[]): Promise<void> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    const transaction = db.transaction(CAMPAIGNS_STORE, 'readwrite');
+    const store = transaction.objectStore(CAMPAIGNS_STORE);
+    store.clear();
+    campaigns.forEach((campaign) => store.put(campaign));
+    await transactionDone(transaction);
+  }
+
+  async getStores(): Promise<unknown> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    return promisifyRequest(db.transaction(STORES_STORE, 'readonly').objectStore(STORES_STORE).getAll());
+  }
+
+  async saveStores(stores: Store[]): Promise<void> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    const transaction = db.transaction(STORES_STORE, 'readwrite');
+    const store = transaction.objectStore(STORES_STORE);
+    store.clear();
+    stores.forEach((outlet) => store.put(outlet));
+    await transactionDone(transaction);
+  }
+
+  async getPriceTable(): Promise<unknown> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    const table = await promisifyRequest(
+      db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE).get(PRICE_TABLE_KEY)
+    );
+    return table ?? null;
+  }
+
+  async savePriceTable(table: PriceTable): Promise<void> {
+    await this.ensureSeeded();
+    const db = await this.openDb();
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put(table, PRICE_TABLE_KEY);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Assets are inlined as data URLs, which are stored with the model records
+   * and keep working offline
+   */
+  async saveAsset(_path: string, data: Uint8Array, contentType: string): Promise<string> {
+    return toDataUrl(data, contentType);
+  }
+}
@@ -0,0 +1,407 @@
+import type { DisplayUnit, ModelView, POSMMarker, PriceTable, ProductModel } from '@/types';
+import { PdfDocument, findUnsupportedCharacters, readJpegInfo } from '@/utils/pdfDocument';
+import type { PdfImage } from '@/utils/pdfDocument';
+import { countModelMarkers } from '@/utils/modelViews';
+import { getRectCorners } from '@/utils/coordinates';
+import { formatDimensions } from '@/utils/units';
+import { estimateModelCost, formatCost } from '@/utils/costs';
+import { getDisplayUnit } from '@/services/unitPreferenceService';
+
+/**
+ * Printable installation guides
+ *
+ * One section per model: each view's image with numbered marker badges, then a
+ * table of its markers (name, dimensions, material, notes, artwork thumbnail).
+ * Every page carries a footer with the model code, version and last update.
+ */
+
+export type PdfImageLoader = (url: string) => Promise<PdfImage | null>;
+
+const MARGIN = 40;
+const FOOTER_HEIGHT = 30;
+const IMAGE_MAX_HEIGHT = 340;
+const BADGE_RADIUS = 9;
+const BADGE_COLOR = '#2563eb';
+const TEXT_SIZE = 8.5;
+const LINE_HEIGHT = 11;
+const CELL_PADDING = 4;
+const THUMBNAIL_WIDTH = 52;
+const THUMBNAIL_HEIGHT = 39;
+const BORDER_COLOR = '#cbd5e1';
+const MUTED_COLOR = '#64748b';
+
+const COLUMNS = [
+  { key: 'number', header: '#', width: 22 },
+  { key: 'artwork', header: 'Artwork', width: THUMBNAIL_WIDTH + CELL_PADDING * 2 },
+  { key: 'name', header: 'Name', width: 115 },
+  { key: 'dimensions', header: 'Dimensions', width: 95 },
+  { key: 'material', header: 'Material', width: 80 },
+  { key: 'notes', header: 'Notes', width: 0 }, // Takes the remaining width
+] as const;
+
+type TextColumn = 'name' | 'dimensions' | 'material' | 'notes';
+
+/**
+ * Load an image for embedding
+ * JPEGs are embedded as-is; other formats are re-encoded as JPEG through a
+ * canvas, which needs a browser. Returns null when the image is unavailable.
+ * @param url - Image URL
+ * @returns Embeddable image, or null
+ */
+export async function loadPdfImage(url: string): Promise<PdfImage | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const jpeg = readJpegInfo(bytes);
+    if (jpeg || typeof document === 'undefined' || typeof createImageBitmap === 'undefined') {
+      return jpeg;
+    }
+
+    const bitmap = await createImageBitmap(new Blob([bytes]));
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    // JPEG has no alpha channel, so flatten onto white
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    return blob ? readJpegInfo(new Uint8Array(await blob.arrayBuffer())) : null;
+  } catch (error) {
+    console.error(`Failed to load image for PDF: ${url}`, error);
+    return null;
+  }
+}
+
+/**
+ * Format marker dimensions in the display unit, e.g. "120 × 30 × 5 cm"
+ */
+export function formatMarkerDimensions(marker: POSMMarker, unit: DisplayUnit = getDisplayUnit()): string {
+  return marker.info.dimensions ? formatDimensions(marker.info.dimensions, unit) : '—';
+}
+
+/**
+ * Characters in the models' text that the PDF fonts cannot print
+ * The PDFs use the standard fonts, which print these without their accents.
+ * @param models - Models going into a guide or booklet
+ * @param extraText - Other text the PDF draws, e.g. category names
+ * @returns Distinct characters, empty when everything prints as entered
+ */
+export function findUnprintableCharacters(models: ProductModel[], extraText: string[] = []): string[] {
+  const texts = models.flatMap((model) => [
+    model.name,
+    model.code ?? '',
+    model.description ?? '',
+    ...model.views.flatMap((view) => [
+      view.name,
+      ...view.posmMarkers.flatMap(({ info }) => [info.name, info.description, info.materialType ?? '', info.notes ?? '']),
+    ]),
+  ]);
+  return findUnsupportedCharacters([...texts, ...extraText]);
+}
+
+/**
+ * Notice for the user when a downloaded PDF lost some accents
+ * @param characters - Result of findUnprintableCharacters
+ * @returns Message, or null when nothing was lost
+ */
+export function describeUnprintableCharacters(characters: string[]): string | null {
+  if (characters.length === 0) return null;
+  const shown = characters.slice(0, 10).join(' ');
+  const more = characters.length > 10 ? ` and ${characters.length - 10} more` : '';
+  return `The PDF fonts cannot print ${shown}${more}, so these are printed without accents (e.g. "Kệ" as "Ke").`;
+}
+
+export function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Fit a box inside a maximum size, keeping its aspect ratio
+ */
+function fitBox(width: number, height: number, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(maxWidth / width, maxHeight / height);
+  return { width: width * scale, height: height * scale };
+}
+
+function drawPlaceholder(doc: PdfDocument, x: number, y: number, width: number, height: number, label: string) {
+  doc.rect(x, y, width, height, 'both', { fill: '#f1f5f9', stroke: BORDER_COLOR, lineWidth: 0.5 });
+  doc.text(label, x + width / 2, y + height / 2 + 3, { size: 7, color: MUTED_COLOR, align: 'center' });
+}
+
+/**
+ * Draw a view image with a numbered badge on each marker
+ * @param doc - Document, on the page to draw on
+ * @param view - View whose image and markers to draw
+ * @param image - Loaded image, or null for a placeholder
+ * @param top - Top edge of the image
+ * @param maxHeight - Maximum image height in points
+ * @param firstNumber - Badge number of the view's first marker
+ * @returns Bottom edge of the image
+ */
+export function drawViewImage(
+  doc: PdfDocument,
+  view: ModelView,
+  image: PdfImage | null,
+  top: number,
+  maxHeight: number = IMAGE_MAX_HEIGHT,
+  firstNumber: number = 1
+): number {
+  const contentWidth = doc.pageWidth - MARGIN * 2;
+  const box = fitBox(
+    image?.width ?? view.image.width,
+    image?.height ?? view.image.height,
+    contentWidth,
+    maxHeight
+  );
+  const left = MARGIN + (contentWidth - box.width) / 2;
+
+  if (image) {
+    doc.image(image, left, top, box.width, box.height);
+    doc.rect(left, top, box.width, box.height, 'stroke', { stroke: BORDER_COLOR, lineWidth: 0.5 });
+  } else {
+    drawPlaceholder(doc, left, top, box.width, box.height, 'Model image unavailable');
+  }
+
+  // Region outlines first, so every badge stays on top
+  view.posmMarkers.forEach((marker) => {
+    if (!marker.shape) return;
+    const outline = (marker.shape.type === 'rect' ? getRectCorners(marker.shape) : marker.shape.points).map((point) => ({
+      x: left + (point.x / 100) * box.width,
+      y: top + (point.y / 100) * box.height,
+    }));
+    const stroke = marker.displayOptions?.iconColor ?? BADGE_COLOR;
+    outline.forEach((point, index) => {
+      const next = outline[(index + 1) % outline.length];
+      doc.line(point.x, point.y, next.x, next.y, { stroke, lineWidth: 1.5 });
+    });
+  });
+
+  view.posmMarkers.forEach((marker, index) => {
+    const cx = left + (marker.position.x / 100) * box.width;
+    const cy = top + (marker.position.y / 100) * box.height;
+    doc.circle(cx, cy, BADGE_RADIUS, 'both', {
+      fill: marker.displayOptions?.iconColor ?? BADGE_COLOR,
+      stroke: '#ffffff',
+      lineWidth: 1.5,
+    });
+    doc.text(String(firstNumber + index), cx, cy + 3, { font: 'bold', size: 8, color: '#ffffff', align: 'center' });
+  });
+
+  return top + box.height;
+}
+
+/**
+ * Draw the marker table header
+ * @returns Top of the first row
+ */
+function drawTableHeader(doc: PdfDocument, widths: number[], top: number): number {
+  const height = LINE_HEIGHT + CELL_PADDING * 2;
+  doc.rect(MARGIN, top, widths.reduce((sum, width) => sum + width, 0), height, 'fill', { fill: '#e2e8f0' });
+
+  let x = MARGIN;
+  COLUMNS.forEach((column, index) => {
+    doc.text(column.header, x + CELL_PADDING, top + CELL_PADDING + 8, { font: 'bold', size: TEXT_SIZE });
+    x += widths[index];
+  });
+  return top + height;
+}
+
+/**
+ * Draw a table of markers, continuing on new pages as needed
+ * @returns Bottom of the table
+ */
+async function drawMarkerTable(
+  doc: PdfDocument,
+  model: ProductModel,
+  markers: POSMMarker[],
+  firstNumber: number,
+  top: number,
+  pages: number[],
+  loadImage: PdfImageLoader
+): Promise<number> {
+  const bottom = doc.pageHeight - MARGIN - FOOTER_HEIGHT;
+  const contentWidth = doc.pageWidth - MARGIN * 2;
+  const fixedWidth = COLUMNS.reduce((sum, column) => sum + column.width, 0);
+  const widths = COLUMNS.map((column) => column.width || contentWidth - fixedWidth);
+  let y = drawTableHeader(doc, widths, top);
+
+  for (const [index, marker] of markers.entries()) {
+    const cells: Record<TextColumn, string[]> = {
+      name: doc.wrapText(marker.info.name, widths[2] - CELL_PADDING * 2, 'bold', TEXT_SIZE),
+      dimensions: doc.wrapText(formatMarkerDimensions(marker), widths[3] - CELL_PADDING * 2, 'regular', TEXT_SIZE),
+      material: doc.wrapText(marker.info.materialType || '—', widths[4] - CELL_PADDING * 2, 'regular', TEXT_SIZE),
+      notes: doc.wrapText(marker.info.notes || '—', widths[5] - CELL_PADDING * 2, 'regular', TEXT_SIZE),
+    };
+    const lines = Math.max(...Object.values(cells).map((cell) => cell.length));
+    const height = Math.max(lines * LINE_HEIGHT, marker.info.artworkUrl ? THUMBNAIL_HEIGHT : 0) + CELL_PADDING * 2;
+
+    // Continue the table on a new page when the row does not fit
+    if (y + height > bottom) {
+      pages.push(doc.addPage());
+      doc.text(`${model.name} (continued)`, MARGIN, MARGIN + 12, { font: 'bold', size: 11 });
+      y = drawTableHeader(doc, widths, MARGIN + 22);
+    }
+
+    doc.line(MARGIN, y + height, MARGIN + contentWidth, y + height, { stroke: BORDER_COLOR, lineWidth: 0.5 });
+
+    let x = MARGIN;
+    doc.circle(x + widths[0] / 2, y + CELL_PADDING + 6, 7, 'fill', {
+      fill: marker.displayOptions?.iconColor ?? BADGE_COLOR,
+    });
+    doc.text(String(firstNumber + index), x + widths[0] / 2, y + CELL_PADDING + 9, {
+      font: 'bold',
+      size: 7.5,
+      color: '#ffffff',
+      align: 'center',
+    });
+    x += widths[0];
+
+    if (marker.info.artworkUrl) {
+      const artwork = await loadImage(marker.info.artworkUrl);
+      if (artwork) {
+        const box = fitBox(artwork.width, artwork.height, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+        doc.image(artwork, x + CELL_PADDING, y + CELL_PADDING, box.width, box.height);
+      } else {
+        drawPlaceholder(doc, x + CELL_PADDING, y + CELL_PADDING, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, 'No preview');
+      }
+    } else {
+      doc.text('—', x + CELL_PADDING, y + CELL_PADDING + 8, { size: TEXT_SIZE, color: MUTED_COLOR });
+    }
+    x += widths[1];
+
+    (['name', 'dimensions', 'material', 'notes'] as const).forEach((key, column) => {
+      cells[key].forEach((line, lineIndex) => {
+        doc.text(line, x + CELL_PADDING, y + CELL_PADDING + 8 + lineIndex * LINE_HEIGHT, {
+          font: key === 'name' ? 'bold' : 'regular',
+          size: TEXT_SIZE,
+        });
+      });
+      x += widths[column + 2];
+    });
+
+    y += height;
+  }
+
+  return y;
+}
+
+/**
+ * Add one model's installation guide to a document
+ * @returns Zero-based indexes of the pages used
+ */
+async function addModelGuide(
+  doc: PdfDocument,
+  model: ProductModel,
+  loadImage: PdfImageLoader,
+  priceTable?: PriceTable
+): Promise<number[]> {
+  const pages = [doc.addPage()];
+
+  // Title
+  let y = MARGIN + 16;
+  doc.text(model.name, MARGIN, y, { font: 'bold', size: 16 });
+  y += 14;
+  const views = model.views.length > 1 ? ` · ${model.views.length} views` : '';
+  const cost = priceTable && estimateModelCost(model, priceTable);
+  const estimate = cost && cost.pricedMarkers > 0 ? ` · Estimated cost ${formatCost(cost.total, priceTable.currency)}` : '';
+  doc.text(`Installation guide · ${countModelMarkers(model)} POSM item(s)${views}${estimate}`, MARGIN, y, {
+    size: 9,
+    color: MUTED_COLOR,
+  });
+  y += 12;
+
+  // Markers are numbered through all views; each further view starts a new page
+  let firstNumber = 1;
+  for (const [viewIndex, view] of model.views.entries()) {
+    if (viewIndex > 0) {
+      pages.push(doc.addPage());
+      y = MARGIN;
+    }
+    if (model.views.length > 1) {
+      doc.text(`View ${viewIndex + 1}: ${view.name}`, MARGIN, y + 12, { font: 'bold', size: 11 });
+      y += 20;
+    }
+
+    y = drawViewImage(doc, view, await loadImage(view.image.url), y, IMAGE_MAX_HEIGHT, firstNumber) + 18;
+
+    if (view.posmMarkers.length === 0) {
+      const subject = model.views.length > 1 ? 'view' : 'model';
+      doc.text(`This ${subject} has no POSM markers.`, MARGIN, y + 10, { size: 10, color: MUTED_COLOR });
+      continue;
+    }
+
+    y = await drawMarkerTable(doc, model, view.posmMarkers, firstNumber, y, pages, loadImage);
+    firstNumber += view.posmMarkers.length;
+  }
+
+  return pages;
+}
+
+/**
+ * Add footers once a model's page count is known
+ */
+function addFooters(doc: PdfDocument, model: ProductModel, pages: number[]): void {
+  const top = doc.pageHeight - MARGIN - 8;
+  const details = [
+    model.code && `Code: ${model.code}`,
+    `Version: ${model.metadata.version}`,
+    `Updated: ${formatTimestamp(model.metadata.updatedAt)}`,
+  ].filter(Boolean).join('   ·   ');
+
+  pages.forEach((pageIndex, index) => {
+    doc.setPage(pageIndex);
+    doc.line(MARGIN, top - 12, doc.pageWidth - MARGIN, top - 12, { stroke: BORDER_COLOR, lineWidth: 0.5 });
+    doc.text(details, MARGIN, top, { size: 8, color: MUTED_COLOR });
+    doc.text(`Page ${index + 1} of ${pages.length}`, doc.pageWidth - MARGIN, top, {
+      size: 8,
+      color: MUTED_COLOR,
+      align: 'right',
+    });
+  });
+}
+
+/**
+ * Generate installation guides for one or more models
+ * Each model starts on a new page; images shared between models are embedded once.
+ * @param models - Models to include, in order
+ * @param loadImage - Loads images for embedding (defaults to loadPdfImage)
+ * @param priceTable - Adds each model's estimated cost under its title
+ * @returns PDF file bytes
+ * @throws Error if no models are given
+ */
+export async function generateInstallGuide(
+  models: ProductModel[],
+  loadImage: PdfImageLoader = loadPdfImage,
+  priceTable?: PriceTable
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (models.length === 0) {
+    throw new Error('Cannot create an installation guide without models');
+  }
+
+  const images = new Map<string, Promise<PdfImage | null>>();
+  const cachedLoad = (url: string) => {
+    if (!images.has(url)) images.set(url, loadImage(url));
+    return images.get(url)!;
+  };
+
+  const title =
+    models.length === 1 ? `Installation guide - ${models[0].name}` : `Installation guides (${models.length} models)`;
+  const doc = new PdfDocument(title);
+
+  for (const model of models) {
+    addFooters(doc, model, await addModelGuide(doc, model, cachedLoad, priceTable));
+  }
+
+  return doc.toBytes();
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, detectSchemaVersion, migrateCampaigns, migrateModel } from '@/services/migrationService';
+import { validateCampaigns } from '@/services/validationService';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+
+// Legacy export: pixel positions, info.title / info.material, no metadata
+const legacyModel = {
+  id: 'model-legacy',
+  name: 'Legacy Display',
+  code: 'LG-001',
+  description: 'Exported before percentage positions',
+  categoryIds: ['retail-fixtures'],
+  image: { url: '/images/models/legacy.webp', width: 2000, height: 1000, alt: 'Legacy', format: 'webp' },
+  posmMarkers: [
+    {
+      id: 'marker-001',
+      position: { x: 500, y: 250 },
+      info: {
+        title: 'Header Board',
+        description: 'Top header',
+        material: 'Foam board',
+        dimensions: { width: 120, height: 30, unit: 'CM' },
+      },
+    },
+  ],
+};
+
+describe('detectSchemaVersion', () => {
+  it('detects the version from the file structure', () => {
+    expect(detectSchemaVersion(legacyModel)).toBe(0);
+    expect(detectSchemaVersion(sampleModel)).toBe(2);
+    expect(detectSchemaVersion({ ...sampleModel, schemaVersion: 7 })).toBe(7);
+  });
+});
+
+describe('migrateModel', () => {
+  it('upgrades a legacy model to the current schema', () => {
+    const { model } = migrateModel(legacyModel);
+
+    expect(model.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(model).not.toHaveProperty('image');
+    expect(model).not.toHaveProperty('posmMarkers');
+    expect(model.metadata.version).toBe('1.0.0');
+    expect(model.views).toHaveLength(1);
+
+    const [view] = model.views;
+    expect(view).toMatchObject({ id: 'main', name: 'Main', image: legacyModel.image });
+    expect(view.posmMarkers[0]).toEqual({
+      id: 'marker-001',
+      position: { x: 25, y: 25 },
+      info: {
+        name: 'Header Board',
+        description: 'Top header',
+        materialType: 'Foam board',
+        dimensions: { width: 120, height: 30, unit: 'cm' },
+      },
+    });
+  });
+
+  it('reports every change it applied', () => {
+    const { report } = migrateModel(legacyModel);
+
+    expect(report).toMatchObject({ modelId: 'model-legacy', fromVersion: 0, toVersion: CURRENT_SCHEMA_VERSION });
+    expect(report.changes).toEqual([
+      'marker-001: position (500px, 250px) -> (25%, 25%)',
+      'marker-001: info.title -> info.name',
+      'marker-001: info.material -> info.materialType',
+      'metadata: added with version 1.0.0',
+      'image, posmMarkers: moved to views[0] ("Main")',
+      'marker-001: dimensions.unit "CM" -> "cm"',
+    ]);
+  });
+
+  it('leaves current models unchanged', () => {
+    const { model: migrated } = migrateModel(sampleModel);
+    const { model, report } = migrateModel(migrated);
+
+    expect(model).toEqual(migrated);
+    expect(report.fromVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(report.changes).toEqual([]);
+  });
+
+  it('rejects data it cannot migrate', () => {
+    expect(() => migrateModel(null)).toThrow('Model data must be an object');
+    expect(() => migrateModel({ ...sampleModel, schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(/newer than supported/);
+    expect(() => migrateModel({ ...legacyModel, image: { ...legacyModel.image, width: 0 } })).toThrow(
+      'Cannot convert pixel positions without image width and height'
+    );
+  });
+});
+
+describe('migrateCampaigns', () => {
+  const [marker] = migrateModel(sampleModel).model.views[0].posmMarkers;
+  const legacyCampaigns = [
+    {
+      id: 'tet',
+      name: 'Tet 2026',
+      startDate: '2026-01-20',
+      endDate: '2026-02-20',
+      models: [
+        {
+          modelId: 'model-001',
+          markers: [
+            {
+              ...marker,
+              id: 'tet-001',
+              info: { ...marker.info, dimensions: { width: 60, height: 40, unit: 'Centimeters' } },
+            },
+          ],
+          artworkOverrides: [],
+        },
+      ],
+    },
+  ];
+
+  it('normalises campaign marker units so the campaigns validate', () => {
+    expect(validateCampaigns(legacyCampaigns).valid).toBe(false);
+
+    const migrated = migrateCampaigns(legacyCampaigns);
+    const validation = validateCampaigns(migrated);
+
+    expect(validation.errors ?? []).toEqual([]);
+    expect(validation.data?.[0].models[0].markers[0].info.dimensions?.unit).toBe('cm');
+  });
+
+  it('passes malformed data through for validation to report', () => {
+    expect(migrateCampaigns({ campaigns: [] })).toEqual({ campaigns: [] });
+    expect(migrateCampaigns([null, { id: 'x', models: [{ markers: [42] }] }])).toEqual([
+      null,
+      { id: 'x', models: [{ markers: [42] }] },
+    ]);
+  });
+});
@@ -0,0 +1,301 @@
+import type { MigrationReport, ProductModel } from '@/types';
+import { pixelsToPercent } from '@/utils/coordinates';
+import { isLengthUnit, normalizeLengthUnit } from '@/utils/units';
+
+/**
+ * Schema versions of model data files
+ *
+ * 0 - Legacy export: marker positions in pixels, `info.title` / `info.material`
+ * 1 - Percentage positions and current marker info fields, no `metadata` block
+ * 2 - Single `image` and `posmMarkers` per model
+ * 3 - Ordered `views`, each with an image and markers; free-text dimension units
+ * 4 - Current `ProductModel` shape: dimension units limited to mm, cm, m, in and ft
+ */
+export const CURRENT_SCHEMA_VERSION = 4;
+
+// View created for single-image models
+const DEFAULT_VIEW = { id: 'main', name: 'Main' };
+
+type RawRecord = Record<string, unknown>;
+
+interface Migration {
+  from: number;
+  description: string;
+  migrate: (data: RawRecord, changes: string[]) => RawRecord;
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getMarkers(data: RawRecord): RawRecord[] {
+  return Array.isArray(data.posmMarkers) ? data.posmMarkers.filter(isRecord) : [];
+}
+
+function getViewMarkers(data: RawRecord): RawRecord[] {
+  return Array.isArray(data.views) ? data.views.filter(isRecord).flatMap(getMarkers) : [];
+}
+
+/**
+ * Dimension unit of a marker, if it has one
+ */
+function getDimensionUnit(marker: RawRecord): unknown {
+  const info = isRecord(marker.info) ? marker.info : {};
+  return isRecord(info.dimensions) ? info.dimensions.unit : undefined;
+}
+
+/**
+ * Round a percentage to two decimals so migrated files stay readable
+ */
+/**
+ * Normalise a marker's free-text dimension unit (schema 3 -> 4)
+ * Unknown units are left for validation to report.
+ */
+function normalizeMarkerUnit(marker: RawRecord, changes: string[] = []): RawRecord {
+  const unit = getDimensionUnit(marker);
+  const normalized = typeof unit === 'string' ? normalizeLengthUnit(unit) : null;
+  if (!normalized || normalized === unit) return marker;
+
+  const info = marker.info as RawRecord;
+  changes.push(`${marker.id}: dimensions.unit "${unit}" -> "${normalized}"`);
+  return { ...marker, info: { ...info, dimensions: { ...(info.dimensions as RawRecord), unit: normalized } } };
+}
+
+function roundPercent(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Ordered list of migration steps, each upgrading by exactly one version
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: 'Convert pixel positions to percentages and rename legacy info fields',
+    migrate: (data, changes) => {
+      const image = isRecord(data.image) ? data.image : {};
+      const width = typeof image.width === 'number' ? image.width : 0;
+      const height = typeof image.height === 'number' ? image.height : 0;
+
+      if (width <= 0 || height <= 0) {
+        throw new Error('Cannot convert pixel positions without image width and height');
+      }
+
+      const posmMarkers = getMarkers(data).map((marker) => {
+        const next: RawRecord = { ...marker };
+        const position = isRecord(marker.position) ? marker.position : null;
+
+        if (position && typeof position.x === 'number' && typeof position.y === 'number') {
+          next.position = {
+            x: roundPercent(pixelsToPercent(position.x, width)),
+            y: roundPercent(pixelsToPercent(position.y, height)),
+          };
+          changes.push(
+            `${marker.id}: position (${position.x}px, ${position.y}px) -> ` +
+              `(${(next.position as RawRecord).x}%, ${(next.position as RawRecord).y}%)`
+          );
+        }
+
+        if (isRecord(marker.info)) {
+          const { title, material, ...info } = marker.info;
+
+          if (title !== undefined && info.name === undefined) {
+            info.name = title;
+            changes.push(`${marker.id}: info.title -> info.name`);
+          }
+          if (material !== undefined && info.materialType === undefined) {
+            info.materialType = material;
+            changes.push(`${marker.id}: info.material -> info.materialType`);
+          }
+
+          next.info = info;
+        }
+
+        return next;
+      });
+
+      return { ...data, posmMarkers };
+    },
+  },
+  {
+    from: 1,
+    description: 'Add metadata block and default collections',
+    migrate: (data, changes) => {
+      const next: RawRecord = { ...data };
+
+      if (!Array.isArray(next.categoryIds)) {
+        next.categoryIds = [];
+        changes.push('categoryIds: defaulted to []');
+      }
+
+      if (!Array.isArray(next.posmMarkers)) {
+        next.posmMarkers = [];
+        changes.push('posmMarkers: defaulted to []');
+      }
+
+      if (!isRecord(next.metadata)) {
+        const now = new Date().toISOString();
+        next.metadata = {
+          createdAt: now,
+          updatedAt: now,
+          version: '1.0.0',
+        };
+        changes.push('metadata: added with version 1.0.0');
+      }
+
+      return next;
+    },
+  },
+  {
+    from: 2,
+    description: 'Move the model image and markers into a single view',
+    migrate: (data, changes) => {
+      const { image, posmMarkers, ...rest } = data;
+      changes.push(`image, posmMarkers: moved to views[0] ("${DEFAULT_VIEW.name}")`);
+      return {
+        ...rest,
+        views: [{ ...DEFAULT_VIEW, image, posmMarkers: Array.isArray(posmMarkers) ? posmMarkers : [] }],
+      };
+    },
+  },
+  {
+    from: 3,
+    description: 'Normalise dimension units (e.g. "CM", "inches") to mm, cm, m, in or ft',
+    migrate: (data, changes) => {
+      const views = Array.isArray(data.views) ? data.views : [];
+      return {
+        ...data,
+        views: views.map((view) => {
+          if (!isRecord(view)) return view;
+          return {
+            ...view,
+            posmMarkers: getMarkers(view).map((marker) => normalizeMarkerUnit(marker, changes)),
+          };
+        }),
+      };
+    },
+  },
+];
+
+/**
+ * Detect the schema version of a raw model file
+ * Files without an explicit `schemaVersion` are inspected structurally
+ * @param data - Parsed model JSON
+ * @returns Detected schema version
+ */
+export function detectSchemaVersion(data: unknown): number {
+  if (!isRecord(data)) {
+    return CURRENT_SCHEMA_VERSION;
+  }
+
+  if (typeof data.schemaVersion === 'number') {
+    return data.schemaVersion;
+  }
+
+  const isLegacy = getMarkers(data).some((marker) => {
+    const info = isRecord(marker.info) ? marker.info : {};
+    const position = isRecord(marker.position) ? marker.position : {};
+    const outOfRange = (value: unknown) => typeof value === 'number' && (value < 0 || value > 100);
+
+    return (
+      'title' in info ||
+      'material' in info ||
+      outOfRange(position.x) ||
+      outOfRange(position.y)
+    );
+  });
+
+  if (isLegacy) {
+    return 0;
+  }
+
+  if (!isRecord(data.metadata)) {
+    return 1;
+  }
+
+  if (!Array.isArray(data.views)) {
+    return 2;
+  }
+
+  const hasFreeTextUnit = getViewMarkers(data).some((marker) => {
+    const unit = getDimensionUnit(marker);
+    return unit !== undefined && !isLengthUnit(unit);
+  });
+
+  if (hasFreeTextUnit) {
+    return 3;
+  }
+
+  return CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a raw model file to the current schema, one version at a time
+ * @param data - Parsed model JSON
+ * @returns Migrated model and a report of applied changes
+ * @throws Error if the file is newer than this build or a step cannot run
+ */
+export function migrateModel(data: unknown): { model: ProductModel; report: MigrationReport } {
+  if (!isRecord(data)) {
+    throw new Error('Model data must be an object');
+  }
+
+  const fromVersion = detectSchemaVersion(data);
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Model schema version ${fromVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  const changes: string[] = [];
+  let current = data;
+
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS.find((migration) => migration.from === version);
+
+    if (!step) {
+      throw new Error(`No migration registered from schema version ${version}`);
+    }
+
+    current = step.migrate(current, changes);
+  }
+
+  current = { ...current, schemaVersion: CURRENT_SCHEMA_VERSION };
+
+  return {
+    model: current as unknown as ProductModel,
+    report: {
+      modelId: typeof data.id === 'string' ? data.id : 'unknown',
+      fromVersion,
+      toVersion: CURRENT_SCHEMA_VERSION,
+      changes,
+    },
+  };
+}
+
+/**
+ * Upgrade a raw campaign list to the current marker format
+ * Campaign files carry no schema version; campaign-added markers get the same
+ * dimension unit normalisation as model markers. Anything malformed is passed
+ * through for validation to report.
+ * @param data - Parsed campaigns JSON
+ * @returns Campaign list with normalised marker units
+ */
+export function migrateCampaigns(data: unknown): unknown {
+  if (!Array.isArray(data)) return data;
+
+  return data.map((campaign) => {
+    if (!isRecord(campaign) || !Array.isArray(campaign.models)) return campaign;
+    return {
+      ...campaign,
+      models: campaign.models.map((entry) => {
+        if (!isRecord(entry) || !Array.isArray(entry.markers)) return entry;
+        return {
+          ...entry,
+          markers: entry.markers.map((marker) => (isRecord(marker) ? normalizeMarkerUnit(marker) : marker)),
+        };
+      }),
+    };
+  });
+}
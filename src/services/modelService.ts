@@ -1,11 +1,26 @@
 import type {
   CatalogueIndex,
+  Category,
   ProductModel,
   ModelSummary,
   ExportData,
+  ExportSelection,
+  MigrationReport,
+  PriceTable,
+  SearchResult,
   ValidationResult,
 } from '@/types';
 import { cache } from '@/utils/cache';
+import { createExportData, filterUsedCategories } from '@/utils/jsonExport';
+import { buildSearchIndex, searchIndex, type SearchIndex } from '@/utils/search';
+import { evaluateSearchQuery, parseSearchQuery } from '@/utils/searchQuery';
+import { getDataSource, getPublishTarget } from '@/services/dataSource';
+import { migrateModel } from '@/services/migrationService';
+import {
+  formatValidationErrors,
+  validateCatalogueIndex,
+  validateProductModel,
+} from '@/services/validationService';
 
 // Cache TTL constants (in milliseconds)
 const CATALOGUE_INDEX_TTL = 5 * 60 * 1000; // 5 minutes
@@ -26,19 +41,16 @@ export async function loadCatalogueIndex(): Promise<CatalogueIndex> {
   }
 
   try {
-    const response = await fetch('/data/models.json');
+    const raw = await getDataSource().getCatalogueIndex();
+    const validation = validateCatalogueIndex(raw);
 
-    if (!response.ok) {
-      throw new Error(`Failed to load catalogue index: ${response.statusText}`);
-    }
-
-    const data: CatalogueIndex = await response.json();
-
-    // Validate basic structure
-    if (!data.version || !data.models || !Array.isArray(data.models)) {
+    if (!validation.valid || !validation.data) {
+      console.error('Catalogue index failed validation:', formatValidationErrors(validation.errors ?? []));
       throw new Error('Invalid catalogue data format');
     }
 
+    const data = validation.data;
+
     // Cache the result
     cache.set(cacheKey, data, CATALOGUE_INDEX_TTL);
 
@@ -49,6 +61,21 @@ export async function loadCatalogueIndex(): Promise<CatalogueIndex> {
   }
 }
 
+/**
+ * IDs of every category in the registry, for checking model category references
+ * Uses the full registry rather than the index, which only lists categories in use.
+ */
+async function loadCategoryIds(): Promise<ReadonlySet<string>> {
+  const cached = cache.get<ReadonlySet<string>>('category-ids');
+  if (cached) {
+    return cached;
+  }
+
+  const categoryIds = new Set((await getDataSource().getCategories()).map((category) => category.id));
+  cache.set('category-ids', categoryIds, CATALOGUE_INDEX_TTL);
+  return categoryIds;
+}
+
 /**
  * Load a specific model by ID
  * @param modelId - Unique model identifier
@@ -65,24 +92,31 @@ export async function loadModel(modelId: string): Promise<ProductModel> {
   }
 
   try {
-    const response = await fetch(`/data/models/${modelId}.json`);
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(`Model not found: ${modelId}`);
-      }
-      throw new Error(`Failed to load model: ${response.statusText}`);
+    // Use the index entry (when loaded) so the source can honour its dataUrl
+    const summary = cache
+      .get<CatalogueIndex>('catalogue-index')
+      ?.models.find((entry) => entry.id === modelId);
+    const [raw, categoryIds] = await Promise.all([getDataSource().getModel(modelId, summary), loadCategoryIds()]);
+
+    // Upgrade older model files to the current schema
+    const { model: data, report } = migrateModel(raw);
+
+    if (report.changes.length > 0) {
+      console.info(
+        `Migrated model ${modelId} from schema v${report.fromVersion} to v${report.toVersion}:`,
+        report.changes
+      );
     }
 
-    const data: ProductModel = await response.json();
-
-    // Validate model has required fields
-    if (!data.id || !data.name || !data.image) {
+    const validation = validateModel(data, categoryIds);
+    if (!validation.valid) {
+      console.error(`Model ${modelId} failed validation:`, formatValidationErrors(validation.errors ?? []));
       throw new Error('Invalid model data format');
     }
 
     // Cache the result
     cache.set(cacheKey, data, MODEL_DATA_TTL);
+    cache.set(`migration-${modelId}`, report, MODEL_DATA_TTL);
 
     return data;
   } catch (error) {
@@ -91,6 +125,72 @@ export async function loadModel(modelId: string): Promise<ProductModel> {
   }
 }
 
+/**
+ * Save a model through the active data source
+ * @param model - Complete model data
+ * @throws Error if the model is invalid or the data source is read-only
+ */
+export async function saveModel(model: ProductModel): Promise<void> {
+  const validation = validateModel(model);
+  if (!validation.valid) {
+    throw new Error(`Invalid model data: ${formatValidationErrors(validation.errors ?? []).join('; ')}`);
+  }
+
+  const source = getDataSource();
+  if (!source.writable) {
+    throw new Error(`The ${source.kind} data source is read-only`);
+  }
+
+  await source.saveModel(model);
+
+  // Invalidate cached copies so the next load sees the saved data
+  cache.remove(`model-${model.id}`);
+  cache.remove('catalogue-index');
+}
+
+/**
+ * Publish a model to the catalogue server so the change ships with the next build
+ * @param model - Complete model data
+ * @throws Error if the model is invalid or the server rejects it
+ */
+export async function publishModel(model: ProductModel): Promise<void> {
+  const validation = validateModel(model);
+  if (!validation.valid) {
+    throw new Error(`Invalid model data: ${formatValidationErrors(validation.errors ?? []).join('; ')}`);
+  }
+
+  await getPublishTarget().saveModel(model);
+
+  cache.remove(`model-${model.id}`);
+  cache.remove('catalogue-index');
+}
+
+/**
+ * Delete a model through the active data source
+ * @param modelId - Unique model identifier
+ * @throws Error if the data source is read-only
+ */
+export async function deleteModel(modelId: string): Promise<void> {
+  const source = getDataSource();
+  if (!source.writable) {
+    throw new Error(`The ${source.kind} data source is read-only`);
+  }
+
+  await source.deleteModel(modelId);
+
+  cache.remove(`model-${modelId}`);
+  cache.remove('catalogue-index');
+}
+
+/**
+ * Get the schema migration report from the last load of a model
+ * @param modelId - Unique model identifier
+ * @returns Migration report, or null if the model has not been loaded
+ */
+export function getMigrationReport(modelId: string): MigrationReport | null {
+  return cache.get<MigrationReport>(`migration-${modelId}`);
+}
+
 /**
  * Load multiple models by IDs
  * @param modelIds - Array of model identifiers
@@ -102,28 +202,50 @@ export async function loadModels(modelIds: string[]): Promise<ProductModel[]> {
   return Promise.all(promises);
 }
 
+// Search indexes per loaded catalogue; a reloaded catalogue is a new object and gets a new index
+const searchIndexes = new WeakMap<CatalogueIndex, SearchIndex>();
+
+/**
+ * Search the catalogue with ranked, typo-tolerant matching
+ * Free text covers model name, code, description and categories, and the
+ * name, description, material and notes of POSM items in any view. Accents are
+ * ignored, so "ke" matches "kệ". The query language (field:value filters,
+ * AND/OR/NOT, quoted phrases) is described in parseSearchQuery; while a query
+ * has a syntax error it is searched as plain text.
+ * @param query - Text typed by the user
+ * @param catalogue - Catalogue index to search
+ * @param models - Loaded models by ID, for fields the index does not hold (view, author, updated)
+ * @returns Matching models with their score and highlights, best first
+ */
+export function searchCatalogue(
+  query: string,
+  catalogue: CatalogueIndex,
+  models?: ReadonlyMap<string, ProductModel>
+): SearchResult[] {
+  let index = searchIndexes.get(catalogue);
+  if (!index) {
+    index = buildSearchIndex(catalogue);
+    searchIndexes.set(catalogue, index);
+  }
+
+  const parsed = parseSearchQuery(query);
+  if (!parsed.query) {
+    return searchIndex(index, parsed.error ? query : '');
+  }
+  return evaluateSearchQuery(parsed.query, index, catalogue, models);
+}
+
 /**
  * Search models by text query
- * @param query - Search term (case-insensitive)
+ * @param query - Search term
  * @param catalogue - Catalogue index to search
- * @returns Filtered array of model summaries
+ * @returns Matching model summaries, best match first; all models for an empty query
  */
 export function searchModels(
   query: string,
   catalogue: CatalogueIndex
 ): ModelSummary[] {
-  if (!query || query.trim() === '') {
-    return catalogue.models;
-  }
-
-  const searchTerm = query.toLowerCase().trim();
-
-  return catalogue.models.filter((model) => {
-    const nameMatch = model.name.toLowerCase().includes(searchTerm);
-    const codeMatch = model.code?.toLowerCase().includes(searchTerm) || false;
-
-    return nameMatch || codeMatch;
-  });
+  return searchCatalogue(query, catalogue).map((result) => result.model);
 }
 
 /**
@@ -149,111 +271,72 @@ export function filterModelsByCategory(
 /**
  * Validate model data against schema
  * @param model - Model data to validate
+ * @param categoryIds - Known category IDs; category references are only checked when provided
  * @returns Validation result with errors if invalid
  */
-export function validateModel(model: unknown): ValidationResult<ProductModel> {
-  const errors: Array<{ field: string; message: string; value?: unknown }> = [];
-
-  if (typeof model !== 'object' || model === null) {
-    return { valid: false, errors: [{ field: 'model', message: 'Model must be an object' }] };
-  }
-
-  const m = model as any;
-
-  // Required fields
-  if (!m.id || typeof m.id !== 'string') {
-    errors.push({ field: 'id', message: 'ID is required and must be a string', value: m.id });
-  }
-
-  if (!m.name || typeof m.name !== 'string') {
-    errors.push({ field: 'name', message: 'Name is required and must be a string', value: m.name });
-  }
+export function validateModel(
+  model: unknown,
+  categoryIds?: ReadonlySet<string>
+): ValidationResult<ProductModel> {
+  return validateProductModel(model, categoryIds);
+}
 
-  // Validate image
-  if (!m.image || typeof m.image !== 'object') {
-    errors.push({ field: 'image', message: 'Image is required' });
-  } else {
-    if (!m.image.url) errors.push({ field: 'image.url', message: 'Image URL is required' });
-    if (typeof m.image.width !== 'number' || m.image.width <= 0) {
-      errors.push({ field: 'image.width', message: 'Image width must be a positive number' });
+/**
+ * Resolve which catalogue models an export selection covers
+ * @param selection - Export selection
+ * @param catalogue - Catalogue index
+ * @returns Selected model summaries, in catalogue order
+ */
+export function selectModelsForExport(
+  selection: ExportSelection,
+  catalogue: CatalogueIndex
+): ModelSummary[] {
+  switch (selection.mode) {
+    case 'models': {
+      const modelIds = new Set(selection.modelIds ?? []);
+      return catalogue.models.filter((model) => modelIds.has(model.id));
     }
-    if (typeof m.image.height !== 'number' || m.image.height <= 0) {
-      errors.push({ field: 'image.height', message: 'Image height must be a positive number' });
+    case 'categories':
+      // An empty category list selects nothing rather than everything
+      return selection.categoryIds?.length ? filterModelsByCategory(selection.categoryIds, catalogue) : [];
+    case 'search': {
+      const matched = new Set(searchModels(selection.query ?? '', catalogue).map((model) => model.id));
+      return catalogue.models.filter((model) => matched.has(model.id));
     }
+    case 'all':
+    default:
+      return catalogue.models;
   }
-
-  // Validate POSM markers
-  if (!Array.isArray(m.posmMarkers)) {
-    errors.push({ field: 'posmMarkers', message: 'POSM markers must be an array' });
-  } else {
-    m.posmMarkers.forEach((marker: any, index: number) => {
-      if (!marker.position || typeof marker.position.x !== 'number' || typeof marker.position.y !== 'number') {
-        errors.push({ field: `posmMarkers[${index}].position`, message: 'Invalid position coordinates' });
-      }
-      if (marker.position.x < 0 || marker.position.x > 100) {
-        errors.push({
-          field: `posmMarkers[${index}].position.x`,
-          message: 'X coordinate must be between 0 and 100',
-          value: marker.position.x,
-        });
-      }
-      if (marker.position.y < 0 || marker.position.y > 100) {
-        errors.push({
-          field: `posmMarkers[${index}].position.y`,
-          message: 'Y coordinate must be between 0 and 100',
-          value: marker.position.y,
-        });
-      }
-    });
-  }
-
-  if (errors.length > 0) {
-    return { valid: false, errors };
-  }
-
-  return { valid: true, data: m as ProductModel };
 }
 
 /**
  * Export model data as JSON file
  * @param models - Array of models to export
  * @param exportType - 'full' or 'selective'
+ * @param categories - Category registry; only categories the models use are exported
+ * @param selection - How the models were chosen, recorded in the metadata
+ * @param priceTable - Price table for the estimated costs in the metadata
  * @returns ExportData object ready for download
  */
 export function exportModels(
   models: ProductModel[],
-  exportType: 'full' | 'selective'
+  exportType: 'full' | 'selective',
+  categories: Category[],
+  selection?: ExportSelection,
+  priceTable?: PriceTable
 ): ExportData {
   if (!models || models.length === 0) {
     throw new Error('Cannot export empty model list');
   }
 
-  // Collect unique categories
-  const categoryIds = new Set<string>();
-  models.forEach((model) => {
-    model.categoryIds.forEach((catId) => categoryIds.add(catId));
-  });
-
-  // For now, we'll need to get categories from somewhere - in practice,
-  // this would come from the catalogue index
-  const categories: any[] = []; // TODO: Get from catalogue
-
-  // Calculate total markers
-  const totalMarkers = models.reduce((sum, model) => sum + model.posmMarkers.length, 0);
-
-  const exportData: ExportData = {
-    exportedAt: new Date().toISOString(),
-    exportType,
-    version: '1.0.0',
+  return createExportData(
     models,
-    categories,
-    metadata: {
-      totalModels: models.length,
-      totalMarkers,
-    },
-  };
-
-  return exportData;
+    filterUsedCategories(models, categories),
+    exportType,
+    undefined,
+    selection,
+    priceTable
+  );
 }
 
 /**
@@ -262,9 +345,18 @@ export function exportModels(
  * @param filename - Name for downloaded file
  */
 export function downloadJSON(data: object, filename: string): void {
+  downloadFile(JSON.stringify(data, null, 2), filename, 'application/json');
+}
+
+/**
+ * Download content as a file
+ * @param content - File content
+ * @param filename - Name for downloaded file
+ * @param mimeType - MIME type of the content
+ */
+export function downloadFile(content: BlobPart, filename: string, mimeType: string): void {
   try {
-    const jsonString = JSON.stringify(data, null, 2);
-    const blob = new Blob([jsonString], { type: 'application/json' });
+    const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
 
     const link = document.createElement('a');
@@ -277,7 +369,7 @@ export function downloadJSON(data: object, filename: string): void {
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   } catch (error) {
-    console.error('Error downloading JSON:', error);
-    throw new Error('Failed to download JSON file');
+    console.error(`Error downloading ${filename}:`, error);
+    throw new Error(`Failed to download ${filename}`);
   }
 }
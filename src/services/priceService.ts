@@ -0,0 +1,55 @@
+import type { PriceTable } from '@/types';
+import { cache } from '@/utils/cache';
+import { EMPTY_PRICE_TABLE } from '@/utils/costs';
+import { getDataSource, getWritableDataSource } from '@/services/dataSource';
+import { formatValidationErrors, validatePriceTable } from '@/services/validationService';
+
+const PRICES_CACHE_KEY = 'prices';
+const PRICES_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Load the material price table from the active data source
+ * @returns Promise resolving to the price table (empty if the catalogue has none)
+ * @throws Error if the price table cannot be loaded or is invalid
+ */
+export async function loadPriceTable(): Promise<PriceTable> {
+  const cached = cache.get<PriceTable>(PRICES_CACHE_KEY);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const raw = await getDataSource().getPriceTable();
+    if (raw === null) {
+      return EMPTY_PRICE_TABLE;
+    }
+
+    const validation = validatePriceTable(raw);
+    if (!validation.valid || !validation.data) {
+      console.error('Price table failed validation:', formatValidationErrors(validation.errors ?? []));
+      throw new Error('Invalid price table format');
+    }
+
+    cache.set(PRICES_CACHE_KEY, validation.data, PRICES_TTL);
+    return validation.data;
+  } catch (error) {
+    console.error('Error loading price table:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the material price table
+ * Writes to the active data source when it is writable, otherwise to the catalogue server.
+ * @param table - Complete price table
+ * @throws Error if the price table is invalid or the write fails
+ */
+export async function savePriceTable(table: PriceTable): Promise<void> {
+  const validation = validatePriceTable(table);
+  if (!validation.valid) {
+    throw new Error(`Invalid price table: ${formatValidationErrors(validation.errors ?? []).join('; ')}`);
+  }
+
+  await getWritableDataSource().savePriceTable(table);
+  cache.remove(PRICES_CACHE_KEY);
+}
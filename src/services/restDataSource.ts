@@ -0,0 +1,177 @@
+import type {
+  Campaign,
+  CatalogueDataSource,
+  Category,
+  ModelRevision,
+  ModelRevisionSummary,
+  PriceTable,
+  ProductModel,
+  Store,
+} from '@/types';
+
+/**
+ * Data source backed by the catalogue REST API (see server/)
+ *
+ * Endpoints used:
+ *   GET    /catalogue       - catalogue index
+ *   GET    /models/:id      - model data
+ *   PUT    /models/:id      - create or replace a model
+ *   DELETE /models/:id      - remove a model
+ *   GET    /categories      - category registry
+ *   PUT    /categories      - replace the category registry
+ *   GET    /campaigns       - campaign list
+ *   PUT    /campaigns       - replace the campaign list
+ *   GET    /stores          - store list with model assignments
+ *   PUT    /stores          - replace the store list
+ *   GET    /prices          - material price table (null when there is none)
+ *   PUT    /prices          - replace the price table
+ *   GET    /models/:id/revisions                     - revision history
+ *   GET    /models/:id/revisions/:revision           - revision snapshot
+ *   POST   /models/:id/revisions/:revision/rollback  - restore a revision
+ *   PUT    /assets/:path   - store an image file
+ */
+export class RestDataSource implements CatalogueDataSource {
+  readonly kind = 'rest' as const;
+  readonly writable = true;
+  private apiUrl: string;
+
+  /**
+   * @param apiUrl - API root, e.g. http://localhost:4000/api
+   */
+  constructor(apiUrl: string) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+  }
+
+  private async request(path: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      ...init,
+      headers: {
+        Accept: 'application/json',
+        ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+        ...init?.headers,
+      },
+    });
+
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const body = await response.json();
+        if (body && typeof body.error === 'string') {
+          message = body.error;
+        }
+      } catch {
+        // Non-JSON error body
+      }
+      throw new Error(`API request failed (${response.status}): ${message}`);
+    }
+
+    return response;
+  }
+
+  async getCatalogueIndex(): Promise<unknown> {
+    const response = await this.request('/catalogue');
+    return response.json();
+  }
+
+  async getModel(modelId: string): Promise<unknown> {
+    try {
+      const response = await this.request(`/models/${encodeURIComponent(modelId)}`);
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('(404)')) {
+        throw new Error(`Model not found: ${modelId}`);
+      }
+      throw error;
+    }
+  }
+
+  async saveModel(model: ProductModel): Promise<void> {
+    await this.request(`/models/${encodeURIComponent(model.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(model),
+    });
+  }
+
+  async deleteModel(modelId: string): Promise<void> {
+    await this.request(`/models/${encodeURIComponent(modelId)}`, { method: 'DELETE' });
+  }
+
+  async getCategories(): Promise<Category[]> {
+    const response = await this.request('/categories');
+    return response.json();
+  }
+
+  async saveCategories(categories: Category[]): Promise<void> {
+    await this.request('/categories', {
+      method: 'PUT',
+      body: JSON.stringify(categories),
+    });
+  }
+
+  async getCampaigns(): Promise<unknown> {
+    const response = await this.request('/campaigns');
+    return response.json();
+  }
+
+  async saveCampaigns(campaigns: Campaign[]): Promise<void> {
+    await this.request('/campaigns', {
+      method: 'PUT',
+      body: JSON.stringify(campaigns),
+    });
+  }
+
+  async getStores(): Promise<unknown> {
+    const response = await this.request('/stores');
+    return response.json();
+  }
+
+  async saveStores(stores: Store[]): Promise<void> {
+    await this.request('/stores', {
+      method: 'PUT',
+      body: JSON.stringify(stores),
+    });
+  }
+
+  async getPriceTable(): Promise<unknown> {
+    const response = await this.request('/prices');
+    return response.json();
+  }
+
+  async savePriceTable(table: PriceTable): Promise<void> {
+    await this.request('/prices', {
+      method: 'PUT',
+      body: JSON.stringify(table),
+    });
+  }
+
+  async saveAsset(path: string, data: Uint8Array, contentType: string): Promise<string> {
+    const response = await this.request(`/assets/${path.split('/').map(encodeURIComponent).join('/')}`, {
+      method: 'PUT',
+      body: new Blob([data as Uint8Array<ArrayBuffer>], { type: contentType }),
+      headers: { 'Content-Type': contentType },
+    });
+    const { url } = (await response.json()) as { url: string };
+    return url;
+  }
+
+  async listRevisions(modelId: string): Promise<ModelRevisionSummary[]> {
+    const response = await this.request(`/models/${encodeURIComponent(modelId)}/revisions`);
+    return response.json();
+  }
+
+  async getRevision(modelId: string, revision: number): Promise<ModelRevision> {
+    const response = await this.request(`/models/${encodeURIComponent(modelId)}/revisions/${revision}`);
+    return response.json();
+  }
+
+  async rollback(modelId: string, revision: number, author?: string): Promise<ProductModel> {
+    const response = await this.request(
+      `/models/${encodeURIComponent(modelId)}/revisions/${revision}/rollback`,
+      {
+        method: 'POST',
+        headers: author ? { 'X-POSM-Author': author } : undefined,
+      }
+    );
+    return response.json();
+  }
+}
@@ -0,0 +1,78 @@
+import type { MarkerChange, ModelRevision, ModelRevisionSummary, ProductModel } from '@/types';
+import { cache } from '@/utils/cache';
+import { diffMarkers } from '@/utils/modelDiff';
+import { getModelMarkers } from '@/utils/modelViews';
+import { getPublishTarget } from '@/services/dataSource';
+
+/**
+ * List a model's published revisions, oldest first
+ * @param modelId - Unique model identifier
+ * @returns Promise resolving to revision summaries
+ * @throws Error if the catalogue server is unavailable
+ */
+export async function listRevisions(modelId: string): Promise<ModelRevisionSummary[]> {
+  try {
+    return await getPublishTarget().listRevisions(modelId);
+  } catch (error) {
+    console.error(`Error loading revisions for ${modelId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Load a revision snapshot
+ * Revisions are immutable, so snapshots are cached without expiry.
+ * @param modelId - Unique model identifier
+ * @param revision - Revision number
+ * @returns Promise resolving to the revision
+ */
+export async function getRevision(modelId: string, revision: number): Promise<ModelRevision> {
+  const cacheKey = `revision-${modelId}-${revision}`;
+  const cached = cache.get<ModelRevision>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const data = await getPublishTarget().getRevision(modelId, revision);
+  cache.set(cacheKey, data);
+  return data;
+}
+
+/**
+ * Compare the markers of two revisions
+ * @param modelId - Unique model identifier
+ * @param fromRevision - Older revision number
+ * @param toRevision - Newer revision number
+ * @returns Promise resolving to marker-level changes
+ */
+export async function compareRevisions(
+  modelId: string,
+  fromRevision: number,
+  toRevision: number
+): Promise<MarkerChange[]> {
+  const [from, to] = await Promise.all([
+    getRevision(modelId, fromRevision),
+    getRevision(modelId, toRevision),
+  ]);
+  return diffMarkers(getModelMarkers(from.model), getModelMarkers(to.model));
+}
+
+/**
+ * Restore a model to an earlier revision
+ * The server records the rollback as a new revision.
+ * @param modelId - Unique model identifier
+ * @param revision - Revision number to restore
+ * @param author - Who is rolling back
+ * @returns Promise resolving to the restored model
+ */
+export async function rollbackToRevision(
+  modelId: string,
+  revision: number,
+  author?: string
+): Promise<ProductModel> {
+  const model = await getPublishTarget().rollback(modelId, revision, author);
+
+  cache.remove(`model-${modelId}`);
+  cache.remove('catalogue-index');
+  return model;
+}
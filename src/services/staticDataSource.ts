@@ -0,0 +1,123 @@
+import type { CatalogueDataSource, Category, ModelSummary } from '@/types';
+
+/**
+ * Read-only data source for the JSON files under public/data
+ * Files can be served from the app origin or from a CDN via `baseUrl`.
+ */
+export class StaticDataSource implements CatalogueDataSource {
+  readonly kind = 'static' as const;
+  readonly writable = false;
+  private baseUrl: string;
+
+  /**
+   * @param baseUrl - Origin or path prefix the data files are served from (e.g. a CDN URL)
+   */
+  constructor(baseUrl: string = '') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Resolve a data path against the configured base URL
+   * Absolute URLs (e.g. a `dataUrl` already pointing at a CDN) are used as-is
+   * @param path - Absolute URL or root-relative path
+   * @returns URL to fetch
+   */
+  resolveUrl(path: string): string {
+    if (/^https?:\/\//i.test(path)) {
+      return path;
+    }
+    return `${this.baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+
+  async getCatalogueIndex(): Promise<unknown> {
+    const response = await fetch(this.resolveUrl('/data/models.json'));
+
+    if (!response.ok) {
+      throw new Error(`Failed to load catalogue index: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async getModel(modelId: string, summary?: ModelSummary): Promise<unknown> {
+    const path = summary?.dataUrl || `/data/models/${modelId}.json`;
+    const response = await fetch(this.resolveUrl(path));
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new Error(`Model not found: ${modelId}`);
+      }
+      throw new Error(`Failed to load model: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async getCategories(): Promise<Category[]> {
+    const response = await fetch(this.resolveUrl('/data/categories.json'));
+
+    if (!response.ok) {
+      throw new Error(`Failed to load categories: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Fetch a data file the catalogue may not have
+   * Campaigns, stores and prices are optional; a catalogue without the file
+   * simply has none, so a 404 yields the fallback instead of an error.
+   */
+  private async fetchOptional(path: string, label: string, fallback: unknown): Promise<unknown> {
+    const response = await fetch(this.resolveUrl(path));
+
+    if (response.status === 404) {
+      return fallback;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to load ${label}: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async getCampaigns(): Promise<unknown> {
+    return this.fetchOptional('/data/campaigns.json', 'campaigns', []);
+  }
+
+  async getStores(): Promise<unknown> {
+    return this.fetchOptional('/data/stores.json', 'stores', []);
+  }
+
+  async getPriceTable(): Promise<unknown> {
+    return this.fetchOptional('/data/prices.json', 'price table', null);
+  }
+
+  async saveModel(): Promise<void> {
+    throw new Error('Static JSON data source is read-only');
+  }
+
+  async deleteModel(): Promise<void> {
+    throw new Error('Static JSON data source is read-only');
+  }
+
+  async saveCategories(): Promise<void> {
+    throw new Error('Static JSON data source is read-only');
+  }
+
+  async saveCampaigns(): Promise<void> {
+    throw new Error('Static JSON data source is read-only');
+  }
+
+  async saveStores(): Promise<void> {
+    throw new Error('Static JSON data source is read-only');
+  }
+
+  async savePriceTable(): Promise<void> {
+    throw new Error('Static JSON data source is read-only');
+  }
+
+  async saveAsset(): Promise<string> {
+    throw new Error('Static JSON data source is read-only');
+  }
+}
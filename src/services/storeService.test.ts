@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { Store } from '@/types';
+import { importStoreCsv } from '@/services/storeService';
+
+const existing: Store[] = [
+  {
+    code: 'HN-001',
+    name: 'Mart Hoan Kiem',
+    region: 'North',
+    channel: 'Modern trade',
+    address: '1 Trang Tien',
+    models: [{ modelId: 'model-001', quantity: 2 }],
+  },
+  { code: 'HN-002', name: 'Mart Ba Dinh', region: 'North', channel: 'Modern trade', models: [] },
+];
+
+describe('importStoreCsv', () => {
+  it('adds new stores and updates existing ones, keeping their assignments', () => {
+    const csv = [
+      'Channel;Store Code;REGION;Store_Name',
+      'Traditional trade;HN-001;North;Mart Hoan Kiem',
+      'Modern trade;HN-002;North;Mart Ba Dinh',
+      'Modern trade;HCM-001;Ho Chi Minh City;"Aeon; Tan Phu"',
+    ].join('\n');
+
+    const result = importStoreCsv(csv, existing);
+
+    expect(result.added).toEqual(['HCM-001']);
+    expect(result.updated).toEqual(['HN-001']);
+    expect(result.errors).toEqual([]);
+    expect(result.stores.map((store) => store.code)).toEqual(['HN-001', 'HN-002', 'HCM-001']);
+    expect(result.stores[0]).toEqual({ ...existing[0], channel: 'Traditional trade' });
+    expect(result.stores[2]).toEqual({
+      code: 'HCM-001',
+      name: 'Aeon; Tan Phu',
+      region: 'Ho Chi Minh City',
+      channel: 'Modern trade',
+      models: [],
+    });
+  });
+
+  it('clears addresses when the file has an empty Address column', () => {
+    const result = importStoreCsv('code,name,region,channel,address\nHN-001,Mart Hoan Kiem,North,Modern trade,', existing);
+
+    expect(result.stores[0]).not.toHaveProperty('address');
+    expect(result.updated).toEqual(['HN-001']);
+  });
+
+  it('reports and skips invalid and duplicate rows', () => {
+    const csv = 'code,name,region,channel\nHCM-001,Aeon,South,MT\n,No code,South,MT\nHCM-001,Again,South,MT';
+
+    const result = importStoreCsv(csv, []);
+
+    expect(result.added).toEqual(['HCM-001']);
+    expect(result.stores[0].name).toBe('Aeon');
+    expect(result.errors.map((error) => error.field)).toEqual(['row 3.code', 'row 4.code']);
+    expect(result.errors[1].message).toBe('duplicate code in file');
+  });
+
+  it('rejects files without the required columns', () => {
+    expect(() => importStoreCsv('code,name\nHN-001,Mart', existing)).toThrow(
+      'The CSV file is missing column(s): region, channel'
+    );
+    expect(() => importStoreCsv('', existing)).toThrow('The CSV file is empty');
+  });
+});
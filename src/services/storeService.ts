@@ -0,0 +1,148 @@
+import type { Store, StoreCsvImport, ValidationError } from '@/types';
+import { cache } from '@/utils/cache';
+import { detectCsvDelimiter, parseCsv } from '@/utils/csv';
+import { getDataSource, getWritableDataSource } from '@/services/dataSource';
+import { formatValidationErrors, storeSchema, validateStores } from '@/services/validationService';
+import { validateSchema } from '@/utils/schema';
+
+const STORES_CACHE_KEY = 'stores';
+const STORES_TTL = 5 * 60 * 1000; // 5 minutes
+
+type StoreCsvField = 'code' | 'name' | 'region' | 'channel' | 'address';
+
+// Accepted header names per field, compared case-insensitively
+const STORE_CSV_HEADERS: Record<StoreCsvField, string[]> = {
+  code: ['code', 'store code', 'outlet code'],
+  name: ['name', 'store name', 'outlet name'],
+  region: ['region', 'area'],
+  channel: ['channel', 'trade channel'],
+  address: ['address'],
+};
+
+const REQUIRED_CSV_FIELDS: StoreCsvField[] = ['code', 'name', 'region', 'channel'];
+
+/**
+ * Load all stores from the active data source
+ * @returns Promise resolving to the store list (empty if the catalogue has none)
+ * @throws Error if the stores cannot be loaded or are invalid
+ */
+export async function loadStores(): Promise<Store[]> {
+  const cached = cache.get<Store[]>(STORES_CACHE_KEY);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const raw = await getDataSource().getStores();
+    const validation = validateStores(raw);
+
+    if (!validation.valid || !validation.data) {
+      console.error('Stores failed validation:', formatValidationErrors(validation.errors ?? []));
+      throw new Error('Invalid store data format');
+    }
+
+    cache.set(STORES_CACHE_KEY, validation.data, STORES_TTL);
+    return validation.data;
+  } catch (error) {
+    console.error('Error loading stores:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the store list
+ * Writes to the active data source when it is writable, otherwise to the catalogue server.
+ * @param stores - Complete store list
+ * @throws Error if the stores are invalid or the write fails
+ */
+export async function saveStores(stores: Store[]): Promise<void> {
+  const validation = validateStores(stores);
+  if (!validation.valid) {
+    throw new Error(`Invalid store data: ${formatValidationErrors(validation.errors ?? []).join('; ')}`);
+  }
+
+  await getWritableDataSource().saveStores(stores);
+  cache.remove(STORES_CACHE_KEY);
+}
+
+/**
+ * Merge a store list CSV into the existing stores
+ * The CSV needs Code, Name, Region and Channel columns (Address is optional);
+ * column order and header case do not matter. Rows for an existing code
+ * update that store's details and keep its model assignments. Invalid rows
+ * are reported and skipped.
+ * @param text - CSV text (comma or semicolon separated)
+ * @param existing - Current stores
+ * @returns Merged store list with the codes added and updated
+ * @throws Error if the file has no header row or lacks a required column
+ */
+export function importStoreCsv(text: string, existing: Store[]): StoreCsvImport {
+  const [header, ...rows] = parseCsv(text, detectCsvDelimiter(text));
+  if (!header) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const normalized = header.map((name) => name.trim().toLowerCase().replace(/[\s_]+/g, ' '));
+  const columns = new Map<StoreCsvField, number>();
+  (Object.keys(STORE_CSV_HEADERS) as StoreCsvField[]).forEach((field) => {
+    const index = normalized.findIndex((name) => STORE_CSV_HEADERS[field].includes(name));
+    if (index !== -1) columns.set(field, index);
+  });
+
+  const missing = REQUIRED_CSV_FIELDS.filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    throw new Error(`The CSV file is missing column(s): ${missing.join(', ')}`);
+  }
+
+  const stores = new Map(existing.map((store) => [store.code, store]));
+  const added = new Set<string>();
+  const updated = new Set<string>();
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, i) => {
+    const line = `row ${i + 2}`; // 1-based, after the header
+    const value = (field: StoreCsvField) => {
+      const index = columns.get(field);
+      return index === undefined ? '' : (row[index] ?? '').trim();
+    };
+
+    const code = value('code');
+    const previous = stores.get(code);
+    // Without an Address column, existing addresses are left alone
+    const address = columns.has('address') ? value('address') : previous?.address;
+    const store: Store = {
+      code,
+      name: value('name'),
+      region: value('region'),
+      channel: value('channel'),
+      ...(address ? { address } : {}),
+      models: previous?.models ?? [],
+    };
+
+    const rowErrors = validateSchema(storeSchema, store, line);
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+    if (seen.has(code)) {
+      errors.push({ field: `${line}.code`, message: 'duplicate code in file', value: code });
+      return;
+    }
+    seen.add(code);
+
+    if (!previous) {
+      added.add(code);
+    } else if (
+      previous.name !== store.name ||
+      previous.region !== store.region ||
+      previous.channel !== store.channel ||
+      previous.address !== store.address
+    ) {
+      updated.add(code);
+    }
+    stores.set(code, store);
+  });
+
+  return { stores: [...stores.values()], added: [...added], updated: [...updated], errors };
+}
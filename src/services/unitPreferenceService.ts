@@ -0,0 +1,56 @@
+import type { DisplayUnit } from '@/types';
+import { isLengthUnit } from '@/utils/units';
+
+const DISPLAY_UNIT_KEY = 'posm-display-unit';
+
+const listeners = new Set<() => void>();
+
+/**
+ * Unit the viewer shows marker dimensions in
+ * Exports read the same preference, so they match what is on screen.
+ * @returns Saved preference, or 'original' (as entered) if none is saved
+ */
+export function getDisplayUnit(): DisplayUnit {
+  try {
+    const saved = localStorage.getItem(DISPLAY_UNIT_KEY);
+    return isLengthUnit(saved) ? saved : 'original';
+  } catch {
+    // Storage can be unavailable (private mode, server-side rendering)
+    return 'original';
+  }
+}
+
+/**
+ * Save the display unit preference and notify subscribers
+ * @param unit - Unit to show dimensions in, or 'original' for as entered
+ */
+export function setDisplayUnit(unit: DisplayUnit): void {
+  try {
+    if (unit === 'original') {
+      localStorage.removeItem(DISPLAY_UNIT_KEY);
+    } else {
+      localStorage.setItem(DISPLAY_UNIT_KEY, unit);
+    }
+  } catch (error) {
+    console.error('Failed to save display unit:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Listen for display unit changes, including changes made in other tabs
+ * @param listener - Called after the preference changes
+ * @returns Function that removes the listener
+ */
+export function subscribeDisplayUnit(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === DISPLAY_UNIT_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
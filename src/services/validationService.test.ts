@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductModel, ValidationError, ValidationResult } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import { validateCatalogueIndex, validateExport, validateProductModel } from '@/services/validationService';
+import { createExportData } from '@/utils/jsonExport';
+import catalogueIndex from '../../tests/fixtures/catalogue-index.json';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+
+const model: ProductModel = migrateModel(sampleModel).model;
+const categoryIds = new Set(catalogueIndex.categories.map((category) => category.id));
+
+function errorsOf<T>(result: ValidationResult<T>): ValidationError[] {
+  return result.errors ?? [];
+}
+
+describe('validateProductModel', () => {
+  it('accepts a migrated fixture model', () => {
+    expect(validateProductModel(model, categoryIds)).toEqual({ valid: true, data: model });
+  });
+
+  it('rejects marker IDs used twice in a view', () => {
+    const [view] = model.views;
+    const duplicated: ProductModel = {
+      ...model,
+      views: [{ ...view, posmMarkers: [...view.posmMarkers, { ...view.posmMarkers[1], id: 'marker-001' }] }],
+    };
+
+    expect(errorsOf(validateProductModel(duplicated)).map((error) => error.field)).toEqual([
+      'views[0].posmMarkers[3].id',
+    ]);
+  });
+
+  it('rejects marker IDs used in two views', () => {
+    const [view] = model.views;
+    const duplicated: ProductModel = {
+      ...model,
+      views: [view, { ...view, id: 'side', name: 'Side', posmMarkers: [{ ...view.posmMarkers[2], id: 'marker-002' }] }],
+    };
+
+    expect(errorsOf(validateProductModel(duplicated))).toEqual([
+      expect.objectContaining({ field: 'views[1].posmMarkers[0].id', value: 'marker-002' }),
+    ]);
+  });
+
+  it('rejects a version that is not semver', () => {
+    const errors = errorsOf(validateProductModel({ ...model, metadata: { ...model.metadata, version: 'v2' } }));
+
+    expect(errors).toEqual([expect.objectContaining({ field: 'metadata.version', value: 'v2' })]);
+  });
+
+  it('rejects timestamps that are not ISO 8601', () => {
+    const errors = errorsOf(
+      validateProductModel({
+        ...model,
+        metadata: { ...model.metadata, createdAt: '23/10/2025', updatedAt: '2025-10-23 10:30' },
+      })
+    );
+
+    expect(errors.map((error) => error.field)).toEqual(['metadata.createdAt', 'metadata.updatedAt']);
+  });
+
+  it('rejects unknown category IDs when categories are given', () => {
+    const unknown = { ...model, categoryIds: ['retail-fixtures', 'seasonal'] };
+
+    expect(errorsOf(validateProductModel(unknown, categoryIds))).toEqual([
+      expect.objectContaining({ field: 'categoryIds[1]', value: 'seasonal' }),
+    ]);
+    expect(validateProductModel(unknown).valid).toBe(true);
+  });
+});
+
+describe('validateCatalogueIndex', () => {
+  it('accepts the fixture index', () => {
+    expect(validateCatalogueIndex(catalogueIndex).valid).toBe(true);
+  });
+
+  it('rejects models in categories the index does not declare', () => {
+    const index = {
+      ...catalogueIndex,
+      models: catalogueIndex.models.map((summary, i) => (i === 1 ? { ...summary, categoryIds: ['seasonal'] } : summary)),
+    };
+
+    expect(errorsOf(validateCatalogueIndex(index))).toEqual([
+      expect.objectContaining({ field: 'models[1].categoryIds[0]', value: 'seasonal' }),
+    ]);
+  });
+
+  it('rejects a total that does not match the models', () => {
+    expect(errorsOf(validateCatalogueIndex({ ...catalogueIndex, totalModels: 5 }))).toEqual([
+      expect.objectContaining({ field: 'totalModels', value: 5 }),
+    ]);
+  });
+});
+
+describe('validateExport', () => {
+  it('checks model categories against the exported categories', () => {
+    const data = createExportData([model], [], 'selective');
+
+    expect(errorsOf(validateExport(data))).toEqual([
+      expect.objectContaining({ field: 'models[0].categoryIds[0]', value: 'retail-fixtures' }),
+    ]);
+    expect(validateExport({ ...data, categories: catalogueIndex.categories }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,466 @@
+import type {
+  Campaign,
+  CatalogueIndex,
+  ExportData,
+  MarkerShape,
+  PriceTable,
+  ProductModel,
+  Store,
+  ValidationError,
+  ValidationResult,
+} from '@/types';
+import { validateSchema } from '@/utils/schema';
+import { countModelMarkers } from '@/utils/modelViews';
+import { validateCoordinates } from '@/utils/coordinates';
+import { LENGTH_UNITS } from '@/utils/units';
+import { PRICING_METHODS } from '@/utils/costs';
+import type { ObjectSchema, SchemaContext } from '@/utils/schema';
+
+// Schemas mirror the interfaces in src/types/index.ts
+
+export const dimensionsSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    width: { type: 'number', min: 0 },
+    height: { type: 'number', min: 0 },
+    depth: { type: 'number', min: 0, optional: true },
+    unit: { type: 'string', enum: LENGTH_UNITS },
+  },
+};
+
+export const coordinatesSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    x: { type: 'number', min: 0, max: 100 },
+    y: { type: 'number', min: 0, max: 100 },
+  },
+};
+
+// Rectangle fields and polygon points are optional here; `refine` checks the ones the type needs
+export const markerShapeSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    type: { type: 'string', enum: ['rect', 'polygon'] },
+    x: { type: 'number', min: 0, max: 100, optional: true },
+    y: { type: 'number', min: 0, max: 100, optional: true },
+    width: { type: 'number', min: 0, max: 100, optional: true },
+    height: { type: 'number', min: 0, max: 100, optional: true },
+    points: { type: 'array', items: coordinatesSchema, optional: true },
+  },
+  refine: (shape, path) => {
+    const field = (name: string) => (path ? `${path}.${name}` : name);
+    if (shape.type === 'rect') {
+      const missing = ['x', 'y', 'width', 'height'].filter((name) => shape[name] === undefined);
+      if (missing.length > 0) {
+        return missing.map((name) => ({ field: field(name), message: 'is required for a rectangle', value: undefined }));
+      }
+    } else if (!Array.isArray(shape.points) || shape.points.length < 3) {
+      return [{ field: field('points'), message: 'must have at least 3 points', value: shape.points }];
+    }
+    return validateCoordinates(shape as unknown as MarkerShape)
+      ? []
+      : [{ field: path, message: 'must have a positive size and fit inside the image (0-100%)', value: shape }];
+  },
+};
+
+export const posmMarkerSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    position: coordinatesSchema,
+    shape: { ...markerShapeSchema, optional: true },
+    info: {
+      type: 'object',
+      fields: {
+        name: { type: 'string', nonEmpty: true, maxLength: 200 },
+        description: { type: 'string', maxLength: 2000 },
+        artworkUrl: { type: 'string', optional: true },
+        dimensions: { ...dimensionsSchema, optional: true },
+        materialType: { type: 'string', optional: true, maxLength: 100 },
+        notes: { type: 'string', optional: true, maxLength: 1000 },
+      },
+    },
+    displayOptions: {
+      type: 'object',
+      optional: true,
+      fields: {
+        iconColor: { type: 'string', format: 'hex-color', optional: true },
+        iconSize: { type: 'number', positive: true, optional: true },
+        zIndex: { type: 'number', integer: true, optional: true },
+      },
+    },
+  },
+};
+
+export const modelImageSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    url: { type: 'string', nonEmpty: true },
+    width: { type: 'number', positive: true },
+    height: { type: 'number', positive: true },
+    alt: { type: 'string' },
+    format: { type: 'string', nonEmpty: true },
+  },
+};
+
+export const modelViewSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true, maxLength: 100 },
+    image: modelImageSchema,
+    posmMarkers: { type: 'array', items: posmMarkerSchema, uniqueBy: 'id' },
+  },
+};
+
+export const productModelSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    schemaVersion: { type: 'number', integer: true, min: 0, optional: true },
+    name: { type: 'string', nonEmpty: true },
+    code: { type: 'string', optional: true },
+    description: { type: 'string', optional: true },
+    categoryIds: { type: 'array', items: { type: 'string', ref: 'category' } },
+    views: { type: 'array', items: modelViewSchema, minItems: 1, uniqueBy: 'id' },
+    metadata: {
+      type: 'object',
+      fields: {
+        createdAt: { type: 'string', format: 'iso-datetime' },
+        updatedAt: { type: 'string', format: 'iso-datetime' },
+        version: { type: 'string', format: 'semver' },
+        author: { type: 'string', optional: true },
+      },
+    },
+  },
+  refine: (model, path) => {
+    // Marker IDs identify markers in drafts and revisions, so they must be unique across views
+    const seen = new Set<string>();
+    const errors: ValidationError[] = [];
+    (model.views as ProductModel['views']).forEach((view, viewIndex) => {
+      view.posmMarkers.forEach((marker, markerIndex) => {
+        if (seen.has(marker.id)) {
+          errors.push({
+            field: `${path ? `${path}.` : ''}views[${viewIndex}].posmMarkers[${markerIndex}].id`,
+            message: 'is already used by a marker in another view',
+            value: marker.id,
+          });
+        }
+        seen.add(marker.id);
+      });
+    });
+    return errors;
+  },
+};
+
+export const categorySchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true },
+    description: { type: 'string', optional: true },
+  },
+};
+
+export const campaignSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true, maxLength: 200 },
+    description: { type: 'string', optional: true, maxLength: 2000 },
+    startDate: { type: 'string', format: 'iso-date' },
+    endDate: { type: 'string', format: 'iso-date' },
+    models: {
+      type: 'array',
+      uniqueBy: 'modelId',
+      items: {
+        type: 'object',
+        fields: {
+          modelId: { type: 'string', nonEmpty: true },
+          markers: {
+            type: 'array',
+            uniqueBy: 'id',
+            items: {
+              ...posmMarkerSchema,
+              fields: { ...posmMarkerSchema.fields, viewId: { type: 'string', nonEmpty: true, optional: true } },
+            },
+          },
+          artworkOverrides: {
+            type: 'array',
+            uniqueBy: 'markerId',
+            items: {
+              type: 'object',
+              fields: {
+                markerId: { type: 'string', nonEmpty: true },
+                artworkUrl: { type: 'string', nonEmpty: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  refine: (campaign, path) =>
+    // YYYY-MM-DD strings sort chronologically
+    (campaign.endDate as string) < (campaign.startDate as string)
+      ? [{ field: path ? `${path}.endDate` : 'endDate', message: 'must not be before startDate', value: campaign.endDate }]
+      : [],
+};
+
+export const storeSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    code: { type: 'string', nonEmpty: true, maxLength: 50 },
+    name: { type: 'string', nonEmpty: true, maxLength: 200 },
+    region: { type: 'string', nonEmpty: true, maxLength: 100 },
+    channel: { type: 'string', nonEmpty: true, maxLength: 100 },
+    address: { type: 'string', optional: true, maxLength: 500 },
+    models: {
+      type: 'array',
+      uniqueBy: 'modelId',
+      items: {
+        type: 'object',
+        fields: {
+          modelId: { type: 'string', nonEmpty: true },
+          quantity: { type: 'number', integer: true, min: 1 },
+        },
+      },
+    },
+  },
+};
+
+export const priceTableSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    currency: { type: 'string', format: 'currency' },
+    materials: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          materialType: { type: 'string', nonEmpty: true, maxLength: 200 },
+          method: { type: 'string', enum: PRICING_METHODS },
+          price: { type: 'number', min: 0 },
+          notes: { type: 'string', optional: true, maxLength: 500 },
+        },
+      },
+    },
+  },
+  refine: (table, path) => {
+    // Material types are matched case-insensitively, so "Vinyl" and "vinyl" would clash
+    const seen = new Set<string>();
+    return (table.materials as { materialType: string }[]).flatMap((material, index) => {
+      const key = material.materialType.trim().toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        return [];
+      }
+      const field = `${path ? `${path}.` : ''}materials[${index}].materialType`;
+      return [{ field, message: 'is already priced', value: material.materialType }];
+    });
+  },
+};
+
+export const modelSummarySchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true },
+    code: { type: 'string', optional: true },
+    thumbnailUrl: { type: 'string', nonEmpty: true },
+    categoryIds: { type: 'array', items: { type: 'string', ref: 'category' } },
+    posmCount: { type: 'number', integer: true, min: 0 },
+    viewCount: { type: 'number', integer: true, min: 1, optional: true },
+    posmNames: { type: 'array', items: { type: 'string' }, optional: true },
+    searchText: {
+      type: 'object',
+      optional: true,
+      fields: {
+        description: { type: 'string', optional: true },
+        posmDescriptions: { type: 'array', items: { type: 'string' }, optional: true },
+        materials: { type: 'array', items: { type: 'string' }, optional: true },
+        notes: { type: 'array', items: { type: 'string' }, optional: true },
+      },
+    },
+    posmSizes: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        fields: {
+          width: { type: 'number', min: 0 },
+          height: { type: 'number', min: 0 },
+        },
+      },
+    },
+    updatedAt: { type: 'string', format: 'iso-datetime', optional: true },
+    dataUrl: { type: 'string', nonEmpty: true },
+  },
+};
+
+export const catalogueIndexSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    version: { type: 'string', format: 'semver' },
+    lastUpdated: { type: 'string', format: 'iso-datetime' },
+    totalModels: { type: 'number', integer: true, min: 0 },
+    categories: { type: 'array', items: categorySchema, uniqueBy: 'id' },
+    models: { type: 'array', items: modelSummarySchema, uniqueBy: 'id' },
+  },
+  refine: (index) => {
+    const models = index.models as unknown[];
+    if (index.totalModels !== models.length) {
+      return [{
+        field: 'totalModels',
+        message: `does not match number of models (${models.length})`,
+        value: index.totalModels,
+      }];
+    }
+    return [];
+  },
+};
+
+export const exportDataSchema: ObjectSchema = {
+  type: 'object',
+  fields: {
+    exportedAt: { type: 'string', format: 'iso-datetime' },
+    exportType: { type: 'string', enum: ['full', 'selective'] },
+    version: { type: 'string', format: 'semver' },
+    models: { type: 'array', items: productModelSchema, minItems: 1, uniqueBy: 'id' },
+    categories: { type: 'array', items: categorySchema, uniqueBy: 'id' },
+    metadata: {
+      type: 'object',
+      fields: {
+        totalModels: { type: 'number', integer: true, min: 0 },
+        totalMarkers: { type: 'number', integer: true, min: 0 },
+        exportedBy: { type: 'string', optional: true },
+        notes: { type: 'string', optional: true },
+        selection: {
+          type: 'object',
+          optional: true,
+          fields: {
+            mode: { type: 'string', enum: ['all', 'models', 'categories', 'search'] },
+            modelIds: { type: 'array', items: { type: 'string' }, optional: true },
+            categoryIds: { type: 'array', items: { type: 'string' }, optional: true },
+            query: { type: 'string', optional: true },
+          },
+        },
+      },
+    },
+  },
+  refine: (data) => {
+    const models = data.models as ProductModel[];
+    const metadata = data.metadata as ExportData['metadata'];
+    const totalMarkers = models.reduce((sum, model) => sum + countModelMarkers(model), 0);
+    const errors: ValidationError[] = [];
+
+    if (metadata.totalModels !== models.length) {
+      errors.push({
+        field: 'metadata.totalModels',
+        message: `does not match number of models (${models.length})`,
+        value: metadata.totalModels,
+      });
+    }
+    if (metadata.totalMarkers !== totalMarkers) {
+      errors.push({
+        field: 'metadata.totalMarkers',
+        message: `does not match number of markers (${totalMarkers})`,
+        value: metadata.totalMarkers,
+      });
+    }
+
+    return errors;
+  },
+};
+
+/**
+ * Collect the category IDs declared in a catalogue or export payload
+ */
+function collectCategoryIds(data: unknown): Set<string> | undefined {
+  if (typeof data !== 'object' || data === null) return undefined;
+
+  const categories = (data as { categories?: unknown }).categories;
+  if (!Array.isArray(categories)) return undefined;
+
+  return new Set(
+    categories
+      .map((category) => (category as { id?: unknown } | null)?.id)
+      .filter((id): id is string => typeof id === 'string')
+  );
+}
+
+function toResult<T>(data: unknown, errors: ValidationError[]): ValidationResult<T> {
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, data: data as T };
+}
+
+/**
+ * Validate a catalogue index, including category references of each model
+ * @param data - Parsed catalogue index JSON
+ * @returns Validation result with field-path errors if invalid
+ */
+export function validateCatalogueIndex(data: unknown): ValidationResult<CatalogueIndex> {
+  const context: SchemaContext = { categoryIds: collectCategoryIds(data) };
+  return toResult(data, validateSchema(catalogueIndexSchema, data, '', context));
+}
+
+/**
+ * Validate a product model
+ * @param data - Parsed model JSON
+ * @param categoryIds - Known category IDs; category references are only checked when provided
+ * @returns Validation result with field-path errors if invalid
+ */
+export function validateProductModel(
+  data: unknown,
+  categoryIds?: ReadonlySet<string>
+): ValidationResult<ProductModel> {
+  return toResult(data, validateSchema(productModelSchema, data, '', { categoryIds }));
+}
+
+/**
+ * Validate an export payload, including category references of each model
+ * @param data - Parsed export JSON
+ * @returns Validation result with field-path errors if invalid
+ */
+export function validateExport(data: unknown): ValidationResult<ExportData> {
+  const context: SchemaContext = { categoryIds: collectCategoryIds(data) };
+  return toResult(data, validateSchema(exportDataSchema, data, '', context));
+}
+
+/**
+ * Validate a campaign list
+ * @param data - Parsed campaigns JSON
+ * @returns Validation result with field-path errors if invalid
+ */
+export function validateCampaigns(data: unknown): ValidationResult<Campaign[]> {
+  return toResult(data, validateSchema({ type: 'array', items: campaignSchema, uniqueBy: 'id' }, data, 'campaigns'));
+}
+
+/**
+ * Validate a store list
+ * @param data - Parsed stores JSON
+ * @returns Validation result with field-path errors if invalid
+ */
+export function validateStores(data: unknown): ValidationResult<Store[]> {
+  return toResult(data, validateSchema({ type: 'array', items: storeSchema, uniqueBy: 'code' }, data, 'stores'));
+}
+
+/**
+ * Validate a material price table
+ * @param data - Parsed price table JSON
+ * @returns Validation result with field-path errors if invalid
+ */
+export function validatePriceTable(data: unknown): ValidationResult<PriceTable> {
+  return toResult(data, validateSchema(priceTableSchema, data, 'prices'));
+}
+
+/**
+ * Format validation errors as readable lines (e.g. for logs or alerts)
+ * @param errors - Validation errors
+ * @returns One `field: message` line per error
+ */
+export function formatValidationErrors(errors: ValidationError[]): string[] {
+  return errors.map((error) => `${error.field}: ${error.message}`);
+}
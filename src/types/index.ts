@@ -5,11 +5,15 @@ export interface Coordinates {
   y: number; // Vertical position (0-100 percent)
 }
 
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export type DisplayUnit = LengthUnit | 'original'; // 'original': as entered for each marker
+
 export interface Dimensions {
   width: number;
   height: number;
   depth?: number;
-  unit: string; // e.g., "cm", "in"
+  unit: LengthUnit;
 }
 
 export interface DisplayOptions {
@@ -27,9 +31,27 @@ export interface POSMInformation {
   notes?: string;
 }
 
+export type MarkerShapeType = 'point' | 'rect' | 'polygon';
+
+export interface RectShape {
+  type: 'rect';
+  x: number; // Left edge (0-100 percent)
+  y: number; // Top edge (0-100 percent)
+  width: number; // Percent of image width
+  height: number; // Percent of image height
+}
+
+export interface PolygonShape {
+  type: 'polygon';
+  points: Coordinates[]; // At least 3 vertices, in drawing order
+}
+
+export type MarkerShape = RectShape | PolygonShape;
+
 export interface POSMMarker {
   id: string;
-  position: Coordinates;
+  position: Coordinates; // Point markers: the point; region markers: the badge anchor (region center)
+  shape?: MarkerShape; // Highlighted region; omitted for point markers
   info: POSMInformation;
   displayOptions?: DisplayOptions;
 }
@@ -49,14 +71,21 @@ export interface ModelMetadata {
   author?: string;
 }
 
+export interface ModelView {
+  id: string;
+  name: string; // e.g. "Front", "Side", "Close-up"
+  image: ModelImage;
+  posmMarkers: POSMMarker[]; // Positions are relative to this view's image
+}
+
 export interface ProductModel {
   id: string;
+  schemaVersion?: number; // Data file schema version (see migrationService)
   name: string;
   code?: string;
   description?: string;
   categoryIds: string[];
-  image: ModelImage;
-  posmMarkers: POSMMarker[];
+  views: ModelView[]; // Ordered; the first view is the primary image. Marker IDs are unique across views
   metadata: ModelMetadata;
 }
 
@@ -72,10 +101,28 @@ export interface ModelSummary {
   code?: string;
   thumbnailUrl: string;
   categoryIds: string[];
-  posmCount: number;
+  posmCount: number; // Markers across all views
+  viewCount?: number;
+  posmNames?: string[]; // Distinct marker names across all views, for search
+  searchText?: ModelSearchText;
+  posmSizes?: PosmSize[]; // Distinct item face sizes, for filtering
+  updatedAt?: string; // ISO 8601 timestamp, from the model metadata
   dataUrl: string;
 }
 
+export interface PosmSize {
+  width: number; // cm
+  height: number; // cm
+}
+
+// Model and marker text beyond names, copied into the index for search
+export interface ModelSearchText {
+  description?: string;
+  posmDescriptions?: string[]; // Distinct values across all markers
+  materials?: string[];
+  notes?: string[];
+}
+
 export interface CatalogueIndex {
   version: string;
   lastUpdated: string; // ISO 8601 timestamp
@@ -84,6 +131,28 @@ export interface CatalogueIndex {
   models: ModelSummary[];
 }
 
+export type DataSourceKind = 'static' | 'rest' | 'indexeddb';
+
+// Storage backend behind modelService. Reads return raw JSON; modelService
+// migrates and validates it before use.
+export interface CatalogueDataSource {
+  readonly kind: DataSourceKind;
+  readonly writable: boolean;
+  getCatalogueIndex(): Promise<unknown>;
+  getModel(modelId: string, summary?: ModelSummary): Promise<unknown>;
+  saveModel(model: ProductModel): Promise<void>;
+  deleteModel(modelId: string): Promise<void>;
+  getCategories(): Promise<Category[]>; // Full registry, including unused categories
+  saveCategories(categories: Category[]): Promise<void>;
+  getCampaigns(): Promise<unknown>; // Campaign list; empty when the source has none
+  saveCampaigns(campaigns: Campaign[]): Promise<void>;
+  getStores(): Promise<unknown>; // Store list; empty when the source has none
+  saveStores(stores: Store[]): Promise<void>;
+  getPriceTable(): Promise<unknown>; // null when the source has no price table
+  savePriceTable(table: PriceTable): Promise<void>;
+  saveAsset(path: string, data: Uint8Array, contentType: string): Promise<string>; // Returns the asset URL
+}
+
 export interface UserSession {
   isAuthenticated: boolean;
   sessionToken: string;
@@ -91,11 +160,28 @@ export interface UserSession {
   mode: 'viewer' | 'admin';
 }
 
+export type ExportSelectionMode = 'all' | 'models' | 'categories' | 'search';
+
+export interface ExportSelection {
+  mode: ExportSelectionMode;
+  modelIds?: string[]; // Picked models (mode: models)
+  categoryIds?: string[]; // Models in any of these categories (mode: categories)
+  query?: string; // Catalogue search query (mode: search)
+}
+
 export interface ExportMetadata {
   totalModels: number;
   totalMarkers: number;
   exportedBy?: string;
   notes?: string;
+  selection?: ExportSelection; // How the exported models were chosen
+  costs?: ExportCostSummary; // Estimated cost per model, when a price table was used
+}
+
+export interface ExportCostSummary {
+  currency: string;
+  total: number;
+  models: ModelCost[];
 }
 
 export interface ExportData {
@@ -107,6 +193,326 @@ export interface ExportData {
   metadata: ExportMetadata;
 }
 
+// CSV export types
+export type CsvGranularity = 'model' | 'marker';
+
+export type CsvColumn =
+  | 'modelId'
+  | 'modelCode'
+  | 'modelName'
+  | 'categories'
+  | 'markerCount'
+  | 'viewCount'
+  | 'viewName'
+  | 'markerId'
+  | 'markerName'
+  | 'markerDescription'
+  | 'materialType'
+  | 'width'
+  | 'height'
+  | 'depth'
+  | 'unit'
+  | 'artworkUrl'
+  | 'notes'
+  | 'positionX'
+  | 'positionY'
+  | 'shapeType'
+  | 'estimatedCost';
+
+export interface CsvExportOptions {
+  granularity: CsvGranularity; // One row per model or per POSM marker
+  columns?: CsvColumn[]; // Defaults to every column available at the granularity
+  includeBom?: boolean; // UTF-8 byte order mark for Excel (default: true)
+  unit?: DisplayUnit; // Unit marker dimensions are converted to (default: as entered)
+  priceTable?: PriceTable; // Fills the Estimated Cost column
+}
+
+// Export bundle types
+export interface BundleOptions {
+  includeImages: boolean; // Model images, thumbnails and marker artwork
+  includeMetadata: boolean; // Catalogue index snapshot (thumbnails, marker counts)
+}
+
+export interface BundleFile {
+  path: string; // Path inside the archive
+  size: number; // Bytes
+  sha256: string; // Hex digest
+}
+
+export interface BundleAsset {
+  path: string; // Path inside the archive, e.g. assets/images/models/model-001.jpg
+  url: string; // URL the asset was exported from
+  contentType: string;
+}
+
+export interface BundleManifest {
+  format: 'posm-catalogue-bundle';
+  formatVersion: number;
+  createdAt: string; // ISO 8601 timestamp
+  exportFile: string; // Path of the ExportData JSON
+  indexFile?: string; // Path of the catalogue index snapshot, if included
+  files: BundleFile[]; // Every file except the manifest
+  assets: BundleAsset[];
+  thumbnails: Record<string, string>; // Model ID -> thumbnail URL
+  missingAssets: { url: string; error: string }[]; // Assets that could not be fetched
+}
+
+export interface BundleAssetData extends BundleAsset {
+  storagePath: string; // Where to restore it, relative to the site root
+  data: Uint8Array;
+}
+
+// Annotated image export types
+export type AnnotatedImageFormat = 'png' | 'svg';
+
+export interface AnnotatedImageOptions {
+  showLabels: boolean; // Marker name next to each glyph
+  showLegend: boolean; // Numbered marker list beside the image
+  markerScale?: number; // Multiplies each marker's iconSize (default: scaled to the viewer width)
+}
+
+// Catalogue booklet types
+export interface BookletFilters {
+  query?: string; // Catalogue search query
+  categoryIds?: string[]; // Models in any of these categories
+}
+
+// Bill of materials types
+export interface BomOptions {
+  storeUnits?: Record<string, number>; // Model ID -> units installed across stores; unlisted models count as 0
+  unit?: LengthUnit; // Unit sizes are reported in (default: cm)
+  priceTable?: PriceTable; // Adds an estimated cost to each line
+}
+
+export interface BomLine {
+  materialType: string; // Empty when markers have no material type
+  dimensions?: Dimensions; // Converted to the report unit; omitted for markers without dimensions
+  quantity: number;
+  itemAreaM2: number | null; // width × height of one item; null without dimensions
+  totalAreaM2: number | null;
+  estimatedCost: number | null; // null without a price table or when no marker in the line could be priced
+  markerNames: string[]; // Distinct POSM item names in the group
+  modelIds: string[];
+  artworkUrls: string[];
+}
+
+export interface BomArtwork {
+  artworkUrl: string;
+  quantity: number;
+  markerNames: string[];
+  modelIds: string[];
+}
+
+export interface BillOfMaterials {
+  lines: BomLine[]; // Sorted by material type, then size
+  artworks: BomArtwork[];
+  totalQuantity: number;
+  totalAreaM2: number; // Lines without dimensions are left out
+  modelCount: number;
+  multipliedByStores: boolean; // Quantities include storeUnits
+  unit: LengthUnit; // Unit of the line dimensions
+  estimatedCost: number | null; // Sum of the priced lines; null without a price table
+  currency?: string;
+}
+
+// Campaign types
+export interface CampaignMarker extends POSMMarker {
+  viewId?: string; // View the marker is placed on (default: primary view)
+}
+
+export interface CampaignArtworkOverride {
+  markerId: string; // Marker of the model, in any view
+  artworkUrl: string; // Campaign artwork shown instead of the marker's own
+}
+
+export interface CampaignModelEntry {
+  modelId: string;
+  markers: CampaignMarker[]; // Extra POSM items shown only during the campaign
+  artworkOverrides: CampaignArtworkOverride[];
+}
+
+export interface Campaign {
+  id: string;
+  name: string; // e.g. "Tet 2027", "Summer launch"
+  description?: string;
+  startDate: string; // YYYY-MM-DD, first day (inclusive)
+  endDate: string; // YYYY-MM-DD, last day (inclusive)
+  models: CampaignModelEntry[];
+}
+
+export type CampaignStatus = 'upcoming' | 'active' | 'ended';
+
+// Store types
+export interface StoreModelAssignment {
+  modelId: string;
+  quantity: number; // Units of the model installed at the store
+}
+
+export interface Store {
+  code: string; // Unique outlet code, e.g. "HCM-0042"
+  name: string;
+  region: string; // e.g. "North", "Ho Chi Minh City"
+  channel: string; // e.g. "Modern trade", "Traditional trade"
+  address?: string;
+  models: StoreModelAssignment[];
+}
+
+export interface ModelInstallation {
+  store: Store;
+  quantity: number;
+}
+
+export interface StoreCsvImport {
+  stores: Store[]; // Merged store list; assignments of existing stores are kept
+  added: string[]; // Codes of new stores
+  updated: string[]; // Codes of existing stores whose details changed
+  errors: ValidationError[]; // Rows that were skipped
+}
+
+// Cost estimation types
+export type PricingMethod = 'per-m2' | 'per-unit' | 'fixed';
+
+export interface MaterialPrice {
+  materialType: string; // Matched case-insensitively against POSMInformation.materialType
+  method: PricingMethod;
+  price: number; // In the table currency: per m² of face area, per item, or once per design
+  notes?: string;
+}
+
+export interface PriceTable {
+  currency: string; // ISO 4217 code, e.g. "VND"
+  materials: MaterialPrice[];
+}
+
+export type CostIssue = 'no-material' | 'no-price' | 'no-dimensions';
+
+export interface MarkerCostEstimate {
+  cost: number | null; // null when the marker cannot be priced (see issue)
+  price?: MaterialPrice;
+  issue?: CostIssue;
+}
+
+export interface CostRollup {
+  total: number; // Sum of the markers that could be priced
+  pricedMarkers: number;
+  unpricedMarkers: number;
+}
+
+export interface ModelCost extends CostRollup {
+  modelId: string;
+}
+
+export interface CategoryCost extends CostRollup {
+  categoryId: string;
+  modelCount: number;
+}
+
+export interface CampaignCost extends CostRollup {
+  campaignId: string;
+  modelCount: number;
+}
+
+// Search types
+export type SearchField =
+  | 'name'
+  | 'code'
+  | 'category'
+  | 'posmName'
+  | 'material'
+  | 'description'
+  | 'posmDescription'
+  | 'notes';
+
+export type HighlightRange = [start: number, end: number]; // Character offsets into the text, end exclusive
+
+export interface SearchMatch {
+  field: SearchField;
+  text: string; // Field value as entered
+  ranges: HighlightRange[]; // Matched words, in order
+}
+
+export interface SearchResult {
+  model: ModelSummary;
+  score: number; // Higher is better; only comparable within one search
+  matches: SearchMatch[]; // Best-weighted fields first
+}
+
+// Search query language types
+export type QueryField =
+  | 'name'
+  | 'code'
+  | 'category'
+  | 'item'
+  | 'material'
+  | 'description'
+  | 'notes'
+  | 'posm'
+  | 'views'
+  | 'view'
+  | 'author'
+  | 'updated';
+
+export type QueryComparator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { type: 'text'; value: string; phrase: boolean } // Free text; phrase when quoted
+  | { type: 'field'; field: QueryField; comparator: QueryComparator; value: string }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export interface QuerySyntaxError {
+  message: string;
+  start: number; // Character offsets into the query, end exclusive
+  end: number;
+}
+
+export interface ParsedQuery {
+  query: QueryNode | null; // Null for an empty query or a syntax error
+  error?: QuerySyntaxError;
+}
+
+export type QueryValueSuggestions = Partial<Record<QueryField, string[]>>;
+
+export interface QueryCompletion {
+  label: string; // What the list shows
+  value: string; // Whole query after choosing it
+  hint?: string;
+}
+
+// Facet filter types
+export type FacetMatchMode = 'any' | 'all'; // OR / AND across selected values
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export type UpdatedWithin = '7d' | '30d' | '90d' | '365d';
+
+export interface FacetFilters {
+  categoryIds: string[];
+  categoryMode: FacetMatchMode;
+  materials: string[]; // Any of these materials
+  posmCount: NumberRange;
+  width: NumberRange; // cm, any POSM item
+  height: NumberRange; // cm, any POSM item
+  campaignIds: string[]; // In any of these campaigns
+  updatedWithin?: UpdatedWithin;
+}
+
+export interface FacetCounts {
+  // Models each value would show, given the other facets
+  categories: Record<string, number>;
+  materials: Record<string, number>;
+  campaigns: Record<string, number>;
+  updatedWithin: Record<UpdatedWithin, number>;
+  // Size and count ranges available given the other facets
+  posmCount: NumberRange;
+  width: NumberRange;
+  height: NumberRange;
+}
+
 // Validation result type
 export interface ValidationResult<T> {
   valid: boolean;
@@ -120,6 +526,101 @@ export interface ValidationError {
   value?: unknown;
 }
 
+// Schema migration report type
+export interface MigrationReport {
+  modelId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: string[];
+}
+
+// Revision history types
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface ModelRevisionSummary {
+  modelId: string;
+  revision: number; // Sequential, starting at 1
+  version: string; // Model semver after this revision
+  author: string;
+  createdAt: string; // ISO 8601 timestamp
+  bump: VersionBump | null; // null for the initial revision
+  message?: string;
+}
+
+export interface ModelRevision extends ModelRevisionSummary {
+  model: ProductModel; // Immutable snapshot
+}
+
+export type MarkerChangeType = 'added' | 'moved' | 'edited' | 'deleted';
+
+export interface MarkerChange {
+  markerId: string;
+  type: MarkerChangeType;
+  before?: POSMMarker;
+  after?: POSMMarker;
+}
+
+// Draft merge types
+export interface MarkerDraft {
+  baseVersion: string | null; // Published model version the draft was started from
+  baseMarkers: POSMMarker[]; // Published markers at that version
+  markers: POSMMarker[];
+  savedAt: string; // ISO 8601 timestamp
+}
+
+export type MergeSide = 'draft' | 'current';
+
+export interface MarkerConflict {
+  markerId: string;
+  fields: string[]; // e.g. "position", "info.name"; empty when one side deleted the marker
+  base?: POSMMarker;
+  draft?: POSMMarker;
+  current?: POSMMarker;
+}
+
+export interface MarkerMergeResult {
+  markers: POSMMarker[]; // Conflicting fields keep the current (published) value
+  conflicts: MarkerConflict[];
+}
+
+// Import types
+export type ImportStrategy = 'replace' | 'merge-newer' | 'skip-existing';
+export type ImportTarget = 'drafts' | 'data-source';
+export type ImportModelStatus = 'new' | 'changed' | 'unchanged';
+
+export interface ModelImportPreview {
+  modelId: string;
+  name: string;
+  status: ImportModelStatus;
+  importedUpdatedAt: string;
+  currentUpdatedAt?: string;
+  markerChanges: MarkerChange[]; // Current -> imported
+  model: ProductModel; // Imported model
+  current?: ProductModel;
+}
+
+export interface ImportPreview {
+  exportedAt: string;
+  models: ModelImportPreview[];
+  categories: Category[]; // Imported categories
+  newCategories: Category[]; // Imported categories not in the catalogue yet
+  assets?: BundleAssetData[]; // Image files from an export bundle
+  thumbnails?: Record<string, string>; // Model ID -> thumbnail URL from an export bundle
+}
+
+export interface ImportAction {
+  modelId: string;
+  action: 'create' | 'update' | 'skip';
+  reason: string;
+}
+
+export interface ImportResult {
+  applied: string[];
+  skipped: ImportAction[];
+  categoriesSaved: number;
+  assetsSaved: number;
+}
+
 // Cache entry type
 export interface CacheEntry<T> {
   data: T;
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { Campaign, ProductModel } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import {
+  addDays,
+  applyCampaign,
+  cloneCampaign,
+  createCampaignId,
+  getActiveCampaign,
+  getCampaignStatus,
+  getModelCampaigns,
+} from '@/utils/campaigns';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+
+const sample = migrateModel(sampleModel).model;
+const [primary] = sample.views;
+const [talker, wobbler, priceCard] = primary.posmMarkers;
+
+// Second view holding the price card
+const model: ProductModel = {
+  ...sample,
+  views: [
+    { ...primary, posmMarkers: [talker, wobbler] },
+    { ...primary, id: 'side', name: 'Side', posmMarkers: [priceCard] },
+  ],
+};
+
+const campaign = (id: string, startDate: string, endDate: string, changes: Partial<Campaign> = {}): Campaign => ({
+  id,
+  name: id,
+  startDate,
+  endDate,
+  models: [],
+  ...changes,
+});
+
+const tet = campaign('tet', '2026-01-20', '2026-02-20', {
+  models: [
+    {
+      modelId: 'model-001',
+      markers: [
+        { ...talker, id: 'tet-001', viewId: 'side' },
+        { ...talker, id: 'tet-002', viewId: 'removed-view' },
+        { ...talker, id: 'tet-003' },
+      ],
+      artworkOverrides: [
+        { markerId: 'marker-002', artworkUrl: '/images/posm/tet-wobbler.webp' },
+        { markerId: 'marker-003', artworkUrl: '/images/posm/tet-price-card.webp' },
+      ],
+    },
+  ],
+});
+
+describe('applyCampaign', () => {
+  it('returns the model unchanged without a matching entry', () => {
+    expect(applyCampaign(model, null)).toBe(model);
+    expect(applyCampaign(model, campaign('other', '2026-01-01', '2026-01-31'))).toBe(model);
+  });
+
+  it('adds campaign markers to their view, falling back to the primary view', () => {
+    const [main, side] = applyCampaign(model, tet).views;
+
+    expect(main.posmMarkers.map((marker) => marker.id)).toEqual(['marker-001', 'marker-002', 'tet-002', 'tet-003']);
+    expect(side.posmMarkers.map((marker) => marker.id)).toEqual(['marker-003', 'tet-001']);
+    expect(side.posmMarkers[1]).not.toHaveProperty('viewId');
+  });
+
+  it('overrides artwork of markers in any view', () => {
+    const [main, side] = applyCampaign(model, tet).views;
+
+    expect(main.posmMarkers[0].info.artworkUrl).toBe(talker.info.artworkUrl);
+    expect(main.posmMarkers[1].info.artworkUrl).toBe('/images/posm/tet-wobbler.webp');
+    expect(side.posmMarkers[0].info.artworkUrl).toBe('/images/posm/tet-price-card.webp');
+    expect(model.views[1].posmMarkers[0].info.artworkUrl).toBe(priceCard.info.artworkUrl);
+  });
+});
+
+describe('campaign scheduling', () => {
+  const summer = campaign('summer', '2026-02-01', '2026-03-31');
+
+  it('includes the first and last day', () => {
+    expect(getCampaignStatus(tet, '2026-01-19')).toBe('upcoming');
+    expect(getCampaignStatus(tet, '2026-01-20')).toBe('active');
+    expect(getCampaignStatus(tet, '2026-02-20')).toBe('active');
+    expect(getCampaignStatus(tet, '2026-02-21')).toBe('ended');
+  });
+
+  it('prefers the most recently started of overlapping campaigns', () => {
+    expect(getActiveCampaign([summer, tet], '2026-01-25')).toBe(tet);
+    expect(getActiveCampaign([tet, summer], '2026-02-10')).toBe(summer);
+    expect(getActiveCampaign([tet, summer], '2026-04-01')).toBeNull();
+  });
+
+  it('lists the campaigns covering a model, earliest first', () => {
+    const later = { ...tet, id: 'tet-2027', startDate: '2027-02-01', endDate: '2027-02-28' };
+    expect(getModelCampaigns([later, summer, tet], 'model-001')).toEqual([tet, later]);
+  });
+});
+
+describe('createCampaignId', () => {
+  it('slugifies Vietnamese names and avoids existing IDs', () => {
+    expect(createCampaignId('Tết Đoàn viên 2027', [])).toBe('tet-doan-vien-2027');
+    expect(createCampaignId('Tet 2027', ['tet-2027', 'tet-2027-2'])).toBe('tet-2027-3');
+    expect(createCampaignId('!!!', [])).toBe('campaign');
+  });
+});
+
+describe('cloneCampaign', () => {
+  it('runs the copy for the same number of days after the original', () => {
+    const copy = cloneCampaign(tet, ['tet']);
+
+    expect(copy).toMatchObject({ id: 'tet-copy', name: 'tet (copy)', startDate: '2026-02-21', endDate: '2026-03-24' });
+    expect(copy.models).toEqual(tet.models);
+    expect(copy.models).not.toBe(tet.models);
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+  });
+});
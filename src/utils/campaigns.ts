@@ -0,0 +1,162 @@
+import type { Campaign, CampaignModelEntry, CampaignStatus, POSMMarker, ProductModel } from '@/types';
+import { getPrimaryView } from '@/utils/modelViews';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ * Campaigns run by calendar day where the catalogue is used, not by UTC.
+ * @param date - Date to format (default: now)
+ * @returns Local calendar date
+ */
+export function formatLocalDate(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ * @param date - Calendar date
+ * @param days - Days to add (may be negative)
+ * @returns Shifted calendar date
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Where a campaign stands on a given day
+ * @param campaign - Campaign
+ * @param today - Calendar date to check (default: today, local time)
+ * @returns 'upcoming', 'active' or 'ended'
+ */
+export function getCampaignStatus(campaign: Campaign, today: string = formatLocalDate()): CampaignStatus {
+  // YYYY-MM-DD strings compare chronologically
+  if (today < campaign.startDate) return 'upcoming';
+  if (today > campaign.endDate) return 'ended';
+  return 'active';
+}
+
+/**
+ * Find a model's entry in a campaign
+ * @param campaign - Campaign
+ * @param modelId - Model ID
+ * @returns The entry, or undefined if the campaign does not cover the model
+ */
+export function getCampaignEntry(campaign: Campaign, modelId: string): CampaignModelEntry | undefined {
+  return campaign.models.find((entry) => entry.modelId === modelId);
+}
+
+/**
+ * Campaigns that apply something to a model, earliest start first
+ * @param campaigns - All campaigns
+ * @param modelId - Model ID
+ * @returns Campaigns with an entry for the model
+ */
+export function getModelCampaigns(campaigns: Campaign[], modelId: string): Campaign[] {
+  return campaigns
+    .filter((campaign) => getCampaignEntry(campaign, modelId))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/**
+ * The campaign running on a given day
+ * When campaigns overlap, the one that started most recently wins.
+ * @param campaigns - Campaigns to choose from
+ * @param today - Calendar date (default: today, local time)
+ * @returns The active campaign, or null if none is running
+ */
+export function getActiveCampaign(campaigns: Campaign[], today: string = formatLocalDate()): Campaign | null {
+  const active = campaigns.filter((campaign) => getCampaignStatus(campaign, today) === 'active');
+  return active.reduce<Campaign | null>(
+    (latest, campaign) => (!latest || campaign.startDate > latest.startDate ? campaign : latest),
+    null
+  );
+}
+
+/**
+ * Apply a campaign to a model
+ * Artwork overrides replace the artwork of matching markers, and campaign
+ * markers are appended to their view (the primary view if theirs is unknown).
+ * Campaign marker IDs must not clash with the model's own marker IDs.
+ * @param model - Published model
+ * @param campaign - Campaign to apply, or null for the standard POSM set
+ * @returns Model as shown during the campaign (the input model if nothing applies)
+ */
+export function applyCampaign(model: ProductModel, campaign: Campaign | null): ProductModel {
+  const entry = campaign ? getCampaignEntry(campaign, model.id) : undefined;
+  if (!entry) return model;
+
+  const artwork = new Map(entry.artworkOverrides.map((override) => [override.markerId, override.artworkUrl]));
+  const knownViews = new Set(model.views.map((view) => view.id));
+  const primaryViewId = getPrimaryView(model).id;
+
+  const extraMarkers = new Map<string, POSMMarker[]>();
+  entry.markers.forEach(({ viewId, ...marker }) => {
+    const target = viewId && knownViews.has(viewId) ? viewId : primaryViewId;
+    extraMarkers.set(target, [...(extraMarkers.get(target) ?? []), marker]);
+  });
+
+  return {
+    ...model,
+    views: model.views.map((view) => ({
+      ...view,
+      posmMarkers: [
+        ...view.posmMarkers.map((marker) =>
+          artwork.has(marker.id) ? { ...marker, info: { ...marker.info, artworkUrl: artwork.get(marker.id) } } : marker
+        ),
+        ...(extraMarkers.get(view.id) ?? []),
+      ],
+    })),
+  };
+}
+
+/**
+ * Derive a URL-safe campaign ID from a name
+ * @param name - Campaign name
+ * @param existingIds - IDs already in use
+ * @returns Unique ID, e.g. "tet-2027" or "tet-2027-2"
+ */
+export function createCampaignId(name: string, existingIds: Iterable<string>): string {
+  const used = new Set(existingIds);
+  const base =
+    name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/đ/gi, 'd')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'campaign';
+
+  let id = base;
+  for (let suffix = 2; used.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Copy a campaign as the starting point for the next one
+ * The copy keeps every model entry and runs for the same number of days,
+ * starting the day after the original ends.
+ * @param campaign - Campaign to copy
+ * @param existingIds - Campaign IDs already in use
+ * @param name - Name of the copy (default: "<name> (copy)")
+ * @returns New campaign
+ */
+export function cloneCampaign(campaign: Campaign, existingIds: Iterable<string>, name?: string): Campaign {
+  const copyName = name?.trim() || `${campaign.name} (copy)`;
+  const duration = Math.round(
+    (Date.parse(`${campaign.endDate}T00:00:00Z`) - Date.parse(`${campaign.startDate}T00:00:00Z`)) / DAY_MS
+  );
+  const startDate = addDays(campaign.endDate, 1);
+
+  return {
+    ...structuredClone(campaign),
+    id: createCampaignId(copyName, existingIds),
+    name: copyName,
+    startDate,
+    endDate: addDays(startDate, duration),
+  };
+}
@@ -0,0 +1,103 @@
+import type { CatalogueIndex, Category, ModelSearchText, ModelSummary, POSMMarker, PosmSize, ProductModel } from '@/types';
+import { getModelMarkers, getPrimaryImage } from '@/utils/modelViews';
+import { convertDimensions } from '@/utils/units';
+
+/**
+ * Distinct non-empty values of a marker field, for the search text
+ */
+function distinctValues(markers: POSMMarker[], value: (marker: POSMMarker) => string | undefined): string[] {
+  return [...new Set(markers.map((marker) => value(marker)?.trim()).filter((text): text is string => Boolean(text)))];
+}
+
+/**
+ * Distinct face sizes of the markers that have dimensions, in cm
+ * @param markers - Markers across all views
+ * @returns Sizes, in marker order
+ */
+export function createPosmSizes(markers: POSMMarker[]): PosmSize[] {
+  const sizes = new Map<string, PosmSize>();
+  markers.forEach((marker) => {
+    if (!marker.info.dimensions) return;
+    const { width, height } = convertDimensions(marker.info.dimensions, 'cm');
+    sizes.set(`${width}x${height}`, { width, height });
+  });
+  return [...sizes.values()];
+}
+
+/**
+ * Collect the model and marker text that search covers beyond names
+ * @param model - Complete model data
+ * @returns Search text; empty fields are omitted
+ */
+export function createModelSearchText(model: ProductModel): ModelSearchText {
+  const markers = getModelMarkers(model);
+  const posmDescriptions = distinctValues(markers, (marker) => marker.info.description);
+  const materials = distinctValues(markers, (marker) => marker.info.materialType);
+  const notes = distinctValues(markers, (marker) => marker.info.notes);
+
+  return {
+    ...(model.description?.trim() ? { description: model.description.trim() } : {}),
+    ...(posmDescriptions.length > 0 ? { posmDescriptions } : {}),
+    ...(materials.length > 0 ? { materials } : {}),
+    ...(notes.length > 0 ? { notes } : {}),
+  };
+}
+
+/**
+ * Create the catalogue index entry for a model
+ * @param model - Complete model data
+ * @param dataUrl - URL the model file is served from
+ * @param thumbnailUrl - Thumbnail URL (defaults to the primary view image)
+ * @returns Model summary
+ */
+export function createModelSummary(
+  model: ProductModel,
+  dataUrl: string,
+  thumbnailUrl: string = getPrimaryImage(model).url
+): ModelSummary {
+  const markers = getModelMarkers(model);
+  return {
+    id: model.id,
+    name: model.name,
+    code: model.code,
+    thumbnailUrl,
+    categoryIds: model.categoryIds,
+    posmCount: markers.length,
+    viewCount: model.views.length,
+    posmNames: [...new Set(markers.map((marker) => marker.info.name))],
+    searchText: createModelSearchText(model),
+    posmSizes: createPosmSizes(markers),
+    updatedAt: model.metadata.updatedAt,
+    dataUrl,
+  };
+}
+
+/**
+ * Build a catalogue index from complete models
+ * Only categories used by at least one model are listed
+ * @param models - Models to index
+ * @param categories - Category registry
+ * @param dataUrlFor - Maps a model to the URL its file is served from
+ * @returns Catalogue index
+ */
+export function buildCatalogueIndexFromModels(
+  models: ProductModel[],
+  categories: Category[],
+  dataUrlFor: (model: ProductModel) => string = (model) => `/data/models/${model.id}.json`
+): CatalogueIndex {
+  const usedCategoryIds = new Set(models.flatMap((model) => model.categoryIds));
+  const lastUpdated = models
+    .map((model) => model.metadata.updatedAt)
+    .sort()
+    .at(-1);
+
+  return {
+    version: '1.0.0',
+    lastUpdated: lastUpdated ?? new Date().toISOString(),
+    totalModels: models.length,
+    categories: categories.filter((category) => usedCategoryIds.has(category.id)),
+    models: [...models]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((model) => createModelSummary(model, dataUrlFor(model))),
+  };
+}
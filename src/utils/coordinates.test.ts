@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { PolygonShape, RectShape } from '@/types';
+import {
+  clampCoordinates,
+  getShapeBounds,
+  getShapeCenter,
+  rectFromCorners,
+  translateShape,
+  validateCoordinates,
+} from '@/utils/coordinates';
+
+const rect = (x: number, y: number, width: number, height: number): RectShape => ({ type: 'rect', x, y, width, height });
+
+// Seeded pseudo-random rectangles, so float rounding at the edges gets exercised
+function randomRects(count: number): RectShape[] {
+  let seed = 1;
+  const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  return Array.from({ length: count }, () => rect(next() * 50, next() * 50, next() * 50, next() * 50));
+}
+
+describe('validateCoordinates', () => {
+  it('requires rectangles to have a size and fit inside the image', () => {
+    expect(validateCoordinates(rect(10, 10, 90, 90))).toBe(true);
+    expect(validateCoordinates(rect(10, 10, 0, 5))).toBe(false);
+    expect(validateCoordinates(rect(20, 10, 81, 5))).toBe(false);
+  });
+
+  it('requires polygons to have three vertices inside the image', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 50, y: 100 },
+    ];
+    expect(validateCoordinates({ type: 'polygon', points })).toBe(true);
+    expect(validateCoordinates({ type: 'polygon', points: points.slice(0, 2) })).toBe(false);
+    expect(validateCoordinates({ type: 'polygon', points: [...points, { x: -1, y: 5 }] })).toBe(false);
+  });
+});
+
+describe('clampCoordinates', () => {
+  it('clamps points to the image', () => {
+    expect(clampCoordinates({ x: -5, y: 120 })).toEqual({ x: 0, y: 100 });
+  });
+
+  it('shifts rectangles back inside without resizing them', () => {
+    expect(clampCoordinates(rect(95, -3, 10, 20))).toEqual(rect(90, 0, 10, 20));
+    expect(clampCoordinates(rect(5, 5, 150, 20))).toEqual(rect(0, 5, 100, 20));
+  });
+
+  it('keeps rectangles snapped to the far edge valid', () => {
+    for (const shape of randomRects(1000)) {
+      const clamped = clampCoordinates({ ...shape, x: 100, y: 100 });
+
+      expect(clamped.width).toBe(shape.width);
+      expect(validateCoordinates(clamped)).toBe(true);
+    }
+  });
+});
+
+describe('rectFromCorners', () => {
+  it('normalizes the corners and clamps them to the image', () => {
+    expect(rectFromCorners({ x: 60, y: 80 }, { x: 20, y: 110 })).toEqual(rect(20, 80, 40, 20));
+  });
+
+  it('stays valid when dragged past the far edge', () => {
+    for (const shape of randomRects(1000)) {
+      expect(validateCoordinates(rectFromCorners(shape, { x: 130, y: 130 }))).toBe(true);
+    }
+  });
+});
+
+describe('translateShape', () => {
+  const triangle: PolygonShape = {
+    type: 'polygon',
+    points: [
+      { x: 10, y: 10 },
+      { x: 30, y: 10 },
+      { x: 20, y: 40 },
+    ],
+  };
+
+  it('moves shapes by the offset', () => {
+    expect(translateShape(rect(10, 10, 20, 20), 5, -5)).toEqual(rect(15, 5, 20, 20));
+    expect(getShapeBounds(translateShape(triangle, 10, 10))).toEqual(rect(20, 20, 20, 30));
+  });
+
+  it('stops shapes at the image edge without resizing them', () => {
+    expect(translateShape(rect(10, 10, 20, 20), -50, 500)).toEqual(rect(0, 80, 20, 20));
+    expect(getShapeCenter(translateShape(triangle, -50, 0))).toEqual({ x: 10, y: 20 });
+  });
+
+  it('keeps rectangles dragged against the far edge valid', () => {
+    for (const shape of randomRects(1000)) {
+      const moved = translateShape(shape, 200, 200);
+
+      expect(moved.width).toBe(shape.width);
+      expect(validateCoordinates(moved)).toBe(true);
+    }
+  });
+});
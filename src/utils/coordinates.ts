@@ -1,4 +1,4 @@
-import type { Coordinates } from '@/types';
+import type { Coordinates, MarkerShape, MarkerShapeType, POSMMarker, RectShape } from '@/types';
 
 /**
  * Convert percentage coordinates to pixel coordinates
@@ -21,12 +21,34 @@ export function pixelsToPercent(pixels: number, dimension: number): number {
   return (pixels / dimension) * 100;
 }
 
+// Smallest region side, in percent, so a drawn or resized shape stays visible
+export const MIN_SHAPE_SIZE = 1;
+
+function clampPercent(value: number, max: number = 100): number {
+  return Math.max(0, Math.min(max, value));
+}
+
 /**
- * Validate that coordinates are within valid bounds (0-100%)
- * @param coordinates - Coordinates to validate
+ * Validate that coordinates or a marker shape are within valid bounds (0-100%)
+ * Rectangles must have a positive size and fit inside the image; polygons
+ * need at least 3 vertices.
+ * @param coordinates - Coordinates or shape to validate
  * @returns True if valid, false otherwise
  */
-export function validateCoordinates(coordinates: Coordinates): boolean {
+export function validateCoordinates(coordinates: Coordinates | MarkerShape): boolean {
+  if ('type' in coordinates) {
+    if (coordinates.type === 'rect') {
+      const { x, y, width, height } = coordinates;
+      return (
+        width > 0 &&
+        height > 0 &&
+        validateCoordinates({ x, y }) &&
+        validateCoordinates({ x: x + width, y: y + height })
+      );
+    }
+    return coordinates.points.length >= 3 && coordinates.points.every((point) => validateCoordinates(point));
+  }
+
   return (
     coordinates.x >= 0 &&
     coordinates.x <= 100 &&
@@ -36,17 +58,146 @@ export function validateCoordinates(coordinates: Coordinates): boolean {
 }
 
 /**
- * Clamp coordinates to valid bounds (0-100%)
- * @param coordinates - Coordinates to clamp
- * @returns Clamped coordinates
+ * Clamp coordinates or a marker shape to valid bounds (0-100%)
+ * Rectangles keep their size where possible and are shifted back inside
+ * the image; polygon vertices are clamped one by one.
+ * @param coordinates - Coordinates or shape to clamp
+ * @returns Clamped copy of the same kind
+ */
+export function clampCoordinates<T extends MarkerShape>(shape: T): T;
+export function clampCoordinates(coordinates: Coordinates): Coordinates;
+export function clampCoordinates(coordinates: Coordinates | MarkerShape): Coordinates | MarkerShape {
+  if ('type' in coordinates) {
+    if (coordinates.type === 'rect') {
+      const width = clampPercent(coordinates.width);
+      const height = clampPercent(coordinates.height);
+      return {
+        ...coordinates,
+        x: clampPercent(coordinates.x, 100 - width),
+        y: clampPercent(coordinates.y, 100 - height),
+        width,
+        height,
+      };
+    }
+    return { ...coordinates, points: coordinates.points.map((point) => clampCoordinates(point)) };
+  }
+
+  return {
+    x: clampPercent(coordinates.x),
+    y: clampPercent(coordinates.y),
+  };
+}
+
+/**
+ * Get the shape type of a marker
+ * @param marker - Marker
+ * @returns 'point' when the marker has no region
+ */
+export function getMarkerShapeType(marker: POSMMarker): MarkerShapeType {
+  return marker.shape?.type ?? 'point';
+}
+
+/**
+ * Axis-aligned bounding box of a shape
+ * @param shape - Rectangle or polygon
+ * @returns Bounding rectangle
+ */
+export function getShapeBounds(shape: MarkerShape): RectShape {
+  if (shape.type === 'rect') return shape;
+
+  const xs = shape.points.map((point) => point.x);
+  const ys = shape.points.map((point) => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { type: 'rect', x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Anchor point of a shape, where its marker badge is drawn
+ * @param shape - Rectangle or polygon
+ * @returns Rectangle center, or the mean of the polygon's vertices
+ */
+export function getShapeCenter(shape: MarkerShape): Coordinates {
+  if (shape.type === 'rect') {
+    return { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 };
+  }
+
+  const count = shape.points.length || 1;
+  return {
+    x: shape.points.reduce((sum, point) => sum + point.x, 0) / count,
+    y: shape.points.reduce((sum, point) => sum + point.y, 0) / count,
+  };
+}
+
+/**
+ * Build a rectangle from two opposite corners, in any order
+ * Used both to draw a new rectangle and to resize one by dragging a corner.
+ * @param from - Fixed corner
+ * @param to - Dragged corner
+ * @returns Normalized rectangle clamped to the image
  */
-export function clampCoordinates(coordinates: Coordinates): Coordinates {
+export function rectFromCorners(from: Coordinates, to: Coordinates): RectShape {
+  const a = clampCoordinates(from);
+  const b = clampCoordinates(to);
   return {
-    x: Math.max(0, Math.min(100, coordinates.x)),
-    y: Math.max(0, Math.min(100, coordinates.y)),
+    type: 'rect',
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
   };
 }
 
+/**
+ * Corners of a rectangle, clockwise from the top left
+ * @param rect - Rectangle
+ * @returns Top-left, top-right, bottom-right and bottom-left corners
+ */
+export function getRectCorners(rect: RectShape): Coordinates[] {
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+  return [
+    { x: rect.x, y: rect.y },
+    { x: right, y: rect.y },
+    { x: right, y: bottom },
+    { x: rect.x, y: bottom },
+  ];
+}
+
+/**
+ * Move a shape without changing its size
+ * The offset is limited so the whole shape stays inside the image.
+ * @param shape - Shape to move
+ * @param dx - Horizontal offset in percent
+ * @param dy - Vertical offset in percent
+ * @returns Moved copy of the shape
+ */
+export function translateShape<T extends MarkerShape>(shape: T, dx: number, dy: number): T {
+  const bounds = getShapeBounds(shape);
+  const offsetX = Math.max(-bounds.x, Math.min(100 - bounds.x - bounds.width, dx));
+  const offsetY = Math.max(-bounds.y, Math.min(100 - bounds.y - bounds.height, dy));
+
+  // Clamp again: x + (100 - x - width) can round to just past the edge
+  if (shape.type === 'rect') {
+    return clampCoordinates({ ...shape, x: shape.x + offsetX, y: shape.y + offsetY });
+  }
+  return {
+    ...shape,
+    points: shape.points.map((point) => clampCoordinates({ x: point.x + offsetX, y: point.y + offsetY })),
+  };
+}
+
+/**
+ * Outline of a shape as an SVG `points` attribute, in percentage units
+ * Meant for an SVG with a `0 0 100 100` viewBox stretched over the image.
+ * @param shape - Rectangle or polygon
+ * @returns Space-separated "x,y" pairs
+ */
+export function shapeToSvgPoints(shape: MarkerShape): string {
+  const points = shape.type === 'rect' ? getRectCorners(shape) : shape.points;
+  return points.map((point) => `${point.x},${point.y}`).join(' ');
+}
+
 /**
  * Calculate absolute position for marker icon (centered on coordinate)
  * @param coordinates - Percentage coordinates
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { Campaign, Dimensions, POSMMarker, PriceTable, ProductModel } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import {
+  estimateCampaignCost,
+  estimateCategoryCosts,
+  estimateMarkerCost,
+  estimateModelCost,
+  formatCost,
+  roundCost,
+  scaleMarkerCost,
+} from '@/utils/costs';
+import catalogueIndex from '../../tests/fixtures/catalogue-index.json';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+
+const table: PriceTable = {
+  currency: 'VND',
+  materials: [
+    { materialType: 'Paper', method: 'per-m2', price: 100000 },
+    { materialType: 'Acrylic', method: 'per-unit', price: 45000 },
+    { materialType: 'Display mould', method: 'fixed', price: 2000000 },
+  ],
+};
+
+const sample = migrateModel(sampleModel).model;
+const [talker, wobbler, priceCard] = sample.views[0].posmMarkers;
+
+const priced = (marker: POSMMarker, materialType?: string, dimensions?: Dimensions): POSMMarker => ({
+  ...marker,
+  info: { ...marker.info, materialType, dimensions },
+});
+
+// 60 × 40 cm paper (0.24 m²), an acrylic holder and a marker without material
+const model: ProductModel = {
+  ...sample,
+  views: [
+    {
+      ...sample.views[0],
+      posmMarkers: [
+        priced(talker, ' paper ', { width: 60, height: 40, unit: 'cm' }),
+        priced(wobbler),
+        priced(priceCard, 'Acrylic'),
+      ],
+    },
+  ],
+};
+
+describe('estimateMarkerCost', () => {
+  it('prices per m² of face area in any unit', () => {
+    expect(estimateMarkerCost(priced(talker, 'Paper', { width: 600, height: 400, unit: 'mm' }), table).cost).toBeCloseTo(
+      24000,
+      6
+    );
+    expect(estimateMarkerCost(priced(talker, 'Paper', { width: 24, height: 12, unit: 'in' }), table).cost).toBeCloseTo(
+      18580.608,
+      6
+    );
+  });
+
+  it('explains why a marker cannot be priced', () => {
+    expect(estimateMarkerCost(priced(talker), table)).toEqual({ cost: null, issue: 'no-material' });
+    expect(estimateMarkerCost(priced(talker, 'Vinyl'), table)).toEqual({ cost: null, issue: 'no-price' });
+    expect(estimateMarkerCost(priced(talker, 'Paper'), table)).toEqual({
+      cost: null,
+      price: table.materials[0],
+      issue: 'no-dimensions',
+    });
+  });
+});
+
+describe('scaleMarkerCost', () => {
+  it('multiplies per-m² and per-unit costs but charges fixed costs once', () => {
+    const paper = estimateMarkerCost(priced(talker, 'Paper', { width: 1, height: 1, unit: 'm' }), table);
+    const acrylic = estimateMarkerCost(priced(talker, 'acrylic'), table);
+    const mould = estimateMarkerCost(priced(talker, 'Display Mould'), table);
+
+    expect(scaleMarkerCost(paper, 12)).toBe(1200000);
+    expect(scaleMarkerCost(acrylic, 12)).toBe(540000);
+    expect(scaleMarkerCost(mould, 12)).toBe(2000000);
+    expect(scaleMarkerCost({ cost: null, issue: 'no-price' }, 12)).toBeNull();
+  });
+});
+
+describe('cost rollups', () => {
+  it('adds up a model and counts unpriced markers', () => {
+    const cost = estimateModelCost(model, table);
+
+    expect(cost).toMatchObject({ modelId: 'model-001', pricedMarkers: 2, unpricedMarkers: 1 });
+    expect(roundCost(cost.total)).toBe(69000);
+  });
+
+  it('counts a model towards each of its categories', () => {
+    const other: ProductModel = { ...model, id: 'model-002', categoryIds: ['retail-fixtures', 'promotional'] };
+    const [fixtures, promotional] = estimateCategoryCosts([model, other], catalogueIndex.categories, table);
+
+    expect(fixtures).toMatchObject({ categoryId: 'retail-fixtures', modelCount: 2, pricedMarkers: 4, unpricedMarkers: 2 });
+    expect(roundCost(fixtures.total)).toBe(138000);
+    expect(promotional).toMatchObject({ modelCount: 1, pricedMarkers: 2 });
+  });
+
+  it('prices the markers a campaign reprints or adds', () => {
+    const campaign: Campaign = {
+      id: 'tet',
+      name: 'Tet 2026',
+      startDate: '2026-01-20',
+      endDate: '2026-02-20',
+      models: [
+        {
+          modelId: 'model-001',
+          markers: [priced({ ...talker, id: 'tet-001' }, 'Display mould')],
+          artworkOverrides: [{ markerId: 'marker-003', artworkUrl: '/images/posm/tet.webp' }],
+        },
+        { modelId: 'model-404', markers: [priced(talker, 'Acrylic')], artworkOverrides: [] },
+      ],
+    };
+
+    expect(estimateCampaignCost(campaign, [model], table)).toEqual({
+      campaignId: 'tet',
+      modelCount: 1,
+      total: 2045000,
+      pricedMarkers: 2,
+      unpricedMarkers: 0,
+    });
+  });
+});
+
+describe('formatCost', () => {
+  it('uses the currency precision', () => {
+    expect(formatCost(1250000, 'VND')).toBe('1,250,000 VND');
+    expect(formatCost(84.5, 'USD')).toBe('84.50 USD');
+  });
+});
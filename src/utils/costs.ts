@@ -0,0 +1,181 @@
+import type {
+  Campaign,
+  CampaignCost,
+  Category,
+  CategoryCost,
+  CostRollup,
+  MarkerCostEstimate,
+  MaterialPrice,
+  ModelCost,
+  POSMMarker,
+  PriceTable,
+  PricingMethod,
+  ProductModel,
+} from '@/types';
+import { getModelMarkers } from '@/utils/modelViews';
+import { calculateArea } from '@/utils/units';
+
+export const PRICING_METHODS: readonly PricingMethod[] = ['per-m2', 'per-unit', 'fixed'];
+
+export const PRICING_METHOD_LABELS: Record<PricingMethod, string> = {
+  'per-m2': 'Per m² of face area',
+  'per-unit': 'Per item',
+  fixed: 'Fixed per design',
+};
+
+export const EMPTY_PRICE_TABLE: PriceTable = { currency: 'VND', materials: [] };
+
+/**
+ * Find the price of a material type
+ * @param table - Price table
+ * @param materialType - Material type as entered on the marker
+ * @returns Matching price (case-insensitive), or undefined if the material is not priced
+ */
+export function findMaterialPrice(table: PriceTable, materialType: string | undefined): MaterialPrice | undefined {
+  const key = materialType?.trim().toLowerCase();
+  if (!key) return undefined;
+  return table.materials.find((material) => material.materialType.trim().toLowerCase() === key);
+}
+
+/**
+ * Estimate what one POSM item costs to produce
+ * Per m² prices use the face area (width × height) in any length unit.
+ * @param marker - Marker to price
+ * @param table - Price table
+ * @returns Cost in the table currency, or null with the reason it could not be priced
+ */
+export function estimateMarkerCost(marker: POSMMarker, table: PriceTable): MarkerCostEstimate {
+  const { materialType, dimensions } = marker.info;
+  if (!materialType?.trim()) return { cost: null, issue: 'no-material' };
+
+  const price = findMaterialPrice(table, materialType);
+  if (!price) return { cost: null, issue: 'no-price' };
+
+  if (price.method === 'per-m2') {
+    if (!dimensions) return { cost: null, price, issue: 'no-dimensions' };
+    return { cost: price.price * calculateArea(dimensions, 'm'), price };
+  }
+  return { cost: price.price, price };
+}
+
+/**
+ * Cost of a marker's item when it is produced several times, e.g. once per store
+ * Fixed prices are charged once per design however many items are made.
+ * @param estimate - Estimate for one item
+ * @param quantity - Items produced
+ * @returns Total cost, or null if the marker could not be priced
+ */
+export function scaleMarkerCost(estimate: MarkerCostEstimate, quantity: number): number | null {
+  if (estimate.cost === null) return null;
+  return estimate.price?.method === 'fixed' ? estimate.cost : estimate.cost * quantity;
+}
+
+/**
+ * Add up the cost of a set of markers
+ * @param markers - Markers to price
+ * @param table - Price table
+ * @returns Total of the priced markers and how many could not be priced
+ */
+export function sumMarkerCosts(markers: POSMMarker[], table: PriceTable): CostRollup {
+  return markers.reduce<CostRollup>(
+    (rollup, marker) => {
+      const { cost } = estimateMarkerCost(marker, table);
+      return cost === null
+        ? { ...rollup, unpricedMarkers: rollup.unpricedMarkers + 1 }
+        : { ...rollup, total: rollup.total + cost, pricedMarkers: rollup.pricedMarkers + 1 };
+    },
+    { total: 0, pricedMarkers: 0, unpricedMarkers: 0 }
+  );
+}
+
+/**
+ * Estimated cost to dress one display of a model, across all its views
+ * @param model - Model
+ * @param table - Price table
+ * @returns Cost rollup for the model
+ */
+export function estimateModelCost(model: ProductModel, table: PriceTable): ModelCost {
+  return { modelId: model.id, ...sumMarkerCosts(getModelMarkers(model), table) };
+}
+
+/**
+ * Estimated cost per category
+ * A model in several categories counts towards each of them.
+ * @param models - Models to include
+ * @param categories - Categories to report, in order
+ * @param table - Price table
+ * @returns One rollup per category, including categories without models
+ */
+export function estimateCategoryCosts(models: ProductModel[], categories: Category[], table: PriceTable): CategoryCost[] {
+  const modelCosts = new Map(models.map((model) => [model.id, estimateModelCost(model, table)]));
+
+  return categories.map((category) => {
+    const inCategory = models.filter((model) => model.categoryIds.includes(category.id));
+    return inCategory.reduce<CategoryCost>(
+      (rollup, model) => {
+        const cost = modelCosts.get(model.id)!;
+        return {
+          ...rollup,
+          total: rollup.total + cost.total,
+          pricedMarkers: rollup.pricedMarkers + cost.pricedMarkers,
+          unpricedMarkers: rollup.unpricedMarkers + cost.unpricedMarkers,
+        };
+      },
+      { categoryId: category.id, modelCount: inCategory.length, total: 0, pricedMarkers: 0, unpricedMarkers: 0 }
+    );
+  });
+}
+
+/**
+ * Estimated cost of producing a campaign's POSM for one display of each model
+ * Counts the items the campaign changes: markers whose artwork it replaces
+ * (they are reprinted) and the extra markers it adds.
+ * @param campaign - Campaign
+ * @param models - Published models; campaign entries for other models are skipped
+ * @param table - Price table
+ * @returns Cost rollup for the campaign
+ */
+export function estimateCampaignCost(campaign: Campaign, models: ProductModel[], table: PriceTable): CampaignCost {
+  const byId = new Map(models.map((model) => [model.id, model]));
+  const entries = campaign.models.filter((entry) => byId.has(entry.modelId));
+
+  const markers = entries.flatMap((entry) => {
+    const overridden = new Set(entry.artworkOverrides.map((override) => override.markerId));
+    const reprinted = getModelMarkers(byId.get(entry.modelId)!).filter((marker) => overridden.has(marker.id));
+    return [...reprinted, ...entry.markers];
+  });
+
+  return { campaignId: campaign.id, modelCount: entries.length, ...sumMarkerCosts(markers, table) };
+}
+
+/**
+ * Round a cost for reports (2 decimals)
+ * @param cost - Cost
+ * @returns Rounded cost
+ */
+export function roundCost(cost: number): number {
+  return Math.round(cost * 100) / 100;
+}
+
+/**
+ * Decimal places a currency is shown with (0 for VND, 2 for USD)
+ */
+function getCurrencyDecimals(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Format a cost with its currency code, e.g. "1,250,000 VND" or "84.50 USD"
+ * Plain ASCII, so it also prints with the standard PDF fonts.
+ * @param cost - Cost
+ * @param currency - ISO 4217 currency code
+ * @returns Formatted cost
+ */
+export function formatCost(cost: number, currency: string): string {
+  const decimals = getCurrencyDecimals(currency);
+  return `${cost.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })} ${currency}`;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductModel } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import { escapeCsvValue, generateCSV } from '@/utils/jsonExport';
+import { detectCsvDelimiter, parseCsv } from '@/utils/csv';
+import catalogueIndex from '../../tests/fixtures/catalogue-index.json';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+import emptyModel from '../../tests/fixtures/empty-model.json';
+
+const [model, empty]: ProductModel[] = [sampleModel, emptyModel].map((data) => migrateModel(data).model);
+
+describe('escapeCsvValue', () => {
+  it('quotes only fields that need it', () => {
+    expect(escapeCsvValue('plain')).toBe('plain');
+    expect(escapeCsvValue(42)).toBe('42');
+    expect(escapeCsvValue(undefined)).toBe('');
+    expect(escapeCsvValue('a, b')).toBe('"a, b"');
+    expect(escapeCsvValue('12" poster')).toBe('"12"" poster"');
+    expect(escapeCsvValue('line 1\nline 2')).toBe('"line 1\nline 2"');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const fields = ['plain', 'a, b', '12" poster', 'line 1\r\nline 2', '', 'Kệ trưng bày'];
+
+    expect(parseCsv(fields.map(escapeCsvValue).join(','))).toEqual([fields]);
+  });
+});
+
+describe('generateCSV', () => {
+  // Quotes, commas and line breaks in a model and a marker field
+  const [view] = model.views;
+  const tricky: ProductModel = {
+    ...model,
+    name: 'Shelf "A", deluxe',
+    views: [
+      {
+        ...view,
+        posmMarkers: view.posmMarkers.map((marker, index) =>
+          index === 0 ? { ...marker, info: { ...marker.info, description: 'First line\r\nSecond, "quoted" line' } } : marker
+        ),
+      },
+    ],
+  };
+
+  it('writes one row per marker that parses back to the same values', () => {
+    const csv = generateCSV([tricky, empty], catalogueIndex.categories, { granularity: 'marker' });
+    const [header, ...rows] = parseCsv(csv);
+    const column = (name: string) => header.indexOf(name);
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(rows).toHaveLength(4);
+    expect(rows.map((row) => row[column('Model ID')])).toEqual(['model-001', 'model-001', 'model-001', 'model-003']);
+    expect(rows[0][column('Model Name')]).toBe('Shelf "A", deluxe');
+    expect(rows[0][column('Description')]).toBe('First line\r\nSecond, "quoted" line');
+    expect(rows[1][column('Marker ID')]).toBe('marker-002');
+    expect(rows[3][column('Marker ID')]).toBe('');
+  });
+
+  it('writes the chosen columns at model granularity', () => {
+    const csv = generateCSV([tricky, empty], catalogueIndex.categories, {
+      granularity: 'model',
+      columns: ['modelId', 'modelName'],
+      includeBom: false,
+    });
+
+    expect(detectCsvDelimiter(csv)).toBe(',');
+    expect(parseCsv(csv)).toEqual([
+      ['Model ID', 'Model Name'],
+      ['model-001', 'Shelf "A", deluxe'],
+      ['model-003', 'Empty Display Model'],
+    ]);
+  });
+
+  it('rejects an empty column selection', () => {
+    expect(() => generateCSV([model], [], { granularity: 'model', columns: [] })).toThrow(
+      'Select at least one column to export'
+    );
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads semicolon files and LF line endings', () => {
+    const text = 'code;name\nS-001;"Store; Main"\n\n';
+
+    expect(detectCsvDelimiter(text)).toBe(';');
+    expect(parseCsv(text, ';')).toEqual([
+      ['code', 'name'],
+      ['S-001', 'Store; Main'],
+    ]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('a,"b')).toThrow('Unterminated quoted field in CSV');
+  });
+});
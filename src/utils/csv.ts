@@ -0,0 +1,68 @@
+/**
+ * Parse CSV text into rows of fields per RFC 4180
+ * Accepts CRLF or LF line endings, quoted fields with embedded commas, quotes
+ * and line breaks, and a leading UTF-8 byte order mark (as written by Excel
+ * and by generateCSV). Blank lines are skipped.
+ * @param text - CSV text
+ * @param delimiter - Field separator (default: comma)
+ * @returns Rows of raw field values
+ * @throws Error if a quoted field is not closed
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Guess the field separator of a CSV file from its header line
+ * Spreadsheets in locales with a decimal comma save CSV with semicolons.
+ * @param text - CSV text
+ * @returns ';' when the header has more semicolons than commas, otherwise ','
+ */
+export function detectCsvDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  const count = (char: string) => header.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
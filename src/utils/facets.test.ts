@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { Campaign, FacetFilters, ModelSummary } from '@/types';
+import {
+  countActiveFacets,
+  EMPTY_FACET_FILTERS,
+  filterModelsByFacets,
+  getFacetCounts,
+  parseFacetParams,
+  setFacetParams,
+} from '@/utils/facets';
+import catalogueIndex from '../../tests/fixtures/catalogue-index.json';
+
+const now = new Date('2025-11-01T00:00:00Z');
+
+const models: ModelSummary[] = catalogueIndex.models.map((model, index) => ({
+  ...model,
+  searchText: { materials: [['Paper', 'PVC'], ['pvc'], []][index] },
+  posmSizes: [[{ width: 60, height: 40 }], [{ width: 20, height: 120 }], []][index],
+  updatedAt: ['2025-10-30T00:00:00Z', '2025-06-01T00:00:00Z', undefined][index],
+}));
+
+const campaigns: Campaign[] = [
+  {
+    id: 'tet',
+    name: 'Tet 2026',
+    startDate: '2026-01-20',
+    endDate: '2026-02-20',
+    models: [{ modelId: 'model-002', markers: [], artworkOverrides: [] }],
+  },
+];
+
+const filters = (changes: Partial<FacetFilters>): FacetFilters => ({ ...EMPTY_FACET_FILTERS, ...changes });
+const ids = (value: FacetFilters) => filterModelsByFacets(models, value, campaigns, now).map((model) => model.id);
+
+describe('facet URL parameters', () => {
+  it('round-trips every facet', () => {
+    const value = filters({
+      categoryIds: ['retail-fixtures', 'promotional'],
+      categoryMode: 'all',
+      materials: ['Paper, A4', 'PVC'],
+      posmCount: { min: 2 },
+      width: { min: 10, max: 60.5 },
+      height: { max: 100 },
+      campaignIds: ['tet'],
+      updatedWithin: '30d',
+    });
+    const params = new URLSearchParams({ search: 'display' });
+    setFacetParams(params, value);
+
+    expect(params.toString()).toBe(
+      'search=display&categories=retail-fixtures%2Cpromotional&categoryMode=all&material=Paper%2C+A4&material=PVC' +
+        '&posm=2-&width=10-60.5&height=-100&campaigns=tet&updated=30d'
+    );
+    expect(parseFacetParams(new URLSearchParams(params.toString()))).toEqual(value);
+  });
+
+  it('leaves inactive facets out', () => {
+    const params = new URLSearchParams();
+    setFacetParams(params, filters({ categoryMode: 'all' }));
+
+    expect(params.toString()).toBe('');
+    expect(parseFacetParams(params)).toEqual(EMPTY_FACET_FILTERS);
+  });
+
+  it('ignores malformed values', () => {
+    expect(parseFacetParams(new URLSearchParams('posm=lots&width=5-x&updated=2d&categoryMode=some'))).toEqual(
+      EMPTY_FACET_FILTERS
+    );
+  });
+});
+
+describe('countActiveFacets', () => {
+  it('counts width and height as one size facet', () => {
+    expect(countActiveFacets(filters({ width: { min: 1 }, height: { max: 2 }, materials: ['PVC'] }))).toBe(2);
+  });
+});
+
+describe('filterModelsByFacets', () => {
+  it('matches any or all selected categories', () => {
+    expect(ids(filters({ categoryIds: ['retail-fixtures', 'promotional'] }))).toEqual([
+      'model-001',
+      'model-002',
+      'model-003',
+    ]);
+    expect(ids(filters({ categoryIds: ['retail-fixtures', 'promotional'], categoryMode: 'all' }))).toEqual([
+      'model-002',
+    ]);
+  });
+
+  it('filters by material, size, campaign and last update', () => {
+    expect(ids(filters({ materials: ['PVC'] }))).toEqual(['model-001', 'model-002']);
+    expect(ids(filters({ width: { min: 50 }, height: { max: 50 } }))).toEqual(['model-001']);
+    expect(ids(filters({ width: { max: 30 }, height: { max: 50 } }))).toEqual([]);
+    expect(ids(filters({ campaignIds: ['tet'] }))).toEqual(['model-002']);
+    expect(ids(filters({ updatedWithin: '7d' }))).toEqual(['model-001']);
+  });
+});
+
+describe('getFacetCounts', () => {
+  it('counts each facet against the other facets', () => {
+    const counts = getFacetCounts(
+      models,
+      filters({ materials: ['PVC'], updatedWithin: '7d' }),
+      catalogueIndex.categories,
+      campaigns,
+      ['Paper', 'PVC'],
+      now
+    );
+
+    expect(counts.materials).toEqual({ Paper: 1, PVC: 1 });
+    expect(counts.updatedWithin).toEqual({ '7d': 1, '30d': 1, '90d': 1, '365d': 2 });
+    expect(counts.categories).toEqual({ 'retail-fixtures': 1, promotional: 0 });
+    expect(counts.posmCount).toEqual({ min: 3, max: 3 });
+  });
+
+  it('requires the chosen categories in all mode', () => {
+    const counts = getFacetCounts(
+      models,
+      filters({ categoryIds: ['promotional'], categoryMode: 'all' }),
+      catalogueIndex.categories,
+      campaigns,
+      [],
+      now
+    );
+
+    expect(counts.categories).toEqual({ 'retail-fixtures': 1, promotional: 1 });
+    expect(counts.width).toEqual({ min: 20, max: 20 });
+  });
+});
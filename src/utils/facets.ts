@@ -0,0 +1,296 @@
+import type {
+  Campaign,
+  Category,
+  FacetCounts,
+  FacetFilters,
+  FacetMatchMode,
+  ModelSummary,
+  NumberRange,
+  UpdatedWithin,
+} from '@/types';
+
+export const EMPTY_FACET_FILTERS: FacetFilters = {
+  categoryIds: [],
+  categoryMode: 'any',
+  materials: [],
+  posmCount: {},
+  width: {},
+  height: {},
+  campaignIds: [],
+};
+
+export const UPDATED_WITHIN_OPTIONS: readonly UpdatedWithin[] = ['7d', '30d', '90d', '365d'];
+
+export const UPDATED_WITHIN_LABELS: Record<UpdatedWithin, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '365d': 'Last year',
+};
+
+const UPDATED_WITHIN_DAYS: Record<UpdatedWithin, number> = { '7d': 7, '30d': 30, '90d': 90, '365d': 365 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// URL parameter names; categories keeps its original comma-separated form
+const PARAMS = {
+  categories: 'categories',
+  categoryMode: 'categoryMode',
+  material: 'material', // Repeated, as material names may contain commas
+  posm: 'posm',
+  width: 'width',
+  height: 'height',
+  campaigns: 'campaigns',
+  updated: 'updated',
+} as const;
+
+type FacetKey = 'categories' | 'materials' | 'posmCount' | 'size' | 'campaigns' | 'updatedWithin';
+
+interface FacetContext {
+  campaignModelIds: Map<string, Set<string>>;
+  now: number;
+}
+
+/**
+ * Parse a range written as "min-max", "min-" or "-max"
+ */
+function parseRange(value: string | null): NumberRange {
+  const match = value ? /^(\d+(?:\.\d+)?)?-(\d+(?:\.\d+)?)?$/.exec(value) : null;
+  if (!match) return {};
+  return {
+    ...(match[1] !== undefined ? { min: Number(match[1]) } : {}),
+    ...(match[2] !== undefined ? { max: Number(match[2]) } : {}),
+  };
+}
+
+/**
+ * Write a range as "min-max", or null when it is open on both ends
+ */
+function formatRange(range: NumberRange): string | null {
+  if (range.min === undefined && range.max === undefined) return null;
+  return `${range.min ?? ''}-${range.max ?? ''}`;
+}
+
+function isUpdatedWithin(value: string | null): value is UpdatedWithin {
+  return UPDATED_WITHIN_OPTIONS.includes(value as UpdatedWithin);
+}
+
+/**
+ * Read facet filters from URL parameters
+ * Unknown or malformed values are ignored.
+ * @param params - Page URL parameters
+ * @returns Facet filters
+ */
+export function parseFacetParams(params: URLSearchParams): FacetFilters {
+  const list = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+  const updated = params.get(PARAMS.updated);
+
+  return {
+    categoryIds: list(params.get(PARAMS.categories)),
+    categoryMode: params.get(PARAMS.categoryMode) === 'all' ? 'all' : 'any',
+    materials: params.getAll(PARAMS.material).filter(Boolean),
+    posmCount: parseRange(params.get(PARAMS.posm)),
+    width: parseRange(params.get(PARAMS.width)),
+    height: parseRange(params.get(PARAMS.height)),
+    campaignIds: list(params.get(PARAMS.campaigns)),
+    ...(isUpdatedWithin(updated) ? { updatedWithin: updated } : {}),
+  };
+}
+
+/**
+ * Write facet filters to URL parameters; inactive facets are left out
+ * @param params - Parameters to add to
+ * @param filters - Facet filters
+ */
+export function setFacetParams(params: URLSearchParams, filters: FacetFilters): void {
+  if (filters.categoryIds.length > 0) {
+    params.set(PARAMS.categories, filters.categoryIds.join(','));
+    if (filters.categoryMode === 'all') params.set(PARAMS.categoryMode, 'all');
+  }
+  filters.materials.forEach((material) => params.append(PARAMS.material, material));
+
+  const ranges: [string, NumberRange][] = [
+    [PARAMS.posm, filters.posmCount],
+    [PARAMS.width, filters.width],
+    [PARAMS.height, filters.height],
+  ];
+  ranges.forEach(([name, range]) => {
+    const value = formatRange(range);
+    if (value) params.set(name, value);
+  });
+
+  if (filters.campaignIds.length > 0) params.set(PARAMS.campaigns, filters.campaignIds.join(','));
+  if (filters.updatedWithin) params.set(PARAMS.updated, filters.updatedWithin);
+}
+
+/**
+ * Number of facets with a selection
+ * @param filters - Facet filters
+ * @returns Active facet count (width and height count as one size facet)
+ */
+export function countActiveFacets(filters: FacetFilters): number {
+  const isSet = (range: NumberRange) => range.min !== undefined || range.max !== undefined;
+  return [
+    filters.categoryIds.length > 0,
+    filters.materials.length > 0,
+    isSet(filters.posmCount),
+    isSet(filters.width) || isSet(filters.height),
+    filters.campaignIds.length > 0,
+    filters.updatedWithin !== undefined,
+  ].filter(Boolean).length;
+}
+
+function inRange(value: number, range: NumberRange): boolean {
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+function matchesCategories(model: ModelSummary, categoryIds: string[], mode: FacetMatchMode): boolean {
+  if (categoryIds.length === 0) return true;
+  return mode === 'all'
+    ? categoryIds.every((id) => model.categoryIds.includes(id))
+    : categoryIds.some((id) => model.categoryIds.includes(id));
+}
+
+function matchesMaterials(model: ModelSummary, materials: string[]): boolean {
+  if (materials.length === 0) return true;
+  const wanted = new Set(materials.map((material) => material.trim().toLowerCase()));
+  return (model.searchText?.materials ?? []).some((material) => wanted.has(material.trim().toLowerCase()));
+}
+
+function matchesSize(model: ModelSummary, width: NumberRange, height: NumberRange): boolean {
+  if (formatRange(width) === null && formatRange(height) === null) return true;
+  // Width and height must fit the same item
+  return (model.posmSizes ?? []).some((size) => inRange(size.width, width) && inRange(size.height, height));
+}
+
+function matchesCampaigns(model: ModelSummary, campaignIds: string[], context: FacetContext): boolean {
+  if (campaignIds.length === 0) return true;
+  return campaignIds.some((id) => context.campaignModelIds.get(id)?.has(model.id));
+}
+
+function matchesUpdatedWithin(model: ModelSummary, updatedWithin: UpdatedWithin | undefined, context: FacetContext): boolean {
+  if (!updatedWithin) return true;
+  const updatedAt = model.updatedAt ? Date.parse(model.updatedAt) : NaN;
+  return !Number.isNaN(updatedAt) && context.now - updatedAt <= UPDATED_WITHIN_DAYS[updatedWithin] * DAY_MS;
+}
+
+/**
+ * Whether a model passes every facet, optionally ignoring one
+ */
+function matchesFacets(model: ModelSummary, filters: FacetFilters, context: FacetContext, except?: FacetKey): boolean {
+  return (
+    (except === 'categories' || matchesCategories(model, filters.categoryIds, filters.categoryMode)) &&
+    (except === 'materials' || matchesMaterials(model, filters.materials)) &&
+    (except === 'posmCount' || inRange(model.posmCount, filters.posmCount)) &&
+    (except === 'size' || matchesSize(model, filters.width, filters.height)) &&
+    (except === 'campaigns' || matchesCampaigns(model, filters.campaignIds, context)) &&
+    (except === 'updatedWithin' || matchesUpdatedWithin(model, filters.updatedWithin, context))
+  );
+}
+
+function createContext(campaigns: Campaign[], now: Date): FacetContext {
+  return {
+    campaignModelIds: new Map(
+      campaigns.map((campaign) => [campaign.id, new Set(campaign.models.map((entry) => entry.modelId))])
+    ),
+    now: now.getTime(),
+  };
+}
+
+/**
+ * Filter models by facets
+ * @param models - Models to filter, e.g. search results
+ * @param filters - Facet filters
+ * @param campaigns - Campaigns, for the campaign facet
+ * @param now - Reference time for the last-updated facet
+ * @returns Models passing every facet, in their original order
+ */
+export function filterModelsByFacets(
+  models: ModelSummary[],
+  filters: FacetFilters,
+  campaigns: Campaign[],
+  now: Date = new Date()
+): ModelSummary[] {
+  const context = createContext(campaigns, now);
+  return models.filter((model) => matchesFacets(model, filters, context));
+}
+
+/**
+ * Distinct material types used by the models, ignoring case
+ * @param models - Models
+ * @returns Material types as first written, sorted
+ */
+export function getMaterialValues(models: ModelSummary[]): string[] {
+  const materials = new Map<string, string>();
+  models.forEach((model) =>
+    (model.searchText?.materials ?? []).forEach((material) => {
+      const key = material.trim().toLowerCase();
+      if (key && !materials.has(key)) materials.set(key, material.trim());
+    })
+  );
+  return [...materials.values()].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Smallest and largest of a set of numbers, or an open range if there are none
+ */
+function getBounds(values: number[]): NumberRange {
+  return values.length > 0 ? { min: Math.min(...values), max: Math.max(...values) } : {};
+}
+
+/**
+ * Live counts for every facet value
+ * Each facet is counted against the models passing all the other facets, so
+ * a count is what choosing that value would show. In 'all' mode a category
+ * count also requires the categories already chosen.
+ * @param models - Models to count, e.g. search results
+ * @param filters - Current facet filters
+ * @param categories - Categories to count
+ * @param campaigns - Campaigns to count
+ * @param materials - Material types to count
+ * @param now - Reference time for the last-updated facet
+ * @returns Counts per value, and the ranges available for range facets
+ */
+export function getFacetCounts(
+  models: ModelSummary[],
+  filters: FacetFilters,
+  categories: Category[],
+  campaigns: Campaign[],
+  materials: string[],
+  now: Date = new Date()
+): FacetCounts {
+  const context = createContext(campaigns, now);
+  const passing = (except: FacetKey) => models.filter((model) => matchesFacets(model, filters, context, except));
+  const countBy = <T extends string>(
+    keys: readonly T[],
+    candidates: ModelSummary[],
+    matches: (model: ModelSummary, key: T) => boolean
+  ) =>
+    Object.fromEntries(
+      keys.map((key) => [key, candidates.filter((model) => matches(model, key)).length])
+    ) as Record<T, number>;
+
+  const categoryCandidates = passing('categories');
+  const sizeCandidates = passing('size');
+
+  return {
+    categories: countBy(
+      categories.map((category) => category.id),
+      categoryCandidates,
+      (model, id) =>
+        model.categoryIds.includes(id) &&
+        (filters.categoryMode === 'any' || matchesCategories(model, filters.categoryIds, 'all'))
+    ),
+    materials: countBy(materials, passing('materials'), (model, material) => matchesMaterials(model, [material])),
+    campaigns: countBy(
+      campaigns.map((campaign) => campaign.id),
+      passing('campaigns'),
+      (model, id) => matchesCampaigns(model, [id], context)
+    ),
+    updatedWithin: countBy(UPDATED_WITHIN_OPTIONS, passing('updatedWithin'), (model, option) =>
+      matchesUpdatedWithin(model, option, context)
+    ),
+    posmCount: getBounds(passing('posmCount').map((model) => model.posmCount)),
+    width: getBounds(sizeCandidates.flatMap((model) => (model.posmSizes ?? []).map((size) => size.width))),
+    height: getBounds(sizeCandidates.flatMap((model) => (model.posmSizes ?? []).map((size) => size.height))),
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { POSMInformation, ProductModel } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import { calculateBillOfMaterials, generateBomCSV } from '@/utils/jsonExport';
+import { parseCsv } from '@/utils/csv';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+
+/**
+ * The sample fixture with its markers replaced
+ */
+function createModel(id: string, markers: Partial<POSMInformation>[]): ProductModel {
+  const { model } = migrateModel({ ...sampleModel, id });
+  return {
+    ...model,
+    views: [
+      {
+        ...model.views[0],
+        posmMarkers: markers.map((info, index) => ({
+          id: `${id}-marker-${index + 1}`,
+          position: { x: 50, y: 50 },
+          info: { name: `Item ${index + 1}`, description: '', ...info },
+        })),
+      },
+    ],
+  };
+}
+
+const modelA = createModel('model-a', [
+  {
+    name: 'Poster A',
+    materialType: 'Paper',
+    dimensions: { width: 600, height: 400, unit: 'mm' },
+    artworkUrl: '/images/posm/poster.webp',
+  },
+  { name: 'Wobbler', materialType: 'PVC', artworkUrl: '/images/posm/wobbler.webp' },
+]);
+const modelB = createModel('model-b', [
+  {
+    name: 'Poster B',
+    materialType: ' paper ',
+    dimensions: { width: 60, height: 40, unit: 'cm' },
+    artworkUrl: '/images/posm/poster.webp',
+  },
+]);
+
+describe('calculateBillOfMaterials', () => {
+  it('groups the same material and size across units', () => {
+    const bill = calculateBillOfMaterials([modelA, modelB]);
+
+    expect(bill.lines).toHaveLength(2);
+    const [paper, pvc] = bill.lines;
+    expect(paper).toMatchObject({
+      materialType: 'Paper',
+      dimensions: { width: 60, height: 40, unit: 'cm' },
+      quantity: 2,
+      markerNames: ['Poster A', 'Poster B'],
+      modelIds: ['model-a', 'model-b'],
+    });
+    expect(pvc).toMatchObject({ materialType: 'PVC', quantity: 1, itemAreaM2: null, totalAreaM2: null });
+    expect(bill.totalQuantity).toBe(3);
+    expect(bill.modelCount).toBe(2);
+    expect(bill.multipliedByStores).toBe(false);
+  });
+
+  it('reports item and total area in m²', () => {
+    const bill = calculateBillOfMaterials([modelA, modelB], { unit: 'mm' });
+
+    expect(bill.lines[0].dimensions).toEqual({ width: 600, height: 400, unit: 'mm' });
+    expect(bill.lines[0].itemAreaM2).toBeCloseTo(0.24);
+    expect(bill.lines[0].totalAreaM2).toBeCloseTo(0.48);
+    expect(bill.totalAreaM2).toBeCloseTo(0.48);
+  });
+
+  it('multiplies quantities by store units and skips unassigned models', () => {
+    const bill = calculateBillOfMaterials([modelA, modelB], { storeUnits: { 'model-a': 3, 'model-b': 5 } });
+
+    expect(bill.lines.map((line) => line.quantity)).toEqual([8, 3]);
+    expect(bill.totalQuantity).toBe(11);
+    expect(bill.totalAreaM2).toBeCloseTo(1.92);
+    expect(bill.multipliedByStores).toBe(true);
+
+    const partial = calculateBillOfMaterials([modelA, modelB], { storeUnits: { 'model-a': 2 } });
+    expect(partial.modelCount).toBe(1);
+    expect(partial.lines[0]).toMatchObject({ quantity: 2, modelIds: ['model-a'] });
+  });
+
+  it('lists each artwork with the quantity to print', () => {
+    const bill = calculateBillOfMaterials([modelA, modelB], { storeUnits: { 'model-a': 3, 'model-b': 5 } });
+
+    expect(bill.artworks).toEqual([
+      {
+        artworkUrl: '/images/posm/poster.webp',
+        quantity: 8,
+        markerNames: ['Poster A', 'Poster B'],
+        modelIds: ['model-a', 'model-b'],
+      },
+      { artworkUrl: '/images/posm/wobbler.webp', quantity: 3, markerNames: ['Wobbler'], modelIds: ['model-a'] },
+    ]);
+  });
+
+  it('prices lines with a price table', () => {
+    const bill = calculateBillOfMaterials([modelA, modelB], {
+      priceTable: { currency: 'VND', materials: [{ materialType: 'paper', method: 'per-m2', price: 100000 }] },
+    });
+
+    expect(bill.currency).toBe('VND');
+    expect(bill.lines[0].estimatedCost).toBeCloseTo(48000);
+    expect(bill.lines[1].estimatedCost).toBeNull();
+    expect(bill.estimatedCost).toBeCloseTo(48000);
+  });
+});
+
+describe('generateBomCSV', () => {
+  it('writes one row per line and a total row', () => {
+    const bill = calculateBillOfMaterials([modelA, modelB], { storeUnits: { 'model-a': 3, 'model-b': 5 } });
+    const csv = generateBomCSV(bill, false);
+    const rows = parseCsv(csv);
+
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(rows).toHaveLength(4);
+    expect(rows[0][0]).toBe('Material');
+    expect(rows[1].slice(0, 8)).toEqual(['Paper', '60', '40', '', 'cm', '8', '0.24', '1.92']);
+    expect(rows[3]).toEqual(['Total', '', '', '', '', '11', '', '1.92', '', '', '']);
+  });
+
+  it('adds the estimated cost to the total row of a priced bill', () => {
+    const bill = calculateBillOfMaterials([modelA, modelB], {
+      priceTable: { currency: 'VND', materials: [{ materialType: 'paper', method: 'per-m2', price: 100000 }] },
+    });
+    const rows = parseCsv(generateBomCSV(bill));
+
+    expect(rows[0]).toContain('Estimated Cost (VND)');
+    expect(rows[rows.length - 1]).toEqual(['Total', '', '', '', '', '3', '', '0.48', '48000', '', '', '']);
+  });
+});
@@ -1,4 +1,26 @@
-import type { ProductModel, ExportData, ExportMetadata, Category } from '@/types';
+import type {
+  BillOfMaterials,
+  BomArtwork,
+  BomLine,
+  BomOptions,
+  ProductModel,
+  POSMMarker,
+  ExportCostSummary,
+  ExportData,
+  ExportMetadata,
+  ExportSelection,
+  Category,
+  CsvColumn,
+  CsvExportOptions,
+  CsvGranularity,
+  PriceTable,
+  ValidationResult,
+} from '@/types';
+import { validateExport } from '@/services/validationService';
+import { countModelMarkers, findMarkerView, getModelMarkers } from '@/utils/modelViews';
+import { getMarkerShapeType } from '@/utils/coordinates';
+import { calculateArea, convertDimensions, convertModelDimensions } from '@/utils/units';
+import { estimateMarkerCost, estimateModelCost, roundCost, scaleMarkerCost } from '@/utils/costs';
 
 /**
  * Format JSON with proper indentation
@@ -6,7 +28,7 @@ import type { ProductModel, ExportData, ExportMetadata, Category } from '@/types
  * @param indent - Number of spaces for indentation
  * @returns Formatted JSON string
  */
-export function formatJSON(data: any, indent: number = 2): string {
+export function formatJSON(data: unknown, indent: number = 2): string {
   return JSON.stringify(data, null, indent);
 }
 
@@ -16,13 +38,17 @@ export function formatJSON(data: any, indent: number = 2): string {
  * @param categories - Categories referenced by models
  * @param exportType - 'full' or 'selective'
  * @param notes - Optional export notes
+ * @param selection - How the models were chosen, recorded in the metadata
+ * @param priceTable - Price table to record estimated costs in the metadata with
  * @returns Complete export data object
  */
 export function createExportData(
   models: ProductModel[],
   categories: Category[],
   exportType: 'full' | 'selective',
-  notes?: string
+  notes?: string,
+  selection?: ExportSelection,
+  priceTable?: PriceTable
 ): ExportData {
   const totalMarkers = calculateTotalMarkers(models);
 
@@ -31,6 +57,8 @@ export function createExportData(
     totalMarkers,
     exportedBy: undefined, // TODO: Get from auth session if available
     notes,
+    ...(selection ? { selection } : {}),
+    ...(priceTable ? { costs: summarizeExportCosts(models, priceTable) } : {}),
   };
 
   return {
@@ -43,13 +71,123 @@ export function createExportData(
   };
 }
 
+/**
+ * Estimated cost of each exported model, rounded for the export metadata
+ * @param models - Exported models
+ * @param priceTable - Price table
+ * @returns Currency, grand total and per-model rollups
+ */
+export function summarizeExportCosts(models: ProductModel[], priceTable: PriceTable): ExportCostSummary {
+  const costs = models.map((model) => estimateModelCost(model, priceTable));
+  return {
+    currency: priceTable.currency,
+    total: roundCost(costs.reduce((total, cost) => total + cost.total, 0)),
+    models: costs.map((cost) => ({ ...cost, total: roundCost(cost.total) })),
+  };
+}
+
 /**
  * Calculate total markers across all models
  * @param models - Array of models
  * @returns Total number of POSM markers
  */
 export function calculateTotalMarkers(models: ProductModel[]): number {
-  return models.reduce((total, model) => total + model.posmMarkers.length, 0);
+  return models.reduce((total, model) => total + countModelMarkers(model), 0);
+}
+
+const addDistinct = (list: string[], value: string | undefined) => {
+  if (value && !list.includes(value)) list.push(value);
+};
+
+/**
+ * Aggregate the POSM markers of many models into a bill of materials
+ * Markers are grouped by material type (case-insensitive) and dimensions
+ * converted to one unit, so a 600 × 400 mm and a 60 × 40 cm poster of the
+ * same material are one line. Print area is width × height. With a price
+ * table, each line also carries the estimated cost of its items.
+ * @param models - Models to include
+ * @param options - Unit to report sizes in, store units to multiply each model's markers by and prices
+ * @returns Lines, artwork list and totals
+ */
+export function calculateBillOfMaterials(models: ProductModel[], options: BomOptions = {}): BillOfMaterials {
+  const { storeUnits, unit = 'cm', priceTable } = options;
+  const lines = new Map<string, BomLine>();
+  const artworks = new Map<string, BomArtwork>();
+
+  models.forEach((model) => {
+    const quantity = storeUnits ? (storeUnits[model.id] ?? 0) : 1;
+    if (quantity <= 0) return;
+
+    getModelMarkers(model).forEach((marker) => {
+      const { info } = marker;
+      const materialType = info.materialType?.trim() ?? '';
+      const dimensions = info.dimensions && convertDimensions(info.dimensions, unit);
+      const key = [
+        materialType.toLowerCase(),
+        dimensions ? `${dimensions.width}x${dimensions.height}x${dimensions.depth ?? ''}${dimensions.unit}` : '',
+      ].join('|');
+
+      let line = lines.get(key);
+      if (!line) {
+        // From the dimensions as entered, so rounding in the report unit does not skew it
+        const itemAreaM2 = info.dimensions ? calculateArea(info.dimensions, 'm') : null;
+        line = {
+          materialType,
+          ...(dimensions ? { dimensions } : {}),
+          quantity: 0,
+          itemAreaM2,
+          totalAreaM2: itemAreaM2 === null ? null : 0,
+          estimatedCost: null,
+          markerNames: [],
+          modelIds: [],
+          artworkUrls: [],
+        };
+        lines.set(key, line);
+      }
+
+      line.quantity += quantity;
+      if (line.itemAreaM2 !== null) line.totalAreaM2 = line.itemAreaM2 * line.quantity;
+      const cost = priceTable ? scaleMarkerCost(estimateMarkerCost(marker, priceTable), quantity) : null;
+      if (cost !== null) line.estimatedCost = (line.estimatedCost ?? 0) + cost;
+      addDistinct(line.markerNames, info.name);
+      addDistinct(line.modelIds, model.id);
+      addDistinct(line.artworkUrls, info.artworkUrl);
+
+      if (info.artworkUrl) {
+        const artwork = artworks.get(info.artworkUrl) ?? {
+          artworkUrl: info.artworkUrl,
+          quantity: 0,
+          markerNames: [],
+          modelIds: [],
+        };
+        artwork.quantity += quantity;
+        addDistinct(artwork.markerNames, info.name);
+        addDistinct(artwork.modelIds, model.id);
+        artworks.set(info.artworkUrl, artwork);
+      }
+    });
+  });
+
+  const sortedLines = [...lines.values()].sort(
+    (a, b) =>
+      // Lines without a material type go last
+      Number(!a.materialType) - Number(!b.materialType) ||
+      a.materialType.localeCompare(b.materialType) ||
+      (a.dimensions?.width ?? Infinity) - (b.dimensions?.width ?? Infinity) ||
+      (a.dimensions?.height ?? Infinity) - (b.dimensions?.height ?? Infinity)
+  );
+
+  return {
+    lines: sortedLines,
+    artworks: [...artworks.values()].sort((a, b) => a.artworkUrl.localeCompare(b.artworkUrl)),
+    totalQuantity: sortedLines.reduce((total, line) => total + line.quantity, 0),
+    totalAreaM2: sortedLines.reduce((total, line) => total + (line.totalAreaM2 ?? 0), 0),
+    modelCount: storeUnits ? models.filter((model) => (storeUnits[model.id] ?? 0) > 0).length : models.length,
+    multipliedByStores: Boolean(storeUnits),
+    unit,
+    estimatedCost: priceTable ? sortedLines.reduce((total, line) => total + (line.estimatedCost ?? 0), 0) : null,
+    ...(priceTable ? { currency: priceTable.currency } : {}),
+  };
 }
 
 /**
@@ -71,44 +209,286 @@ export function filterUsedCategories(
   return allCategories.filter((cat) => usedCategoryIds.has(cat.id));
 }
 
+/**
+ * Describe how exported models were chosen
+ * @param selection - Export selection
+ * @param categories - Categories, for display names
+ * @returns Human-readable description
+ */
+export function describeExportSelection(selection: ExportSelection, categories: Category[] = []): string {
+  switch (selection.mode) {
+    case 'models':
+      return `Models: ${(selection.modelIds ?? []).join(', ')}`;
+    case 'categories': {
+      const names = new Map(categories.map((category) => [category.id, category.name]));
+      return `Categories: ${(selection.categoryIds ?? []).map((id) => names.get(id) ?? id).join(', ')}`;
+    }
+    case 'search':
+      return `Search: "${selection.query ?? ''}"`;
+    case 'all':
+    default:
+      return 'All models';
+  }
+}
+
 /**
  * Generate filename for export with timestamp
  * @param prefix - Filename prefix
  * @param exportType - Export type for filename
+ * @param extension - File extension without the dot
  * @returns Filename string
  */
 export function generateExportFilename(
   prefix: string = 'posm-export',
-  exportType: 'full' | 'selective' = 'full'
+  exportType: 'full' | 'selective' = 'full',
+  extension: string = 'json'
 ): string {
   const timestamp = new Date()
     .toISOString()
     .replace(/[:.]/g, '-')
     .substring(0, 19); // Format: YYYY-MM-DDTHH-MM-SS
 
-  return `${prefix}-${exportType}-${timestamp}.json`;
+  return `${prefix}-${exportType}-${timestamp}.${extension}`;
+}
+
+// Lookups shared by every row of an export
+export interface CsvColumnContext {
+  categoryNames: Map<string, string>;
+  priceTable?: PriceTable;
+}
+
+interface CsvColumnDefinition {
+  header: string;
+  granularity: CsvGranularity | 'both';
+  value: (model: ProductModel, marker: POSMMarker | undefined, context: CsvColumnContext) => unknown;
 }
 
 /**
- * Validate export data structure
- * @param data - Export data to validate
- * @returns True if valid structure
+ * CSV columns in export order
+ * Model columns repeat on every marker row; marker columns only exist at marker granularity.
  */
-export function validateExportData(data: any): boolean {
-  if (!data || typeof data !== 'object') return false;
+export const CSV_COLUMNS: Record<CsvColumn, CsvColumnDefinition> = {
+  modelId: { header: 'Model ID', granularity: 'both', value: (model) => model.id },
+  modelCode: { header: 'Model Code', granularity: 'both', value: (model) => model.code },
+  modelName: { header: 'Model Name', granularity: 'both', value: (model) => model.name },
+  categories: {
+    header: 'Categories',
+    granularity: 'both',
+    value: (model, _, { categoryNames }) => model.categoryIds.map((id) => categoryNames.get(id) ?? id).join('; '),
+  },
+  markerCount: { header: 'Marker Count', granularity: 'model', value: (model) => countModelMarkers(model) },
+  viewCount: { header: 'View Count', granularity: 'model', value: (model) => model.views.length },
+  viewName: {
+    header: 'View',
+    granularity: 'marker',
+    value: (model, marker) => (marker ? findMarkerView(model, marker.id)?.name : undefined),
+  },
+  markerId: { header: 'Marker ID', granularity: 'marker', value: (_, marker) => marker?.id },
+  markerName: { header: 'Marker Name', granularity: 'marker', value: (_, marker) => marker?.info.name },
+  markerDescription: { header: 'Description', granularity: 'marker', value: (_, marker) => marker?.info.description },
+  materialType: { header: 'Material', granularity: 'marker', value: (_, marker) => marker?.info.materialType },
+  width: { header: 'Width', granularity: 'marker', value: (_, marker) => marker?.info.dimensions?.width },
+  height: { header: 'Height', granularity: 'marker', value: (_, marker) => marker?.info.dimensions?.height },
+  depth: { header: 'Depth', granularity: 'marker', value: (_, marker) => marker?.info.dimensions?.depth },
+  unit: { header: 'Unit', granularity: 'marker', value: (_, marker) => marker?.info.dimensions?.unit },
+  artworkUrl: { header: 'Artwork URL', granularity: 'marker', value: (_, marker) => marker?.info.artworkUrl },
+  notes: { header: 'Notes', granularity: 'marker', value: (_, marker) => marker?.info.notes },
+  positionX: { header: 'Position X (%)', granularity: 'marker', value: (_, marker) => marker?.position.x },
+  positionY: { header: 'Position Y (%)', granularity: 'marker', value: (_, marker) => marker?.position.y },
+  shapeType: {
+    header: 'Shape',
+    granularity: 'marker',
+    value: (_, marker) => (marker ? getMarkerShapeType(marker) : undefined),
+  },
+  estimatedCost: {
+    header: 'Estimated Cost',
+    granularity: 'both',
+    // Marker rows show the item's cost, model rows the total of the model's priced markers
+    value: (model, marker, { priceTable }) => {
+      if (!priceTable) return undefined;
+      const cost = marker ? estimateMarkerCost(marker, priceTable).cost : estimateModelCost(model, priceTable).total;
+      return cost === null ? undefined : roundCost(cost);
+    },
+  },
+};
 
-  // Check required fields
-  if (!data.exportedAt || !data.exportType || !data.version) return false;
-  if (!Array.isArray(data.models) || data.models.length === 0) return false;
-  if (!Array.isArray(data.categories)) return false;
-  if (!data.metadata || typeof data.metadata !== 'object') return false;
+/**
+ * Header of a CSV column, with the currency for cost columns
+ * @param column - Column key
+ * @param priceTable - Price table used for cost columns
+ * @returns Header text, e.g. "Estimated Cost (VND)"
+ */
+export function getCsvHeader(column: CsvColumn, priceTable?: PriceTable): string {
+  const { header } = CSV_COLUMNS[column];
+  return column === 'estimatedCost' && priceTable ? `${header} (${priceTable.currency})` : header;
+}
 
-  // Validate metadata
-  if (typeof data.metadata.totalModels !== 'number') return false;
-  if (typeof data.metadata.totalMarkers !== 'number') return false;
+/**
+ * Columns available at a granularity, in export order
+ * @param granularity - Row granularity
+ * @returns Column keys
+ */
+export function getCsvColumns(granularity: CsvGranularity): CsvColumn[] {
+  return (Object.keys(CSV_COLUMNS) as CsvColumn[]).filter((column) => {
+    const columnGranularity = CSV_COLUMNS[column].granularity;
+    return columnGranularity === 'both' || columnGranularity === granularity;
+  });
+}
 
-  // Verify counts match
-  if (data.metadata.totalModels !== data.models.length) return false;
+/**
+ * Quote a CSV field per RFC 4180
+ * Fields containing commas, quotes or line breaks are wrapped in double quotes,
+ * with embedded quotes doubled.
+ * @param value - Field value
+ * @returns Escaped field
+ */
+export function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Generate CSV from models
+ * Rows are separated by CRLF as required by RFC 4180. Models without markers
+ * still get one row at marker granularity so they are not lost.
+ * @param models - Models to export
+ * @param categories - Categories used to resolve category names
+ * @param options - Granularity, columns and BOM
+ * @returns CSV text
+ */
+export function generateCSV(
+  models: ProductModel[],
+  categories: Category[],
+  options: CsvExportOptions
+): string {
+  const available = getCsvColumns(options.granularity);
+  const columns = options.columns ? available.filter((column) => options.columns!.includes(column)) : available;
+  if (columns.length === 0) {
+    throw new Error('Select at least one column to export');
+  }
+
+  const { unit = 'original', priceTable } = options;
+  const context: CsvColumnContext = {
+    categoryNames: new Map(categories.map((category) => [category.id, category.name])),
+    priceTable,
+  };
+  const toRow = (model: ProductModel, marker?: POSMMarker) =>
+    columns.map((column) => escapeCsvValue(CSV_COLUMNS[column].value(model, marker, context))).join(',');
+
+  const rows = [columns.map((column) => escapeCsvValue(getCsvHeader(column, priceTable))).join(',')];
+  models.map((model) => convertModelDimensions(model, unit)).forEach((model) => {
+    const markers = getModelMarkers(model);
+    if (options.granularity === 'model' || markers.length === 0) {
+      rows.push(toRow(model));
+    } else {
+      markers.forEach((marker) => rows.push(toRow(model, marker)));
+    }
+  });
+
+  const bom = options.includeBom === false ? '' : '\uFEFF';
+  return `${bom}${rows.join('\r\n')}\r\n`;
+}
 
-  return true;
+/**
+ * Bill of materials columns, shared by the CSV and XLSX reports
+ */
+export const BOM_HEADERS = [
+  'Material',
+  'Width',
+  'Height',
+  'Depth',
+  'Unit',
+  'Quantity',
+  'Item Area (m²)',
+  'Total Area (m²)',
+  'POSM Items',
+  'Models',
+  'Artworks',
+] as const;
+
+/**
+ * Round an area for reports
+ * @param areaM2 - Area in m²
+ * @returns Area rounded to 0.001 m²
+ */
+export function roundArea(areaM2: number): number {
+  return Math.round(areaM2 * 1000) / 1000;
+}
+
+/**
+ * Bill of materials columns of a report
+ * An Estimated Cost column follows Total Area when the bill was priced.
+ * @param bill - Bill of materials
+ * @returns Column headers
+ */
+export function getBomHeaders(bill: BillOfMaterials): string[] {
+  if (bill.estimatedCost === null) return [...BOM_HEADERS];
+  const headers: string[] = [...BOM_HEADERS];
+  headers.splice(headers.indexOf('Total Area (m²)') + 1, 0, `Estimated Cost (${bill.currency})`);
+  return headers;
+}
+
+/**
+ * Cell values of one bill of materials line, in getBomHeaders order
+ * @param line - Bill of materials line
+ * @param includeCost - Add the Estimated Cost column
+ * @returns Row values; list columns are joined with "; "
+ */
+export function getBomLineValues(line: BomLine, includeCost: boolean = false): (string | number | undefined)[] {
+  return [
+    line.materialType || 'Unspecified',
+    line.dimensions?.width,
+    line.dimensions?.height,
+    line.dimensions?.depth,
+    line.dimensions?.unit,
+    line.quantity,
+    line.itemAreaM2 === null ? undefined : roundArea(line.itemAreaM2),
+    line.totalAreaM2 === null ? undefined : roundArea(line.totalAreaM2),
+    ...(includeCost ? [line.estimatedCost === null ? undefined : roundCost(line.estimatedCost)] : []),
+    line.markerNames.join('; '),
+    line.modelIds.join('; '),
+    line.artworkUrls.join('; '),
+  ];
+}
+
+/**
+ * Generate a bill of materials CSV
+ * One row per material and size, followed by a total row.
+ * @param bill - Bill of materials
+ * @param includeBom - Prepend a UTF-8 byte order mark for Excel (default: true)
+ * @returns CSV text
+ */
+export function generateBomCSV(bill: BillOfMaterials, includeBom: boolean = true): string {
+  const priced = bill.estimatedCost !== null;
+  const total = [
+    'Total',
+    '',
+    '',
+    '',
+    '',
+    bill.totalQuantity,
+    '',
+    roundArea(bill.totalAreaM2),
+    ...(priced ? [roundCost(bill.estimatedCost!)] : []),
+    '',
+    '',
+    '',
+  ];
+  const rows = [
+    getBomHeaders(bill).map(escapeCsvValue).join(','),
+    ...bill.lines.map((line) => getBomLineValues(line, priced).map(escapeCsvValue).join(',')),
+    total.map(escapeCsvValue).join(','),
+  ];
+
+  return `${includeBom ? '\uFEFF' : ''}${rows.join('\r\n')}\r\n`;
+}
+
+/**
+ * Validate export data structure
+ * @param data - Export data to validate
+ * @returns Validation result with field-path errors if invalid
+ */
+export function validateExportData(data: unknown): ValidationResult<ExportData> {
+  return validateExport(data);
 }
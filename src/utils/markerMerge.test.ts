@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { POSMMarker } from '@/types';
+import { mergeMarkers, resolveMergeConflicts } from '@/utils/markerMerge';
+import { migrateModel } from '@/services/migrationService';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+
+const base: POSMMarker[] = migrateModel(sampleModel).model.views[0].posmMarkers;
+const [talker, wobbler, priceCard] = base;
+
+const rename = (marker: POSMMarker, name: string): POSMMarker => ({ ...marker, info: { ...marker.info, name } });
+const move = (marker: POSMMarker, x: number, y: number): POSMMarker => ({ ...marker, position: { x, y } });
+
+describe('mergeMarkers', () => {
+  it('takes edits made on one side only', () => {
+    const draft = [rename(talker, 'Shelf Talker - Brand B'), wobbler, priceCard];
+    const current = [talker, move(wobbler, 10, 10), priceCard];
+
+    expect(mergeMarkers(base, draft, current)).toEqual({
+      markers: [rename(talker, 'Shelf Talker - Brand B'), move(wobbler, 10, 10), priceCard],
+      conflicts: [],
+    });
+  });
+
+  it('merges different fields of the same marker', () => {
+    const draft = [rename(talker, 'Renamed'), wobbler, priceCard];
+    const current = [move(talker, 40, 40), wobbler, priceCard];
+
+    const result = mergeMarkers(base, draft, current);
+    expect(result.conflicts).toEqual([]);
+    expect(result.markers[0]).toEqual(move(rename(talker, 'Renamed'), 40, 40));
+  });
+
+  it('keeps additions and deletions from both sides', () => {
+    const added: POSMMarker = { ...priceCard, id: 'marker-004' };
+    const published: POSMMarker = { ...priceCard, id: 'marker-005' };
+    const draft = [talker, wobbler, added];
+    const current = [talker, priceCard, published];
+
+    expect(mergeMarkers(base, draft, current)).toEqual({ markers: [talker, published, added], conflicts: [] });
+  });
+
+  it('reports a conflict when both sides change the same field', () => {
+    const draft = [rename(talker, 'Draft name'), wobbler, priceCard];
+    const current = [rename(talker, 'Published name'), wobbler, priceCard];
+
+    const result = mergeMarkers(base, draft, current);
+    expect(result.markers[0].info.name).toBe('Published name');
+    expect(result.conflicts).toEqual([
+      { markerId: 'marker-001', fields: ['info.name'], base: talker, draft: draft[0], current: current[0] },
+    ]);
+  });
+
+  it('does not report the same change made on both sides', () => {
+    const draft = [move(talker, 30, 30), wobbler, priceCard];
+
+    expect(mergeMarkers(base, draft, draft).conflicts).toEqual([]);
+  });
+
+  it('reports a conflict when one side deletes a marker the other edited', () => {
+    const editedInDraft = mergeMarkers(base, [talker, rename(wobbler, 'Edited'), priceCard], [talker, priceCard]);
+    expect(editedInDraft.markers.map((marker) => marker.id)).toEqual(['marker-001', 'marker-003', 'marker-002']);
+    expect(editedInDraft.conflicts).toEqual([
+      { markerId: 'marker-002', fields: [], base: wobbler, draft: rename(wobbler, 'Edited') },
+    ]);
+
+    const editedSince = mergeMarkers(base, [talker, priceCard], [talker, rename(wobbler, 'Edited'), priceCard]);
+    expect(editedSince.conflicts).toEqual([
+      { markerId: 'marker-002', fields: [], base: wobbler, current: rename(wobbler, 'Edited') },
+    ]);
+  });
+});
+
+describe('resolveMergeConflicts', () => {
+  it('applies the chosen side of each conflict', () => {
+    const draft = [rename(talker, 'Draft name'), rename(wobbler, 'Edited')];
+    const current = [rename(talker, 'Published name'), priceCard];
+    const result = mergeMarkers(base, draft, current);
+
+    expect(resolveMergeConflicts(result, {})).toEqual([rename(talker, 'Published name')]);
+    expect(resolveMergeConflicts(result, { 'marker-001': 'draft', 'marker-002': 'draft' })).toEqual([
+      rename(talker, 'Draft name'),
+      rename(wobbler, 'Edited'),
+    ]);
+  });
+});
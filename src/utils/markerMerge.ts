@@ -0,0 +1,152 @@
+import type { MarkerConflict, MarkerMergeResult, MergeSide, POSMMarker } from '@/types';
+import { isEqual } from '@/utils/modelDiff';
+
+/**
+ * Field paths compared independently when merging one marker
+ * Every key of `info` is its own field; position, shape and displayOptions are atomic.
+ */
+function markerFields(...markers: (POSMMarker | undefined)[]): string[] {
+  const infoKeys = new Set<string>();
+  markers.forEach((marker) => {
+    if (marker) Object.keys(marker.info).forEach((key) => infoKeys.add(key));
+  });
+  return ['position', 'shape', 'displayOptions', ...[...infoKeys].sort().map((key) => `info.${key}`)];
+}
+
+function getField(marker: POSMMarker | undefined, field: string): unknown {
+  if (!marker) return undefined;
+  if (field.startsWith('info.')) {
+    return (marker.info as unknown as Record<string, unknown>)[field.slice('info.'.length)];
+  }
+  return (marker as unknown as Record<string, unknown>)[field];
+}
+
+function setField(marker: POSMMarker, field: string, value: unknown): POSMMarker {
+  if (field.startsWith('info.')) {
+    return { ...marker, info: { ...marker.info, [field.slice('info.'.length)]: value } };
+  }
+  return { ...marker, [field]: value };
+}
+
+/**
+ * Merge one marker present in the draft and the current model, field by field
+ * A field changed on only one side takes that side's value; a field changed
+ * differently on both sides is a conflict and keeps the current value.
+ */
+function mergeMarker(
+  base: POSMMarker | undefined,
+  draft: POSMMarker,
+  current: POSMMarker
+): { marker: POSMMarker; conflictFields: string[] } {
+  let marker = current;
+  const conflictFields: string[] = [];
+
+  markerFields(base, draft, current).forEach((field) => {
+    const baseValue = getField(base, field);
+    const draftValue = getField(draft, field);
+    const currentValue = getField(current, field);
+
+    if (isEqual(draftValue, currentValue) || isEqual(draftValue, baseValue)) {
+      return; // Keep current
+    }
+    if (base && isEqual(currentValue, baseValue)) {
+      marker = setField(marker, field, draftValue);
+      return;
+    }
+    conflictFields.push(field);
+  });
+
+  return { marker, conflictFields };
+}
+
+/**
+ * Three-way merge of draft markers onto the currently published markers
+ *
+ * Markers are matched by ID:
+ * - changed on one side only: that side wins
+ * - deleted on one side, unchanged on the other: deleted
+ * - deleted on one side, edited on the other: conflict
+ * - edited on both sides: merged per field, overlapping fields conflict
+ *
+ * @param base - Published markers the draft was started from
+ * @param draft - Draft markers
+ * @param current - Currently published markers
+ * @returns Merged markers and any conflicts
+ */
+export function mergeMarkers(
+  base: POSMMarker[],
+  draft: POSMMarker[],
+  current: POSMMarker[]
+): MarkerMergeResult {
+  const baseById = new Map(base.map((marker) => [marker.id, marker]));
+  const draftById = new Map(draft.map((marker) => [marker.id, marker]));
+  const currentById = new Map(current.map((marker) => [marker.id, marker]));
+  const markers: POSMMarker[] = [];
+  const conflicts: MarkerConflict[] = [];
+
+  current.forEach((currentMarker) => {
+    const id = currentMarker.id;
+    const baseMarker = baseById.get(id);
+    const draftMarker = draftById.get(id);
+
+    if (!draftMarker) {
+      if (!baseMarker) {
+        markers.push(currentMarker); // Published after the draft was started
+      } else if (!isEqual(baseMarker, currentMarker)) {
+        markers.push(currentMarker); // Deleted in draft, edited since: keep until resolved
+        conflicts.push({ markerId: id, fields: [], base: baseMarker, current: currentMarker });
+      }
+      return;
+    }
+
+    const { marker, conflictFields } = mergeMarker(baseMarker, draftMarker, currentMarker);
+    markers.push(marker);
+    if (conflictFields.length > 0) {
+      conflicts.push({ markerId: id, fields: conflictFields, base: baseMarker, draft: draftMarker, current: currentMarker });
+    }
+  });
+
+  draft.forEach((draftMarker) => {
+    const id = draftMarker.id;
+    if (currentById.has(id)) return;
+
+    const baseMarker = baseById.get(id);
+    if (!baseMarker) {
+      markers.push(draftMarker); // Added in draft
+    } else if (!isEqual(baseMarker, draftMarker)) {
+      markers.push(draftMarker); // Edited in draft, deleted since: keep until resolved
+      conflicts.push({ markerId: id, fields: [], base: baseMarker, draft: draftMarker });
+    }
+  });
+
+  return { markers, conflicts };
+}
+
+/**
+ * Apply conflict resolutions to a merge result
+ * @param result - Result of mergeMarkers
+ * @param resolutions - Chosen side per conflicting marker ID (defaults to current)
+ * @returns Resolved marker list
+ */
+export function resolveMergeConflicts(
+  result: MarkerMergeResult,
+  resolutions: Record<string, MergeSide>
+): POSMMarker[] {
+  const conflictsById = new Map(result.conflicts.map((conflict) => [conflict.markerId, conflict]));
+
+  return result.markers.flatMap((marker) => {
+    const conflict = conflictsById.get(marker.id);
+    if (!conflict) return [marker];
+
+    const side = resolutions[marker.id] ?? 'current';
+    const chosen = side === 'draft' ? conflict.draft : conflict.current;
+
+    // One side deleted the marker: take the chosen side as a whole
+    if (conflict.fields.length === 0) {
+      return chosen ? [chosen] : [];
+    }
+
+    if (side === 'current') return [marker];
+    return [conflict.fields.reduce((merged, field) => setField(merged, field, getField(chosen, field)), marker)];
+  });
+}
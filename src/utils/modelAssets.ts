@@ -0,0 +1,35 @@
+import type { ProductModel } from '@/types';
+import { getModelMarkers } from '@/utils/modelViews';
+
+/**
+ * List the asset URLs a model references (view images and marker artwork)
+ * @param model - Model to scan
+ * @returns URLs, possibly with duplicates
+ */
+export function getModelAssetUrls(model: ProductModel): string[] {
+  return [
+    ...model.views.map((view) => view.image.url),
+    ...getModelMarkers(model).flatMap((marker) => (marker.info.artworkUrl ? [marker.info.artworkUrl] : [])),
+  ];
+}
+
+/**
+ * Replace asset URLs in a model
+ * @param model - Model to rewrite
+ * @param urls - Old URL -> new URL; URLs not in the map are kept
+ * @returns Rewritten copy of the model
+ */
+export function rewriteModelAssets(model: ProductModel, urls: Map<string, string>): ProductModel {
+  return {
+    ...model,
+    views: model.views.map((view) => ({
+      ...view,
+      image: { ...view.image, url: urls.get(view.image.url) ?? view.image.url },
+      posmMarkers: view.posmMarkers.map((marker) =>
+        marker.info.artworkUrl && urls.has(marker.info.artworkUrl)
+          ? { ...marker, info: { ...marker.info, artworkUrl: urls.get(marker.info.artworkUrl) } }
+          : marker
+      ),
+    })),
+  };
+}
@@ -0,0 +1,100 @@
+import type { MarkerChange, POSMMarker, ProductModel, VersionBump } from '@/types';
+import { getModelMarkers } from '@/utils/modelViews';
+
+/**
+ * Serialize a value with sorted object keys so equal data compares equal
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Deep equality for JSON data (key order and undefined properties are ignored)
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both serialize to the same JSON
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Compare two marker lists by marker ID
+ * A marker that was both moved (or reshaped) and edited produces one change of each type.
+ * @param before - Markers in the older version
+ * @param after - Markers in the newer version
+ * @returns Marker-level changes, in the order markers appear
+ */
+export function diffMarkers(before: POSMMarker[], after: POSMMarker[]): MarkerChange[] {
+  const changes: MarkerChange[] = [];
+  const beforeById = new Map(before.map((marker) => [marker.id, marker]));
+  const afterIds = new Set(after.map((marker) => marker.id));
+
+  after.forEach((marker) => {
+    const previous = beforeById.get(marker.id);
+    if (!previous) {
+      changes.push({ markerId: marker.id, type: 'added', after: marker });
+      return;
+    }
+
+    if (!isEqual(previous.position, marker.position) || !isEqual(previous.shape, marker.shape)) {
+      changes.push({ markerId: marker.id, type: 'moved', before: previous, after: marker });
+    }
+    if (!isEqual(previous.info, marker.info) || !isEqual(previous.displayOptions, marker.displayOptions)) {
+      changes.push({ markerId: marker.id, type: 'edited', before: previous, after: marker });
+    }
+  });
+
+  before
+    .filter((marker) => !afterIds.has(marker.id))
+    .forEach((marker) => changes.push({ markerId: marker.id, type: 'deleted', before: marker }));
+
+  return changes;
+}
+
+/**
+ * Decide the semver bump for a change between two versions of a model
+ * Minor when markers are added or removed, patch for any other edit.
+ * Metadata and schema version are ignored.
+ * @param before - Previously published model
+ * @param after - Model being published
+ * @returns Version bump, or null if nothing changed
+ */
+export function determineVersionBump(before: ProductModel, after: ProductModel): VersionBump | null {
+  const changes = diffMarkers(getModelMarkers(before), getModelMarkers(after));
+  if (changes.some((change) => change.type === 'added' || change.type === 'deleted')) {
+    return 'minor';
+  }
+
+  const content = (model: ProductModel) => ({ ...model, metadata: undefined, schemaVersion: undefined });
+  return changes.length > 0 || !isEqual(content(before), content(after)) ? 'patch' : null;
+}
+
+/**
+ * Apply a semver bump
+ * @param version - Current version (e.g. "1.2.3"); invalid versions are treated as 1.0.0
+ * @param bump - Part to increment
+ * @returns Bumped version
+ */
+export function bumpVersion(version: string, bump: VersionBump): string {
+  const match = /^(\d+)\.(\d+)\.(\d+)/.exec(version);
+  const [major, minor, patch] = match ? match.slice(1).map(Number) : [1, 0, 0];
+
+  switch (bump) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    case 'patch':
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
@@ -0,0 +1,70 @@
+import type { ModelImage, ModelView, POSMMarker, ProductModel } from '@/types';
+
+/**
+ * Get the primary (first) view of a model
+ * @param model - Model
+ * @returns First view
+ * @throws Error if the model has no views
+ */
+export function getPrimaryView(model: ProductModel): ModelView {
+  const view = model.views[0];
+  if (!view) {
+    throw new Error(`Model ${model.id} has no views`);
+  }
+  return view;
+}
+
+/**
+ * Get the primary image of a model, used for thumbnails and single-image exports
+ * @param model - Model
+ * @returns Image of the first view
+ */
+export function getPrimaryImage(model: ProductModel): ModelImage {
+  return getPrimaryView(model).image;
+}
+
+/**
+ * Get every marker of a model, in view order
+ * @param model - Model
+ * @returns Markers across all views
+ */
+export function getModelMarkers(model: ProductModel): POSMMarker[] {
+  return model.views.flatMap((view) => view.posmMarkers);
+}
+
+/**
+ * Count the markers of a model across all views
+ * @param model - Model
+ * @returns Marker count
+ */
+export function countModelMarkers(model: ProductModel): number {
+  return model.views.reduce((sum, view) => sum + view.posmMarkers.length, 0);
+}
+
+/**
+ * Find the view a marker belongs to
+ * @param model - Model
+ * @param markerId - Marker ID
+ * @returns View, or undefined if no view has the marker
+ */
+export function findMarkerView(model: ProductModel, markerId: string): ModelView | undefined {
+  return model.views.find((view) => view.posmMarkers.some((marker) => marker.id === markerId));
+}
+
+/**
+ * Replace the markers of one view
+ * @param model - Model
+ * @param viewId - View to change
+ * @param markers - New markers for the view
+ * @returns Updated model
+ * @throws Error if the view does not exist
+ */
+export function setViewMarkers(model: ProductModel, viewId: string, markers: POSMMarker[]): ProductModel {
+  if (!model.views.some((view) => view.id === viewId)) {
+    throw new Error(`View not found: ${viewId}`);
+  }
+  return {
+    ...model,
+    views: model.views.map((view) => (view.id === viewId ? { ...view, posmMarkers: markers } : view)),
+  };
+}
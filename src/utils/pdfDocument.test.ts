@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { findUnsupportedCharacters } from '@/utils/pdfDocument';
+
+describe('findUnsupportedCharacters', () => {
+  it('lists characters the standard fonts cannot print', () => {
+    expect(findUnsupportedCharacters(['Kệ trưng bày', 'Đựng lon'])).toEqual(['ệ', 'ư', 'Đ', 'ự']);
+  });
+
+  it('accepts Latin-1 and WinAnsi punctuation', () => {
+    expect(findUnsupportedCharacters(['Café “Crème” – 5 €', 'tab\there'])).toEqual([]);
+  });
+});
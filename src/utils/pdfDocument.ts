@@ -0,0 +1,440 @@
+/**
+ * Minimal PDF writer
+ *
+ * Draws text in the built-in Helvetica fonts, lines, rectangles, circles and
+ * JPEG images. Coordinates are in points with the origin at the top-left of
+ * the page (y grows downwards), unlike raw PDF. Runs in the browser and in
+ * Node; output is a plain byte array.
+ *
+ * Text uses WinAnsi encoding, so characters outside Latin-1 are transliterated
+ * (e.g. Vietnamese diacritics are dropped) rather than embedded as fonts.
+ * findUnsupportedCharacters tells callers which characters that affects, so
+ * the UI can say so.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfPaintMode = 'fill' | 'stroke' | 'both';
+
+export interface PdfImage {
+  data: Uint8Array; // JPEG bytes
+  width: number; // Pixels
+  height: number; // Pixels
+  colorSpace: 'DeviceGray' | 'DeviceRGB' | 'DeviceCMYK';
+}
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+const FONT_NAMES: Record<PdfFont, { resource: string; base: string }> = {
+  regular: { resource: 'F1', base: 'Helvetica' },
+  bold: { resource: 'F2', base: 'Helvetica-Bold' },
+};
+
+// Glyph widths (1/1000 em) for character codes 32-126, from the standard AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778,
+  722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778,
+  722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi code points for characters outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * WinAnsi code of a character the standard fonts can print as-is
+ */
+function winAnsiCode(char: string): number | undefined {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[char];
+}
+
+/**
+ * Map a string to WinAnsi character codes
+ */
+function toWinAnsi(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    if (code !== undefined) {
+      codes.push(code);
+    } else if (char === '\t') {
+      codes.push(32);
+    } else {
+      // Drop diacritics that have no WinAnsi glyph (ạ -> a, đ -> d)
+      const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace('đ', 'd').replace('Đ', 'D');
+      const baseCode = base.codePointAt(0) ?? 63;
+      codes.push(base.length === 1 && baseCode < 256 && baseCode >= 32 ? baseCode : 63); // '?'
+    }
+  }
+  return codes;
+}
+
+/**
+ * Characters the standard fonts cannot print, which toWinAnsi transliterates
+ * @param texts - Text to be drawn
+ * @returns Distinct characters, in order of first appearance
+ */
+export function findUnsupportedCharacters(texts: Iterable<string>): string[] {
+  const found = new Set<string>();
+  for (const text of texts) {
+    for (const char of text) {
+      if (char.codePointAt(0)! >= 32 && winAnsiCode(char) === undefined) {
+        found.add(char);
+      }
+    }
+  }
+  return [...found];
+}
+
+function pdfString(text: string): string {
+  return `(${toWinAnsi(text)
+    .map((code) => {
+      const char = String.fromCharCode(code);
+      return char === '(' || char === ')' || char === '\\' ? `\\${char}` : char;
+    })
+    .join('')})`;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function parseHexColor(hex: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return [0, 0, 0];
+  const digits = match[1].length === 3 ? [...match[1]].map((d) => d + d).join('') : match[1];
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) / 255) as [number, number, number];
+}
+
+/**
+ * Read the size and colour space of a baseline or progressive JPEG
+ * @param data - File bytes
+ * @returns Image ready to embed, or null if the bytes are not a JPEG
+ */
+export function readJpegInfo(data: Uint8Array): PdfImage | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = data[offset + 9];
+      return {
+        data,
+        height: (data[offset + 5] << 8) | data[offset + 6],
+        width: (data[offset + 7] << 8) | data[offset + 8],
+        colorSpace: components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB',
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+interface PdfPage {
+  content: string[];
+  fonts: Set<PdfFont>;
+  images: Set<number>;
+}
+
+export class PdfDocument {
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  private pages: PdfPage[] = [];
+  private current: PdfPage | null = null;
+  private images: PdfImage[] = [];
+  private imageIds = new Map<PdfImage, number>();
+  private title: string;
+
+  /**
+   * @param title - Document title shown by PDF viewers
+   * @param pageWidth - Page width in points (default A4)
+   * @param pageHeight - Page height in points (default A4)
+   */
+  constructor(title: string, pageWidth: number = A4_WIDTH, pageHeight: number = A4_HEIGHT) {
+    this.title = title;
+    this.pageWidth = pageWidth;
+    this.pageHeight = pageHeight;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Start a new page and make it current
+   * @returns Zero-based page index
+   */
+  addPage(): number {
+    this.current = { content: [], fonts: new Set(), images: new Set() };
+    this.pages.push(this.current);
+    return this.pages.length - 1;
+  }
+
+  /**
+   * Make an earlier page current, e.g. to add footers once the page count is known
+   */
+  setPage(index: number): void {
+    if (!this.pages[index]) {
+      throw new Error(`Page ${index} does not exist`);
+    }
+    this.current = this.pages[index];
+  }
+
+  private get page(): PdfPage {
+    if (!this.current) {
+      throw new Error('Call addPage() before drawing');
+    }
+    return this.current;
+  }
+
+  private y(top: number): number {
+    return this.pageHeight - top;
+  }
+
+  /**
+   * Measure text in points
+   */
+  textWidth(text: string, font: PdfFont, size: number): number {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const units = toWinAnsi(text).reduce(
+      (sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH),
+      0
+    );
+    return (units * size) / 1000;
+  }
+
+  /**
+   * Break text into lines that fit a width, splitting long words if needed
+   */
+  wrapText(text: string, maxWidth: number, font: PdfFont, size: number): string[] {
+    const lines: string[] = [];
+
+    text.split(/\r?\n/).forEach((paragraph) => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.textWidth(candidate, font, size) <= maxWidth) {
+          line = candidate;
+          return;
+        }
+
+        if (line) lines.push(line);
+        line = '';
+        for (const char of word) {
+          if (line && this.textWidth(line + char, font, size) > maxWidth) {
+            lines.push(line);
+            line = '';
+          }
+          line += char;
+        }
+      });
+      lines.push(line);
+    });
+
+    return lines;
+  }
+
+  /**
+   * Draw a single line of text
+   * @param text - Text to draw
+   * @param x - Left edge
+   * @param y - Baseline, from the top of the page
+   * @param options - Font, size, colour and alignment relative to x
+   */
+  text(
+    text: string,
+    x: number,
+    y: number,
+    options: { font?: PdfFont; size?: number; color?: string; align?: 'left' | 'center' | 'right' } = {}
+  ): void {
+    const { font = 'regular', size = 10, color = '#000000', align = 'left' } = options;
+    const width = align === 'left' ? 0 : this.textWidth(text, font, size);
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    const [r, g, b] = parseHexColor(color);
+
+    this.page.fonts.add(font);
+    this.page.content.push(
+      `BT /${FONT_NAMES[font].resource} ${formatNumber(size)} Tf ${[r, g, b].map(formatNumber).join(' ')} rg ` +
+        `${formatNumber(left)} ${formatNumber(this.y(y))} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  private paint(mode: PdfPaintMode, options: { fill?: string; stroke?: string; lineWidth?: number }): string {
+    const state: string[] = [];
+    if (options.fill) state.push(`${parseHexColor(options.fill).map(formatNumber).join(' ')} rg`);
+    if (options.stroke) state.push(`${parseHexColor(options.stroke).map(formatNumber).join(' ')} RG`);
+    if (options.lineWidth !== undefined) state.push(`${formatNumber(options.lineWidth)} w`);
+    this.page.content.push(`q ${state.join(' ')}`);
+    return mode === 'fill' ? 'f' : mode === 'stroke' ? 'S' : 'B';
+  }
+
+  /**
+   * Draw a rectangle
+   */
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    mode: PdfPaintMode,
+    options: { fill?: string; stroke?: string; lineWidth?: number } = {}
+  ): void {
+    const operator = this.paint(mode, options);
+    this.page.content.push(
+      `${formatNumber(x)} ${formatNumber(this.y(y + height))} ${formatNumber(width)} ${formatNumber(height)} re ${operator} Q`
+    );
+  }
+
+  /**
+   * Draw a straight line
+   */
+  line(x1: number, y1: number, x2: number, y2: number, options: { stroke?: string; lineWidth?: number } = {}): void {
+    this.paint('stroke', options);
+    this.page.content.push(
+      `${formatNumber(x1)} ${formatNumber(this.y(y1))} m ${formatNumber(x2)} ${formatNumber(this.y(y2))} l S Q`
+    );
+  }
+
+  /**
+   * Draw a circle (four Bézier arcs)
+   */
+  circle(
+    cx: number,
+    cy: number,
+    radius: number,
+    mode: PdfPaintMode,
+    options: { fill?: string; stroke?: string; lineWidth?: number } = {}
+  ): void {
+    const operator = this.paint(mode, options);
+    const k = radius * 0.5523;
+    const y = this.y(cy);
+    const n = formatNumber;
+    this.page.content.push(
+      `${n(cx + radius)} ${n(y)} m ` +
+        `${n(cx + radius)} ${n(y + k)} ${n(cx + k)} ${n(y + radius)} ${n(cx)} ${n(y + radius)} c ` +
+        `${n(cx - k)} ${n(y + radius)} ${n(cx - radius)} ${n(y + k)} ${n(cx - radius)} ${n(y)} c ` +
+        `${n(cx - radius)} ${n(y - k)} ${n(cx - k)} ${n(y - radius)} ${n(cx)} ${n(y - radius)} c ` +
+        `${n(cx + k)} ${n(y - radius)} ${n(cx + radius)} ${n(y - k)} ${n(cx + radius)} ${n(y)} c ${operator} Q`
+    );
+  }
+
+  /**
+   * Draw a JPEG image stretched to a box
+   * The same PdfImage object is embedded once however often it is drawn.
+   */
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void {
+    let id = this.imageIds.get(image);
+    if (id === undefined) {
+      id = this.images.length;
+      this.images.push(image);
+      this.imageIds.set(image, id);
+    }
+
+    this.page.images.add(id);
+    this.page.content.push(
+      `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(this.y(y + height))} cm /Im${id} Do Q`
+    );
+  }
+
+  /**
+   * Serialize the document
+   * @returns PDF file bytes
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    if (this.pages.length === 0) {
+      throw new Error('A PDF needs at least one page');
+    }
+
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const push = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? Uint8Array.from(chunk, (c) => c.charCodeAt(0) & 0xff) : chunk;
+      parts.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string | (string | Uint8Array)[]) => {
+      offsets[id] = length;
+      push(`${id} 0 obj\n`);
+      (Array.isArray(body) ? body : [body]).forEach(push);
+      push('\nendobj\n');
+    };
+
+    // Object numbering: 1 catalog, 2 pages, 3 info, 4-5 fonts, then images, then page/content pairs
+    const fontIds: Record<PdfFont, number> = { regular: 4, bold: 5 };
+    const firstImageId = 6;
+    const firstPageId = firstImageId + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, `<< /Title ${pdfString(this.title)} /Producer (POSM Catalogue) >>`);
+    (Object.keys(FONT_NAMES) as PdfFont[]).forEach((font) => {
+      object(
+        fontIds[font],
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font].base} /Encoding /WinAnsiEncoding >>`
+      );
+    });
+
+    this.images.forEach((image, index) => {
+      object(firstImageId + index, [
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`,
+        image.data,
+        '\nendstream',
+      ]);
+    });
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const content = page.content.join('\n');
+      const fonts = [...page.fonts].map((font) => `/${FONT_NAMES[font].resource} ${fontIds[font]} 0 R`).join(' ');
+      const images = [...page.images].map((id) => `/Im${id} ${firstImageId + id} 0 R`).join(' ');
+
+      object(
+        pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.pageWidth)} ${formatNumber(this.pageHeight)}] ` +
+          `/Resources << /Font << ${fonts} >> /XObject << ${images} >> >> /Contents ${pageId + 1} 0 R >>`
+      );
+      object(pageId + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    const xrefOffset = length;
+    const objectCount = pageIds[pageIds.length - 1] + 2;
+    push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    push(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const output = new Uint8Array(length);
+    let position = 0;
+    parts.forEach((part) => {
+      output.set(part, position);
+      position += part.length;
+    });
+    return output;
+  }
+}
@@ -0,0 +1,254 @@
+import type { ValidationError } from '@/types';
+
+/**
+ * Minimal declarative schema engine
+ *
+ * Schemas describe the expected shape of JSON data. `validateSchema` walks a
+ * value against a schema and collects every failure with its field path
+ * (e.g. `models[2].posmMarkers[0].position.x`) instead of stopping early.
+ * Unknown fields are ignored so newer files still load in older builds.
+ */
+
+export type StringFormat = 'iso-datetime' | 'iso-date' | 'semver' | 'hex-color' | 'currency';
+
+/**
+ * Shared data available to reference checks (e.g. known category IDs)
+ */
+export interface SchemaContext {
+  categoryIds?: ReadonlySet<string>;
+}
+
+interface BaseSchema {
+  optional?: boolean;
+}
+
+export interface StringSchema extends BaseSchema {
+  type: 'string';
+  nonEmpty?: boolean;
+  maxLength?: number;
+  format?: StringFormat;
+  enum?: readonly string[];
+  ref?: 'category';
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: 'number';
+  min?: number;
+  max?: number;
+  positive?: boolean;
+  integer?: boolean;
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: 'boolean';
+}
+
+export interface ObjectSchema extends BaseSchema {
+  type: 'object';
+  fields: Record<string, SchemaNode>;
+  // Cross-field rules run after all fields passed their own checks
+  refine?: (value: Record<string, unknown>, path: string, context: SchemaContext) => ValidationError[];
+}
+
+export interface ArraySchema extends BaseSchema {
+  type: 'array';
+  items: SchemaNode;
+  minItems?: number;
+  uniqueBy?: string;
+}
+
+export type SchemaNode = StringSchema | NumberSchema | BooleanSchema | ObjectSchema | ArraySchema;
+
+const ISO_DATETIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(-[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*)?(\+[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*)?$/;
+const HEX_COLOR_PATTERN = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const FORMAT_MESSAGES: Record<StringFormat, string> = {
+  'iso-datetime': 'must be an ISO 8601 timestamp',
+  'iso-date': 'must be a date (YYYY-MM-DD)',
+  semver: 'must be a semantic version (e.g. 1.0.0)',
+  'hex-color': 'must be a hex color (e.g. #FF5733)',
+  currency: 'must be a 3-letter currency code (e.g. VND)',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function matchesFormat(value: string, format: StringFormat): boolean {
+  switch (format) {
+    case 'iso-datetime':
+      return ISO_DATETIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+    case 'iso-date':
+      // Round-trip rejects dates such as 2026-02-30
+      return ISO_DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+    case 'semver':
+      return SEMVER_PATTERN.test(value);
+    case 'hex-color':
+      return HEX_COLOR_PATTERN.test(value);
+    case 'currency':
+      return CURRENCY_PATTERN.test(value);
+  }
+}
+
+function validateString(
+  schema: StringSchema,
+  value: unknown,
+  path: string,
+  context: SchemaContext
+): ValidationError[] {
+  if (typeof value !== 'string') {
+    return [{ field: path, message: 'must be a string', value }];
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (schema.nonEmpty && value.trim() === '') {
+    errors.push({ field: path, message: 'must not be empty', value });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push({ field: path, message: `must be ${schema.maxLength} characters or less`, value });
+  }
+  if (schema.format && !matchesFormat(value, schema.format)) {
+    errors.push({ field: path, message: FORMAT_MESSAGES[schema.format], value });
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ field: path, message: `must be one of: ${schema.enum.join(', ')}`, value });
+  }
+  if (schema.ref === 'category' && context.categoryIds && !context.categoryIds.has(value)) {
+    errors.push({ field: path, message: 'references an unknown category', value });
+  }
+
+  return errors;
+}
+
+function validateNumber(schema: NumberSchema, value: unknown, path: string): ValidationError[] {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return [{ field: path, message: 'must be a number', value }];
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (schema.integer && !Number.isInteger(value)) {
+    errors.push({ field: path, message: 'must be an integer', value });
+  }
+  if (schema.positive && value <= 0) {
+    errors.push({ field: path, message: 'must be a positive number', value });
+  }
+  if (schema.min !== undefined && value < schema.min) {
+    errors.push({
+      field: path,
+      message: schema.min === 0 ? 'must not be negative' : `must be at least ${schema.min}`,
+      value,
+    });
+  }
+  if (schema.max !== undefined && value > schema.max) {
+    errors.push({ field: path, message: `must be at most ${schema.max}`, value });
+  }
+
+  return errors;
+}
+
+function validateObject(
+  schema: ObjectSchema,
+  value: unknown,
+  path: string,
+  context: SchemaContext
+): ValidationError[] {
+  if (!isRecord(value)) {
+    return [{ field: path || 'root', message: 'must be an object', value }];
+  }
+
+  const errors: ValidationError[] = [];
+
+  Object.entries(schema.fields).forEach(([key, fieldSchema]) => {
+    errors.push(...validateSchema(fieldSchema, value[key], joinPath(path, key), context));
+  });
+
+  if (errors.length === 0 && schema.refine) {
+    errors.push(...schema.refine(value, path, context));
+  }
+
+  return errors;
+}
+
+function validateArray(
+  schema: ArraySchema,
+  value: unknown,
+  path: string,
+  context: SchemaContext
+): ValidationError[] {
+  if (!Array.isArray(value)) {
+    return [{ field: path, message: 'must be an array', value }];
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({ field: path, message: `must contain at least ${schema.minItems} item(s)` });
+  }
+
+  value.forEach((item, index) => {
+    errors.push(...validateSchema(schema.items, item, `${path}[${index}]`, context));
+  });
+
+  if (schema.uniqueBy) {
+    const key = schema.uniqueBy;
+    const seen = new Set<unknown>();
+
+    value.forEach((item, index) => {
+      if (!isRecord(item) || item[key] === undefined) return;
+
+      if (seen.has(item[key])) {
+        errors.push({
+          field: `${path}[${index}].${key}`,
+          message: `duplicate ${key}`,
+          value: item[key],
+        });
+      }
+      seen.add(item[key]);
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a value against a schema
+ * @param schema - Schema describing the expected shape
+ * @param value - Value to validate
+ * @param path - Field path of the value (empty for the root)
+ * @param context - Reference data for cross-entity checks
+ * @returns All validation errors found (empty when valid)
+ */
+export function validateSchema(
+  schema: SchemaNode,
+  value: unknown,
+  path: string = '',
+  context: SchemaContext = {}
+): ValidationError[] {
+  if (value === undefined || value === null) {
+    return schema.optional ? [] : [{ field: path || 'root', message: 'is required' }];
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return validateString(schema, value, path, context);
+    case 'number':
+      return validateNumber(schema, value, path);
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ field: path, message: 'must be a boolean', value }];
+    case 'object':
+      return validateObject(schema, value, path, context);
+    case 'array':
+      return validateArray(schema, value, path, context);
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { CatalogueIndex } from '@/types';
+import {
+  buildSearchIndex,
+  getHighlightSegments,
+  getMatchSnippet,
+  normalizeSearchText,
+  searchIndex,
+} from '@/utils/search';
+import catalogueIndex from '../../tests/fixtures/catalogue-index.json';
+
+const catalogue: CatalogueIndex = {
+  ...catalogueIndex,
+  models: [
+    ...catalogueIndex.models,
+    {
+      id: 'model-004',
+      name: 'Kệ trưng bày đồ uống',
+      code: 'KE-004',
+      thumbnailUrl: '/images/models/model-004-thumb.webp',
+      categoryIds: ['promotional'],
+      posmCount: 1,
+      posmNames: ['Wobbler'],
+      searchText: { materials: ['Cardboard'], notes: ['Đựng lon 330ml'] },
+      dataUrl: '/data/models/model-004.json',
+    },
+  ],
+};
+const index = buildSearchIndex(catalogue);
+const ids = (query: string) => searchIndex(index, query).map((result) => result.model.id);
+
+describe('normalizeSearchText', () => {
+  it('folds case and Vietnamese diacritics', () => {
+    expect(normalizeSearchText('Kệ Trưng Bày')).toBe('ke trung bay');
+    expect(normalizeSearchText('Đựng')).toBe('dung');
+  });
+});
+
+describe('searchIndex', () => {
+  it('matches accented text without the accents', () => {
+    expect(ids('ke')).toEqual(['model-004']);
+    expect(ids('trung bay')).toEqual(['model-004']);
+    expect(ids('dung lon')).toEqual(['model-004']);
+  });
+
+  it('tolerates typos in longer words only', () => {
+    expect(ids('cardbord')).toEqual(['model-004']);
+    expect(ids('dsiplay').sort()).toEqual(['model-001', 'model-002', 'model-003']);
+    expect(ids('kf')).toEqual([]);
+  });
+
+  it('requires every word to match', () => {
+    expect(ids('display empty')).toEqual(['model-003']);
+    expect(ids('display wobbler')).toEqual([]);
+  });
+
+  it('ranks name and code matches above other fields', () => {
+    const results = searchIndex(index, 'promotional');
+    expect(results.map((result) => result.model.id)).toEqual(['model-002', 'model-004']);
+    expect(searchIndex(index, 'ed-b')[0].model.id).toBe('model-002');
+  });
+
+  it('returns every model unranked for an empty query', () => {
+    expect(ids('  ')).toEqual(['model-001', 'model-002', 'model-003', 'model-004']);
+  });
+
+  it('highlights matched words in the original text', () => {
+    const [result] = searchIndex(index, 'ke uong');
+    const name = result.matches.find((match) => match.field === 'name')!;
+
+    expect(name.ranges).toEqual([
+      [0, 2],
+      [16, 20],
+    ]);
+    expect(getHighlightSegments(name.text, name.ranges)).toEqual([
+      { text: 'Kệ', highlighted: true },
+      { text: ' trưng bày đồ ', highlighted: false },
+      { text: 'uống', highlighted: true },
+    ]);
+  });
+
+  it('highlights only the typed part of a prefix match', () => {
+    const [result] = searchIndex(index, 'shel');
+    const name = result.matches.find((match) => match.field === 'name')!;
+
+    expect(getHighlightSegments(name.text, name.ranges)[0]).toEqual({ text: 'Shel', highlighted: true });
+  });
+});
+
+describe('getMatchSnippet', () => {
+  it('trims long text around the first highlight and shifts the ranges', () => {
+    const text = `${'a'.repeat(100)} needle ${'b'.repeat(100)}`;
+    const snippet = getMatchSnippet({ field: 'notes', text, ranges: [[101, 107]] }, 30);
+    const [[start, end]] = snippet.ranges;
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.slice(start, end)).toBe('needle');
+  });
+});
@@ -0,0 +1,358 @@
+import type { CatalogueIndex, HighlightRange, ModelSummary, SearchField, SearchMatch, SearchResult } from '@/types';
+
+// How much a match in each field counts towards the score
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  code: 8,
+  posmName: 5,
+  category: 4,
+  material: 3,
+  description: 2,
+  posmDescription: 2,
+  notes: 1,
+};
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: 'Name',
+  code: 'Code',
+  posmName: 'POSM item',
+  category: 'Category',
+  material: 'Material',
+  description: 'Description',
+  posmDescription: 'POSM description',
+  notes: 'Notes',
+};
+
+// Match quality multipliers
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const FUZZY_MATCH = 0.5;
+
+// Letters, digits and the combining marks of decomposed accented letters
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+interface SearchToken {
+  term: string; // Folded form used for matching
+  start: number; // Offsets into the original text
+  end: number;
+}
+
+interface IndexedText {
+  field: SearchField;
+  text: string;
+  tokens: SearchToken[];
+  folded: string; // Whole text folded, for phrases
+  offsets: number[]; // Original offset of each folded character, plus the text length
+}
+
+export interface IndexedModel {
+  model: ModelSummary;
+  texts: IndexedText[];
+}
+
+// Folded search terms, as produced by normalizeSearchText
+export interface SearchTerms {
+  words: string[];
+  phrases: string[];
+}
+
+export interface SearchIndex {
+  models: IndexedModel[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Fold text for matching: lower case, without diacritics
+ * Vietnamese đ has no decomposition and is mapped to d explicitly, so "ke" matches "kệ" and "dung" matches "đựng".
+ * @param text - Text to fold
+ * @returns Folded text
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[đĐ]/g, 'd')
+    .toLowerCase();
+}
+
+/**
+ * Split text into words for matching
+ * @param text - Text as entered
+ * @returns Folded words with their position in the original text
+ */
+export function tokenize(text: string): SearchToken[] {
+  return [...text.matchAll(WORD_PATTERN)].map((match) => ({
+    term: normalizeSearchText(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Fold text, keeping track of where each folded character came from
+ */
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+
+  let position = 0;
+  for (const char of text) {
+    const foldedChar = normalizeSearchText(char);
+    for (let i = 0; i < foldedChar.length; i++) offsets.push(position);
+    folded += foldedChar;
+    position += char.length;
+  }
+  offsets.push(text.length);
+
+  return { folded, offsets };
+}
+
+/**
+ * Build the search index for a catalogue
+ * Covers model name, code, description and category names, and the name,
+ * description, material and notes of every marker (from the index search text).
+ * @param catalogue - Catalogue index
+ * @returns Search index
+ */
+export function buildSearchIndex(catalogue: CatalogueIndex): SearchIndex {
+  const categoryNames = new Map(catalogue.categories.map((category) => [category.id, category.name]));
+
+  return {
+    models: catalogue.models.map((model) => {
+      const fields: [SearchField, string | undefined][] = [
+        ['name', model.name],
+        ['code', model.code],
+        ...model.categoryIds.map((id): [SearchField, string | undefined] => ['category', categoryNames.get(id)]),
+        ...(model.posmNames ?? []).map((name): [SearchField, string] => ['posmName', name]),
+        ...(model.searchText?.materials ?? []).map((material): [SearchField, string] => ['material', material]),
+        ['description', model.searchText?.description],
+        ...(model.searchText?.posmDescriptions ?? []).map((text): [SearchField, string] => ['posmDescription', text]),
+        ...(model.searchText?.notes ?? []).map((text): [SearchField, string] => ['notes', text]),
+      ];
+
+      return {
+        model,
+        texts: fields
+          .filter((entry): entry is [SearchField, string] => Boolean(entry[1]?.trim()))
+          .map(([field, text]) => ({ field, text, tokens: tokenize(text), ...foldWithOffsets(text) })),
+      };
+    }),
+  };
+}
+
+/**
+ * Edit distance with adjacent transpositions (optimal string alignment)
+ * Stops early once the distance is known to exceed the limit.
+ * @returns Distance, or limit + 1 if it is larger than the limit
+ */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + substitution);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Typos tolerated for a query word: none below 4 letters, 1 up to 7, then 2
+ */
+function getAllowedEdits(queryTerm: string): number {
+  if (queryTerm.length < 4) return 0;
+  return queryTerm.length < 8 ? 1 : 2;
+}
+
+/**
+ * How well a query word matches an indexed word
+ * @returns Quality multiplier, or 0 if the words do not match
+ */
+function matchQuality(queryTerm: string, term: string): number {
+  if (term === queryTerm) return EXACT_MATCH;
+  if (term.startsWith(queryTerm)) return PREFIX_MATCH;
+
+  const allowedEdits = getAllowedEdits(queryTerm);
+  if (allowedEdits > 0 && editDistance(queryTerm, term, allowedEdits) <= allowedEdits) return FUZZY_MATCH;
+  return 0;
+}
+
+/**
+ * Sort and merge overlapping highlight ranges
+ */
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  return sorted.reduce<HighlightRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Offset in the original text where the first folded characters of a word end
+ * Accented letters can span several code units, so the folded length is mapped back.
+ */
+function getOriginalOffset(text: string, token: SearchToken, foldedLength: number): number {
+  for (let end = token.start + 1; end <= token.end; end++) {
+    // Combining marks belong to the letter before them
+    if (end < token.end && /\p{M}/u.test(text[end])) continue;
+    if (normalizeSearchText(text.slice(token.start, end)).length >= foldedLength) return end;
+  }
+  return token.end;
+}
+
+/**
+ * Score one model against search terms
+ * Words match single words (exactly, as a prefix or with a typo); phrases
+ * match anywhere in a field. Each term scores its best field match.
+ * @param entry - Indexed model
+ * @param terms - Folded words and phrases
+ * @param requireAll - Reject the model unless every term matches
+ * @returns Result with highlights, or null if a required term does not match
+ */
+export function scoreModel(entry: IndexedModel, terms: SearchTerms, requireAll: boolean): SearchResult | null {
+  const rangesByText = new Map<IndexedText, HighlightRange[]>();
+  const addRange = (indexed: IndexedText, range: HighlightRange) =>
+    rangesByText.set(indexed, [...(rangesByText.get(indexed) ?? []), range]);
+  let score = 0;
+
+  for (const word of terms.words) {
+    let best = 0;
+    entry.texts.forEach((indexed) => {
+      indexed.tokens.forEach((token) => {
+        const quality = matchQuality(word, token.term);
+        if (quality === 0) return;
+
+        best = Math.max(best, quality * SEARCH_FIELD_WEIGHTS[indexed.field]);
+        // Prefix matches only highlight the typed part of the word
+        addRange(indexed, [token.start, quality === PREFIX_MATCH ? getOriginalOffset(indexed.text, token, word.length) : token.end]);
+      });
+    });
+
+    if (best === 0 && requireAll) return null;
+    score += best;
+  }
+
+  for (const phrase of terms.phrases.filter(Boolean)) {
+    let best = 0;
+    entry.texts.forEach((indexed) => {
+      for (let at = indexed.folded.indexOf(phrase); at !== -1; at = indexed.folded.indexOf(phrase, at + phrase.length)) {
+        best = Math.max(best, EXACT_MATCH * SEARCH_FIELD_WEIGHTS[indexed.field]);
+        addRange(indexed, [indexed.offsets[at], indexed.offsets[at + phrase.length]]);
+      }
+    });
+
+    if (best === 0 && requireAll) return null;
+    score += best;
+  }
+
+  const matches = [...rangesByText.entries()]
+    .map(([indexed, ranges]): SearchMatch => ({
+      field: indexed.field,
+      text: indexed.text,
+      ranges: mergeRanges(ranges),
+    }))
+    .sort((a, b) => SEARCH_FIELD_WEIGHTS[b.field] - SEARCH_FIELD_WEIGHTS[a.field]);
+
+  return { model: entry.model, score, matches };
+}
+
+/**
+ * Order search results best first, ties by name
+ * @param results - Results to sort in place
+ * @returns The sorted results
+ */
+export function rankSearchResults(results: SearchResult[]): SearchResult[] {
+  return results.sort((a, b) => b.score - a.score || a.model.name.localeCompare(b.model.name));
+}
+
+/**
+ * Search the index
+ * Every query word must match a word in some field, exactly, as a prefix, or
+ * within a typo or two for longer words. Matches in heavier fields score higher.
+ * @param index - Search index
+ * @param query - Text typed by the user
+ * @returns Matching models, best first (ties by name); every model, unranked, for an empty query
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchResult[] {
+  const words = [...new Set(tokenize(query).map((token) => token.term))];
+  if (words.length === 0) {
+    return index.models.map(({ model }) => ({ model, score: 0, matches: [] }));
+  }
+
+  return rankSearchResults(
+    index.models
+      .map((entry) => scoreModel(entry, { words, phrases: [] }, true))
+      .filter((result): result is SearchResult => result !== null)
+  );
+}
+
+/**
+ * Split text into plain and highlighted runs for rendering
+ * @param text - Text
+ * @param ranges - Highlight ranges, sorted and not overlapping
+ * @returns Segments covering the whole text
+ */
+export function getHighlightSegments(text: string, ranges: HighlightRange[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  ranges.forEach(([start, end]) => {
+    if (start > position) segments.push({ text: text.slice(position, start), highlighted: false });
+    if (end > start) segments.push({ text: text.slice(start, end), highlighted: true });
+    position = Math.max(position, end);
+  });
+  if (position < text.length) segments.push({ text: text.slice(position), highlighted: false });
+
+  return segments;
+}
+
+/**
+ * Shorten a long match to the text around its first highlight
+ * @param match - Search match
+ * @param maxLength - Longest text to keep, before ellipses
+ * @returns Match with trimmed text and shifted ranges
+ */
+export function getMatchSnippet(match: SearchMatch, maxLength: number = 80): SearchMatch {
+  if (match.text.length <= maxLength) return match;
+
+  const first = match.ranges[0]?.[0] ?? 0;
+  const start = Math.max(0, Math.min(first - Math.floor(maxLength / 3), match.text.length - maxLength));
+  const end = start + maxLength;
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < match.text.length ? '…' : '';
+
+  return {
+    ...match,
+    text: `${prefix}${match.text.slice(start, end)}${suffix}`,
+    ranges: match.ranges
+      .filter(([rangeStart]) => rangeStart >= start && rangeStart < end)
+      .map(([rangeStart, rangeEnd]): HighlightRange => [
+        rangeStart - start + prefix.length,
+        Math.min(rangeEnd, end) - start + prefix.length,
+      ]),
+  };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { CatalogueIndex, ProductModel, QueryNode } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import { buildSearchIndex } from '@/utils/search';
+import { evaluateSearchQuery, parseSearchQuery, queryUsesModelData } from '@/utils/searchQuery';
+import catalogueIndex from '../../tests/fixtures/catalogue-index.json';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+import emptyModel from '../../tests/fixtures/empty-model.json';
+
+const catalogue: CatalogueIndex = catalogueIndex;
+const index = buildSearchIndex(catalogue);
+
+const sample = migrateModel(sampleModel).model;
+const models = new Map<string, ProductModel>(
+  [
+    sample,
+    {
+      ...sample,
+      id: 'model-002',
+      metadata: { ...sample.metadata, updatedAt: '2024-12-31T23:00:00Z', author: 'designer@company.com' },
+    },
+    migrateModel(emptyModel).model,
+  ].map((model) => [model.id, model])
+);
+
+const text = (value: string): QueryNode => ({ type: 'text', value, phrase: false });
+const parse = (input: string) => parseSearchQuery(input).query;
+const ids = (input: string, loaded?: ReadonlyMap<string, ProductModel>) => {
+  const { query, error } = parseSearchQuery(input);
+  if (!query) throw new Error(error?.message ?? 'Empty query');
+  return evaluateSearchQuery(query, index, catalogue, loaded).map((result) => result.model.id);
+};
+
+describe('parseSearchQuery', () => {
+  it('binds NOT tighter than AND, and AND tighter than OR', () => {
+    expect(parse('a b OR c')).toEqual({
+      type: 'or',
+      children: [{ type: 'and', children: [text('a'), text('b')] }, text('c')],
+    });
+    expect(parse('NOT a AND b')).toEqual({ type: 'and', children: [{ type: 'not', child: text('a') }, text('b')] });
+    expect(parse('-a OR b')).toEqual({ type: 'or', children: [{ type: 'not', child: text('a') }, text('b')] });
+  });
+
+  it('groups with parentheses', () => {
+    expect(parse('(a OR b) c')).toEqual({
+      type: 'and',
+      children: [{ type: 'or', children: [text('a'), text('b')] }, text('c')],
+    });
+  });
+
+  it('treats lower-case keywords as words', () => {
+    expect(parse('salt or pepper')).toEqual({
+      type: 'and',
+      children: [text('salt'), text('or'), text('pepper')],
+    });
+  });
+
+  it('reads phrases and field filters', () => {
+    expect(parse('"price card" posm>=3 code:"SD A*"')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'text', value: 'price card', phrase: true },
+        { type: 'field', field: 'posm', comparator: '>=', value: '3' },
+        { type: 'field', field: 'code', comparator: ':', value: 'SD A*' },
+      ],
+    });
+  });
+
+  it('returns no query for blank input', () => {
+    expect(parseSearchQuery('   ')).toEqual({ query: null });
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(parseSearchQuery('display OR')).toEqual({
+      query: null,
+      error: { message: 'Expected a search term after OR', start: 8, end: 10 },
+    });
+    expect(parseSearchQuery('(a OR b').error).toEqual({ message: 'Missing closing parenthesis', start: 0, end: 1 });
+    expect(parseSearchQuery('a )').error).toMatchObject({ message: 'Unexpected closing parenthesis', start: 2 });
+    expect(parseSearchQuery('a "open').error).toMatchObject({ message: 'Missing closing quote', start: 2, end: 7 });
+    expect(parseSearchQuery('colour:red').error).toMatchObject({ start: 0, end: 6 });
+    expect(parseSearchQuery('colour:red').error?.message).toMatch(/^Unknown field "colour"/);
+    expect(parseSearchQuery('posm>=many').error?.message).toBe('posm needs a number, e.g. posm>=3');
+    expect(parseSearchQuery('name>b').error?.message).toBe('name can only be matched with : or =');
+    expect(parseSearchQuery('updated>=Oct').error?.message).toBe('updated needs a date as YYYY, YYYY-MM or YYYY-MM-DD');
+    expect(parseSearchQuery('code:').error?.message).toBe('Missing value after code:');
+  });
+});
+
+describe('queryUsesModelData', () => {
+  it('detects fields only known from loaded models', () => {
+    expect(queryUsesModelData(parse('display posm>2')!)).toBe(false);
+    expect(queryUsesModelData(parse('display OR -author:admin')!)).toBe(true);
+  });
+});
+
+describe('evaluateSearchQuery', () => {
+  it('combines free text and field filters', () => {
+    expect(ids('display -empty')).toEqual(['model-002', 'model-001']);
+    expect(ids('display AND posm>=2')).toEqual(['model-002', 'model-001']);
+    expect(ids('empty OR category:promotional')).toEqual(['model-003', 'model-002']);
+    expect(ids('category:"Promotional Materials"')).toEqual(['model-002']);
+  });
+
+  it('matches wildcards and whole values', () => {
+    expect(ids('code:ED-*')).toEqual(['model-002', 'model-003']);
+    expect(ids('code:??-B-*')).toEqual(['model-002']);
+    expect(ids('code=ED')).toEqual([]);
+    expect(ids('code=ed-003')).toEqual(['model-003']);
+  });
+
+  it('compares dates at the precision given', () => {
+    expect(ids('updated:2025', models)).toEqual(['model-001', 'model-003']);
+    expect(ids('updated:2025-10-23', models)).toEqual(['model-001', 'model-003']);
+    expect(ids('updated<2025', models)).toEqual(['model-002']);
+    expect(ids('updated>2025-10', models)).toEqual([]);
+    expect(ids('updated>=2024-12-31', models)).toEqual(['model-001', 'model-002', 'model-003']);
+  });
+
+  it('matches model-only fields only for loaded models', () => {
+    expect(ids('author:designer', models)).toEqual(['model-002']);
+    expect(ids('view:main', models)).toEqual(['model-001', 'model-002', 'model-003']);
+    expect(ids('updated:2025')).toEqual([]);
+  });
+});
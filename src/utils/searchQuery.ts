@@ -0,0 +1,550 @@
+import type {
+  CatalogueIndex,
+  ModelSummary,
+  ParsedQuery,
+  ProductModel,
+  QueryComparator,
+  QueryCompletion,
+  QueryField,
+  QueryNode,
+  QuerySyntaxError,
+  QueryValueSuggestions,
+  SearchResult,
+} from '@/types';
+import {
+  normalizeSearchText,
+  rankSearchResults,
+  scoreModel,
+  tokenize,
+  type IndexedModel,
+  type SearchIndex,
+  type SearchTerms,
+} from '@/utils/search';
+
+interface QueryFieldDefinition {
+  kind: 'text' | 'number' | 'date';
+  description: string;
+  needsModel?: boolean; // Only known once the full model is loaded
+}
+
+export const QUERY_FIELDS: Record<QueryField, QueryFieldDefinition> = {
+  name: { kind: 'text', description: 'Model name' },
+  code: { kind: 'text', description: 'Model code, e.g. code:PSD-*' },
+  category: { kind: 'text', description: 'Category name or ID' },
+  item: { kind: 'text', description: 'POSM item name' },
+  material: { kind: 'text', description: 'POSM material' },
+  description: { kind: 'text', description: 'Model description' },
+  notes: { kind: 'text', description: 'POSM notes' },
+  posm: { kind: 'number', description: 'Number of POSM items, e.g. posm>=3' },
+  views: { kind: 'number', description: 'Number of views' },
+  view: { kind: 'text', description: 'View name', needsModel: true },
+  author: { kind: 'text', description: 'Model author', needsModel: true },
+  updated: { kind: 'date', description: 'Last update, e.g. updated>=2025-01', needsModel: true },
+};
+
+const COMPARATOR_PATTERN = '(>=|<=|:|=|>|<)';
+const FIELD_TERM_PATTERN = new RegExp(`^([a-z]+)${COMPARATOR_PATTERN}([\\s\\S]*)$`, 'i');
+const WORD_BREAK = /[\s()"]/;
+const DATE_VALUE = /^\d{4}(-\d{2}){0,2}$/;
+const KEYWORDS = { AND: 'and', OR: 'or', NOT: 'not' } as const;
+
+type LexToken = { start: number; end: number } & (
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { type: 'text'; value: string; phrase: boolean }
+  | { type: 'field'; field: QueryField; comparator: QueryComparator; value: string }
+);
+
+class QueryParseError extends Error {
+  readonly detail: QuerySyntaxError;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.detail = { message, start, end };
+  }
+}
+
+function isQueryField(name: string): name is QueryField {
+  return Object.prototype.hasOwnProperty.call(QUERY_FIELDS, name);
+}
+
+function isKeyword(word: string): word is keyof typeof KEYWORDS {
+  return Object.prototype.hasOwnProperty.call(KEYWORDS, word);
+}
+
+/**
+ * Read a double-quoted string; backslash escapes the next character
+ * @param start - Offset of the opening quote
+ */
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  let value = '';
+  for (let i = start + 1; i < input.length; i++) {
+    if (input[i] === '\\' && i + 1 < input.length) {
+      value += input[++i];
+    } else if (input[i] === '"') {
+      return { value, end: i + 1 };
+    } else {
+      value += input[i];
+    }
+  }
+  throw new QueryParseError('Missing closing quote', start, input.length);
+}
+
+/**
+ * Check a field value against the kind of field it filters
+ */
+function checkFieldValue(field: QueryField, comparator: QueryComparator, value: string, start: number, end: number): void {
+  const { kind } = QUERY_FIELDS[field];
+  if (kind === 'text' && comparator !== ':' && comparator !== '=') {
+    throw new QueryParseError(`${field} can only be matched with : or =`, start, end);
+  }
+  if (kind === 'number' && !Number.isFinite(Number(value))) {
+    throw new QueryParseError(`${field} needs a number, e.g. ${field}>=3`, start, end);
+  }
+  if (kind === 'date' && !DATE_VALUE.test(value)) {
+    throw new QueryParseError(`${field} needs a date as YYYY, YYYY-MM or YYYY-MM-DD`, start, end);
+  }
+}
+
+/**
+ * Split a query into tokens
+ */
+function lex(input: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+    } else if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      // A leading minus negates the term it is attached to
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const quoted = readQuoted(input, i);
+      tokens.push({ type: 'text', value: quoted.value, phrase: true, start: i, end: quoted.end });
+      i = quoted.end;
+    } else {
+      let end = i;
+      while (end < input.length && !WORD_BREAK.test(input[end])) end++;
+      const word = input.slice(i, end);
+      const fieldTerm = FIELD_TERM_PATTERN.exec(word);
+
+      if (isKeyword(word)) {
+        tokens.push({ type: KEYWORDS[word], start: i, end });
+      } else if (fieldTerm) {
+        const [, name, comparator, rawValue] = fieldTerm;
+        const field = name.toLowerCase();
+        if (!isQueryField(field)) {
+          throw new QueryParseError(
+            `Unknown field "${name}". Fields: ${Object.keys(QUERY_FIELDS).join(', ')}`,
+            i,
+            i + name.length
+          );
+        }
+
+        let value = rawValue;
+        if (!value && input[end] === '"') {
+          const quoted = readQuoted(input, end);
+          value = quoted.value;
+          end = quoted.end;
+        }
+        if (!value) {
+          throw new QueryParseError(`Missing value after ${name}${comparator}`, i, end);
+        }
+
+        checkFieldValue(field, comparator as QueryComparator, value, i, end);
+        tokens.push({ type: 'field', field, comparator: comparator as QueryComparator, value, start: i, end });
+      } else {
+        tokens.push({ type: 'text', value: word, phrase: false, start: i, end });
+      }
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser; NOT binds tighter than AND, which binds tighter than OR
+ */
+function parseTokens(tokens: LexToken[], input: string): QueryNode {
+  let position = 0;
+  const peek = () => tokens[position];
+  const describe = (token: LexToken) => input.slice(token.start, token.end);
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      const last = tokens[tokens.length - 1];
+      throw new QueryParseError(`Expected a search term after ${describe(last)}`, last.start, last.end);
+    }
+
+    position++;
+    switch (token.type) {
+      case 'lparen': {
+        const node = parseOr();
+        if (peek()?.type !== 'rparen') {
+          throw new QueryParseError('Missing closing parenthesis', token.start, token.end);
+        }
+        position++;
+        return node;
+      }
+      case 'text':
+        return { type: 'text', value: token.value, phrase: token.phrase };
+      case 'field':
+        return { type: 'field', field: token.field, comparator: token.comparator, value: token.value };
+      case 'rparen':
+        throw new QueryParseError('Unexpected closing parenthesis', token.start, token.end);
+      default:
+        throw new QueryParseError(`${describe(token)} needs a search term before it`, token.start, token.end);
+    }
+  };
+
+  const parseNot = (): QueryNode => {
+    if (peek()?.type === 'not') {
+      position++;
+      return { type: 'not', child: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseNot()];
+    for (let token = peek(); token && token.type !== 'or' && token.type !== 'rparen'; token = peek()) {
+      if (token.type === 'and') position++;
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const query = parseOr();
+  const extra = peek();
+  if (extra) {
+    throw new QueryParseError('Unexpected closing parenthesis', extra.start, extra.end);
+  }
+  return query;
+}
+
+/**
+ * Parse a search query
+ * Words and "quoted phrases" are free text. field:value filters a field (a *
+ * in the value is a wildcard, = requires the whole value), and number and date
+ * fields also take >, >=, < and <=. Terms are combined with AND (the default
+ * between terms), OR and NOT or a leading -, grouped with parentheses.
+ * @param input - Query as typed
+ * @returns Query tree, or the first syntax error
+ */
+export function parseSearchQuery(input: string): ParsedQuery {
+  try {
+    const tokens = lex(input);
+    return { query: tokens.length > 0 ? parseTokens(tokens, input) : null };
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      return { query: null, error: error.detail };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether a query filters on fields that need the full model data
+ * @param query - Query tree
+ * @returns True if any field is only known from loaded models
+ */
+export function queryUsesModelData(query: QueryNode): boolean {
+  switch (query.type) {
+    case 'field':
+      return QUERY_FIELDS[query.field].needsModel === true;
+    case 'and':
+    case 'or':
+      return query.children.some(queryUsesModelData);
+    case 'not':
+      return queryUsesModelData(query.child);
+    default:
+      return false;
+  }
+}
+
+interface EvaluationContext {
+  categoryNames: Map<string, string>;
+  models?: ReadonlyMap<string, ProductModel>;
+}
+
+/**
+ * Values of a field for one model
+ */
+function getFieldValues(
+  field: QueryField,
+  summary: ModelSummary,
+  context: EvaluationContext
+): (string | number | undefined)[] {
+  const model = context.models?.get(summary.id);
+  switch (field) {
+    case 'name':
+      return [summary.name];
+    case 'code':
+      return [summary.code];
+    case 'category':
+      return summary.categoryIds.flatMap((id) => [id, context.categoryNames.get(id)]);
+    case 'item':
+      return summary.posmNames ?? [];
+    case 'material':
+      return summary.searchText?.materials ?? [];
+    case 'description':
+      return [summary.searchText?.description];
+    case 'notes':
+      return summary.searchText?.notes ?? [];
+    case 'posm':
+      return [summary.posmCount];
+    case 'views':
+      return [summary.viewCount ?? 1];
+    case 'view':
+      return model?.views.map((view) => view.name) ?? [];
+    case 'author':
+      return [model?.metadata.author];
+    case 'updated':
+      return [model?.metadata.updatedAt];
+  }
+}
+
+/**
+ * Compare two numbers or two same-length date prefixes
+ */
+function compareValues<T extends number | string>(actual: T, comparator: QueryComparator, expected: T): boolean {
+  switch (comparator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+/**
+ * Turn a folded value with * and ? wildcards into a whole-text pattern
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a field filter matches a model
+ */
+function matchesField(node: Extract<QueryNode, { type: 'field' }>, summary: ModelSummary, context: EvaluationContext): boolean {
+  const { kind } = QUERY_FIELDS[node.field];
+  const values = getFieldValues(node.field, summary, context);
+
+  if (kind === 'number') {
+    const expected = Number(node.value);
+    return values.some((value) => typeof value === 'number' && compareValues(value, node.comparator, expected));
+  }
+  if (kind === 'date') {
+    // Compare at the precision given, so updated:2025 covers the whole year
+    return values.some(
+      (value) => typeof value === 'string' && compareValues(value.slice(0, node.value.length), node.comparator, node.value)
+    );
+  }
+
+  const pattern = normalizeSearchText(node.value);
+  const wildcard = /[*?]/.test(pattern) ? wildcardToRegExp(pattern) : null;
+  return values.some((value) => {
+    if (typeof value !== 'string' || !value) return false;
+    const folded = normalizeSearchText(value);
+    if (wildcard) return wildcard.test(folded);
+    return node.comparator === '=' ? folded === pattern : folded.includes(pattern);
+  });
+}
+
+/**
+ * Whether a query matches a model
+ */
+function matchesNode(node: QueryNode, entry: IndexedModel, context: EvaluationContext): boolean {
+  switch (node.type) {
+    case 'text': {
+      const terms = getTextTerms(node);
+      return terms.words.length + terms.phrases.length === 0 || scoreModel(entry, terms, true) !== null;
+    }
+    case 'field':
+      return matchesField(node, entry.model, context);
+    case 'and':
+      return node.children.every((child) => matchesNode(child, entry, context));
+    case 'or':
+      return node.children.some((child) => matchesNode(child, entry, context));
+    case 'not':
+      return !matchesNode(node.child, entry, context);
+  }
+}
+
+/**
+ * Search terms of one free-text node
+ */
+function getTextTerms(node: Extract<QueryNode, { type: 'text' }>): SearchTerms {
+  if (node.phrase) {
+    const phrase = normalizeSearchText(node.value).trim();
+    return { words: [], phrases: phrase ? [phrase] : [] };
+  }
+  return { words: tokenize(node.value).map((token) => token.term), phrases: [] };
+}
+
+/**
+ * Free text the results are ranked and highlighted by; negated text is skipped
+ */
+function collectRankingTerms(node: QueryNode, terms: SearchTerms = { words: [], phrases: [] }): SearchTerms {
+  switch (node.type) {
+    case 'text': {
+      const { words, phrases } = getTextTerms(node);
+      terms.words.push(...words.filter((word) => !terms.words.includes(word)));
+      terms.phrases.push(...phrases.filter((phrase) => !terms.phrases.includes(phrase)));
+      break;
+    }
+    case 'and':
+    case 'or':
+      node.children.forEach((child) => collectRankingTerms(child, terms));
+      break;
+  }
+  return terms;
+}
+
+/**
+ * Run a parsed query against the search index
+ * Fields that need full model data only match models present in `models`.
+ * @param query - Query tree
+ * @param index - Search index of the catalogue
+ * @param catalogue - Catalogue index, for category names
+ * @param models - Loaded models by ID
+ * @returns Matching models ranked by their free text, or in catalogue order if the query has none
+ */
+export function evaluateSearchQuery(
+  query: QueryNode,
+  index: SearchIndex,
+  catalogue: CatalogueIndex,
+  models?: ReadonlyMap<string, ProductModel>
+): SearchResult[] {
+  const context: EvaluationContext = {
+    categoryNames: new Map(catalogue.categories.map((category) => [category.id, category.name])),
+    models,
+  };
+  const matching = index.models.filter((entry) => matchesNode(query, entry, context));
+  const terms = collectRankingTerms(query);
+
+  if (terms.words.length + terms.phrases.length === 0) {
+    return matching.map(({ model }) => ({ model, score: 0, matches: [] }));
+  }
+  return rankSearchResults(
+    matching.map((entry) => scoreModel(entry, terms, false) ?? { model: entry.model, score: 0, matches: [] })
+  );
+}
+
+/**
+ * Known values to suggest for each text field
+ * @param catalogue - Catalogue index
+ * @returns Sorted distinct values per field
+ */
+export function getQueryValueSuggestions(catalogue: CatalogueIndex): QueryValueSuggestions {
+  const distinct = (values: (string | undefined)[]) =>
+    [...new Set(values.filter((value): value is string => Boolean(value?.trim())))].sort((a, b) => a.localeCompare(b));
+
+  return {
+    name: distinct(catalogue.models.map((model) => model.name)),
+    code: distinct(catalogue.models.map((model) => model.code)),
+    category: distinct(catalogue.categories.map((category) => category.name)),
+    item: distinct(catalogue.models.flatMap((model) => model.posmNames ?? [])),
+    material: distinct(catalogue.models.flatMap((model) => model.searchText?.materials ?? [])),
+  };
+}
+
+/**
+ * Quote a value when it would not read back as a single term
+ */
+function quoteValue(value: string): string {
+  return /[\s()"]/.test(value) || value.startsWith('-') || isKeyword(value) ? `"${value.replace(/["\\]/g, '\\$&')}"` : value;
+}
+
+/**
+ * Offset of a quote that is still open at the end of the input, or -1
+ */
+function findOpenQuote(input: string): number {
+  let openAt = -1;
+  for (let i = 0; i < input.length; i++) {
+    if (openAt !== -1 && input[i] === '\\') {
+      i++;
+    } else if (input[i] === '"') {
+      openAt = openAt === -1 ? i : -1;
+    }
+  }
+  return openAt;
+}
+
+/**
+ * Completions for the term being typed at the end of a query
+ * Offers field names for a bare word, and known values after field:.
+ * @param input - Query as typed
+ * @param values - Known values per field
+ * @param limit - Most completions to return
+ * @returns Completions, each with the whole query it produces
+ */
+export function getQueryCompletions(input: string, values: QueryValueSuggestions, limit: number = 8): QueryCompletion[] {
+  let field: string;
+  let partial: string;
+  let valueStart: number;
+
+  const openQuote = findOpenQuote(input);
+  if (openQuote !== -1) {
+    // Value typed inside quotes, directly after field:
+    const before = new RegExp(`(?:^|[\\s(])-?([a-z]+)${COMPARATOR_PATTERN}$`, 'i').exec(input.slice(0, openQuote));
+    if (!before) return [];
+    field = before[1];
+    partial = input.slice(openQuote + 1);
+    valueStart = openQuote;
+  } else {
+    const current = /(?:^|[\s(])-?([^\s()"]*)$/.exec(input);
+    const word = current?.[1] ?? '';
+    if (!word) return [];
+
+    const wordStart = input.length - word.length;
+    const fieldTerm = FIELD_TERM_PATTERN.exec(word);
+    if (!fieldTerm) {
+      const prefix = word.toLowerCase();
+      return (Object.keys(QUERY_FIELDS) as QueryField[])
+        .filter((name) => name.startsWith(prefix) && name !== prefix)
+        .slice(0, limit)
+        .map((name) => {
+          const term = `${name}${QUERY_FIELDS[name].kind === 'text' ? ':' : '>='}`;
+          return { label: term, value: `${input.slice(0, wordStart)}${term}`, hint: QUERY_FIELDS[name].description };
+        });
+    }
+
+    field = fieldTerm[1];
+    partial = fieldTerm[3];
+    valueStart = input.length - partial.length;
+  }
+
+  const known = values[field.toLowerCase() as QueryField] ?? [];
+  const folded = normalizeSearchText(partial);
+  return known
+    .filter((value) => normalizeSearchText(value).includes(folded) && value !== partial)
+    .slice(0, limit)
+    .map((value) => ({ label: value, value: `${input.slice(0, valueStart)}${quoteValue(value)} ` }));
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { Store } from '@/types';
+import {
+  countUnits,
+  filterStores,
+  getModelInstallations,
+  getModelUnitTotals,
+  getStoreFieldValues,
+  removeModelFromStores,
+  setStoreAssignment,
+} from '@/utils/stores';
+
+const stores: Store[] = [
+  {
+    code: 'HN-001',
+    name: 'Mart Hoan Kiem',
+    region: 'North',
+    channel: 'Modern trade',
+    address: '1 Trang Tien',
+    models: [{ modelId: 'model-001', quantity: 2 }],
+  },
+  {
+    code: 'HCM-002',
+    name: 'Bach Hoa Quan 3',
+    region: 'Ho Chi Minh City',
+    channel: 'Traditional trade',
+    models: [
+      { modelId: 'model-001', quantity: 5 },
+      { modelId: 'model-002', quantity: 1 },
+    ],
+  },
+  { code: 'HCM-001', name: 'Aeon Tan Phu', region: 'Ho Chi Minh City', channel: 'Modern trade', models: [] },
+];
+
+describe('model installations', () => {
+  it('lists the stores running a model by region and name', () => {
+    const installations = getModelInstallations(stores, 'model-001');
+
+    expect(installations.map(({ store, quantity }) => [store.code, quantity])).toEqual([
+      ['HCM-002', 5],
+      ['HN-001', 2],
+    ]);
+    expect(countUnits(installations)).toBe(7);
+  });
+
+  it('totals units per model', () => {
+    expect(getModelUnitTotals(stores)).toEqual({ 'model-001': 7, 'model-002': 1 });
+  });
+});
+
+describe('setStoreAssignment', () => {
+  const [store] = stores;
+
+  it('updates an assignment in place and rounds the quantity', () => {
+    expect(setStoreAssignment(store, 'model-001', 3.6).models).toEqual([{ modelId: 'model-001', quantity: 4 }]);
+  });
+
+  it('adds and removes assignments', () => {
+    const added = setStoreAssignment(store, 'model-003', 1);
+    expect(added.models.map((assignment) => assignment.modelId)).toEqual(['model-001', 'model-003']);
+    expect(setStoreAssignment(added, 'model-001', 0).models).toEqual([{ modelId: 'model-003', quantity: 1 }]);
+    expect(store.models).toHaveLength(1);
+  });
+});
+
+describe('removeModelFromStores', () => {
+  it('drops the model everywhere and keeps untouched stores as they are', () => {
+    const result = removeModelFromStores(stores, 'model-002');
+
+    expect(result[1].models).toEqual([{ modelId: 'model-001', quantity: 5 }]);
+    expect(result[0]).toBe(stores[0]);
+  });
+});
+
+describe('filterStores', () => {
+  it('matches text in code, name or address, with region and channel filters', () => {
+    const codes = (filters: Parameters<typeof filterStores>[1]) => filterStores(stores, filters).map((store) => store.code);
+
+    expect(codes({})).toEqual(['HCM-001', 'HCM-002', 'HN-001']);
+    expect(codes({ query: 'trang tien' })).toEqual(['HN-001']);
+    expect(codes({ query: 'hcm', channel: 'Modern trade' })).toEqual(['HCM-001']);
+    expect(codes({ region: 'North', query: 'aeon' })).toEqual([]);
+  });
+
+  it('lists distinct field values for the dropdowns', () => {
+    expect(getStoreFieldValues(stores, 'region')).toEqual(['Ho Chi Minh City', 'North']);
+  });
+});
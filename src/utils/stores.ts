@@ -0,0 +1,111 @@
+import type { ModelInstallation, Store } from '@/types';
+
+export interface StoreFilters {
+  query?: string; // Matches code, name or address
+  region?: string;
+  channel?: string;
+}
+
+/**
+ * Stores that run a model, ordered by region then store name
+ * @param stores - All stores
+ * @param modelId - Model ID
+ * @returns Each store with the number of units installed there
+ */
+export function getModelInstallations(stores: Store[], modelId: string): ModelInstallation[] {
+  return stores
+    .flatMap((store) => {
+      const assignment = store.models.find((candidate) => candidate.modelId === modelId);
+      return assignment ? [{ store, quantity: assignment.quantity }] : [];
+    })
+    .sort((a, b) => a.store.region.localeCompare(b.store.region) || a.store.name.localeCompare(b.store.name));
+}
+
+/**
+ * Total units across installations or assignments
+ * @param items - Anything with a quantity
+ * @returns Sum of quantities
+ */
+export function countUnits(items: { quantity: number }[]): number {
+  return items.reduce((total, item) => total + item.quantity, 0);
+}
+
+/**
+ * Units of each model installed across all stores
+ * @param stores - All stores
+ * @returns Model ID -> total units (models in no store are absent)
+ */
+export function getModelUnitTotals(stores: Store[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  stores.forEach((store) =>
+    store.models.forEach(({ modelId, quantity }) => {
+      totals[modelId] = (totals[modelId] ?? 0) + quantity;
+    })
+  );
+  return totals;
+}
+
+/**
+ * Set how many units of a model a store has
+ * @param store - Store to change
+ * @param modelId - Model ID
+ * @param quantity - Units installed; 0 or less removes the assignment
+ * @returns Updated store
+ */
+export function setStoreAssignment(store: Store, modelId: string, quantity: number): Store {
+  const others = store.models.filter((assignment) => assignment.modelId !== modelId);
+  if (quantity <= 0) {
+    return { ...store, models: others };
+  }
+
+  const index = store.models.findIndex((assignment) => assignment.modelId === modelId);
+  const assignment = { modelId, quantity: Math.round(quantity) };
+  return {
+    ...store,
+    models: index === -1 ? [...others, assignment] : store.models.map((existing, i) => (i === index ? assignment : existing)),
+  };
+}
+
+/**
+ * Drop a model from every store, e.g. after the model is deleted
+ * @param stores - All stores
+ * @param modelId - Model ID
+ * @returns Stores without assignments of the model
+ */
+export function removeModelFromStores(stores: Store[], modelId: string): Store[] {
+  return stores.map((store) =>
+    store.models.some((assignment) => assignment.modelId === modelId)
+      ? { ...store, models: store.models.filter((assignment) => assignment.modelId !== modelId) }
+      : store
+  );
+}
+
+/**
+ * Distinct values of a store field, sorted, for filter dropdowns
+ * @param stores - All stores
+ * @param field - 'region' or 'channel'
+ * @returns Sorted distinct values
+ */
+export function getStoreFieldValues(stores: Store[], field: 'region' | 'channel'): string[] {
+  return [...new Set(stores.map((store) => store[field]))].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Filter stores by text, region and channel
+ * @param stores - All stores
+ * @param filters - Filters to apply; empty filters match everything
+ * @returns Matching stores, ordered by region then name
+ */
+export function filterStores(stores: Store[], filters: StoreFilters): Store[] {
+  const query = filters.query?.trim().toLowerCase() ?? '';
+
+  return stores
+    .filter((store) => !filters.region || store.region === filters.region)
+    .filter((store) => !filters.channel || store.channel === filters.channel)
+    .filter(
+      (store) =>
+        !query ||
+        [store.code, store.name, store.address ?? ''].some((value) => value.toLowerCase().includes(query))
+    )
+    .sort((a, b) => a.region.localeCompare(b.region) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { Dimensions, ProductModel } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import {
+  calculateArea,
+  calculateVolume,
+  convertDimensions,
+  convertLength,
+  convertModelDimensions,
+  formatArea,
+  formatDimensions,
+  formatVolume,
+  normalizeLengthUnit,
+  roundLength,
+} from '@/utils/units';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+
+const shelfTalker: Dimensions = { width: 600, height: 400, depth: 5, unit: 'mm' };
+
+describe('normalizeLengthUnit', () => {
+  it('accepts case, plural, British spellings and symbols', () => {
+    expect(normalizeLengthUnit(' CM ')).toBe('cm');
+    expect(normalizeLengthUnit('Metres')).toBe('m');
+    expect(normalizeLengthUnit('in.')).toBe('in');
+    expect(normalizeLengthUnit('"')).toBe('in');
+    expect(normalizeLengthUnit("'")).toBe('ft');
+    expect(normalizeLengthUnit('cubits')).toBeNull();
+  });
+});
+
+describe('convertLength', () => {
+  it('converts through millimetres', () => {
+    expect(convertLength(2.5, 'm', 'cm')).toBe(250);
+    expect(convertLength(1, 'ft', 'in')).toBeCloseTo(12, 10);
+    expect(convertLength(7, 'in', 'in')).toBe(7);
+  });
+
+  it('rounds to the precision of each unit', () => {
+    expect(roundLength(12.345, 'mm')).toBe(12);
+    expect(roundLength(12.345, 'cm')).toBe(12.3);
+    expect(roundLength(1.23456, 'm')).toBe(1.235);
+    expect(roundLength(1.23456, 'in')).toBe(1.23);
+  });
+});
+
+describe('convertDimensions', () => {
+  it('converts every side and keeps missing depth absent', () => {
+    expect(convertDimensions(shelfTalker, 'in')).toEqual({ width: 23.62, height: 15.75, depth: 0.2, unit: 'in' });
+    expect(convertDimensions({ width: 60, height: 40, unit: 'cm' }, 'm')).toEqual({ width: 0.6, height: 0.4, unit: 'm' });
+  });
+
+  it('returns the dimensions as entered for their own unit or original', () => {
+    expect(convertDimensions(shelfTalker, 'mm')).toBe(shelfTalker);
+    expect(convertDimensions(shelfTalker, 'original')).toBe(shelfTalker);
+  });
+});
+
+describe('area and volume', () => {
+  it('measures in the requested unit', () => {
+    expect(calculateArea(shelfTalker, 'm')).toBeCloseTo(0.24, 10);
+    expect(calculateVolume(shelfTalker, 'cm')).toBeCloseTo(1200, 6);
+    expect(calculateVolume({ width: 1, height: 1, unit: 'm' })).toBeNull();
+  });
+
+  it('formats with thousands separators and unit symbols', () => {
+    expect(formatDimensions(shelfTalker)).toBe('600 × 400 × 5 mm');
+    expect(formatDimensions(shelfTalker, 'cm')).toBe('60 × 40 × 0.5 cm');
+    expect(formatArea(shelfTalker, 'cm')).toBe('2,400 cm²');
+    expect(formatArea(shelfTalker, 'm')).toBe('0.24 m²');
+    expect(formatVolume(shelfTalker)).toBe('1,200,000 mm³');
+    expect(formatVolume({ width: 1, height: 1, unit: 'm' })).toBeNull();
+  });
+});
+
+describe('convertModelDimensions', () => {
+  it('converts markers with dimensions and leaves the rest alone', () => {
+    const sample = migrateModel(sampleModel).model;
+    const [view] = sample.views;
+    const model: ProductModel = {
+      ...sample,
+      views: [
+        {
+          ...view,
+          posmMarkers: view.posmMarkers.map((marker, index) =>
+            index === 0 ? { ...marker, info: { ...marker.info, dimensions: shelfTalker } } : marker
+          ),
+        },
+      ],
+    };
+
+    const converted = convertModelDimensions(model, 'cm');
+    const [first, second] = converted.views[0].posmMarkers;
+
+    expect(first.info.dimensions).toEqual({ width: 60, height: 40, depth: 0.5, unit: 'cm' });
+    expect(second).toBe(model.views[0].posmMarkers[1]);
+    expect(convertModelDimensions(model, 'original')).toBe(model);
+  });
+});
@@ -0,0 +1,187 @@
+import type { Dimensions, DisplayUnit, LengthUnit, ProductModel } from '@/types';
+
+export const LENGTH_UNITS: readonly LengthUnit[] = ['mm', 'cm', 'm', 'in', 'ft'];
+
+export const LENGTH_UNIT_LABELS: Record<LengthUnit, string> = {
+  mm: 'Millimetres (mm)',
+  cm: 'Centimetres (cm)',
+  m: 'Metres (m)',
+  in: 'Inches (in)',
+  ft: 'Feet (ft)',
+};
+
+const MM_PER_UNIT: Record<LengthUnit, number> = { mm: 1, cm: 10, m: 1000, in: 25.4, ft: 304.8 };
+
+// Decimal places lengths are rounded to, per unit
+const LENGTH_DECIMALS: Record<LengthUnit, number> = { mm: 0, cm: 1, m: 3, in: 2, ft: 2 };
+
+// Spellings found in hand-written data files, matched after lower-casing
+const UNIT_ALIASES: Record<string, LengthUnit> = {
+  millimeter: 'mm',
+  millimeters: 'mm',
+  millimetre: 'mm',
+  millimetres: 'mm',
+  centimeter: 'cm',
+  centimeters: 'cm',
+  centimetre: 'cm',
+  centimetres: 'cm',
+  meter: 'm',
+  meters: 'm',
+  metre: 'm',
+  metres: 'm',
+  inch: 'in',
+  inches: 'in',
+  '"': 'in',
+  foot: 'ft',
+  feet: 'ft',
+  "'": 'ft',
+};
+
+/**
+ * Check whether a value is a supported length unit
+ * @param value - Value to check
+ * @returns True for mm, cm, m, in or ft
+ */
+export function isLengthUnit(value: unknown): value is LengthUnit {
+  return typeof value === 'string' && (LENGTH_UNITS as readonly string[]).includes(value);
+}
+
+/**
+ * Normalise a typed length unit, e.g. "CM", "inches" or "metre"
+ * @param unit - Unit as entered
+ * @returns Supported unit, or null if the unit is not recognised
+ */
+export function normalizeLengthUnit(unit: string): LengthUnit | null {
+  const key = unit.trim().toLowerCase().replace(/\.$/, '');
+  if (isLengthUnit(key)) return key;
+  return UNIT_ALIASES[key] ?? null;
+}
+
+/**
+ * Convert a length between units
+ * @param value - Length
+ * @param from - Unit of the value
+ * @param to - Target unit
+ * @returns Length in the target unit (not rounded)
+ */
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+  return from === to ? value : (value * MM_PER_UNIT[from]) / MM_PER_UNIT[to];
+}
+
+/**
+ * Round a length for display or export
+ * @param value - Length
+ * @param unit - Unit of the value, which sets the precision (e.g. 1 decimal for cm)
+ * @returns Rounded length
+ */
+export function roundLength(value: number, unit: LengthUnit): number {
+  const factor = 10 ** LENGTH_DECIMALS[unit];
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Convert dimensions to another unit, rounded to that unit's precision
+ * @param dimensions - Dimensions
+ * @param unit - Target unit; 'original' keeps them as entered
+ * @returns Converted dimensions
+ */
+export function convertDimensions(dimensions: Dimensions, unit: DisplayUnit): Dimensions {
+  if (unit === 'original' || unit === dimensions.unit) return dimensions;
+
+  const convert = (value: number) => roundLength(convertLength(value, dimensions.unit, unit), unit);
+  return {
+    width: convert(dimensions.width),
+    height: convert(dimensions.height),
+    ...(dimensions.depth !== undefined ? { depth: convert(dimensions.depth) } : {}),
+    unit,
+  };
+}
+
+/**
+ * Face area (width × height)
+ * @param dimensions - Dimensions
+ * @param unit - Unit the area is measured in (default: the dimensions' unit)
+ * @returns Area in square units
+ */
+export function calculateArea(dimensions: Dimensions, unit: LengthUnit = dimensions.unit): number {
+  return (
+    convertLength(dimensions.width, dimensions.unit, unit) * convertLength(dimensions.height, dimensions.unit, unit)
+  );
+}
+
+/**
+ * Volume (width × height × depth)
+ * @param dimensions - Dimensions
+ * @param unit - Unit the volume is measured in (default: the dimensions' unit)
+ * @returns Volume in cubic units, or null without a depth
+ */
+export function calculateVolume(dimensions: Dimensions, unit: LengthUnit = dimensions.unit): number | null {
+  if (dimensions.depth === undefined) return null;
+  return calculateArea(dimensions, unit) * convertLength(dimensions.depth, dimensions.unit, unit);
+}
+
+/**
+ * Format a number with up to a given number of decimals and thousands separators
+ */
+function formatNumber(value: number, maximumFractionDigits: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits });
+}
+
+/**
+ * Format dimensions, e.g. "120 × 30 × 5 cm"
+ * @param dimensions - Dimensions
+ * @param unit - Unit to show them in (default: as entered)
+ * @returns Formatted dimensions
+ */
+export function formatDimensions(dimensions: Dimensions, unit: DisplayUnit = 'original'): string {
+  const converted = convertDimensions(dimensions, unit);
+  const sizes = [converted.width, converted.height, converted.depth].filter(
+    (value): value is number => value !== undefined
+  );
+  return `${sizes.join(' × ')} ${converted.unit}`;
+}
+
+/**
+ * Format a face area, e.g. "3,600 cm²"
+ * @param dimensions - Dimensions
+ * @param unit - Unit to measure in (default: as entered)
+ * @returns Formatted area
+ */
+export function formatArea(dimensions: Dimensions, unit: DisplayUnit = 'original'): string {
+  const target = unit === 'original' ? dimensions.unit : unit;
+  return `${formatNumber(calculateArea(dimensions, target), LENGTH_DECIMALS[target] * 2)} ${target}²`;
+}
+
+/**
+ * Format a volume, e.g. "18,000 cm³"
+ * @param dimensions - Dimensions
+ * @param unit - Unit to measure in (default: as entered)
+ * @returns Formatted volume, or null without a depth
+ */
+export function formatVolume(dimensions: Dimensions, unit: DisplayUnit = 'original'): string | null {
+  const target = unit === 'original' ? dimensions.unit : unit;
+  const volume = calculateVolume(dimensions, target);
+  return volume === null ? null : `${formatNumber(volume, LENGTH_DECIMALS[target] * 3)} ${target}³`;
+}
+
+/**
+ * Convert the dimensions of every marker in a model, e.g. before an export
+ * @param model - Model
+ * @param unit - Target unit; 'original' returns the model unchanged
+ * @returns Model with converted marker dimensions
+ */
+export function convertModelDimensions(model: ProductModel, unit: DisplayUnit): ProductModel {
+  if (unit === 'original') return model;
+
+  return {
+    ...model,
+    views: model.views.map((view) => ({
+      ...view,
+      posmMarkers: view.posmMarkers.map((marker) =>
+        marker.info.dimensions
+          ? { ...marker, info: { ...marker.info, dimensions: convertDimensions(marker.info.dimensions, unit) } }
+          : marker
+      ),
+    })),
+  };
+}
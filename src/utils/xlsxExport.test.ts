@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductModel } from '@/types';
+import { migrateModel } from '@/services/migrationService';
+import { createExportData } from '@/utils/jsonExport';
+import { generateXLSX, readWorkbook } from '@/utils/xlsxExport';
+import catalogueIndex from '../../tests/fixtures/catalogue-index.json';
+import sampleModel from '../../tests/fixtures/sample-model.json';
+import emptyModel from '../../tests/fixtures/empty-model.json';
+
+const models: ProductModel[] = [sampleModel, emptyModel].map((data) => migrateModel(data).model);
+
+const excelDate = (iso: string) => Date.parse(iso) / (24 * 60 * 60 * 1000) + 25569;
+
+describe('generateXLSX', () => {
+  const data = createExportData(models, catalogueIndex.categories, 'full', 'Fixture export');
+  const sheets = readWorkbook(generateXLSX(data));
+  const sheet = (name: string) => sheets.find((entry) => entry.name === name)!;
+
+  it('writes the summary, models, markers and categories sheets', () => {
+    expect(sheets.map((entry) => entry.name)).toEqual(['Summary', 'Models', 'POSM Markers', 'Categories']);
+  });
+
+  it('writes counts as number cells and timestamps as date serials', () => {
+    const summary = sheet('Summary').rows;
+    expect(summary).toContainEqual(['Exported At', excelDate(data.exportedAt)]);
+    expect(summary).toContainEqual(['Total Models', 2]);
+    expect(summary).toContainEqual(['Total Markers', 3]);
+
+    const [header, first, second] = sheet('Models').rows;
+    const column = (name: string) => header.indexOf(name);
+    expect(first[column('Model ID')]).toBe('model-001');
+    expect(first[column('Views')]).toBe(1);
+    expect(first[column('Markers')]).toBe(3);
+    expect(first[column('Created')]).toBe(excelDate('2025-10-20T14:00:00Z'));
+    expect(first[column('Updated')]).toBe(excelDate('2025-10-23T10:30:00Z'));
+    expect(second[column('Markers')]).toBe(0);
+  });
+
+  it('writes one row per marker', () => {
+    const [header, ...rows] = sheet('POSM Markers').rows;
+    expect(rows).toHaveLength(3);
+    expect(rows.map((row) => row[header.indexOf('Marker ID')])).toEqual(['marker-001', 'marker-002', 'marker-003']);
+  });
+
+  it('freezes the header row and filters every sheet', () => {
+    sheets.forEach((entry) => expect(entry.frozenRows).toBe(1));
+    expect(sheet('Models').autoFilter).toBe('A1:K3');
+    expect(sheet('Categories').autoFilter).toBe('A1:D3');
+    expect(sheet('Categories').rows.slice(1)).toEqual([
+      ['retail-fixtures', 'Retail Fixtures', 'Point-of-sale display fixtures and shelving', 2],
+      ['promotional', 'Promotional Materials', 'Temporary promotional displays and signage', 0],
+    ]);
+  });
+});
@@ -0,0 +1,454 @@
+import type { BillOfMaterials, DisplayUnit, ExportData, PriceTable } from '@/types';
+import {
+  CSV_COLUMNS,
+  describeExportSelection,
+  getBomHeaders,
+  getBomLineValues,
+  getCsvColumns,
+  getCsvHeader,
+  roundArea,
+} from '@/utils/jsonExport';
+import type { CsvColumnContext } from '@/utils/jsonExport';
+import { countModelMarkers, getModelMarkers } from '@/utils/modelViews';
+import { createZip, readZip } from '@/utils/zip';
+import { convertModelDimensions } from '@/utils/units';
+import { estimateModelCost, roundCost } from '@/utils/costs';
+
+/**
+ * Minimal XLSX (Office Open XML) workbook writer
+ *
+ * Produces typed cells (numbers, booleans, dates), bold frozen header rows and
+ * autofilters. Strings are written inline, so no shared string table is needed.
+ * Runs client-side and in Node: the output is a plain byte array.
+ */
+
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+export interface WorksheetColumn {
+  header: string;
+  width?: number; // Character widths
+}
+
+export interface WorksheetData {
+  name: string;
+  columns: WorksheetColumn[];
+  rows: CellValue[][];
+}
+
+export interface ReadWorksheet {
+  name: string;
+  rows: (string | number | boolean | null)[][];
+  frozenRows: number; // Rows frozen above the scroll area
+  autoFilter?: string; // Filtered range, e.g. "A1:D5"
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const STYLE_DEFAULT = 0;
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const EXCEL_EPOCH_OFFSET = 25569; // Days from 1899-12-30 to 1970-01-01
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '') // Not allowed in XML 1.0
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert a zero-based column index to letters (0 -> A, 26 -> AA)
+ */
+function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Convert a date to an Excel serial date (UTC)
+ */
+function toExcelDate(date: Date): number {
+  return date.getTime() / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+}
+
+function renderCell(value: CellValue, ref: string, style: number = STYLE_DEFAULT): string {
+  const styleAttr = style !== STYLE_DEFAULT ? ` s="${style}"` : '';
+
+  if (value === null || value === undefined || value === '') {
+    return style !== STYLE_DEFAULT ? `<c r="${ref}"${styleAttr}/>` : '';
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? ''
+      : `<c r="${ref}" s="${STYLE_DATE}"><v>${toExcelDate(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"${styleAttr}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${styleAttr} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function renderWorksheet(sheet: WorksheetData): string {
+  const lastColumn = columnLetter(Math.max(sheet.columns.length - 1, 0));
+  const lastRow = sheet.rows.length + 1;
+
+  const cols = sheet.columns
+    .map((column, index) => {
+      const width = column.width ?? Math.min(Math.max(column.header.length + 2, 10), 60);
+      return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+    })
+    .join('');
+
+  const header = `<row r="1">${sheet.columns
+    .map((column, index) => renderCell(column.header, `${columnLetter(index)}1`, STYLE_HEADER))
+    .join('')}</row>`;
+
+  const body = sheet.rows
+    .map((row, rowIndex) => {
+      const r = rowIndex + 2;
+      return `<row r="${r}">${row.map((value, index) => renderCell(value, `${columnLetter(index)}${r}`)).join('')}</row>`;
+    })
+    .join('');
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>' +
+    '</sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${header}${body}</sheetData>` +
+    `<autoFilter ref="A1:${lastColumn}${lastRow}"/>` +
+    '</worksheet>'
+  );
+}
+
+/**
+ * Make a name valid for an Excel sheet (max 31 chars, no []:*?/\)
+ */
+function sanitizeSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, ' ').trim().substring(0, 31) || 'Sheet';
+}
+
+/**
+ * Build an XLSX workbook
+ * @param sheets - Worksheets in tab order
+ * @returns XLSX file bytes
+ */
+export function createWorkbook(sheets: WorksheetData[]): Uint8Array<ArrayBuffer> {
+  if (sheets.length === 0) {
+    throw new Error('A workbook needs at least one sheet');
+  }
+
+  const names = sheets.map((sheet) => sanitizeSheetName(sheet.name));
+  const now = new Date();
+
+  const contentTypes =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets
+      .map(
+        (_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join('') +
+    '</Types>';
+
+  const rootRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+  const workbook =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets>${names
+      .map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+      .join('')}</sheets>` +
+    `<definedNames>${sheets
+      .map((sheet, index) => {
+        const lastColumn = columnLetter(Math.max(sheet.columns.length - 1, 0));
+        const quoted = `'${escapeXml(names[index].replace(/'/g, "''"))}'`;
+        return `<definedName name="_xlnm._FilterDatabase" localSheetId="${index}" hidden="1">${quoted}!$A$1:$${lastColumn}$${sheet.rows.length + 1}</definedName>`;
+      })
+      .join('')}</definedNames>` +
+    '</workbook>';
+
+  const workbookRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheets
+      .map(
+        (_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      )
+      .join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  // Style indexes must match STYLE_DEFAULT, STYLE_HEADER and STYLE_DATE
+  const styles =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="3">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '</cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes, modifiedAt: now },
+    { name: '_rels/.rels', data: rootRels, modifiedAt: now },
+    { name: 'xl/workbook.xml', data: workbook, modifiedAt: now },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels, modifiedAt: now },
+    { name: 'xl/styles.xml', data: styles, modifiedAt: now },
+    ...sheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      data: renderWorksheet(sheet),
+      modifiedAt: now,
+    })),
+  ]);
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read back a workbook written by createWorkbook
+ * Only understands the subset of XLSX this module writes (inline strings, no
+ * shared strings). Date cells are returned as their Excel serial numbers.
+ * @param file - XLSX file bytes
+ * @returns Sheets with their header and data rows, frozen rows and autofilter range
+ */
+export function readWorkbook(file: Uint8Array): ReadWorksheet[] {
+  const entries = readZip(file);
+  const decoder = new TextDecoder();
+  const read = (name: string) => {
+    const entry = entries.get(name);
+    if (!entry) throw new Error(`Workbook part missing: ${name}`);
+    return decoder.decode(entry);
+  };
+
+  const sheetNames = [...read('xl/workbook.xml').matchAll(/<sheet name="([^"]*)"/g)].map((match) =>
+    unescapeXml(match[1])
+  );
+
+  return sheetNames.map((name, index) => {
+    const xml = read(`xl/worksheets/sheet${index + 1}.xml`);
+    const rows = [...xml.matchAll(/<row r="\d+">(.*?)<\/row>/g)].map((rowMatch) => {
+      const row: (string | number | boolean | null)[] = [];
+      for (const cell of rowMatch[1].matchAll(/<c r="([A-Z]+)\d+"([^>]*?)(?:\/>|>(.*?)<\/c>)/g)) {
+        const column = [...cell[1]].reduce((acc, char) => acc * 26 + char.charCodeAt(0) - 64, 0) - 1;
+        const attributes = cell[2];
+        const content = cell[3] ?? '';
+        while (row.length < column) row.push(null);
+
+        if (attributes.includes('t="inlineStr"')) {
+          row[column] = unescapeXml(/<t[^>]*>(.*?)<\/t>/s.exec(content)?.[1] ?? '');
+        } else if (attributes.includes('t="b"')) {
+          row[column] = /<v>1<\/v>/.test(content);
+        } else {
+          const value = /<v>(.*?)<\/v>/.exec(content)?.[1];
+          row[column] = value === undefined ? null : Number(value);
+        }
+      }
+      return row;
+    });
+    const frozen = /<pane [^>]*ySplit="(\d+)"[^>]*state="frozen"/.exec(xml);
+    const autoFilter = /<autoFilter ref="([^"]+)"/.exec(xml);
+    return {
+      name,
+      rows,
+      frozenRows: frozen ? Number(frozen[1]) : 0,
+      ...(autoFilter ? { autoFilter: autoFilter[1] } : {}),
+    };
+  });
+}
+
+/**
+ * Parse ISO 8601 timestamps into dates so they become typed date cells
+ */
+function toDate(value: string | undefined): Date | undefined {
+  return value && ISO_DATETIME.test(value) ? new Date(value) : undefined;
+}
+
+/**
+ * Build the catalogue export workbook
+ * Sheets: Summary (from ExportMetadata), Models, POSM Markers and Categories.
+ * @param data - Export data
+ * @param unit - Unit marker dimensions are converted to (default: as entered)
+ * @param priceTable - Price table for the estimated cost columns
+ * @returns XLSX file bytes
+ */
+export function generateXLSX(
+  data: ExportData,
+  unit: DisplayUnit = 'original',
+  priceTable?: PriceTable
+): Uint8Array<ArrayBuffer> {
+  const categoryNames = new Map(data.categories.map((category) => [category.id, category.name]));
+  const context: CsvColumnContext = { categoryNames, priceTable };
+  const markerColumns = getCsvColumns('marker').filter((column) => priceTable || column !== 'estimatedCost');
+  const modelCosts = priceTable ? data.models.map((model) => estimateModelCost(model, priceTable).total) : null;
+  const costHeader = getCsvHeader('estimatedCost', priceTable);
+
+  const summary: WorksheetData = {
+    name: 'Summary',
+    columns: [{ header: 'Field', width: 18 }, { header: 'Value', width: 40 }],
+    rows: [
+      ['Exported At', toDate(data.exportedAt) ?? data.exportedAt],
+      ['Export Type', data.exportType],
+      ['Format Version', data.version],
+      ['Total Models', data.metadata.totalModels],
+      ['Total Markers', data.metadata.totalMarkers],
+      ['Total Categories', data.categories.length],
+      ['Selection', data.metadata.selection && describeExportSelection(data.metadata.selection, data.categories)],
+      ['Exported By', data.metadata.exportedBy],
+      ['Notes', data.metadata.notes],
+      ...(modelCosts ? [[costHeader, roundCost(modelCosts.reduce((total, cost) => total + cost, 0))]] : []),
+    ],
+  };
+
+  const models: WorksheetData = {
+    name: 'Models',
+    columns: [
+      { header: 'Model ID', width: 16 },
+      { header: 'Code', width: 14 },
+      { header: 'Name', width: 32 },
+      { header: 'Description', width: 48 },
+      { header: 'Categories', width: 28 },
+      { header: 'Views' },
+      { header: 'Markers' },
+      { header: 'Version' },
+      { header: 'Author', width: 18 },
+      { header: 'Created', width: 20 },
+      { header: 'Updated', width: 20 },
+      ...(modelCosts ? [{ header: costHeader, width: 20 }] : []),
+    ],
+    rows: data.models.map((model, index) => [
+      model.id,
+      model.code,
+      model.name,
+      model.description,
+      model.categoryIds.map((id) => categoryNames.get(id) ?? id).join('; '),
+      model.views.length,
+      countModelMarkers(model),
+      model.metadata.version,
+      model.metadata.author,
+      toDate(model.metadata.createdAt),
+      toDate(model.metadata.updatedAt),
+      ...(modelCosts ? [roundCost(modelCosts[index])] : []),
+    ]),
+  };
+
+  const markers: WorksheetData = {
+    name: 'POSM Markers',
+    columns: markerColumns.map((column) => ({ header: getCsvHeader(column, priceTable) })),
+    rows: data.models.map((model) => convertModelDimensions(model, unit)).flatMap((model) =>
+      getModelMarkers(model).map((marker) =>
+        markerColumns.map((column) => CSV_COLUMNS[column].value(model, marker, context) as CellValue)
+      )
+    ),
+  };
+
+  const categories: WorksheetData = {
+    name: 'Categories',
+    columns: [
+      { header: 'Category ID', width: 18 },
+      { header: 'Name', width: 24 },
+      { header: 'Description', width: 48 },
+      { header: 'Models' },
+    ],
+    rows: data.categories.map((category) => [
+      category.id,
+      category.name,
+      category.description,
+      data.models.filter((model) => model.categoryIds.includes(category.id)).length,
+    ]),
+  };
+
+  return createWorkbook([summary, models, markers, categories]);
+}
+
+/**
+ * Build the bill of materials workbook
+ * Sheets: Summary (totals), Materials (one row per material and size) and
+ * Artworks (quantity needed of each artwork file).
+ * @param bill - Bill of materials
+ * @returns XLSX file bytes
+ */
+export function generateBomXLSX(bill: BillOfMaterials): Uint8Array<ArrayBuffer> {
+  const summary: WorksheetData = {
+    name: 'Summary',
+    columns: [{ header: 'Field', width: 24 }, { header: 'Value', width: 24 }],
+    rows: [
+      ['Generated At', new Date()],
+      ['Models', bill.modelCount],
+      ['Quantities', bill.multipliedByStores ? 'Per store assignments' : 'One set per model'],
+      ['Material Lines', bill.lines.length],
+      ['Total Items', bill.totalQuantity],
+      ['Size Unit', bill.unit],
+      ['Total Print Area (m²)', roundArea(bill.totalAreaM2)],
+      ...(bill.estimatedCost !== null
+        ? [[`Estimated Cost (${bill.currency})`, roundCost(bill.estimatedCost)]]
+        : []),
+      ['Artworks', bill.artworks.length],
+    ],
+  };
+
+  const materials: WorksheetData = {
+    name: 'Materials',
+    columns: getBomHeaders(bill).map((header) => ({
+      header,
+      width: header === 'Material' || header === 'POSM Items' || header === 'Artworks' ? 32 : undefined,
+    })),
+    rows: bill.lines.map((line) => getBomLineValues(line, bill.estimatedCost !== null)),
+  };
+
+  const artworks: WorksheetData = {
+    name: 'Artworks',
+    columns: [
+      { header: 'Artwork URL', width: 48 },
+      { header: 'Quantity' },
+      { header: 'POSM Items', width: 32 },
+      { header: 'Models', width: 24 },
+    ],
+    rows: bill.artworks.map((artwork) => [
+      artwork.artworkUrl,
+      artwork.quantity,
+      artwork.markerNames.join('; '),
+      artwork.modelIds.join('; '),
+    ]),
+  };
+
+  return createWorkbook([summary, materials, artworks]);
+}
@@ -10,6 +10,12 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  server: {
+    // Local catalogue data server (npm run server)
+    proxy: {
+      '/api': 'http://localhost:4000',
+    },
+  },
   // @ts-expect-error - vitest config
   test: {
     globals: true,